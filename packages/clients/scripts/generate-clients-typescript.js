@@ -18,11 +18,16 @@
  *   {out}/
  *     index.ts                  # Re-exports all domains and annotations
  *     search-helpers.ts         # Query string builder utilities
+ *     pagination.ts             # paginate() async iterator over list endpoints
+ *     query-validation.ts       # validateQuery() diagnostics for q strings
+ *     search-state.ts           # Search state to and from URL query parameters
+ *     global-search.ts          # Typed cross-resource search and facet helpers
  *     annotations.ts            # Typed annotation exports (if annotation files found)
  *     persons/
  *       index.ts                # SDK functions + types
  *       sdk.gen.ts              # getPerson, createPerson, etc.
  *       types.gen.ts            # TypeScript interfaces
+ *       search.gen.ts           # Typed search and sort builders, field schemas (personSearchFields)
  *       zod.gen.ts              # Zod schemas for validation
  *       client/                 # HTTP client utilities
  *     applications/
@@ -36,12 +41,41 @@ import { readFileSync, writeFileSync, mkdirSync, rmSync, existsSync, readdirSync
 import { join, dirname, resolve as resolvePath } from 'path';
 import { fileURLToPath } from 'url';
 import yaml from 'js-yaml';
+import $RefParser from '@apidevtools/json-schema-ref-parser';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const clientsRoot = join(__dirname, '..');
 const utilityDIr = join(clientsRoot, 'utility');
 
+/**
+ * Value and type exports index.ts re-exports from each utility module.
+ */
+const HELPER_EXPORTS = {
+  'search-helpers.js': {
+    values: ['q', 'search', 'parseQuery', 'stringify', 'conditionTokenType', 'isQueryGroup', 'escapeValue', 'escapeTerm', 'quoteValue', 'sort'],
+    types: ['QueryAst', 'QueryCondition', 'QueryGroup', 'QueryNode', 'QueryOperator', 'QueryTokenType', 'WildcardKind', 'TypedSearch', 'FieldPath', 'SortTerm', 'TypedSort', 'DateInput', 'Duration', 'RelativeRange', 'TimeOffset', 'TimeToken'],
+  },
+  'pagination.js': {
+    values: ['paginate', 'PaginationError', 'MAX_PAGE_SIZE'],
+    types: ['Paginator', 'PaginateOptions', 'PageRequest', 'ListPage', 'ListResponse'],
+  },
+  'query-validation.js': {
+    values: ['validateQuery'],
+    types: ['QueryDiagnostic', 'QueryDiagnosticCode', 'ResourceSearchSchema', 'SearchFieldType'],
+  },
+  'search-state.js': {
+    values: ['toURLSearchParams', 'fromURLSearchParams', 'SEARCH_STATE_VERSION', 'DEFAULT_SEARCH_STATE'],
+    types: ['SearchState', 'SearchStateOptions', 'ToURLSearchParamsOptions'],
+  },
+  'global-search.js': {
+    values: ['createGlobalSearch', 'refineByFacet', 'GlobalSearchError', 'SEARCH_RESULT_TYPES'],
+    types: ['GlobalSearch', 'GlobalSearchRequest', 'GlobalSearchResponse', 'SearchResult', 'TypedSearchResult', 'SearchResultType', 'SearchResultAttribute', 'SearchFacets', 'SearchResultList', 'SearchOperationOptions'],
+  },
+};
+
+const UTILITY_FILES = ['search-helpers.ts', 'pagination.ts', 'query-validation.ts', 'search-state.ts', 'global-search.ts'];
+
 /**
  * Parse command line arguments
  */
@@ -84,11 +118,16 @@ Output structure:
   {out}/
     index.ts                  # Re-exports all domains and annotations
     search-helpers.ts         # Query string builder utilities
+    pagination.ts             # paginate() async iterator over list endpoints
+    query-validation.ts       # validateQuery() diagnostics for q strings
+    search-state.ts           # Search state to and from URL query parameters
+    global-search.ts          # Typed cross-resource search and facet helpers
     annotations.ts            # Typed annotation exports (when annotation files are present)
     persons/
       index.ts                # SDK functions + types
       sdk.gen.ts              # getPerson, createPerson, etc.
       types.gen.ts            # TypeScript interfaces
+      search.gen.ts           # Typed search and sort builders, field schemas (personSearchFields)
       zod.gen.ts              # Zod schemas for validation
       client/                 # HTTP client utilities
     applications/
@@ -158,6 +197,18 @@ export default {
   return config;
 }
 
+/**
+ * Convert a kebab-case domain name to the camelCase namespace exported from
+ * index.ts, suffixed with `Api` when it would collide with a helper export.
+ * e.g. 'intake' → 'intake', 'case-management' → 'caseManagement', 'search' → 'searchApi'
+ * @param {string} domain
+ * @param {Set<string>} reservedNames - Names index.ts already exports
+ */
+function domainToExportName(domain, reservedNames) {
+  const name = domain.replace(/-([a-z0-9])/g, (_, c) => c.toUpperCase());
+  return reservedNames.has(name) ? `${name}Api` : name;
+}
+
 /**
  * Convert a kebab-case domain name to a PascalCase export name.
  * e.g. 'intake' → 'IntakeAnnotations', 'case-management' → 'CaseManagementAnnotations'
@@ -322,6 +373,367 @@ function patchZodGenForNullable(zodGenPath, nullableFields) {
   if (patched) writeFileSync(zodGenPath, lines.join('\n'));
 }
 
+/**
+ * Maximum property depth walked for date fields. Matches the depth of the
+ * `FieldPath` type in search-helpers.ts so every emitted path is a valid field.
+ */
+const SEARCH_FIELD_DEPTH = 6;
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Name of the local component schema a `$ref` points at, or null.
+ * @param {unknown} ref
+ */
+function localSchemaName(ref) {
+  return typeof ref === 'string' && ref.startsWith(SCHEMA_REF_PREFIX)
+    ? ref.slice(SCHEMA_REF_PREFIX.length)
+    : null;
+}
+
+/**
+ * Find the item schema name of a paginated list schema — the `$ref` under
+ * `items: { type: array, items: ... }`, either directly or inside allOf.
+ * @param {object} listSchema
+ * @returns {string|null}
+ */
+function listItemSchemaName(listSchema) {
+  if (!listSchema || typeof listSchema !== 'object') return null;
+  const direct = localSchemaName(listSchema.properties?.items?.items?.$ref);
+  if (direct) return direct;
+  for (const part of listSchema.allOf || []) {
+    const name = listItemSchemaName(part);
+    if (name) return name;
+  }
+  return null;
+}
+
+/**
+ * Find list endpoints that accept the `q` search parameter and the resource
+ * schema each one returns. Works on the raw (non-dereferenced) spec so the
+ * schema names match the types emitted by @hey-api/openapi-ts.
+ *
+ * @param {object} spec - Parsed OpenAPI document
+ * @returns {Array<{ operationId: string, schemaName: string }>} One entry per resource schema
+ */
+function findSearchableResources(spec) {
+  const resources = new Map();
+  for (const pathItem of Object.values(spec.paths || {})) {
+    const op = pathItem?.get;
+    if (!op) continue;
+
+    const params = [...(pathItem.parameters || []), ...(op.parameters || [])];
+    const hasSearch = params.some(p => p?.name === 'q' || /#\/SearchQueryParam$/.test(p?.$ref || ''));
+    if (!hasSearch) continue;
+
+    const responseSchema = op.responses?.['200']?.content?.['application/json']?.schema;
+    const listName = localSchemaName(responseSchema?.$ref);
+    const schemaName = listName
+      ? listItemSchemaName(spec.components?.schemas?.[listName])
+      : listItemSchemaName(responseSchema);
+    if (schemaName && !resources.has(schemaName)) {
+      resources.set(schemaName, { operationId: op.operationId, schemaName });
+    }
+  }
+  return [...resources.values()];
+}
+
+/**
+ * Find list endpoints that declare `x-sortable` and the fields each allows.
+ *
+ * @param {object} spec - Parsed OpenAPI document
+ * @returns {Array<{ operationId: string, fields: string[], defaultSort?: string }>}
+ */
+function findSortableEndpoints(spec) {
+  const endpoints = [];
+  for (const pathItem of Object.values(spec.paths || {})) {
+    const op = pathItem?.get;
+    const fields = op?.['x-sortable']?.fields;
+    if (!op?.operationId || !Array.isArray(fields) || fields.length === 0) continue;
+    endpoints.push({ operationId: op.operationId, fields, defaultSort: op['x-sortable'].default });
+  }
+  return endpoints;
+}
+
+/**
+ * True when a (dereferenced) schema holds a `format: date` or `date-time` string,
+ * including nullable allOf/anyOf/oneOf wrappers.
+ * @param {object} schema
+ */
+function isDateSchema(schema) {
+  if (!schema || typeof schema !== 'object') return false;
+  if (schema.format === 'date' || schema.format === 'date-time') return true;
+  return [...(schema.allOf || []), ...(schema.anyOf || []), ...(schema.oneOf || [])].some(isDateSchema);
+}
+
+/**
+ * Search type of a (dereferenced) property schema, as used by `validateQuery`:
+ * `date`, `enum`, `number`, `boolean`, `string` or `object`. Array fields take
+ * their element's type. Returns null when the type can't be determined.
+ * @param {object} schema
+ * @returns {string|null}
+ */
+function searchFieldType(schema) {
+  if (!schema || typeof schema !== 'object') return null;
+  if (isDateSchema(schema)) return 'date';
+
+  const variants = [schema, ...(schema.allOf || []), ...(schema.anyOf || []), ...(schema.oneOf || [])]
+    .filter(s => s && typeof s === 'object');
+  const array = variants.find(s => s.type === 'array' || s.items);
+  if (array) return searchFieldType(array.items) ?? 'object';
+  if (variants.some(s => Array.isArray(s.enum) && s.enum.some(v => v !== null))) return 'enum';
+
+  const types = variants.flatMap(s => [].concat(s.type ?? []));
+  if (types.includes('object') || variants.some(s => s.properties)) return 'object';
+  if (types.includes('integer') || types.includes('number')) return 'number';
+  if (types.includes('boolean')) return 'boolean';
+  if (types.includes('string')) return 'string';
+  return null;
+}
+
+/**
+ * Collect the dot-path and search type of every field in a dereferenced
+ * schema, walking allOf/anyOf/oneOf parts. Arrays are not traversed,
+ * matching the `FieldPath` type.
+ *
+ * @param {object} schema - Dereferenced schema
+ * @param {string} [prefix] - Path of the enclosing object
+ * @param {number} [depth] - Levels left to walk
+ * @param {Map<string, string>} [result] - mutated in place
+ * @returns {Record<string, string>} Field types keyed by path, sorted by path
+ */
+function collectSearchFields(schema, prefix = '', depth = SEARCH_FIELD_DEPTH, result = new Map()) {
+  if (schema && typeof schema === 'object' && depth > 0) {
+    for (const part of [...(schema.allOf || []), ...(schema.anyOf || []), ...(schema.oneOf || [])]) {
+      collectSearchFields(part, prefix, depth, result);
+    }
+
+    for (const [name, prop] of Object.entries(schema.properties || {})) {
+      const type = searchFieldType(prop);
+      if (!type) continue;
+      const path = prefix ? `${prefix}.${name}` : name;
+      result.set(path, type);
+      if (type === 'object' && prop.type !== 'array' && !prop.items) {
+        collectSearchFields(prop, path, depth - 1, result);
+      }
+    }
+  }
+
+  return Object.fromEntries([...result].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Collect dot-paths of date and date-time fields in a dereferenced schema.
+ * Arrays are not traversed, matching the `FieldPath` type.
+ *
+ * @param {object} schema - Dereferenced schema
+ * @returns {string[]} Sorted field paths
+ */
+function collectDateFieldPaths(schema) {
+  return Object.entries(collectSearchFields(schema))
+    .filter(([, type]) => type === 'date')
+    .map(([path]) => path)
+    .sort();
+}
+
+/**
+ * Lower-case the first letter of a schema name for a value export.
+ * e.g. 'Person' → 'person', 'CaseWorker' → 'caseWorker'
+ * @param {string} name
+ */
+function lowerFirst(name) {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Upper-case the first letter of an operationId for a type export.
+ * e.g. 'listPersons' → 'ListPersons'
+ * @param {string} name
+ */
+function upperFirst(name) {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Build the contents of a domain's search.gen.ts: one typed search builder
+ * per searchable resource, with the resource's date fields as a union type
+ * and its field types as a `validateQuery` schema, and one typed sort builder
+ * per sortable endpoint, with its `x-sortable` fields as a union type.
+ *
+ * @param {Array<{ operationId: string, schemaName: string, dateFields: string[], fields?: Record<string, string> }>} resources
+ * @param {Array<{ operationId: string, fields: string[], defaultSort?: string }>} [sortables]
+ * @returns {string}
+ */
+function renderTypedSearchModule(resources, sortables = []) {
+  const typeNames = resources.map(r => r.schemaName).join(', ');
+  const searchBlocks = resources.map(({ operationId, schemaName, dateFields, fields = {} }) => {
+    const dateUnion = dateFields.length > 0
+      ? dateFields.map(f => `\n  | '${f}'`).join('')
+      : ' never';
+    const fieldEntries = Object.entries(fields).map(([path, type]) => `  '${path}': '${type}',\n`).join('');
+    return [
+      `export type ${schemaName}DateField =${dateUnion};`,
+      '',
+      `/** Typed search builder for ${schemaName} (\`${operationId}\`) */`,
+      `export const ${lowerFirst(schemaName)}Search = search.for<${schemaName}, ${schemaName}DateField>();`,
+      '',
+      `/** Searchable fields of ${schemaName} and their types, for \`validateQuery\` */`,
+      `export const ${lowerFirst(schemaName)}SearchFields: ResourceSearchSchema = {\n${fieldEntries}};`,
+    ].join('\n');
+  });
+  const sortBlocks = sortables.map(({ operationId, fields, defaultSort }) => {
+    const typeName = `${upperFirst(operationId)}SortField`;
+    const defaultNote = defaultSort ? ` (default: \`${defaultSort}\`)` : '';
+    return [
+      `export type ${typeName} =${fields.map(f => `\n  | '${f}'`).join('')};`,
+      '',
+      `/** Typed sort builder for \`${operationId}\`${defaultNote} */`,
+      `export const ${operationId}Sort = sort.for<${typeName}>();`,
+    ].join('\n');
+  });
+
+  const helpers = [resources.length > 0 && 'search', sortables.length > 0 && 'sort'].filter(Boolean);
+  return [
+    '// This file is auto-generated by safety-net-generate-clients',
+    '',
+    `import { ${helpers.join(', ')} } from '../search-helpers.js';`,
+    resources.length > 0 && `import type { ResourceSearchSchema } from '../query-validation.js';`,
+    resources.length > 0 && `import type { ${typeNames} } from './types.gen.js';`,
+    '',
+    [...searchBlocks, ...sortBlocks].join('\n\n'),
+    '',
+  ].filter(line => line !== false).join('\n');
+}
+
+/**
+ * Write search.gen.ts for one domain and re-export it from the domain index.
+ * Skips domains with no searchable or sortable list endpoints.
+ *
+ * @param {string} specPath - Resolved OpenAPI spec for the domain
+ * @param {string} domainOutputDir
+ * @returns {Promise<string[]>} Export names of the generated builders
+ */
+async function generateTypedSearch(specPath, domainOutputDir) {
+  const spec = yaml.load(readFileSync(specPath, 'utf8'));
+  const resources = findSearchableResources(spec);
+  const sortables = findSortableEndpoints(spec);
+  if (resources.length === 0 && sortables.length === 0) return [];
+
+  const dereferenced = resources.length > 0 ? await $RefParser.dereference(specPath) : null;
+  const withFields = resources.map(r => {
+    const schema = dereferenced.components?.schemas?.[r.schemaName];
+    return { ...r, dateFields: collectDateFieldPaths(schema), fields: collectSearchFields(schema) };
+  });
+
+  writeFileSync(join(domainOutputDir, 'search.gen.ts'), renderTypedSearchModule(withFields, sortables));
+  appendDomainIndexExport(domainOutputDir, './search.gen.js');
+
+  return [
+    ...withFields.flatMap(r => [`${lowerFirst(r.schemaName)}Search`, `${lowerFirst(r.schemaName)}SearchFields`]),
+    ...sortables.map(e => `${e.operationId}Sort`),
+  ];
+}
+
+/**
+ * Re-export a generated module from the domain's index.ts.
+ * @param {string} domainOutputDir
+ * @param {string} modulePath - e.g. './search.gen.js'
+ */
+function appendDomainIndexExport(domainOutputDir, modulePath) {
+  const indexPath = join(domainOutputDir, 'index.ts');
+  if (existsSync(indexPath)) {
+    const index = readFileSync(indexPath, 'utf8');
+    writeFileSync(indexPath, index.replace(/\n*$/, '\n') + `export * from '${modulePath}';\n`);
+  }
+}
+
+/**
+ * Find the cross-resource search operation: a GET whose 200 response is a
+ * `SearchResultList` (search-openapi.yaml's `GET /search`).
+ *
+ * @param {object} spec - Parsed OpenAPI document
+ * @returns {string|null} The operationId
+ */
+function findGlobalSearchOperation(spec) {
+  for (const pathItem of Object.values(spec.paths || {})) {
+    const op = pathItem?.get;
+    const schema = op?.responses?.['200']?.content?.['application/json']?.schema;
+    if (op?.operationId && localSchemaName(schema?.$ref) === 'SearchResultList') return op.operationId;
+  }
+  return null;
+}
+
+/**
+ * Build the contents of global-search.gen.ts, binding the generated search
+ * operation to the typed `globalSearch()` wrapper.
+ * @param {string} operationId
+ * @returns {string}
+ */
+function renderGlobalSearchModule(operationId) {
+  return [
+    '// This file is auto-generated by safety-net-generate-clients',
+    '',
+    `import { createGlobalSearch } from '../global-search.js';`,
+    `import { ${operationId} as searchOperation } from './sdk.gen.js';`,
+    '',
+    `/** Typed cross-resource search (\`${operationId}\`), with results narrowed by type and facets as a map */`,
+    'export const globalSearch = createGlobalSearch(searchOperation);',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Read the resource types the cross-resource search can return — the `type`
+ * enum of the `SearchResult` items in `SearchResultList`, inline or behind a
+ * `$ref` (`SearchResultType`).
+ *
+ * @param {object} spec - Parsed OpenAPI document
+ * @returns {string[]|null} The enum values in spec order
+ */
+function findSearchResultTypes(spec) {
+  const schemas = spec.components?.schemas || {};
+  const resultSchema = schemas[listItemSchemaName(schemas.SearchResultList)];
+  let typeSchema = resultSchema?.properties?.type;
+  const refName = localSchemaName(typeSchema?.$ref);
+  if (refName) typeSchema = schemas[refName];
+  return Array.isArray(typeSchema?.enum) && typeSchema.enum.length > 0 ? typeSchema.enum.map(String) : null;
+}
+
+/**
+ * Replace the `SEARCH_RESULT_TYPES` declaration in global-search.ts with the
+ * values read from the spec, so `SearchResultType` and the default facets
+ * match the API the clients were generated from.
+ *
+ * @param {string} source - Contents of utility/global-search.ts
+ * @param {string[]} types
+ * @returns {string}
+ */
+function patchSearchResultTypes(source, types) {
+  const declaration = /^export const SEARCH_RESULT_TYPES = \[.*\] as const;$/m;
+  if (!declaration.test(source)) {
+    throw new Error('global-search.ts: SEARCH_RESULT_TYPES declaration not found');
+  }
+  return source.replace(declaration, `export const SEARCH_RESULT_TYPES = ${JSON.stringify(types)} as const;`);
+}
+
+/**
+ * Write global-search.gen.ts for a domain that has the cross-resource search
+ * operation, and re-export it from the domain index.
+ *
+ * @param {string} specPath - Resolved OpenAPI spec for the domain
+ * @param {string} domainOutputDir
+ * @returns {{ operationId: string, resultTypes: string[]|null }|null} Null when the domain has no such operation
+ */
+function generateGlobalSearch(specPath, domainOutputDir) {
+  const spec = yaml.load(readFileSync(specPath, 'utf8'));
+  const operationId = findGlobalSearchOperation(spec);
+  if (!operationId) return null;
+
+  writeFileSync(join(domainOutputDir, 'global-search.gen.ts'), renderGlobalSearchModule(operationId));
+  appendDomainIndexExport(domainOutputDir, './global-search.gen.js');
+  return { operationId, resultTypes: findSearchResultTypes(spec) };
+}
+
 /**
  * Main generation function
  */
@@ -377,6 +789,7 @@ async function main() {
   console.log(`Found ${specFiles.length} API specs: ${specFiles.join(', ')}\n`);
 
   const domains = [];
+  let searchResultTypes = null;
 
   // Generate client for each domain
   for (const file of specFiles) {
@@ -415,6 +828,17 @@ async function main() {
       writeFileSync(clientGenPath, content);
     }
 
+    // Post-process: typed search and sort builders for each list endpoint
+    const typedSearchExports = await generateTypedSearch(specPath, domainOutputDir);
+    if (typedSearchExports.length > 0) {
+      console.log(`    typed search/sort: ${typedSearchExports.join(', ')}`);
+    }
+    const globalSearch = generateGlobalSearch(specPath, domainOutputDir);
+    if (globalSearch) {
+      console.log('    global search: globalSearch');
+      if (globalSearch.resultTypes) searchResultTypes = globalSearch.resultTypes;
+    }
+
     // Clean up config file
     rmSync(configPath, { force: true });
 
@@ -428,25 +852,38 @@ async function main() {
 
   // Create index.ts that re-exports all domains and annotations
   console.log('\nCreating index exports...');
-  const domainExports = domains.map(d => `export * as ${d} from './${d}/index.js';`).join('\n');
+  const reservedNames = new Set([...annotationExports, ...Object.values(HELPER_EXPORTS).flatMap(e => e.values)]);
+  const domainExports = domains
+    .map(d => `export * as ${domainToExportName(d, reservedNames)} from './${d}/index.js';`)
+    .join('\n');
   const annotationIndexExports = annotationExports.map(n => `export { ${n} } from './annotations.js';`).join('\n');
+  const helperIndexExports = Object.entries(HELPER_EXPORTS).flatMap(([file, { values, types }]) => [
+    `export { ${values.join(', ')} } from './${file}';`,
+    `export type { ${types.join(', ')} } from './${file}';`,
+  ]);
   const indexParts = [
     domainExports,
     annotationIndexExports,
-    `export { q, search } from './search-helpers.js';`,
+    ...helperIndexExports,
   ].filter(Boolean);
   writeFileSync(join(outputDir, 'index.ts'), indexParts.join('\n') + '\n');
   console.log('  ✓ Created index.ts');
 
-  // Copy search helpers
-  const searchHelpersSource = join(utilityDIr, 'search-helpers.ts');
-  console.log(searchHelpersSource);
-  if (existsSync(searchHelpersSource)) {
-    const searchHelpersDest = join(outputDir, 'search-helpers.ts');
-    copyFileSync(searchHelpersSource, searchHelpersDest);
-    console.log('  ✓ Copied search-helpers.ts');
-  } else {
-    console.warn('  ⚠ Warning: search-helpers.ts template not found, skipping');
+  // Copy the utility modules
+  for (const helper of UTILITY_FILES) {
+    const helperSource = join(utilityDIr, helper);
+    if (existsSync(helperSource)) {
+      if (helper === 'global-search.ts' && searchResultTypes) {
+        const source = patchSearchResultTypes(readFileSync(helperSource, 'utf8'), searchResultTypes);
+        writeFileSync(join(outputDir, helper), source);
+        console.log(`  ✓ Copied ${helper} (result types: ${searchResultTypes.join(', ')})`);
+        continue;
+      }
+      copyFileSync(helperSource, join(outputDir, helper));
+      console.log(`  ✓ Copied ${helper}`);
+    } else {
+      console.warn(`  ⚠ Warning: ${helper} template not found, skipping`);
+    }
   }
 
   console.log(`\nDone! Generated clients in ${outputDir}`);
@@ -456,7 +893,7 @@ async function main() {
 }
 
 // Export for testing
-export { parseArgs, createOpenApiTsConfig, exec, domainToAnnotationExportName, collectNullableFieldNames, patchZodGenForNullable };
+export { parseArgs, createOpenApiTsConfig, exec, domainToExportName, domainToAnnotationExportName, collectNullableFieldNames, patchZodGenForNullable, findSearchableResources, findSortableEndpoints, collectSearchFields, collectDateFieldPaths, renderTypedSearchModule, findGlobalSearchOperation, renderGlobalSearchModule, findSearchResultTypes, patchSearchResultTypes };
 
 // Run main function only if this is the entry point
 if (import.meta.url === `file://${realpathSync(process.argv[1])}`) {
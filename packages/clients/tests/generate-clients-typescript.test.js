@@ -3,7 +3,11 @@ import assert from 'node:assert';
 import { mkdtempSync, writeFileSync, mkdirSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
-import { parseArgs, createOpenApiTsConfig, domainToAnnotationExportName, collectNullableFieldNames, patchZodGenForNullable } from '../scripts/generate-clients-typescript.js';
+import {
+  parseArgs, createOpenApiTsConfig, domainToExportName, domainToAnnotationExportName, collectNullableFieldNames, patchZodGenForNullable,
+  findSearchableResources, findSortableEndpoints, collectSearchFields, collectDateFieldPaths, renderTypedSearchModule,
+  findGlobalSearchOperation, renderGlobalSearchModule, findSearchResultTypes, patchSearchResultTypes,
+} from '../scripts/generate-clients-typescript.js';
 
 describe('Client Generation', () => {
   describe('parseArgs', () => {
@@ -153,6 +157,20 @@ describe('Client Generation', () => {
     });
   });
 
+  describe('domainToExportName', () => {
+    it('keeps a single-word domain', () => {
+      assert.strictEqual(domainToExportName('intake', new Set()), 'intake');
+    });
+
+    it('camel-cases a hyphenated domain', () => {
+      assert.strictEqual(domainToExportName('case-management', new Set()), 'caseManagement');
+    });
+
+    it('suffixes a domain that collides with another export', () => {
+      assert.strictEqual(domainToExportName('search', new Set(['search', 'sort'])), 'searchApi');
+    });
+  });
+
   describe('domainToAnnotationExportName', () => {
     it('converts a single-word domain', () => {
       assert.strictEqual(domainToAnnotationExportName('intake'), 'IntakeAnnotations');
@@ -265,6 +283,257 @@ properties:
     });
   });
 
+  describe('findSearchableResources', () => {
+    const listSchema = (item) => ({
+      allOf: [
+        { $ref: './components/pagination.yaml#/Pagination' },
+        { type: 'object', properties: { items: { type: 'array', items: { $ref: `#/components/schemas/${item}` } } } },
+      ],
+    });
+
+    it('finds list endpoints that declare the q parameter', () => {
+      const spec = {
+        paths: {
+          '/persons': {
+            get: {
+              operationId: 'listPersons',
+              parameters: [{ $ref: './components/parameters.yaml#/SearchQueryParam' }],
+              responses: { 200: { content: { 'application/json': { schema: { $ref: '#/components/schemas/PersonList' } } } } },
+            },
+          },
+        },
+        components: { schemas: { PersonList: listSchema('Person') } },
+      };
+
+      assert.deepStrictEqual(findSearchableResources(spec), [{ operationId: 'listPersons', schemaName: 'Person' }]);
+    });
+
+    it('skips list endpoints without a q parameter', () => {
+      const spec = {
+        paths: {
+          '/persons': {
+            get: {
+              operationId: 'listPersons',
+              parameters: [{ $ref: './components/parameters.yaml#/LimitParam' }],
+              responses: { 200: { content: { 'application/json': { schema: { $ref: '#/components/schemas/PersonList' } } } } },
+            },
+          },
+        },
+        components: { schemas: { PersonList: listSchema('Person') } },
+      };
+
+      assert.deepStrictEqual(findSearchableResources(spec), []);
+    });
+
+    it('lists each resource schema once', () => {
+      const op = (operationId) => ({
+        operationId,
+        parameters: [{ name: 'q', in: 'query' }],
+        responses: { 200: { content: { 'application/json': { schema: { $ref: '#/components/schemas/TaskList' } } } } },
+      });
+      const spec = {
+        paths: { '/tasks': { get: op('listTasks') }, '/queues/{id}/tasks': { get: op('listQueueTasks') } },
+        components: { schemas: { TaskList: listSchema('Task') } },
+      };
+
+      assert.deepStrictEqual(findSearchableResources(spec), [{ operationId: 'listTasks', schemaName: 'Task' }]);
+    });
+  });
+
+  describe('collectDateFieldPaths', () => {
+    it('collects date and date-time fields as dot-paths', () => {
+      const schema = {
+        allOf: [{ properties: { createdAt: { type: 'string', format: 'date-time' } } }],
+        properties: {
+          name: { type: 'string' },
+          dateOfBirth: { allOf: [{ type: 'string', format: 'date' }], nullable: true },
+          education: { type: 'object', properties: { startDate: { type: 'string', format: 'date' } } },
+        },
+      };
+
+      assert.deepStrictEqual(collectDateFieldPaths(schema), ['createdAt', 'dateOfBirth', 'education.startDate']);
+    });
+
+    it('does not walk into arrays', () => {
+      const schema = {
+        properties: {
+          jobs: { type: 'array', items: { properties: { startDate: { type: 'string', format: 'date' } } } },
+        },
+      };
+
+      assert.deepStrictEqual(collectDateFieldPaths(schema), []);
+    });
+
+    it('stops at the maximum depth on recursive schemas', () => {
+      const person = { properties: { updatedAt: { type: 'string', format: 'date-time' } } };
+      person.properties.spouse = person;
+
+      const paths = collectDateFieldPaths(person);
+      assert.strictEqual(paths.length, 6);
+      assert.ok(paths.includes('spouse.spouse.spouse.spouse.spouse.updatedAt'));
+    });
+  });
+
+  describe('collectSearchFields', () => {
+    it('maps each field path to its search type', () => {
+      const schema = {
+        allOf: [{ properties: { id: { type: 'string', format: 'uuid' } } }],
+        properties: {
+          age: { type: 'integer' },
+          isHomeless: { type: ['boolean', 'null'] },
+          status: { allOf: [{ type: 'string', enum: ['active', 'inactive'] }] },
+          programs: { type: 'array', items: { type: 'string', enum: ['snap', 'tanf'] } },
+          jobs: { type: 'array', items: { type: 'object', properties: { employer: { type: 'string' } } } },
+          createdAt: { type: 'string', format: 'date-time' },
+          address: { anyOf: [{ type: 'object', properties: { city: { type: 'string' } } }, { type: 'null' }] },
+          metadata: {},
+        },
+      };
+
+      assert.deepStrictEqual(collectSearchFields(schema), {
+        address: 'object',
+        'address.city': 'string',
+        age: 'number',
+        createdAt: 'date',
+        id: 'string',
+        isHomeless: 'boolean',
+        jobs: 'object',
+        programs: 'enum',
+        status: 'enum',
+      });
+    });
+  });
+
+  describe('renderTypedSearchModule', () => {
+    it('emits a date field union and builder per resource', () => {
+      const source = renderTypedSearchModule([
+        { operationId: 'listPersons', schemaName: 'Person', dateFields: ['createdAt'] },
+        { operationId: 'listJobs', schemaName: 'Job', dateFields: [] },
+      ]);
+
+      assert.ok(source.includes("import type { Person, Job } from './types.gen.js';"));
+      assert.ok(source.includes("export type PersonDateField =\n  | 'createdAt';"));
+      assert.ok(source.includes('export const personSearch = search.for<Person, PersonDateField>();'));
+      assert.ok(source.includes('export type JobDateField = never;'));
+      assert.ok(source.includes("import { search } from '../search-helpers.js';"));
+    });
+
+    it('emits a validateQuery field schema per resource', () => {
+      const source = renderTypedSearchModule([
+        { operationId: 'listPersons', schemaName: 'Person', dateFields: ['createdAt'], fields: { createdAt: 'date', 'name.lastName': 'string' } },
+      ]);
+
+      assert.ok(source.includes("import type { ResourceSearchSchema } from '../query-validation.js';"));
+      assert.ok(source.includes(
+        "export const personSearchFields: ResourceSearchSchema = {\n  'createdAt': 'date',\n  'name.lastName': 'string',\n};"
+      ));
+    });
+
+    it('emits a sortable field union and sort builder per endpoint', () => {
+      const source = renderTypedSearchModule(
+        [{ operationId: 'listPersons', schemaName: 'Person', dateFields: [] }],
+        [{ operationId: 'listPersons', fields: ['createdAt', 'name.lastName'], defaultSort: 'name.lastName' }],
+      );
+
+      assert.ok(source.includes("import { search, sort } from '../search-helpers.js';"));
+      assert.ok(source.includes("export type ListPersonsSortField =\n  | 'createdAt'\n  | 'name.lastName';"));
+      assert.ok(source.includes('/** Typed sort builder for `listPersons` (default: `name.lastName`) */'));
+      assert.ok(source.includes('export const listPersonsSort = sort.for<ListPersonsSortField>();'));
+    });
+
+    it('omits the types import when there are only sortable endpoints', () => {
+      const source = renderTypedSearchModule([], [{ operationId: 'listEvents', fields: ['time'] }]);
+
+      assert.ok(source.includes("import { sort } from '../search-helpers.js';"));
+      assert.ok(!source.includes('types.gen.js'));
+      assert.ok(source.includes('/** Typed sort builder for `listEvents` */'));
+    });
+  });
+
+  describe('findSortableEndpoints', () => {
+    it('collects x-sortable fields from list operations', () => {
+      const spec = {
+        paths: {
+          '/persons': {
+            get: { operationId: 'listPersons', 'x-sortable': { fields: ['createdAt', 'name.lastName'], default: '-createdAt' } },
+            post: { operationId: 'createPerson', 'x-sortable': { fields: ['ignored'] } },
+          },
+          '/persons/{id}': { get: { operationId: 'getPerson' } },
+          '/events': { get: { operationId: 'listEvents', 'x-sortable': { fields: [] } } },
+        },
+      };
+
+      assert.deepStrictEqual(findSortableEndpoints(spec), [
+        { operationId: 'listPersons', fields: ['createdAt', 'name.lastName'], defaultSort: '-createdAt' },
+      ]);
+    });
+  });
+
+  describe('findGlobalSearchOperation', () => {
+    it('finds the GET operation returning a SearchResultList', () => {
+      const list = { content: { 'application/json': { schema: { $ref: '#/components/schemas/PersonList' } } } };
+      const results = { content: { 'application/json': { schema: { $ref: '#/components/schemas/SearchResultList' } } } };
+      const spec = {
+        paths: {
+          '/persons': { get: { operationId: 'listPersons', responses: { 200: list } } },
+          '/search': { get: { operationId: 'search', responses: { 200: results } } },
+        },
+      };
+
+      assert.strictEqual(findGlobalSearchOperation(spec), 'search');
+      assert.strictEqual(findGlobalSearchOperation({ paths: { '/persons': spec.paths['/persons'] } }), null);
+    });
+  });
+
+  describe('renderGlobalSearchModule', () => {
+    it('binds the operation to createGlobalSearch', () => {
+      const source = renderGlobalSearchModule('search');
+
+      assert.ok(source.includes("import { createGlobalSearch } from '../global-search.js';"));
+      assert.ok(source.includes("import { search as searchOperation } from './sdk.gen.js';"));
+      assert.ok(source.includes('export const globalSearch = createGlobalSearch(searchOperation);'));
+    });
+  });
+
+  describe('findSearchResultTypes', () => {
+    it('reads the type enum of SearchResult items, following a $ref', () => {
+      const spec = {
+        components: {
+          schemas: {
+            SearchResultList: { type: 'object', properties: { items: { type: 'array', items: { $ref: '#/components/schemas/SearchResult' } } } },
+            SearchResult: { type: 'object', properties: { type: { $ref: '#/components/schemas/SearchResultType' } } },
+            SearchResultType: { type: 'string', enum: ['person', 'case', 'benefit'] },
+          },
+        },
+      };
+
+      assert.deepStrictEqual(findSearchResultTypes(spec), ['person', 'case', 'benefit']);
+    });
+
+    it('reads an inline enum and returns null without one', () => {
+      const list = { properties: { items: { type: 'array', items: { $ref: '#/components/schemas/SearchResult' } } } };
+      const inline = { components: { schemas: { SearchResultList: list, SearchResult: { properties: { type: { type: 'string', enum: ['task'] } } } } } };
+
+      assert.deepStrictEqual(findSearchResultTypes(inline), ['task']);
+      assert.strictEqual(findSearchResultTypes({ components: { schemas: { SearchResultList: list } } }), null);
+      assert.strictEqual(findSearchResultTypes({}), null);
+    });
+  });
+
+  describe('patchSearchResultTypes', () => {
+    it('replaces the SEARCH_RESULT_TYPES declaration in global-search.ts', () => {
+      const source = readFileSync(new URL('../utility/global-search.ts', import.meta.url), 'utf8');
+      const patched = patchSearchResultTypes(source, ['person', 'benefit']);
+
+      assert.ok(patched.includes('export const SEARCH_RESULT_TYPES = ["person","benefit"] as const;'));
+      assert.strictEqual(patched.split('\n').length, source.split('\n').length);
+    });
+
+    it('throws when the declaration is missing', () => {
+      assert.throws(() => patchSearchResultTypes('export {};', ['person']), /SEARCH_RESULT_TYPES/);
+    });
+  });
+
   describe('patchZodGenForNullable', () => {
     function writeTmp(content) {
       const dir = mkdtempSync(join(tmpdir(), 'zod-'));
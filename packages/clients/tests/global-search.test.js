@@ -0,0 +1,92 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { loadUtility } from './load-utility.js';
+
+let createGlobalSearch;
+let refineByFacet;
+let GlobalSearchError;
+
+before(async () => {
+  ({ createGlobalSearch, refineByFacet, GlobalSearchError } = await loadUtility('global-search'));
+});
+
+function result(id, type) {
+  return { id, type, title: id, url: `/${type}s/${id}`, attributes: [], createdAt: '', updatedAt: '' };
+}
+
+/** A search function that records its calls and returns `response` */
+function fakeSearch(response) {
+  const calls = [];
+  const searchFn = async (options) => {
+    calls.push(options);
+    return response;
+  };
+  return { calls, searchFn };
+}
+
+describe('globalSearch', () => {
+  it('sends only the parameters that are set', async () => {
+    const { calls, searchFn } = fakeSearch({ data: { items: [], total: 0, limit: 10, offset: 0 } });
+    const signal = new AbortController().signal;
+
+    await createGlobalSearch(searchFn)({ q: 'smith', types: [], limit: 10 }, { signal });
+
+    assert.deepStrictEqual(calls, [{ query: { q: 'smith', limit: 10 }, signal }]);
+  });
+
+  it('keeps results of the searched types and maps facets', async () => {
+    const { searchFn } = fakeSearch({
+      data: {
+        items: [result('p1', 'person'), result('c1', 'case'), result('x1', 'invoice')],
+        total: 3,
+        limit: 25,
+        offset: 0,
+        facets: [{ type: 'person', count: 1 }, { type: 'invoice', count: 1 }],
+      },
+    });
+
+    const response = await createGlobalSearch(searchFn)({ q: 'smith', types: ['person', 'case'] });
+
+    assert.deepStrictEqual(response.items.map(r => r.id), ['p1', 'c1']);
+    assert.deepStrictEqual(response.facets, { person: 1, case: 0 });
+    assert.deepStrictEqual(response.request, { q: 'smith', types: ['person', 'case'] });
+  });
+
+  it('has a facet for every type when no types are given', async () => {
+    const { searchFn } = fakeSearch({ data: { items: [], total: 0, limit: 25, offset: 0 } });
+
+    const { facets } = await createGlobalSearch(searchFn)({ q: 'smith' });
+
+    assert.deepStrictEqual(facets, { person: 0, case: 0, application: 0, task: 0, appointment: 0 });
+  });
+
+  it('computes hasNext when the server omits it', async () => {
+    const { searchFn } = fakeSearch({
+      data: { items: [result('p1', 'person')], total: 2, limit: 1, offset: 0 },
+    });
+
+    assert.strictEqual((await createGlobalSearch(searchFn)({ limit: 1 })).hasNext, true);
+  });
+
+  it('throws GlobalSearchError on an error response', async () => {
+    const error = { code: 'BAD_REQUEST', message: 'Invalid query' };
+    const { searchFn } = fakeSearch({ error });
+
+    await assert.rejects(createGlobalSearch(searchFn)({ q: 'status:' }), (err) => {
+      assert.ok(err instanceof GlobalSearchError);
+      assert.strictEqual(err.error, error);
+      return true;
+    });
+  });
+});
+
+describe('refineByFacet', () => {
+  it('limits the request to the facet from the first page', () => {
+    assert.deepStrictEqual(refineByFacet({ q: 'smith', limit: 10, offset: 30, types: ['person', 'case'] }, 'case'), {
+      q: 'smith',
+      limit: 10,
+      offset: 0,
+      types: ['case'],
+    });
+  });
+});
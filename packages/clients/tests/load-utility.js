@@ -0,0 +1,43 @@
+/**
+ * Loads the TypeScript utilities shipped in utility/ so they can be tested
+ * under plain Node. Every utility file is transpiled into a temp directory
+ * (keeping relative imports between them intact) and the requested module
+ * is imported from there. The directory is removed when the test file ends.
+ */
+
+import { after } from 'node:test';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import ts from 'typescript';
+
+const utilityDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'utility');
+
+let outDir = null;
+
+after(() => {
+  if (outDir) rmSync(outDir, { recursive: true, force: true });
+  outDir = null;
+});
+
+function transpileAll() {
+  const dir = mkdtempSync(join(tmpdir(), 'clients-utility-'));
+  writeFileSync(join(dir, 'package.json'), '{"type":"module"}\n');
+  for (const file of readdirSync(utilityDir).filter(f => f.endsWith('.ts'))) {
+    const { outputText } = ts.transpileModule(readFileSync(join(utilityDir, file), 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+    });
+    writeFileSync(join(dir, file.replace(/\.ts$/, '.js')), outputText);
+  }
+  return dir;
+}
+
+/**
+ * @param {string} name - Utility module name without extension, e.g. 'search-helpers'
+ * @returns {Promise<object>} The module's exports
+ */
+export async function loadUtility(name) {
+  if (!outDir) outDir = transpileAll();
+  return import(pathToFileURL(join(outDir, `${name}.js`)).href);
+}
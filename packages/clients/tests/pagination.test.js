@@ -0,0 +1,170 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { loadUtility } from './load-utility.js';
+
+let pagination;
+
+before(async () => {
+  pagination = await loadUtility('pagination');
+});
+
+/**
+ * Fake list function over `count` numbered items. Records every request and
+ * can leave out hasNext or clamp the page size like the server does.
+ */
+function fakeList(count, { withHasNext = true, maxLimit = 100 } = {}) {
+  const all = Array.from({ length: count }, (_, i) => ({ id: i + 1 }));
+  const requests = [];
+  const listFn = async (request) => {
+    requests.push(request);
+    const { limit, offset } = request.query;
+    const effective = Math.min(limit, maxLimit);
+    const data = { items: all.slice(offset, offset + effective), total: count, limit: effective, offset };
+    if (withHasNext) data.hasNext = offset + effective < count;
+    return { data };
+  };
+  return { listFn, requests };
+}
+
+async function collect(iterable) {
+  const result = [];
+  for await (const value of iterable) result.push(value);
+  return result;
+}
+
+describe('paginate', () => {
+  it('yields every item across pages', async () => {
+    const { listFn, requests } = fakeList(5);
+
+    const items = await collect(pagination.paginate(listFn, { pageSize: 2 }));
+
+    assert.deepStrictEqual(items.map(i => i.id), [1, 2, 3, 4, 5]);
+    assert.deepStrictEqual(requests.map(r => r.query.offset), [0, 2, 4]);
+  });
+
+  it('yields pages with their metadata', async () => {
+    const { listFn } = fakeList(3);
+
+    const pages = await collect(pagination.paginate(listFn, { pageSize: 2 }).pages());
+
+    assert.deepStrictEqual(pages.map(p => [p.offset, p.items.length, p.total, p.hasNext]), [[0, 2, 3, true], [2, 1, 3, false]]);
+  });
+
+  it('passes q and sort on every request', async () => {
+    const { listFn, requests } = fakeList(3);
+
+    await collect(pagination.paginate(listFn, { q: 'status:open', sort: '-createdAt', pageSize: 2 }));
+
+    assert.deepStrictEqual(requests.map(r => r.query), [
+      { limit: 2, offset: 0, q: 'status:open', sort: '-createdAt' },
+      { limit: 2, offset: 2, q: 'status:open', sort: '-createdAt' },
+    ]);
+  });
+
+  it('falls back to total when hasNext is missing', async () => {
+    const { listFn, requests } = fakeList(4, { withHasNext: false });
+
+    const items = await collect(pagination.paginate(listFn, { pageSize: 2 }));
+
+    assert.strictEqual(items.length, 4);
+    assert.strictEqual(requests.length, 2);
+  });
+
+  it('advances by the page the server returned when it clamps the limit', async () => {
+    const { listFn, requests } = fakeList(5, { maxLimit: 2 });
+
+    const items = await collect(pagination.paginate(listFn, { pageSize: 100 }));
+
+    assert.deepStrictEqual(items.map(i => i.id), [1, 2, 3, 4, 5]);
+    assert.deepStrictEqual(requests.map(r => r.query.offset), [0, 2, 4]);
+  });
+
+  it('clamps pageSize to 100', async () => {
+    const { listFn, requests } = fakeList(1);
+
+    await collect(pagination.paginate(listFn, { pageSize: 500 }));
+
+    assert.deepStrictEqual(requests.map(r => r.query.limit), [100]);
+  });
+
+  it('rejects a pageSize that is not a positive integer', () => {
+    const { listFn, requests } = fakeList(1);
+
+    for (const pageSize of [0, -5, 2.5, NaN, Infinity]) {
+      assert.throws(() => pagination.paginate(listFn, { pageSize }), RangeError);
+    }
+    assert.strictEqual(requests.length, 0);
+  });
+
+  it('stops at maxItems without over-fetching', async () => {
+    const { listFn, requests } = fakeList(10);
+
+    const items = await collect(pagination.paginate(listFn, { pageSize: 4, maxItems: 6 }));
+
+    assert.deepStrictEqual(items.map(i => i.id), [1, 2, 3, 4, 5, 6]);
+    assert.deepStrictEqual(requests.map(r => r.query.limit), [4, 2]);
+  });
+
+  it('stops on an empty page', async () => {
+    const requests = [];
+    const listFn = async (request) => {
+      requests.push(request);
+      return { data: { items: [], total: 10, limit: 2, offset: request.query.offset, hasNext: true } };
+    };
+
+    assert.deepStrictEqual(await collect(pagination.paginate(listFn)), []);
+    assert.strictEqual(requests.length, 1);
+  });
+
+  it('does not fetch until iterated', async () => {
+    const { listFn, requests } = fakeList(3);
+
+    const pager = pagination.paginate(listFn);
+
+    assert.strictEqual(requests.length, 0);
+    await collect(pager);
+    await collect(pager);
+    assert.strictEqual(requests.length, 2);
+  });
+
+  it('throws PaginationError on an error response', async () => {
+    const listFn = async () => ({ data: undefined, error: { code: 'INVALID_SORT_FIELD' } });
+
+    await assert.rejects(collect(pagination.paginate(listFn)), (err) => {
+      assert.ok(err instanceof pagination.PaginationError);
+      assert.deepStrictEqual(err.error, { code: 'INVALID_SORT_FIELD' });
+      assert.strictEqual(err.offset, 0);
+      return true;
+    });
+  });
+
+  it('passes the signal and stops when it is aborted', async () => {
+    const { listFn, requests } = fakeList(10);
+    const controller = new AbortController();
+    const seen = [];
+
+    await assert.rejects(
+      (async () => {
+        for await (const item of pagination.paginate(listFn, { pageSize: 2, signal: controller.signal })) {
+          seen.push(item.id);
+          if (item.id === 3) controller.abort();
+        }
+      })(),
+      { name: 'AbortError' }
+    );
+
+    assert.deepStrictEqual(seen, [1, 2, 3]);
+    assert.strictEqual(requests.length, 2);
+    assert.strictEqual(requests[0].signal, controller.signal);
+  });
+
+  it('rejects when aborted while a request is in flight', async () => {
+    const controller = new AbortController();
+    const listFn = async () => {
+      controller.abort();
+      return { data: { items: [{ id: 1 }], total: 1, limit: 1, offset: 0 } };
+    };
+
+    await assert.rejects(collect(pagination.paginate(listFn, { signal: controller.signal })), { name: 'AbortError' });
+  });
+});
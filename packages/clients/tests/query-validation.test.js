@@ -0,0 +1,140 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { loadUtility } from './load-utility.js';
+
+let validateQuery;
+
+before(async () => {
+  ({ validateQuery } = await loadUtility('query-validation'));
+});
+
+const PERSON_FIELDS = {
+  address: 'object',
+  'address.city': 'string',
+  age: 'number',
+  createdAt: 'date',
+  isHomeless: 'boolean',
+  'name.lastName': 'string',
+  programs: 'enum',
+  status: 'enum',
+};
+
+/** Diagnostics reduced to `[code, term]` pairs */
+function check(query) {
+  return validateQuery(query, PERSON_FIELDS).map(d => [d.code, d.term]);
+}
+
+describe('validateQuery', () => {
+  it('accepts valid queries', () => {
+    const queries = [
+      '',
+      'john',
+      'status:active,pending -programs:snap',
+      'age:>=18 createdAt:<$now-30d name.lastName:*smith*',
+      'address:* -address.city:* isHomeless:true',
+      '(status:pending OR age:<30) AND -(address.city:Denver OR address.city:Austin)',
+      'name.lastName:"" address.city:"New York"',
+      'createdAt:>=2026-01-01T00:00:00.000Z createdAt:<=$now+1d@09:00',
+    ];
+
+    for (const query of queries) {
+      assert.deepStrictEqual(validateQuery(query, PERSON_FIELDS), [], query);
+    }
+  });
+
+  it('reports unknown fields with their position', () => {
+    assert.deepStrictEqual(validateQuery('status:active adress.city:Denver', PERSON_FIELDS), [
+      {
+        code: 'unknown_field',
+        message: '`adress.city` is not a searchable field',
+        field: 'adress.city',
+        term: 'adress.city:Denver',
+        start: 14,
+        end: 32,
+      },
+    ]);
+  });
+
+  it('does not treat inherited object properties as fields', () => {
+    assert.deepStrictEqual(check('constructor:x toString:*'), [
+      ['unknown_field', 'constructor:x'],
+      ['unknown_field', 'toString:*'],
+    ]);
+  });
+
+  it('reports operators that do not apply to the field type', () => {
+    assert.deepStrictEqual(check('name.lastName:>S age:*1* createdAt:2026* status:*act* address:Denver'), [
+      ['invalid_operator', 'name.lastName:>S'],
+      ['invalid_operator', 'age:*1*'],
+      ['invalid_operator', 'createdAt:2026*'],
+      ['invalid_operator', 'status:*act*'],
+      ['invalid_operator', 'address:Denver'],
+    ]);
+    assert.strictEqual(
+      validateQuery('age:*1*', PERSON_FIELDS)[0].message,
+      "`contains` can't be used on number field `age`"
+    );
+  });
+
+  it('reports empty in lists', () => {
+    assert.deepStrictEqual(check('status:, -programs:,,'), [
+      ['empty_in_list', 'status:,'],
+      ['empty_in_list', '-programs:,,'],
+    ]);
+  });
+
+  it('reports malformed terms', () => {
+    assert.deepStrictEqual(check(':active status: age:> createdAt:>$now+2x'), [
+      ['malformed_token', ':active'],
+      ['malformed_token', 'status:'],
+      ['malformed_token', 'age:>'],
+      ['malformed_token', 'createdAt:>$now+2x'],
+    ]);
+    assert.strictEqual(validateQuery('age:>', PERSON_FIELDS)[0].message, 'Value is missing after `>`');
+  });
+
+  it('reports an unterminated quote once for the rest of the query', () => {
+    assert.deepStrictEqual(validateQuery('status:active name.lastName:"Smith age:>1', PERSON_FIELDS), [
+      {
+        code: 'malformed_token',
+        message: 'Closing quote is missing',
+        field: null,
+        term: 'name.lastName:"Smith age:>1',
+        start: 14,
+        end: 41,
+      },
+    ]);
+  });
+
+  it('reports unbalanced parentheses', () => {
+    assert.deepStrictEqual(validateQuery('(status:active -(age:>1) x)) y', PERSON_FIELDS).map(d => [d.message, d.start]), [
+      ['`)` has no matching `(`', 27],
+    ]);
+    assert.deepStrictEqual(validateQuery('(status:active -(age:>1', PERSON_FIELDS).map(d => [d.message, d.start]), [
+      ['`(` is never closed', 0],
+      ['`(` is never closed', 15],
+    ]);
+  });
+
+  it('reports keywords without a condition on each side', () => {
+    assert.deepStrictEqual(check('OR status:active AND (OR age:>1) OR OR john AND'), [
+      ['malformed_token', 'OR'],
+      ['malformed_token', 'OR'],
+      ['malformed_token', 'OR'],
+      ['malformed_token', 'OR'],
+      ['malformed_token', 'AND'],
+    ]);
+  });
+
+  it('does not treat quoted or escaped syntax as structure', () => {
+    assert.deepStrictEqual(check('name.lastName:"(OR)" name.lastName:a\\(b "OR" address.city:"a \\" b"'), []);
+  });
+
+  it('reports problems inside groups in query order', () => {
+    assert.deepStrictEqual(check('(adress:x OR age:*1*) status:,'), [
+      ['unknown_field', 'adress:x'],
+      ['invalid_operator', 'age:*1*'],
+      ['empty_in_list', 'status:,'],
+    ]);
+  });
+});
@@ -0,0 +1,494 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+import { loadUtility } from './load-utility.js';
+import { parseQueryString, TokenType } from '../../mock-server/src/query-parser.js';
+
+const searchHelpersPath = join(dirname(fileURLToPath(import.meta.url)), '..', 'utility', 'search-helpers.ts');
+
+/**
+ * Type-check a snippet against search-helpers.ts and return the diagnostics.
+ * Snippets mark expected compile errors with `// @ts-expect-error`.
+ */
+function typeCheck(source) {
+  const dir = mkdtempSync(join(tmpdir(), 'search-types-'));
+  const file = join(dir, 'check.ts');
+  writeFileSync(file, `import { search, sort } from ${JSON.stringify(searchHelpersPath.replace(/\.ts$/, ''))};\n${source}`);
+  const program = ts.createProgram([file], {
+    strict: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    skipLibCheck: true,
+    types: [],
+  });
+  return ts.getPreEmitDiagnostics(program).map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+let helpers;
+
+before(async () => {
+  helpers = await loadUtility('search-helpers');
+});
+
+describe('Search helpers', () => {
+  describe('search.for', () => {
+    it('builds the same strings as the untyped builder', () => {
+      const people = helpers.search.for();
+
+      assert.strictEqual(people.eq('address.state', 'CA'), 'address.state:CA');
+      assert.strictEqual(people.in('status', ['active', 'pending']), 'status:active,pending');
+      assert.strictEqual(people.contains('name', 'john'), 'name:*john*');
+      assert.strictEqual(people.notExists('deletedAt'), '-deletedAt:*');
+    });
+
+    it('writes Date values as ISO 8601', () => {
+      const people = helpers.search.for();
+
+      assert.strictEqual(people.gte('createdAt', new Date('2026-01-01T00:00:00Z')), 'createdAt:>=2026-01-01T00:00:00.000Z');
+    });
+
+    it('limits fields and operators by the model type', () => {
+      const diagnostics = typeCheck(`
+        type Person = {
+          id?: string;
+          age?: number;
+          status?: 'active' | 'inactive';
+          programs?: ('snap' | 'tanf')[];
+          address?: { state?: string; city?: string } | null;
+          createdAt?: string;
+        };
+        const people = search.for<Person, 'createdAt'>();
+
+        people.eq('address.state', 'CA');
+        people.gt('age', 18);
+        people.lte('createdAt', new Date());
+        people.in('status', ['active']);
+        people.in('programs', ['snap', 'tanf']);
+        people.contains('address.city', 'den');
+        people.exists('address');
+
+        // @ts-expect-error unknown field
+        people.eq('adress.state', 'CA');
+        // @ts-expect-error comparison on a string
+        people.gt('address.state', 'CA');
+        // @ts-expect-error contains on an enum
+        people.contains('status', 'act');
+        // @ts-expect-error contains on a date
+        people.contains('createdAt', '2026');
+        // @ts-expect-error in on a free-text string
+        people.in('id', ['1']);
+        // @ts-expect-error value outside the enum
+        people.in('status', ['archived']);
+        // @ts-expect-error number field compared with a string
+        people.gte('age', '18');
+      `);
+
+      assert.deepStrictEqual(diagnostics, []);
+    });
+  });
+
+  describe('sort', () => {
+    it('builds the comma-separated sort syntax', () => {
+      const { sort } = helpers;
+
+      assert.strictEqual(sort.asc('createdAt'), 'createdAt');
+      assert.strictEqual(sort.desc('priority'), '-priority');
+      assert.strictEqual(sort.by(sort.desc('priority'), sort.asc('createdAt')), '-priority,createdAt');
+      assert.strictEqual(sort.by(), '');
+    });
+
+    it('typed builders produce the same strings', () => {
+      const taskSort = helpers.sort.for();
+
+      assert.strictEqual(taskSort.by(taskSort.desc('priority'), 'dueDate'), '-priority,dueDate');
+    });
+
+    it('limits fields to the sortable union', () => {
+      const diagnostics = typeCheck(`
+        const taskSort = sort.for<'priority' | 'name.lastName'>();
+        taskSort.by(taskSort.desc('priority'), taskSort.asc('name.lastName'), '-priority', 'name.lastName');
+        // @ts-expect-error not sortable
+        taskSort.asc('title');
+        // @ts-expect-error not sortable
+        taskSort.by('-title');
+        // @ts-expect-error a sort term needs a field after the minus
+        taskSort.by('--priority');
+      `);
+
+      assert.deepStrictEqual(diagnostics, []);
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('returns no conditions for an empty query', () => {
+      assert.deepStrictEqual(helpers.parseQuery(''), { conditions: [] });
+    });
+
+    it('parses field conditions into typed parts', () => {
+      const { conditions } = helpers.parseQuery('status:approved income:>=1000 -programs:snap,tanf');
+
+      assert.deepStrictEqual(conditions, [
+        { field: 'status', operator: 'eq', values: ['approved'], negated: false, wildcard: 'none' },
+        { field: 'income', operator: 'gte', values: ['1000'], negated: false, wildcard: 'none' },
+        { field: 'programs', operator: 'in', values: ['snap', 'tanf'], negated: true, wildcard: 'none' },
+      ]);
+    });
+
+    it('parses full-text terms with a null field', () => {
+      const { conditions } = helpers.parseQuery('*john*');
+
+      assert.deepStrictEqual(conditions, [
+        { field: null, operator: 'eq', values: ['john'], negated: false, wildcard: 'contains' },
+      ]);
+    });
+
+    it('parses existence checks with no values', () => {
+      const { conditions } = helpers.parseQuery('-deletedAt:*');
+
+      assert.deepStrictEqual(conditions, [
+        { field: 'deletedAt', operator: 'exists', values: [], negated: true, wildcard: 'none' },
+      ]);
+    });
+
+    it('keeps quoted values with spaces together', () => {
+      const { conditions } = helpers.parseQuery('name:"john doe" status:active');
+
+      assert.strictEqual(conditions.length, 2);
+      assert.deepStrictEqual(conditions[0].values, ['john doe']);
+    });
+
+    it('keeps numeric values as written', () => {
+      const { conditions } = helpers.parseQuery('amount:1.50');
+
+      assert.deepStrictEqual(conditions[0].values, ['1.50']);
+    });
+  });
+
+  describe('stringify', () => {
+    it('builds a query from a hand-written AST', () => {
+      const query = helpers.stringify({
+        conditions: [
+          { field: 'status', operator: 'eq', values: ['approved'], negated: true, wildcard: 'none' },
+          { field: 'name', operator: 'eq', values: ['john doe'], negated: false, wildcard: 'startsWith' },
+        ],
+      });
+
+      assert.strictEqual(query, '-status:approved name:"john doe"*');
+    });
+
+    it('round-trips every query the search builder produces', () => {
+      const { q, search } = helpers;
+      const query = q(
+        search.eq('status', 'approved'),
+        search.gt('income', 1000),
+        search.gte('income', 1000),
+        search.lt('age', 65),
+        search.lte('income', 5000),
+        search.in('programs', ['snap', 'cash_programs']),
+        search.not('state', 'TX'),
+        search.exists('email'),
+        search.notExists('deletedAt'),
+        search.contains('name', 'john'),
+        search.startsWith('name', 'john'),
+        search.endsWith('email', '@example.com'),
+        search.quoted('name', 'john doe'),
+        search.eq('address.state', 'CA'),
+        search.text('john'),
+        search.textContains('john'),
+        search.textStartsWith('john'),
+        search.textEndsWith('smith'),
+      );
+
+      assert.strictEqual(helpers.stringify(helpers.parseQuery(query)), query);
+    });
+
+    it('round-trips single-value and empty in lists', () => {
+      for (const query of ['status:a,', 'status:,', '-status:a,']) {
+        assert.strictEqual(helpers.stringify(helpers.parseQuery(query)), query);
+      }
+    });
+
+    it('normalizes hand-written queries', () => {
+      assert.strictEqual(helpers.stringify(helpers.parseQuery('  status:"approved"   income:>5 ')), 'status:approved income:>5');
+    });
+  });
+
+  describe('escaping', () => {
+    const adversarial = [
+      "Mary-Kate O'Neil, Jr.",
+      'first*last@example.com',
+      '-leading-hyphen',
+      'field:value',
+      '>=100 dollars',
+      'say "hi"',
+      'back\\slash\\',
+      '(grouped)',
+      '*',
+      '',
+      '  padded  ',
+      'tab\tand\nnewline',
+    ];
+
+    it('quotes only values that need it', () => {
+      assert.strictEqual(helpers.escapeValue('approved'), 'approved');
+      assert.strictEqual(helpers.escapeValue(42), '42');
+      assert.strictEqual(helpers.escapeValue("O'Neil"), "O'Neil");
+      assert.strictEqual(helpers.escapeValue('Smith, John'), '"Smith, John"');
+      assert.strictEqual(helpers.escapeValue('say "hi"'), '"say \\"hi\\""');
+      assert.strictEqual(helpers.escapeValue(''), '""');
+      assert.strictEqual(helpers.escapeValue('2026-01-01T09:30:00Z'), '2026-01-01T09:30:00Z');
+      assert.strictEqual(helpers.escapeValue('>5'), '">5"');
+    });
+
+    it('also quotes colons and leading hyphens in full-text terms', () => {
+      assert.strictEqual(helpers.escapeTerm('field:value'), '"field:value"');
+      assert.strictEqual(helpers.escapeTerm('-john'), '"-john"');
+      assert.strictEqual(helpers.escapeTerm('john'), 'john');
+    });
+
+    for (const value of adversarial) {
+      it(`round-trips ${JSON.stringify(value)} through the mock server parser`, () => {
+        const { search } = helpers;
+        const cases = [
+          [search.eq('name', value), TokenType.EXACT],
+          [search.not('name', value), TokenType.NOT_EQUAL],
+          [search.contains('name', value), TokenType.CONTAINS],
+          [search.startsWith('name', value), TokenType.STARTS_WITH],
+          [search.endsWith('name', value), TokenType.ENDS_WITH],
+          [search.quoted('name', value), TokenType.EXACT],
+          [search.gt('name', value), TokenType.GREATER_THAN],
+          [search.text(value), TokenType.FULL_TEXT],
+          [search.textContains(value), TokenType.FULL_TEXT_CONTAINS],
+        ];
+
+        for (const [query, type] of cases) {
+          const tokens = parseQueryString(query);
+          assert.strictEqual(tokens.length, 1, query);
+          assert.strictEqual(tokens[0].type, type, query);
+          assert.strictEqual(tokens[0].value, value, query);
+          assert.deepStrictEqual(helpers.parseQuery(query).conditions[0].values, [value], query);
+          assert.strictEqual(helpers.stringify(helpers.parseQuery(query)), query === search.quoted('name', value) ? search.eq('name', value) : query);
+        }
+      });
+    }
+
+    it('keeps commas inside in-list values', () => {
+      const query = helpers.search.in('name', ['Smith, John', 'Doe', "O'Neil, Jr."]);
+
+      assert.strictEqual(query, `name:"Smith, John",Doe,"O'Neil, Jr."`);
+      assert.deepStrictEqual(parseQueryString(query)[0].value, ['Smith, John', 'Doe', "O'Neil, Jr."]);
+      assert.deepStrictEqual(helpers.parseQuery(query).conditions[0].values, ['Smith, John', 'Doe', "O'Neil, Jr."]);
+    });
+
+    it('refuses an empty in-list instead of emitting an invalid term', async () => {
+      const { validateQuery } = await loadUtility('query-validation');
+
+      // What an unchecked search.in('status', []) would build
+      assert.ok(validateQuery('status:', { status: 'enum' }).length > 0);
+      assert.throws(() => helpers.search.in('status', []), RangeError);
+      assert.throws(() => helpers.search.for().in('status', []), RangeError);
+    });
+
+    it('reads backslash escapes outside quotes', () => {
+      assert.deepStrictEqual(helpers.parseQuery('tag:a\\,b').conditions[0].values, ['a,b']);
+    });
+  });
+
+  describe('groups', () => {
+    it('builds and, or and group strings', () => {
+      const { q, search } = helpers;
+
+      assert.strictEqual(
+        search.or(search.and(search.eq('status', 'pending'), search.eq('priority', 'high')), search.eq('assignedTo', 'me')),
+        '((status:pending priority:high) OR assignedTo:me)'
+      );
+      assert.strictEqual(q(search.group('status:pending OR status:open'), 'county:Denver'), '(status:pending OR status:open) county:Denver');
+      assert.strictEqual(search.or('', search.eq('a', 1), ''), '(a:1)');
+      assert.strictEqual(search.and(), '');
+      assert.strictEqual(search.group(''), '');
+    });
+
+    it('quotes keywords and parentheses used as values', () => {
+      const { search } = helpers;
+
+      assert.strictEqual(search.text('OR'), '"OR"');
+      assert.strictEqual(search.text('or'), 'or');
+      assert.strictEqual(search.eq('name', '(x)'), 'name:"(x)"');
+      assert.deepStrictEqual(parseQueryString(search.text('AND')), [{ type: TokenType.FULL_TEXT, field: null, value: 'AND' }]);
+    });
+
+    it('parses OR with AND binding tighter', () => {
+      const [group] = helpers.parseQuery('status:pending priority:high OR assignedTo:me').conditions;
+
+      assert.strictEqual(group.operator, 'or');
+      assert.strictEqual(group.children[0].operator, 'and');
+      assert.deepStrictEqual(group.children[0].children.map(c => c.field), ['status', 'priority']);
+      assert.strictEqual(group.children[1].field, 'assignedTo');
+      assert.strictEqual(helpers.isQueryGroup(group), true);
+      assert.strictEqual(helpers.isQueryGroup(group.children[1]), false);
+    });
+
+    it('parses negated groups', () => {
+      const [group] = helpers.parseQuery('-(status:denied OR status:withdrawn)').conditions;
+
+      assert.strictEqual(group.negated, true);
+      assert.strictEqual(group.operator, 'or');
+    });
+
+    it('round-trips nested builder output', () => {
+      const { q, search } = helpers;
+      const query = q(
+        search.eq('county', 'Denver'),
+        search.or(
+          search.and(search.eq('status', 'pending'), search.or(search.eq('priority', 'high'), search.lt('dueDate', '2026-01-01'))),
+          search.eq('assignedTo', 'me'),
+        ),
+        search.group('a OR b'),
+        search.and(search.text('OR')),
+      );
+
+      assert.strictEqual(helpers.stringify(helpers.parseQuery(query)), query);
+      assert.strictEqual(helpers.stringify(helpers.parseQuery('-(a b)')), '-(a b)');
+    });
+
+    it('normalizes hand-written groups', () => {
+      assert.strictEqual(helpers.stringify(helpers.parseQuery('a b OR c')), '((a b) OR c)');
+      assert.strictEqual(helpers.stringify(helpers.parseQuery('(a AND b)c')), '(a b) c');
+      assert.strictEqual(helpers.stringify(helpers.parseQuery('(a OR b')), '(a OR b)');
+      assert.strictEqual(helpers.stringify(helpers.parseQuery('OR a) () AND')), 'a');
+    });
+
+    // Reduce both trees to the same shape: groups by kind, conditions by
+    // server token type, with single-child and same-kind nesting collapsed
+    // the way the mock server does.
+    const clientShape = (node, parent = 'and') => {
+      if (!helpers.isQueryGroup(node)) return [helpers.conditionTokenType(node)];
+      const children = node.children.flatMap(child => clientShape(child, node.operator));
+      if (node.negated) return [{ kind: 'and', negated: true, children: children.length === 1 ? children : [{ kind: node.operator, negated: false, children }] }];
+      if (children.length === 1 || node.operator === parent) return children;
+      return [{ kind: node.operator, negated: false, children }];
+    };
+    const serverShape = (token) => {
+      if (token.type !== TokenType.AND && token.type !== TokenType.OR) return token.type;
+      return { kind: token.type, negated: token.negated, children: token.value.map(serverShape) };
+    };
+
+    const queries = [
+      'a OR b', 'a b OR c', '(a b) OR c', 'x (a OR b)', '(a OR (b OR c)) d',
+      '-(a OR b) c', '-(a)', '-(-(a b))', '((a))', '(a OR b', 'a) b', 'OR a AND',
+      'status:pending AND (priority:>2 OR -assignedTo:*)', '"OR" or name:"(x)"',
+    ];
+
+    for (const query of queries) {
+      it(`matches the mock server grouping for ${query}`, () => {
+        const client = helpers.parseQuery(query).conditions.flatMap(node => clientShape(node));
+        const server = parseQueryString(query).map(serverShape);
+
+        assert.deepStrictEqual(client, server);
+      });
+    }
+  });
+
+  describe('dates', () => {
+    it('builds relative time tokens', () => {
+      const { search } = helpers;
+
+      assert.strictEqual(search.now(), '$now');
+      assert.strictEqual(search.now('-30d'), '$now-30d');
+      assert.strictEqual(search.now('+1d@09:00'), '$now+1d@09:00');
+      assert.strictEqual(search.now('@17:00'), '$now@17:00');
+    });
+
+    it('rejects malformed offsets', () => {
+      assert.throws(() => helpers.search.now('30d'), /Invalid time offset "30d"/);
+      assert.throws(() => helpers.search.now('+1.5d'), /Invalid time offset/);
+      assert.throws(() => helpers.search.within('createdAt', { last: '2y' }), /Invalid time offset "-2y"/);
+    });
+
+    it('accepts Date objects, ISO strings and tokens', () => {
+      const { search } = helpers;
+
+      assert.strictEqual(search.before('dueDate', search.now('+2d')), 'dueDate:<$now+2d');
+      assert.strictEqual(search.after('createdAt', '2026-01-01'), 'createdAt:>2026-01-01');
+      assert.strictEqual(search.lte('dueDate', new Date('2026-01-01T00:00:00Z')), 'dueDate:<=2026-01-01T00:00:00.000Z');
+      assert.strictEqual(
+        search.between('createdAt', new Date('2026-01-01T00:00:00Z'), search.now()),
+        'createdAt:>=2026-01-01T00:00:00.000Z createdAt:<=$now'
+      );
+    });
+
+    it('builds ranges ending or starting now', () => {
+      const { search } = helpers;
+
+      assert.strictEqual(search.within('createdAt', { last: '30d' }), 'createdAt:>=$now-30d createdAt:<=$now');
+      assert.strictEqual(search.within('dueDate', { next: '2d' }), 'dueDate:>=$now dueDate:<=$now+2d');
+    });
+
+    it('combines with OR as a range', () => {
+      const { search } = helpers;
+      const query = search.or(search.within('dueDate', { next: '1d' }), search.eq('priority', 'high'));
+
+      assert.strictEqual(query, '(dueDate:>=$now dueDate:<=$now+1d OR priority:high)');
+      const [or] = parseQueryString(query, new Date('2026-01-01T00:00:00Z'));
+      const [range, priority] = or.value;
+      assert.strictEqual(or.type, TokenType.OR);
+      assert.strictEqual(range.type, TokenType.AND);
+      assert.deepStrictEqual(range.value.map(token => [token.type, token.value]), [
+        [TokenType.GREATER_THAN_OR_EQUAL, '2026-01-01T00:00:00.000Z'],
+        [TokenType.LESS_THAN_OR_EQUAL, '2026-01-02T00:00:00.000Z'],
+      ]);
+      assert.strictEqual(priority.value, 'high');
+    });
+
+    it('limits date helpers to date fields', () => {
+      const diagnostics = typeCheck(`
+        type Task = { dueDate?: string; createdAt?: string; priority?: number; title?: string };
+        const tasks = search.for<Task, 'dueDate' | 'createdAt'>();
+
+        tasks.before('dueDate', search.now('+2d'));
+        tasks.after('createdAt', new Date());
+        tasks.between('createdAt', '2026-01-01', search.now());
+        tasks.within('createdAt', { last: '30d' });
+        tasks.gte('dueDate', search.now('-1w'));
+        search.lt('dueDate', new Date());
+
+        // @ts-expect-error not a date field
+        tasks.before('priority', search.now());
+        // @ts-expect-error not a date field
+        tasks.within('title', { next: '1d' });
+        // @ts-expect-error unknown unit
+        tasks.within('dueDate', { last: '2y' });
+        // @ts-expect-error offset needs a sign
+        search.now('30d');
+      `);
+
+      assert.deepStrictEqual(diagnostics, []);
+    });
+  });
+
+  describe('conditionTokenType', () => {
+    const queries = [
+      'john', '*john*', 'john*', '*smith', '-john',
+      'status:approved', 'name:*john*', 'name:john*', 'email:*@example.com',
+      'income:>1000', 'income:>=1000', 'income:<5000', 'income:<=5000',
+      'status:approved,pending', '-status:approved,pending', '-status:denied',
+      'email:*', '-deletedAt:*', 'address.state:CA', 'name:"john doe"',
+      '-name:*john*', '-income:>5', 'income:>1,2',
+    ];
+
+    for (const query of queries) {
+      it(`matches the mock server token type for ${query}`, () => {
+        const [condition] = helpers.parseQuery(query).conditions;
+        const [token] = parseQueryString(query);
+
+        assert.strictEqual(helpers.conditionTokenType(condition), token.type);
+      });
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { loadUtility } from './load-utility.js';
+
+let toURLSearchParams;
+let fromURLSearchParams;
+let DEFAULT_SEARCH_STATE;
+
+before(async () => {
+  ({ toURLSearchParams, fromURLSearchParams, DEFAULT_SEARCH_STATE } = await loadUtility('search-state'));
+});
+
+const FULL_STATE = {
+  q: 'status:"in review" (priority:high OR name:*O\'Neil, Jr.*) createdAt:>=$now-30d',
+  sort: '-priority,name.lastName',
+  limit: 50,
+  offset: 100,
+  types: ['person', 'case'],
+};
+
+describe('search state', () => {
+  describe('toURLSearchParams', () => {
+    it('writes every non-default value with the format version', () => {
+      assert.strictEqual(
+        toURLSearchParams({ q: 'status:pending', sort: '-priority', offset: 50, types: ['person', 'case'] }).toString(),
+        'v=1&q=status%3Apending&sort=-priority&offset=50&types=person%2Ccase'
+      );
+    });
+
+    it('writes nothing for the default state', () => {
+      assert.strictEqual(toURLSearchParams({}).toString(), '');
+      assert.strictEqual(toURLSearchParams(DEFAULT_SEARCH_STATE).toString(), '');
+    });
+
+    it('keeps other parameters from the base and replaces old search parameters', () => {
+      const params = toURLSearchParams({ q: 'a' }, { base: '?tab=cases&q=old&offset=25&v=1' });
+
+      assert.strictEqual(params.toString(), 'tab=cases&v=1&q=a');
+    });
+
+    it('prefixes parameter names', () => {
+      const params = toURLSearchParams({ q: 'a', limit: 10 }, { prefix: 'cases.', base: 'q=other' });
+
+      assert.strictEqual(params.toString(), 'q=other&cases.v=1&cases.q=a&cases.limit=10');
+    });
+
+    it('compares against custom defaults', () => {
+      const defaults = { limit: 50, sort: '-createdAt' };
+
+      assert.strictEqual(toURLSearchParams({ limit: 50, sort: '-createdAt' }, { defaults }).toString(), '');
+      assert.strictEqual(toURLSearchParams({ limit: 25, sort: '' }, { defaults }).toString(), 'v=1&sort=&limit=25');
+    });
+  });
+
+  describe('fromURLSearchParams', () => {
+    it('round-trips a full state', () => {
+      const url = toURLSearchParams(FULL_STATE).toString();
+
+      assert.deepStrictEqual(fromURLSearchParams(url), FULL_STATE);
+      assert.deepStrictEqual(fromURLSearchParams(`?${url}`), FULL_STATE);
+      assert.deepStrictEqual(fromURLSearchParams(new URLSearchParams(url)), FULL_STATE);
+    });
+
+    it('round-trips states that differ from custom defaults', () => {
+      const options = { defaults: { limit: 50, types: ['person'] }, prefix: 's.' };
+      const state = { q: '', sort: '', limit: 25, offset: 0, types: [] };
+
+      assert.deepStrictEqual(fromURLSearchParams(toURLSearchParams(state, options), options), state);
+    });
+
+    it('fills in defaults for absent parameters', () => {
+      assert.deepStrictEqual(fromURLSearchParams(''), { q: '', sort: '', limit: 25, offset: 0, types: [] });
+      assert.deepStrictEqual(
+        fromURLSearchParams('q=john', { defaults: { limit: 100 } }),
+        { q: 'john', sort: '', limit: 100, offset: 0, types: [] }
+      );
+    });
+
+    it('falls back to defaults for invalid numbers', () => {
+      for (const query of ['limit=0&offset=-1', 'limit=101&offset=1.5', 'limit=abc&offset=1e3', 'limit=&offset=']) {
+        const { limit, offset } = fromURLSearchParams(query);
+        assert.deepStrictEqual([limit, offset], [25, 0], query);
+      }
+    });
+
+    it('reads comma-separated and repeated types, dropping unknown values', () => {
+      const types = ['person', 'case', 'task'];
+
+      assert.deepStrictEqual(fromURLSearchParams('types=person,case&types=task&types=person').types, ['person', 'case', 'task']);
+      assert.deepStrictEqual(fromURLSearchParams('types=person,widget,,task', { types }).types, ['person', 'task']);
+    });
+
+    it('ignores unknown parameters', () => {
+      assert.deepStrictEqual(
+        fromURLSearchParams('tab=cases&page=3&q=a&utm_source=mail'),
+        { q: 'a', sort: '', limit: 25, offset: 0, types: [] }
+      );
+    });
+
+    it('reads links written before versioning and links from newer versions', () => {
+      const expected = { q: 'a', sort: '', limit: 10, offset: 0, types: [] };
+
+      assert.deepStrictEqual(fromURLSearchParams('q=a&limit=10'), expected);
+      assert.deepStrictEqual(fromURLSearchParams('v=7&q=a&limit=10&cursor=xyz'), expected);
+    });
+
+    it('only reads parameters with the prefix', () => {
+      assert.deepStrictEqual(
+        fromURLSearchParams('q=other&cases.q=a&cases.types=case', { prefix: 'cases.' }),
+        { q: 'a', sort: '', limit: 25, offset: 0, types: ['case'] }
+      );
+    });
+  });
+});
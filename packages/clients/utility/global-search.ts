@@ -0,0 +1,238 @@
+/**
+ * Cross-Resource Search Helpers for Safety Net API Clients
+ *
+ * Typed wrapper for `GET /search` (platform-openapi.yaml), which searches
+ * persons, cases, applications, tasks and appointments at once and returns
+ * uniform results with a count per resource type.
+ *
+ * @module global-search
+ *
+ * @example
+ * import { platform, refineByFacet } from '@codeforamerica/safety-net-colorado';
+ *
+ * const { globalSearch } = platform;
+ * const request = { q: "smith", limit: 10 };
+ * const results = await globalSearch(request);
+ *
+ * for (const result of results.items) {
+ *   if (result.type === "person") showPerson(result);
+ * }
+ *
+ * // Show only the cases
+ * const cases = await globalSearch(refineByFacet(request, "case"));
+ */
+
+/**
+ * Resource types `GET /search` returns, in spec order. The generator
+ * replaces these with the spec's `SearchResultType` enum.
+ */
+export const SEARCH_RESULT_TYPES = ["person", "case", "application", "task", "appointment"] as const;
+
+/** A resource type matched by `GET /search` */
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number];
+
+/** A typed key-value pair for rendering a result's details */
+export interface SearchResultAttribute {
+  /** Machine-readable key, e.g. `dob` */
+  field: string;
+  /** Display label, e.g. `Date of Birth` */
+  label?: string;
+  /** Display value, pre-formatted as a string */
+  value: string;
+  /** Rendering hint for `value` */
+  type: "string" | "date" | "currency";
+}
+
+/**
+ * A search result whose `type` is `Type`. Use {@link SearchResult} for the
+ * union over all types, which narrows on `result.type`.
+ */
+export interface TypedSearchResult<Type extends SearchResultType> {
+  id: string;
+  type: Type;
+  /** Display title, e.g. a person's name or a case number */
+  title: string;
+  /** Canonical API URL of the matched resource */
+  url: string;
+  /** Relevance between 0 and 1 */
+  score?: number;
+  attributes: SearchResultAttribute[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A search result of one of `Type`, discriminated by `type`.
+ *
+ * @example
+ * switch (result.type) {
+ *   case "person": ...   // result: TypedSearchResult<"person">
+ *   case "case": ...
+ * }
+ */
+export type SearchResult<Type extends SearchResultType = SearchResultType> = {
+  [T in Type]: TypedSearchResult<T>;
+}[Type];
+
+/** Number of matching results per resource type */
+export type SearchFacets<Type extends SearchResultType = SearchResultType> = Record<Type, number>;
+
+/**
+ * Parameters of a `GET /search` request.
+ */
+export interface GlobalSearchRequest<Type extends SearchResultType = SearchResultType> {
+  /** Search query, using the same syntax as `q` on list endpoints */
+  q?: string;
+  /** Resource types to search; all types when empty or omitted */
+  types?: Type[];
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Body of a `GET /search` response.
+ */
+export interface SearchResultList {
+  items: { type: string }[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasNext?: boolean;
+  facets?: { type: string; count: number }[];
+}
+
+/**
+ * Options passed to the generated `search` operation.
+ */
+export interface SearchOperationOptions {
+  query: {
+    q?: string;
+    types?: SearchResultType[];
+    limit?: number;
+    offset?: number;
+  };
+  signal?: AbortSignal;
+}
+
+/**
+ * A `GET /search` response, narrowed to the requested types.
+ */
+export interface GlobalSearchResponse<Type extends SearchResultType = SearchResultType> {
+  items: SearchResult<Type>[];
+  /** Total matching results across the searched types */
+  total: number;
+  limit: number;
+  offset: number;
+  hasNext: boolean;
+  /** Count per searched type; types the server didn't report are 0 */
+  facets: SearchFacets<Type>;
+  /** The request that produced this response, for building the next one */
+  request: GlobalSearchRequest<Type>;
+}
+
+/**
+ * Thrown when `GET /search` returns an error response.
+ */
+export class GlobalSearchError extends Error {
+  /** The `error` from the search response */
+  readonly error: unknown;
+
+  constructor(error: unknown) {
+    super("Search request failed");
+    this.name = "GlobalSearchError";
+    this.error = error;
+  }
+}
+
+/**
+ * The typed search function returned by {@link createGlobalSearch}.
+ */
+export type GlobalSearch = <Type extends SearchResultType = SearchResultType>(
+  request: GlobalSearchRequest<Type>,
+  options?: { signal?: AbortSignal }
+) => Promise<GlobalSearchResponse<Type>>;
+
+function isSearchResultType(type: string): type is SearchResultType {
+  return (SEARCH_RESULT_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Build a typed `globalSearch()` around the generated `search` operation.
+ * Generated clients export one ready-made from the platform domain
+ * (`platform.globalSearch`); use this to bind a different client.
+ *
+ * Results are narrowed to the requested types — anything else the server
+ * returns, such as a type added after this client was generated, is left
+ * out — and facets become a map with a count for every searched type.
+ *
+ * @example
+ * const globalSearch = createGlobalSearch((options) => search({ ...options, client: myClient }));
+ *
+ * const { items, facets } = await globalSearch({ q: "smith", types: ["person", "case"] });
+ * // items: (TypedSearchResult<"person"> | TypedSearchResult<"case">)[]
+ * // facets: { person: number; case: number }
+ *
+ * @param searchFn - Called once per search with `query` and `signal` options
+ * @throws GlobalSearchError from the returned function on an error response
+ */
+export function createGlobalSearch(
+  searchFn: (options: SearchOperationOptions) => Promise<{ data?: SearchResultList; error?: unknown }>
+): GlobalSearch {
+  return async <Type extends SearchResultType = SearchResultType>(
+    request: GlobalSearchRequest<Type>,
+    { signal }: { signal?: AbortSignal } = {}
+  ): Promise<GlobalSearchResponse<Type>> => {
+    const { q, types, limit, offset } = request;
+    const query: SearchOperationOptions["query"] = {};
+    if (q) query.q = q;
+    if (types && types.length > 0) query.types = types;
+    if (limit !== undefined) query.limit = limit;
+    if (offset !== undefined) query.offset = offset;
+
+    const response = await searchFn({ query, signal });
+    if (response.error !== undefined || !response.data) {
+      throw new GlobalSearchError(response.error);
+    }
+
+    const searched = (types && types.length > 0 ? types : SEARCH_RESULT_TYPES) as readonly Type[];
+    const isSearched = (type: string): type is Type => isSearchResultType(type) && searched.includes(type as Type);
+
+    const page = response.data;
+    const facets = Object.fromEntries(searched.map((type) => [type, 0])) as SearchFacets<Type>;
+    for (const facet of page.facets ?? []) {
+      if (isSearched(facet.type)) facets[facet.type] = facet.count;
+    }
+
+    return {
+      items: page.items.filter((item) => isSearched(item.type)) as SearchResult<Type>[],
+      total: page.total,
+      limit: page.limit,
+      offset: page.offset,
+      hasNext: page.hasNext ?? page.offset + page.items.length < page.total,
+      facets,
+      request,
+    };
+  };
+}
+
+/**
+ * The next request after picking a facet: the same query limited to `type`,
+ * from the first page.
+ *
+ * @example
+ * const results = await globalSearch({ q: "smith", limit: 10 });
+ * // results.facets => { person: 12, case: 3, application: 0, task: 1, appointment: 0 }
+ *
+ * const next = refineByFacet(results.request, "case");
+ * // => { q: "smith", limit: 10, types: ["case"], offset: 0 }
+ * const cases = await globalSearch(next);
+ *
+ * @param request - The request whose results are shown, e.g. `response.request`
+ * @param type - The facet the user picked
+ */
+export function refineByFacet<Type extends SearchResultType>(
+  request: GlobalSearchRequest<SearchResultType>,
+  type: Type
+): GlobalSearchRequest<Type> {
+  return { ...request, types: [type], offset: 0 };
+}
@@ -0,0 +1,192 @@
+/**
+ * Pagination Helpers for Safety Net API Clients
+ *
+ * Every list endpoint takes `limit`/`offset` query parameters and returns
+ * `{ items, total, limit, offset, hasNext }`. `paginate()` walks those pages
+ * for you.
+ *
+ * @module pagination
+ *
+ * @example
+ * import { paginate, q, search, sort } from '@codeforamerica/safety-net-colorado';
+ *
+ * const tasks = paginate(listTasks, {
+ *   q: q(search.eq("status", "pending")),
+ *   sort: sort.by(sort.desc("priority")),
+ *   pageSize: 100,
+ * });
+ *
+ * for await (const task of tasks) {
+ *   console.log(task.id);
+ * }
+ */
+
+/**
+ * Largest `limit` the list endpoints accept (`LimitParam` maximum).
+ */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Body of a list response.
+ */
+export interface ListPage<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasNext?: boolean;
+}
+
+/**
+ * What a generated list function resolves to: `data` on success, `error`
+ * on an error response.
+ */
+export interface ListResponse<T> {
+  data?: ListPage<T>;
+  error?: unknown;
+}
+
+/**
+ * Options passed to the list function for each page.
+ */
+export interface PageRequest {
+  query: {
+    q?: string;
+    sort?: string;
+    limit: number;
+    offset: number;
+  };
+  signal?: AbortSignal;
+}
+
+export interface PaginateOptions {
+  /** Search query for the `q` parameter */
+  q?: string;
+  /** Sort expression for the `sort` parameter */
+  sort?: string;
+  /**
+   * Items requested per page, a positive integer. Values over
+   * {@link MAX_PAGE_SIZE} are clamped to it, which is also the default.
+   */
+  pageSize?: number;
+  /** Stop after this many items, requesting no more than needed */
+  maxItems?: number;
+  /** Cancels the in-flight request and stops iteration */
+  signal?: AbortSignal;
+}
+
+/**
+ * An `AsyncIterable` of items that can also be walked page by page.
+ */
+export interface Paginator<T> extends AsyncIterable<T> {
+  /** Iterate whole pages instead of items */
+  pages(): AsyncIterable<ListPage<T>>;
+}
+
+/**
+ * Thrown when a list request returns an error response.
+ */
+export class PaginationError extends Error {
+  /** The `error` from the list response */
+  readonly error: unknown;
+  /** Offset of the page that failed */
+  readonly offset: number;
+
+  constructor(error: unknown, offset: number) {
+    super(`List request at offset ${offset} failed`);
+    this.name = "PaginationError";
+    this.error = error;
+    this.offset = offset;
+  }
+}
+
+/**
+ * Iterate every item of a limit/offset list endpoint.
+ *
+ * Pages are fetched lazily, one at a time, as the iterator is consumed.
+ * Iteration ends when the response reports `hasNext: false` (or, without
+ * `hasNext`, once `offset + items.length` reaches `total`), when a page comes
+ * back empty, or when `maxItems` is reached. Aborting `signal` cancels the
+ * request in flight and rejects with the signal's reason, including between
+ * items of a page already fetched.
+ *
+ * Pass a generated list function directly, or wrap it to add path
+ * parameters or a bound client.
+ *
+ * @example
+ * // Items
+ * for await (const person of paginate(listPersons, { q: "address.state:CA" })) {
+ *   console.log(person.name);
+ * }
+ *
+ * @example
+ * // Pages, with path parameters and a cap
+ * const members = paginate(
+ *   (page) => listApplicationMembers({ ...page, path: { applicationId } }),
+ *   { pageSize: 50, maxItems: 200 }
+ * );
+ * for await (const page of members.pages()) {
+ *   console.log(`${page.offset + page.items.length} of ${page.total}`);
+ * }
+ *
+ * @param listFn - Called once per page with `query` and `signal` options
+ * @param options - Query, sort, page size, item cap and abort signal
+ * @throws {RangeError} If `pageSize` is not a positive integer
+ */
+export function paginate<T>(
+  listFn: (request: PageRequest) => Promise<ListResponse<T>>,
+  options: PaginateOptions = {}
+): Paginator<T> {
+  const { q, sort, signal } = options;
+  const requested = options.pageSize ?? MAX_PAGE_SIZE;
+  if (!Number.isInteger(requested) || requested < 1) {
+    throw new RangeError(`pageSize must be a positive integer, got ${requested}`);
+  }
+  const pageSize = Math.min(requested, MAX_PAGE_SIZE);
+  const maxItems = options.maxItems ?? Infinity;
+
+  async function* pages(): AsyncGenerator<ListPage<T>> {
+    let offset = 0;
+    let fetched = 0;
+
+    while (fetched < maxItems) {
+      signal?.throwIfAborted();
+
+      const limit = Math.min(pageSize, maxItems - fetched);
+      const query: PageRequest["query"] = { limit, offset };
+      if (q) query.q = q;
+      if (sort) query.sort = sort;
+
+      const response = await listFn({ query, signal });
+      signal?.throwIfAborted();
+      if (response.error !== undefined || !response.data) {
+        throw new PaginationError(response.error, offset);
+      }
+
+      const page = response.data;
+      const items = page.items.slice(0, maxItems - fetched);
+      if (items.length === 0) return;
+
+      yield { ...page, items };
+
+      fetched += items.length;
+      offset += page.items.length;
+      const hasNext = page.hasNext ?? offset < page.total;
+      if (!hasNext) return;
+    }
+  }
+
+  async function* items(): AsyncGenerator<T> {
+    for await (const page of pages()) {
+      for (const item of page.items) {
+        signal?.throwIfAborted();
+        yield item;
+      }
+    }
+  }
+
+  return {
+    pages,
+    [Symbol.asyncIterator]: () => items(),
+  };
+}
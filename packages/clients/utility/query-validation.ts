@@ -0,0 +1,264 @@
+/**
+ * Query Validation for Safety Net API Clients
+ *
+ * Checks a `q` string against a resource's searchable fields before it is
+ * sent, so forms can point at the offending term instead of waiting for a
+ * 400 from the server.
+ *
+ * @module query-validation
+ *
+ * @example
+ * import { validateQuery, persons } from '@codeforamerica/safety-net-colorado';
+ *
+ * validateQuery("adress.state:CA createdAt:*2026*", persons.personSearchFields);
+ * // => [
+ * //   { code: "unknown_field", field: "adress.state", term: "adress.state:CA", start: 0, end: 15, ... },
+ * //   { code: "invalid_operator", field: "createdAt", term: "createdAt:*2026*", start: 16, end: 32, ... },
+ * // ]
+ */
+
+import { parseQuery, type QueryCondition } from "./search-helpers.js";
+
+/**
+ * Search type of a field. Array fields use their element's type; `object`
+ * fields can only be checked for existence.
+ */
+export type SearchFieldType = "string" | "number" | "boolean" | "date" | "enum" | "object";
+
+/**
+ * Searchable fields of a resource, keyed by dot-path. Generated clients
+ * export one per searchable resource (e.g. `personSearchFields`).
+ */
+export type ResourceSearchSchema = Readonly<Record<string, SearchFieldType>>;
+
+/**
+ * Kind of problem found in a query:
+ *
+ * - `unknown_field` — the field is not a searchable field of the resource
+ * - `invalid_operator` — the operator can't be applied to the field's type
+ * - `malformed_token` — the term or the query's structure can't be read as intended
+ * - `empty_in_list` — a match-any list has no values
+ */
+export type QueryDiagnosticCode = "unknown_field" | "invalid_operator" | "malformed_token" | "empty_in_list";
+
+/**
+ * One problem in a query, located by character offsets into the query.
+ */
+export interface QueryDiagnostic {
+  code: QueryDiagnosticCode;
+  /** Human-readable description, suitable for an inline form error */
+  message: string;
+  /** Field the problem concerns, or `null` for full-text terms and syntax */
+  field: string | null;
+  /** The offending term as written */
+  term: string;
+  /** Offset of the term's first character */
+  start: number;
+  /** Offset just past the term's last character */
+  end: number;
+}
+
+/** A raw term of the query and where it was written */
+interface LocatedTerm {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const OPEN_GROUP = "(";
+const OPEN_NEGATED_GROUP = "-(";
+const CLOSE_GROUP = ")";
+const KEYWORDS = new Set(["AND", "OR"]);
+
+/** Same grammar as `search.now()` and the mock server's `time-tokens.js` */
+const TIME_TOKEN = /^\$now(?:[+-]\d+[dhwm])?(?:@\d{1,2}:\d{2})?$/;
+
+const COMPARISON_SYMBOLS: Record<string, string> = { gt: ">", gte: ">=", lt: "<", lte: "<=" };
+
+/**
+ * Split a query into terms with their offsets, following the same rules as
+ * `parseQuery`: spaces outside quotes separate terms, and unquoted
+ * parentheses are terms of their own.
+ */
+function locateTerms(query: string): LocatedTerm[] {
+  const terms: LocatedTerm[] = [];
+  let start = -1;
+  let inQuotes = false;
+
+  const flush = (end: number) => {
+    if (start !== -1) terms.push({ text: query.slice(start, end), start, end });
+    start = -1;
+  };
+
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if (char === "\\" && i + 1 < query.length) {
+      if (start === -1) start = i;
+      i++;
+    } else if (inQuotes || (char !== " " && char !== "(" && char !== ")")) {
+      if (start === -1) start = i;
+      if (char === '"') inQuotes = !inQuotes;
+    } else if (char === " ") {
+      flush(i);
+    } else if (char === "(" && start !== -1 && query.slice(start, i) === "-") {
+      terms.push({ text: OPEN_NEGATED_GROUP, start, end: i + 1 });
+      start = -1;
+    } else {
+      flush(i);
+      terms.push({ text: char, start: i, end: i + 1 });
+    }
+  }
+
+  flush(query.length);
+  return terms;
+}
+
+function hasUnterminatedQuote(term: string): boolean {
+  let inQuotes = false;
+  for (let i = 0; i < term.length; i++) {
+    if (term[i] === "\\") i++;
+    else if (term[i] === '"') inQuotes = !inQuotes;
+  }
+  return inQuotes;
+}
+
+/** Operator name of a condition, with wildcard matches named by their kind */
+function describeOperator(condition: QueryCondition): string {
+  if (condition.operator === "eq" && condition.wildcard !== "none") return condition.wildcard;
+  return condition.operator;
+}
+
+function operatorAllows(operator: string, type: SearchFieldType): boolean {
+  switch (operator) {
+    case "exists":
+      return true;
+    case "eq":
+    case "in":
+      return type !== "object";
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+      return type === "number" || type === "date";
+    default:
+      // contains / startsWith / endsWith
+      return type === "string";
+  }
+}
+
+/**
+ * Check a single field or full-text term. Returns at most one diagnostic:
+ * the first problem that would stop the term working.
+ */
+function checkCondition(
+  term: LocatedTerm,
+  schema: ResourceSearchSchema
+): Omit<QueryDiagnostic, "term" | "start" | "end"> | null {
+  if (hasUnterminatedQuote(term.text)) {
+    return { code: "malformed_token", message: "Closing quote is missing", field: null };
+  }
+
+  const [condition] = parseQuery(term.text).conditions as QueryCondition[];
+  const { field } = condition;
+  if (field === null) return null;
+
+  if (field === "") {
+    return { code: "malformed_token", message: "Field name is missing before `:`", field: null };
+  }
+  if (!Object.prototype.hasOwnProperty.call(schema, field)) {
+    return { code: "unknown_field", message: `\`${field}\` is not a searchable field`, field };
+  }
+
+  if (condition.operator === "in" && condition.values.length === 0) {
+    return { code: "empty_in_list", message: `List of values for \`${field}\` is empty`, field };
+  }
+
+  const value = condition.values[0];
+  if (value === "" && condition.operator !== "in" && !term.text.includes('"')) {
+    const symbol = COMPARISON_SYMBOLS[condition.operator];
+    const after = symbol ? `\`${symbol}\`` : "`:`";
+    return { code: "malformed_token", message: `Value is missing after ${after}`, field };
+  }
+
+  const type = schema[field];
+  const operator = describeOperator(condition);
+  if (!operatorAllows(operator, type)) {
+    return { code: "invalid_operator", message: `\`${operator}\` can't be used on ${type} field \`${field}\``, field };
+  }
+
+  if (type === "date" && value?.startsWith("$now") && !TIME_TOKEN.test(value)) {
+    return {
+      code: "malformed_token",
+      message: `\`${value}\` is not a valid time token (e.g. \`$now-30d\`, \`$now+1d@09:00\`)`,
+      field,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check a `q` string against a resource's searchable fields.
+ *
+ * Reports fields the resource doesn't have, operators that don't apply to a
+ * field's type (comparisons need a number or date, wildcards a free-text
+ * string, objects only support `field:*`), empty match-any lists, and
+ * malformed terms: a missing field name or value, an unterminated quote, an
+ * invalid `$now` token, unbalanced parentheses, or `AND`/`OR` without a
+ * condition on each side. Full-text terms are not checked against fields.
+ *
+ * An empty array means the query is valid. Diagnostics are in query order.
+ *
+ * @example
+ * const diagnostics = validateQuery(input, persons.personSearchFields);
+ * for (const d of diagnostics) {
+ *   showError(d.message, { from: d.start, to: d.end });
+ * }
+ *
+ * @example
+ * validateQuery("status:, age:>", { status: "enum", age: "number" })
+ * // => [
+ * //   { code: "empty_in_list", field: "status", term: "status:,", ... },
+ * //   { code: "malformed_token", field: "age", term: "age:>", message: "Value is missing after `>`", ... },
+ * // ]
+ *
+ * @param query - A `q` parameter value
+ * @param schema - Searchable fields of the resource being listed
+ * @returns Problems found, empty when the query is valid
+ */
+export function validateQuery(query: string, schema: ResourceSearchSchema): QueryDiagnostic[] {
+  const diagnostics: QueryDiagnostic[] = [];
+  const report = (term: LocatedTerm, found: Omit<QueryDiagnostic, "term" | "start" | "end">) =>
+    diagnostics.push({ ...found, term: term.text, start: term.start, end: term.end });
+
+  const terms = locateTerms(query ?? "");
+  const openGroups: LocatedTerm[] = [];
+
+  terms.forEach((term, i) => {
+    const previous = terms[i - 1]?.text;
+    const next = terms[i + 1]?.text;
+
+    if (term.text === OPEN_GROUP || term.text === OPEN_NEGATED_GROUP) {
+      openGroups.push(term);
+    } else if (term.text === CLOSE_GROUP) {
+      if (!openGroups.pop()) {
+        report(term, { code: "malformed_token", message: "`)` has no matching `(`", field: null });
+      }
+    } else if (KEYWORDS.has(term.text)) {
+      const startsBranch = previous === undefined || previous === OPEN_GROUP || previous === OPEN_NEGATED_GROUP || KEYWORDS.has(previous);
+      const endsBranch = next === undefined || next === CLOSE_GROUP || KEYWORDS.has(next);
+      if (startsBranch || endsBranch) {
+        report(term, { code: "malformed_token", message: `\`${term.text}\` needs a condition on each side`, field: null });
+      }
+    } else {
+      const found = checkCondition(term, schema);
+      if (found) report(term, found);
+    }
+  });
+
+  for (const group of openGroups) {
+    report(group, { code: "malformed_token", message: "`(` is never closed", field: null });
+  }
+
+  return diagnostics.sort((a, b) => a.start - b.start);
+}
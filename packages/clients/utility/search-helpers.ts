@@ -25,7 +25,8 @@
  * Combines multiple search conditions into a single query string.
  *
  * Multiple conditions are ANDed together (all must match).
- * Use comma-separated values within a single condition for OR logic.
+ * Use comma-separated values within a single condition for OR logic, or
+ * {@link search.or} to OR whole conditions.
  *
  * ## Syntax Reference
  *
@@ -39,7 +40,7 @@
  * | `field:*value*` | Contains (case-insensitive) | `name:*john*` |
  * | `field:value*` | Starts with | `name:john*` |
  * | `field:*value` | Ends with | `email:*@example.com` |
- * | `field:"value"` | Quoted value (for spaces) | `name:"john doe"` |
+ * | `field:"value"` | Quoted value — literal, no wildcards or commas | `name:"O'Neil, Jr."` |
  * | `field.nested:value` | Nested field (dot notation) | `address.state:CA` |
  * | `field:>value` | Greater than | `income:>1000` |
  * | `field:>=value` | Greater than or equal | `income:>=1000` |
@@ -49,6 +50,28 @@
  * | `-field:value` | Exclude / negate | `-status:denied` |
  * | `field:*` | Field exists (not null) | `email:*` |
  * | `-field:*` | Field does not exist | `-deletedAt:*` |
+ * | `field:*"value"*` | Wildcards around a quoted value | `email:*"a*b"*` |
+ * | `field:"a, b",c` | Quoted values in a list | `name:"Smith, John",Doe` |
+ * | `\c` | Backslash escapes one character | `tag:a\,b` |
+ * | `a OR b` | Either condition matches | `status:pending OR assignedTo:me` |
+ * | `a AND b` | Both match (same as a space) | `status:pending AND priority:high` |
+ * | `(a b)` | Group conditions | `(status:pending priority:high) OR assignedTo:me` |
+ * | `-(a b)` | Exclude a group | `-(status:denied OR status:withdrawn)` |
+ * | `$now` | Current time, resolved by the server per request | `dueDate:<$now` |
+ * | `$now±N{d,h,m,w}` | Relative time, optionally `@HH:MM` | `createdAt:>=$now-30d` |
+ *
+ * ## Grouping
+ *
+ * AND binds tighter than OR, so `a b OR c` means `(a b) OR c`. `AND` and
+ * `OR` are keywords only in upper case and only as whole terms; unquoted
+ * parentheses always open or close a group.
+ *
+ * ## Escaping
+ *
+ * Quoted or backslash-escaped characters are never syntax: they do not split
+ * terms, separate values, start an operator or wildcard, or negate a term.
+ * Inside quotes, write `\"` for a quote and `\\` for a backslash. The
+ * `search` builders apply this automatically (see {@link escapeValue}).
  *
  * @example
  * // Full-text search
@@ -77,6 +100,91 @@ export function q(...conditions: string[]): string {
   return conditions.filter(Boolean).join(" ");
 }
 
+/**
+ * Field values that must be quoted: empty, containing whitespace, quotes,
+ * backslashes, commas, wildcards or parentheses, or starting with a
+ * comparison symbol.
+ */
+const NEEDS_QUOTES = /^$|^[<>]|[\s"\\,*()]/;
+
+/**
+ * Full-text terms also need quotes around a `:` (which would start a field),
+ * a leading `-` (which would negate the term), or when they are exactly the
+ * `AND` / `OR` keywords.
+ */
+const TERM_NEEDS_QUOTES = /^-|:|^(?:AND|OR)$/;
+
+/**
+ * Wrap a value in double quotes, escaping `"` and `\` inside.
+ *
+ * @example
+ * quoteValue('say "hi"')
+ * // => '"say \\"hi\\""'
+ */
+export function quoteValue(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Write a value so the query parser reads it back exactly.
+ *
+ * Numbers, booleans and plain words are returned as-is; anything containing
+ * query syntax is quoted with {@link quoteValue}. Used for the value after
+ * `field:`; full-text terms go through {@link escapeTerm}.
+ *
+ * @example
+ * escapeValue("approved")
+ * // => "approved"
+ *
+ * @example
+ * escapeValue("Mary-Kate O'Neil, Jr.")
+ * // => '"Mary-Kate O\'Neil, Jr."'
+ */
+export function escapeValue(value: string | number | boolean): string {
+  if (typeof value !== "string") return String(value);
+  return NEEDS_QUOTES.test(value) ? quoteValue(value) : value;
+}
+
+/**
+ * Write a full-text term (no field) so the query parser reads it back exactly.
+ *
+ * @example
+ * escapeTerm("-5 days")
+ * // => '"-5 days"'
+ */
+export function escapeTerm(term: string): string {
+  return TERM_NEEDS_QUOTES.test(term) ? quoteValue(term) : escapeValue(term);
+}
+
+function joinGroup(conditions: string[], separator: string): string {
+  const present = conditions.filter(Boolean);
+  return present.length > 0 ? `(${present.join(separator)})` : "";
+}
+
+/** Units of a relative time: days, hours, minutes, weeks */
+export type TimeUnit = "d" | "h" | "m" | "w";
+
+/** A length of time such as `30d` or `8h` */
+export type Duration = `${number}${TimeUnit}`;
+
+/** Offset from now: `-30d`, `+2d`, `+1d@09:00`, or a time of day today `@17:00` */
+export type TimeOffset = `${"+" | "-"}${Duration}` | `${"+" | "-"}${Duration}@${string}` | `@${string}`;
+
+/**
+ * A time relative to the moment the server handles the request, e.g.
+ * `$now-30d`. Saved queries using tokens stay correct as time passes.
+ */
+export type TimeToken = "$now" | `$now${TimeOffset}`;
+
+/** A point in time: a `Date`, an ISO 8601 string, or a {@link TimeToken} */
+export type DateInput = Date | string;
+
+/** A span of time ending now (`last`) or starting now (`next`) */
+export type RelativeRange = { last: Duration } | { next: Duration };
+
+/** Same grammar as the mock server's `time-tokens.js` */
+const TIME_TOKEN = /^\$now(?:[+-]\d+[dhwm])?(?:@\d{1,2}:\d{2})?$/;
+
 /**
  * Search query builder with type-safe methods for each operator.
  *
@@ -113,7 +221,7 @@ export const search = {
    * // => "address.state:CA"
    */
   eq: (field: string, value: string | number | boolean): string =>
-    `${field}:${value}`,
+    `${field}:${escapeValue(value)}`,
 
   /**
    * Greater than: `field:>value`
@@ -121,8 +229,14 @@ export const search = {
    * @example
    * search.gt("income", 1000)
    * // => "income:>1000"
+   *
+   * @example
+   * // Dates are written as ISO 8601
+   * search.gt("createdAt", new Date("2026-01-01"))
+   * // => "createdAt:>2026-01-01T00:00:00.000Z"
    */
-  gt: (field: string, value: string | number): string => `${field}:>${value}`,
+  gt: (field: string, value: string | number | Date): string =>
+    `${field}:>${escapeValue(toQueryValue(value))}`,
 
   /**
    * Greater than or equal: `field:>=value`
@@ -131,7 +245,8 @@ export const search = {
    * search.gte("income", 1000)
    * // => "income:>=1000"
    */
-  gte: (field: string, value: string | number): string => `${field}:>=${value}`,
+  gte: (field: string, value: string | number | Date): string =>
+    `${field}:>=${escapeValue(toQueryValue(value))}`,
 
   /**
    * Less than: `field:<value`
@@ -140,7 +255,8 @@ export const search = {
    * search.lt("age", 65)
    * // => "age:<65"
    */
-  lt: (field: string, value: string | number): string => `${field}:<${value}`,
+  lt: (field: string, value: string | number | Date): string =>
+    `${field}:<${escapeValue(toQueryValue(value))}`,
 
   /**
    * Less than or equal: `field:<=value`
@@ -149,7 +265,8 @@ export const search = {
    * search.lte("income", 5000)
    * // => "income:<=5000"
    */
-  lte: (field: string, value: string | number): string => `${field}:<=${value}`,
+  lte: (field: string, value: string | number | Date): string =>
+    `${field}:<=${escapeValue(toQueryValue(value))}`,
 
   /**
    * Match any of the values (OR): `field:val1,val2,val3`
@@ -157,9 +274,21 @@ export const search = {
    * @example
    * search.in("status", ["approved", "pending", "under_review"])
    * // => "status:approved,pending,under_review"
+   *
+   * @example
+   * // Values containing commas are quoted
+   * search.in("name", ["Smith, John", "Doe"])
+   * // => 'name:"Smith, John",Doe'
+   *
+   * @throws {RangeError} If `values` is empty — `field:` matches nothing and
+   *   `validateQuery` reports it as `empty_in_list`
    */
-  in: (field: string, values: (string | number)[]): string =>
-    `${field}:${values.join(",")}`,
+  in: (field: string, values: (string | number)[]): string => {
+    if (values.length === 0) {
+      throw new RangeError(`search.in("${field}", []) needs at least one value`);
+    }
+    return `${field}:${values.map(escapeValue).join(",")}`;
+  },
 
   /**
    * Exclude / negate: `-field:value`
@@ -168,7 +297,7 @@ export const search = {
    * search.not("status", "denied")
    * // => "-status:denied"
    */
-  not: (field: string, value: string | number): string => `-${field}:${value}`,
+  not: (field: string, value: string | number): string => `-${field}:${escapeValue(value)}`,
 
   /**
    * Field exists (is not null): `field:*`
@@ -194,8 +323,13 @@ export const search = {
    * @example
    * search.contains("name", "john")
    * // => "name:*john*"
+   *
+   * @example
+   * // A literal `*` in the value is quoted
+   * search.contains("email", "a*b")
+   * // => 'email:*"a*b"*'
    */
-  contains: (field: string, value: string): string => `${field}:*${value}*`,
+  contains: (field: string, value: string): string => `${field}:*${escapeValue(value)}*`,
 
   /**
    * Starts with (case-insensitive): `field:value*`
@@ -204,7 +338,7 @@ export const search = {
    * search.startsWith("name", "john")
    * // => "name:john*"
    */
-  startsWith: (field: string, value: string): string => `${field}:${value}*`,
+  startsWith: (field: string, value: string): string => `${field}:${escapeValue(value)}*`,
 
   /**
    * Ends with (case-insensitive): `field:*value`
@@ -213,16 +347,19 @@ export const search = {
    * search.endsWith("email", "@example.com")
    * // => "email:*@example.com"
    */
-  endsWith: (field: string, value: string): string => `${field}:*${value}`,
+  endsWith: (field: string, value: string): string => `${field}:*${escapeValue(value)}`,
 
   /**
-   * Quoted value (for values containing spaces): `field:"value with spaces"`
+   * Quoted value, always wrapped in quotes: `field:"value with spaces"`
+   *
+   * Every builder already quotes values that need it; use this to force
+   * quoting, e.g. so a leading `*` is matched literally.
    *
    * @example
    * search.quoted("name", "john doe")
    * // => 'name:"john doe"'
    */
-  quoted: (field: string, value: string): string => `${field}:"${value}"`,
+  quoted: (field: string, value: string): string => `${field}:${quoteValue(value)}`,
 
   /**
    * Full-text exact match (no field specified)
@@ -233,7 +370,7 @@ export const search = {
    * search.text("john")
    * // => "john"
    */
-  text: (term: string): string => term,
+  text: (term: string): string => escapeTerm(term),
 
   /**
    * Full-text contains search (no field specified)
@@ -242,7 +379,7 @@ export const search = {
    * search.textContains("john")
    * // => "*john*"
    */
-  textContains: (term: string): string => `*${term}*`,
+  textContains: (term: string): string => `*${escapeTerm(term)}*`,
 
   /**
    * Full-text starts with search (no field specified)
@@ -251,7 +388,7 @@ export const search = {
    * search.textStartsWith("john")
    * // => "john*"
    */
-  textStartsWith: (term: string): string => `${term}*`,
+  textStartsWith: (term: string): string => `${escapeTerm(term)}*`,
 
   /**
    * Full-text ends with search (no field specified)
@@ -260,5 +397,824 @@ export const search = {
    * search.textEndsWith("smith")
    * // => "*smith"
    */
-  textEndsWith: (term: string): string => `*${term}`,
+  textEndsWith: (term: string): string => `*${escapeTerm(term)}`,
+
+  /**
+   * All conditions must match: `(a b)`
+   *
+   * Conditions are already ANDed by {@link q}; use this for an AND branch
+   * inside {@link search.or}. Each argument should be a single condition or
+   * group — wrap hand-written query text with {@link search.group} first.
+   *
+   * @example
+   * search.and(search.eq("status", "pending"), search.eq("priority", "high"))
+   * // => "(status:pending priority:high)"
+   */
+  and: (...conditions: string[]): string => joinGroup(conditions, " "),
+
+  /**
+   * At least one condition must match: `(a OR b)`
+   *
+   * @example
+   * search.or(
+   *   search.and(search.eq("status", "pending"), search.eq("priority", "high")),
+   *   search.eq("assignedTo", "me")
+   * )
+   * // => "((status:pending priority:high) OR assignedTo:me)"
+   */
+  or: (...conditions: string[]): string => joinGroup(conditions, " OR "),
+
+  /**
+   * Wrap query text in parentheses so it combines as a single condition.
+   *
+   * Use it for hand-written or user-entered queries, whose top-level `OR`
+   * would otherwise take in the conditions around them.
+   *
+   * @example
+   * q(search.group("status:pending OR status:open"), search.eq("county", "Denver"))
+   * // => "(status:pending OR status:open) county:Denver"
+   */
+  group: (query: string): string => (query ? `(${query})` : ""),
+
+  /**
+   * Relative time token, resolved by the server when it handles the request.
+   *
+   * Offsets are `+` or `-` a number of days (`d`), hours (`h`), minutes
+   * (`m`) or weeks (`w`), optionally followed by a time of day in the
+   * server's time zone.
+   *
+   * @example
+   * search.now()
+   * // => "$now"
+   * search.now("-30d")
+   * // => "$now-30d"
+   * search.now("+1d@09:00")
+   * // => "$now+1d@09:00"
+   *
+   * @throws Error if the offset is malformed
+   */
+  now: (offset: TimeOffset | "" = ""): TimeToken => {
+    const token = `$now${offset}`;
+    if (!TIME_TOKEN.test(token)) {
+      throw new Error(`Invalid time offset "${offset}": expected e.g. "-30d", "+2h" or "+1d@09:00"`);
+    }
+    return token as TimeToken;
+  },
+
+  /**
+   * Before a point in time: `field:<value`
+   *
+   * @example
+   * search.before("dueDate", search.now())
+   * // => "dueDate:<$now"
+   */
+  before: (field: string, value: DateInput): string => search.lt(field, value),
+
+  /**
+   * After a point in time: `field:>value`
+   *
+   * @example
+   * search.after("createdAt", "2026-01-01")
+   * // => "createdAt:>2026-01-01"
+   */
+  after: (field: string, value: DateInput): string => search.gt(field, value),
+
+  /**
+   * Between two points in time, inclusive: `field:>=from field:<=to`
+   *
+   * @example
+   * search.between("createdAt", new Date("2026-01-01"), search.now())
+   * // => "createdAt:>=2026-01-01T00:00:00.000Z createdAt:<=$now"
+   */
+  between: (field: string, from: DateInput, to: DateInput): string =>
+    `${search.gte(field, from)} ${search.lte(field, to)}`,
+
+  /**
+   * Within a span of time ending or starting now, inclusive.
+   *
+   * @example
+   * search.within("createdAt", { last: "30d" })
+   * // => "createdAt:>=$now-30d createdAt:<=$now"
+   *
+   * @example
+   * search.within("dueDate", { next: "2d" })
+   * // => "dueDate:>=$now dueDate:<=$now+2d"
+   *
+   * @throws Error if the duration is malformed
+   */
+  within: (field: string, range: RelativeRange): string =>
+    "last" in range
+      ? search.between(field, search.now(`-${range.last}`), search.now())
+      : search.between(field, search.now(), search.now(`+${range.next}`)),
+
+  /**
+   * Schema-aware builder for one resource type.
+   *
+   * Field names are limited to the dot-paths of `T`, and each operator only
+   * accepts fields of a matching type: comparisons on numbers and dates,
+   * `contains`/`startsWith`/`endsWith` on free-text strings, and `in` on
+   * enum fields with enum values. Generated clients export a ready-made
+   * builder per resource (e.g. `personSearch`) with date fields filled in.
+   *
+   * @example
+   * import type { Person } from './persons';
+   *
+   * const people = search.for<Person, "createdAt">();
+   * people.eq("name.lastName", "Smith");
+   * // => "name.lastName:Smith"
+   * people.gte("createdAt", new Date("2026-01-01"));
+   * // => "createdAt:>=2026-01-01T00:00:00.000Z"
+   * people.in("citizenshipInfo.status", ["citizen", "permanent_resident"]);
+   * // => "citizenshipInfo.status:citizen,permanent_resident"
+   *
+   * people.eq("adress.state", "CA");
+   * // compile error: "adress.state" is not a field of Person
+   *
+   * @typeParam T - Resource model from the generated `types.gen.ts`
+   * @typeParam DateField - Paths of `T` holding date or date-time strings
+   */
+  for: <T, DateField extends FieldPath<T> = never>(): TypedSearch<T, DateField> =>
+    createTypedSearch<T, DateField>(),
+};
+
+type SearchPrimitive = string | number | boolean | bigint | Date | null | undefined;
+
+/** Depth countdown that keeps recursive schemas from expanding forever */
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5];
+
+/**
+ * Dot-notation paths to every field of `T`, up to six levels deep
+ * (`Depth` counts down from 5 to 0, one level per step).
+ *
+ * Arrays are not traversed — the query parser resolves `field.sub` on
+ * objects only — so an array of objects contributes just its own path.
+ */
+export type FieldPath<T, Depth extends number = 5> = [Depth] extends [never]
+  ? never
+  : T extends SearchPrimitive | readonly unknown[]
+    ? never
+    : {
+        [K in keyof T & string]-?: NonNullable<T[K]> extends SearchPrimitive | readonly unknown[]
+          ? K
+          : K | `${K}.${FieldPath<NonNullable<T[K]>, PrevDepth[Depth]>}`;
+      }[keyof T & string];
+
+/**
+ * Type of the field at `Path` in `T`.
+ */
+export type FieldType<T, Path extends string> = Path extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? FieldType<NonNullable<T[K]>, Rest>
+    : never
+  : Path extends keyof T
+    ? T[Path]
+    : never;
+
+/**
+ * Scalar compared by a condition on `Path`: the field's type without null,
+ * or its element type for array fields.
+ */
+export type FieldScalar<T, Path extends string> =
+  NonNullable<FieldType<T, Path>> extends readonly (infer U)[]
+    ? NonNullable<U>
+    : NonNullable<FieldType<T, Path>>;
+
+/** Paths of `T` holding a single comparable value */
+export type ScalarField<T> = {
+  [P in FieldPath<T>]: [FieldScalar<T, P>] extends [string | number | boolean | Date] ? P : never;
+}[FieldPath<T>];
+
+/** Paths of `T` that support `gt`/`gte`/`lt`/`lte`: numbers and dates */
+export type OrderedField<T, DateField extends string = never> =
+  | DateField
+  | { [P in FieldPath<T>]: [FieldScalar<T, P>] extends [number | Date] ? P : never }[FieldPath<T>];
+
+/** Paths of `T` holding free-text strings (not enums or dates) */
+export type TextField<T, DateField extends string = never> = Exclude<
+  {
+    [P in FieldPath<T>]: [FieldScalar<T, P>] extends [string]
+      ? string extends FieldScalar<T, P>
+        ? P
+        : never
+      : never;
+  }[FieldPath<T>],
+  DateField
+>;
+
+/** Paths of `T` whose values are drawn from a fixed set (enums) */
+export type EnumField<T> = {
+  [P in FieldPath<T>]: [FieldScalar<T, P>] extends [string | number]
+    ? string extends FieldScalar<T, P>
+      ? never
+      : number extends FieldScalar<T, P>
+        ? never
+        : P
+    : never;
+}[FieldPath<T>];
+
+/** Value accepted for `Path`; date fields also take `Date` objects and time tokens */
+export type FieldInput<T, Path extends string, DateField extends string = never> = Path extends DateField
+  ? Date | string
+  : FieldScalar<T, Path>;
+
+/**
+ * Builder returned by `search.for<T>()`. Methods build the same strings as
+ * their `search` counterparts; `Date` values are written as ISO 8601.
+ * `before`/`after`/`between`/`within` only accept date fields.
+ */
+export interface TypedSearch<T, DateField extends string = never> {
+  eq<P extends ScalarField<T>>(field: P, value: FieldInput<T, P, DateField>): string;
+  not<P extends ScalarField<T>>(field: P, value: FieldInput<T, P, DateField>): string;
+  gt<P extends OrderedField<T, DateField>>(field: P, value: FieldInput<T, P, DateField>): string;
+  gte<P extends OrderedField<T, DateField>>(field: P, value: FieldInput<T, P, DateField>): string;
+  lt<P extends OrderedField<T, DateField>>(field: P, value: FieldInput<T, P, DateField>): string;
+  lte<P extends OrderedField<T, DateField>>(field: P, value: FieldInput<T, P, DateField>): string;
+  in<P extends EnumField<T>>(field: P, values: FieldScalar<T, P>[]): string;
+  exists(field: FieldPath<T>): string;
+  notExists(field: FieldPath<T>): string;
+  contains(field: TextField<T, DateField>, value: string): string;
+  startsWith(field: TextField<T, DateField>, value: string): string;
+  endsWith(field: TextField<T, DateField>, value: string): string;
+  quoted(field: TextField<T, DateField>, value: string): string;
+  before(field: DateField, value: DateInput): string;
+  after(field: DateField, value: DateInput): string;
+  between(field: DateField, from: DateInput, to: DateInput): string;
+  within(field: DateField, range: RelativeRange): string;
+}
+
+function toQueryValue(value: unknown): string | number | boolean {
+  if (value instanceof Date) return value.toISOString();
+  return value as string | number | boolean;
+}
+
+function createTypedSearch<T, DateField extends string>(): TypedSearch<T, DateField> {
+  // Field and value types only exist at compile time; at runtime every
+  // resource shares the same untyped builder.
+  const builder = {
+    eq: (field: string, value: unknown) => search.eq(field, toQueryValue(value)),
+    not: (field: string, value: unknown) => search.not(field, toQueryValue(value) as string | number),
+    gt: (field: string, value: string | number | Date) => search.gt(field, value),
+    gte: (field: string, value: string | number | Date) => search.gte(field, value),
+    lt: (field: string, value: string | number | Date) => search.lt(field, value),
+    lte: (field: string, value: string | number | Date) => search.lte(field, value),
+    in: (field: string, values: (string | number)[]) => search.in(field, values),
+    exists: (field: string) => search.exists(field),
+    notExists: (field: string) => search.notExists(field),
+    contains: (field: string, value: string) => search.contains(field, value),
+    startsWith: (field: string, value: string) => search.startsWith(field, value),
+    endsWith: (field: string, value: string) => search.endsWith(field, value),
+    quoted: (field: string, value: string) => search.quoted(field, value),
+    before: (field: string, value: DateInput) => search.before(field, value),
+    after: (field: string, value: DateInput) => search.after(field, value),
+    between: (field: string, from: DateInput, to: DateInput) => search.between(field, from, to),
+    within: (field: string, range: RelativeRange) => search.within(field, range),
+  };
+  return builder as unknown as TypedSearch<T, DateField>;
+}
+
+/**
+ * One entry of a `sort` parameter: `field` sorts ascending, `-field` descending.
+ */
+export type SortTerm<Field extends string = string> = Field | `-${Field}`;
+
+/**
+ * Sort builder limited to one endpoint's sortable fields.
+ */
+export interface TypedSort<Field extends string> {
+  asc(field: Field): SortTerm<Field>;
+  desc(field: Field): SortTerm<Field>;
+  by(...terms: SortTerm<Field>[]): string;
+}
+
+/**
+ * Sort expression builder for the `sort` parameter of list endpoints.
+ *
+ * Endpoints only accept the fields listed in their `x-sortable` extension;
+ * generated clients export a {@link TypedSort} per endpoint (e.g.
+ * `listPersonsSort`) so any other field is a compile error.
+ *
+ * @example
+ * import { sort } from '@codeforamerica/safety-net-colorado';
+ *
+ * sort.by(sort.desc("priority"), sort.asc("createdAt"))
+ * // => "-priority,createdAt"
+ *
+ * const results = await listTasks({
+ *   query: { sort: sort.by(sort.desc("priority")), limit: 25 }
+ * });
+ */
+export const sort = {
+  /**
+   * Ascending order: `field`
+   *
+   * @example
+   * sort.asc("createdAt")
+   * // => "createdAt"
+   */
+  asc: <Field extends string>(field: Field): SortTerm<Field> => field,
+
+  /**
+   * Descending order: `-field`
+   *
+   * @example
+   * sort.desc("priority")
+   * // => "-priority"
+   */
+  desc: <Field extends string>(field: Field): SortTerm<Field> => `-${field}`,
+
+  /**
+   * Combine sort terms, highest priority first: `a,-b`
+   *
+   * @example
+   * sort.by(sort.asc("name.lastName"), sort.asc("name.firstName"))
+   * // => "name.lastName,name.firstName"
+   */
+  by: (...terms: string[]): string => terms.filter(Boolean).join(","),
+
+  /**
+   * Sort builder that only accepts the given fields.
+   *
+   * @example
+   * const taskSort = sort.for<"priority" | "dueDate">();
+   * taskSort.by(taskSort.desc("priority"), "dueDate");
+   * // => "-priority,dueDate"
+   *
+   * taskSort.asc("title");
+   * // compile error: "title" is not sortable
+   *
+   * @typeParam Field - Sortable field names, from the endpoint's `x-sortable.fields`
+   */
+  for: <Field extends string>(): TypedSort<Field> => createTypedSort<Field>(),
+};
+
+function createTypedSort<Field extends string>(): TypedSort<Field> {
+  return {
+    asc: (field) => sort.asc(field),
+    desc: (field) => sort.desc(field),
+    by: (...terms) => sort.by(...terms),
+  };
+}
+
+/**
+ * Comparison applied by a parsed search condition.
+ *
+ * Full-text conditions (no field) always use `eq`; wildcards are carried
+ * separately in {@link QueryCondition.wildcard}.
+ */
+export type QueryOperator = "eq" | "gt" | "gte" | "lt" | "lte" | "in" | "exists";
+
+/**
+ * Wildcard placement on a value: `*value*`, `value*`, `*value`, or none.
+ */
+export type WildcardKind = "none" | "contains" | "startsWith" | "endsWith";
+
+/**
+ * Token type names used by the mock server's query parser (`TokenType` in
+ * `query-parser.js`). Useful when comparing client and server interpretations.
+ */
+export type QueryTokenType =
+  | "fullText"
+  | "fullTextContains"
+  | "fullTextStartsWith"
+  | "fullTextEndsWith"
+  | "exact"
+  | "contains"
+  | "startsWith"
+  | "endsWith"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "neq"
+  | "notIn"
+  | "exists"
+  | "notExists";
+
+/**
+ * A single condition parsed from a `q` string.
+ */
+export interface QueryCondition {
+  /** Dot-notation field path, or `null` for a full-text term */
+  field: string | null;
+  operator: QueryOperator;
+  /** Values as written in the query — one entry, several for `in`, none for `exists` */
+  values: string[];
+  /** True when the term carried a leading `-` */
+  negated: boolean;
+  wildcard: WildcardKind;
+}
+
+/**
+ * A parenthesised group parsed from a `q` string, e.g. `(a OR b)`.
+ *
+ * An unparenthesised run of conditions inside an OR branch (`a b` in
+ * `(a b OR c)`) is also an `and` group.
+ */
+export interface QueryGroup {
+  /** How the children combine: `and` (all match) or `or` (any match) */
+  operator: "and" | "or";
+  /** True when the group was written `-( … )` */
+  negated: boolean;
+  children: QueryNode[];
+}
+
+/**
+ * A condition or a group of them.
+ */
+export type QueryNode = QueryCondition | QueryGroup;
+
+/**
+ * Parsed form of a `q` string. Top-level conditions are ANDed together.
+ */
+export interface QueryAst {
+  conditions: QueryNode[];
+}
+
+/**
+ * Whether a parsed node is a group rather than a single condition.
+ *
+ * @example
+ * const ast = parseQuery("(status:pending OR status:open) county:Denver");
+ * ast.conditions.filter(isQueryGroup).length
+ * // => 1
+ */
+export function isQueryGroup(node: QueryNode): node is QueryGroup {
+  return node.operator === "and" || node.operator === "or";
+}
+
+const OPEN_GROUP = "(";
+const OPEN_NEGATED_GROUP = "-(";
+const CLOSE_GROUP = ")";
+const AND_KEYWORD = "AND";
+const OR_KEYWORD = "OR";
+
+const COMPARISON_PREFIXES: [string, QueryOperator][] = [
+  [">=", "gte"],
+  [">", "gt"],
+  ["<=", "lte"],
+  ["<", "lt"],
+];
+
+const COMPARISON_SYMBOLS: Record<string, string> = {
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
 };
+
+/**
+ * Split a query string into terms on spaces outside quotes. Terms keep their
+ * quotes and escapes; unquoted parentheses are terms of their own, with a
+ * directly preceding `-` kept as `-(`. Mirrors `splitQueryTerms` in the mock
+ * server so both sides see the same terms.
+ */
+function splitTerms(query: string): string[] {
+  const terms: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  const flush = () => {
+    if (current.trim()) terms.push(current.trim());
+    current = "";
+  };
+
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if (char === "\\" && i + 1 < query.length) {
+      current += char + query[++i];
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+      current += char;
+    } else if (inQuotes) {
+      current += char;
+    } else if (char === " ") {
+      flush();
+    } else if (char === "(") {
+      if (current.trim() === "-") {
+        current = "";
+        terms.push(OPEN_NEGATED_GROUP);
+      } else {
+        flush();
+        terms.push(OPEN_GROUP);
+      }
+    } else if (char === ")") {
+      flush();
+      terms.push(CLOSE_GROUP);
+    } else {
+      current += char;
+    }
+  }
+
+  flush();
+  return terms;
+}
+
+interface TermCursor {
+  terms: string[];
+  pos: number;
+}
+
+/**
+ * Parse `and-expression (OR and-expression)*` up to a closing parenthesis or
+ * the end of the query. Returns the OR branches, each a list of ANDed nodes.
+ */
+function parseBranches(cursor: TermCursor): QueryNode[][] {
+  const branches: QueryNode[][] = [];
+
+  while (cursor.pos < cursor.terms.length) {
+    const branch = parseAndNodes(cursor);
+    if (branch.length > 0) branches.push(branch);
+    if (cursor.terms[cursor.pos] !== OR_KEYWORD) break;
+    cursor.pos++;
+  }
+
+  return branches;
+}
+
+function parseAndNodes(cursor: TermCursor): QueryNode[] {
+  const nodes: QueryNode[] = [];
+
+  while (cursor.pos < cursor.terms.length) {
+    const term = cursor.terms[cursor.pos];
+    if (term === OR_KEYWORD || term === CLOSE_GROUP) break;
+    cursor.pos++;
+
+    if (term === AND_KEYWORD) continue;
+
+    if (term === OPEN_GROUP || term === OPEN_NEGATED_GROUP) {
+      const branches = parseBranches(cursor);
+      if (cursor.terms[cursor.pos] === CLOSE_GROUP) cursor.pos++;
+      if (branches.length > 0) nodes.push(toGroup(branches, term === OPEN_NEGATED_GROUP));
+      continue;
+    }
+
+    nodes.push(parseCondition(term));
+  }
+
+  return nodes;
+}
+
+function toGroup(branches: QueryNode[][], negated: boolean): QueryGroup {
+  if (branches.length === 1) {
+    return { operator: "and", negated, children: branches[0] };
+  }
+  return {
+    operator: "or",
+    negated,
+    children: branches.map((branch) =>
+      branch.length === 1 ? branch[0] : { operator: "and", negated: false, children: branch }
+    ),
+  };
+}
+
+/** A decoded character; literal characters were quoted or escaped */
+interface ScannedChar {
+  ch: string;
+  literal: boolean;
+}
+
+/**
+ * Decode a raw term into characters tagged as syntax or literal. Each opening
+ * quote emits an empty literal marker so `""` still counts as a value.
+ */
+function scanChars(term: string): ScannedChar[] {
+  const chars: ScannedChar[] = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < term.length; i++) {
+    const ch = term[i];
+    if (ch === "\\" && i + 1 < term.length) {
+      chars.push({ ch: term[++i], literal: true });
+    } else if (ch === '"') {
+      if (!inQuotes) chars.push({ ch: "", literal: true });
+      inQuotes = !inQuotes;
+    } else {
+      chars.push({ ch, literal: inQuotes });
+    }
+  }
+
+  return chars;
+}
+
+function isSyntax(char: ScannedChar | undefined, ch: string): boolean {
+  return char !== undefined && !char.literal && char.ch === ch;
+}
+
+function charsToString(chars: ScannedChar[]): string {
+  return chars.map((c) => c.ch).join("");
+}
+
+function splitWildcard(chars: ScannedChar[]): { wildcard: WildcardKind; value: string } {
+  const leading = isSyntax(chars[0], "*");
+  const trailing = isSyntax(chars[chars.length - 1], "*");
+  let clean = chars;
+  if (leading) clean = clean.slice(1);
+  if (trailing) clean = clean.slice(0, -1);
+  const value = charsToString(clean);
+
+  if (leading && trailing) return { wildcard: "contains", value };
+  if (leading) return { wildcard: "endsWith", value };
+  if (trailing) return { wildcard: "startsWith", value };
+  return { wildcard: "none", value };
+}
+
+function parseCondition(term: string): QueryCondition {
+  let chars = scanChars(term);
+  const negated = isSyntax(chars[0], "-");
+  if (negated) chars = chars.slice(1);
+
+  const colonIndex = chars.findIndex((c) => isSyntax(c, ":"));
+  if (colonIndex === -1) {
+    const { wildcard, value } = splitWildcard(chars);
+    return { field: null, operator: "eq", values: [value], negated, wildcard };
+  }
+
+  const field = charsToString(chars.slice(0, colonIndex));
+  let valueChars = chars.slice(colonIndex + 1);
+
+  if (valueChars.length === 1 && isSyntax(valueChars[0], "*")) {
+    return { field, operator: "exists", values: [], negated, wildcard: "none" };
+  }
+
+  let operator: QueryOperator = "eq";
+  for (const [prefix, op] of COMPARISON_PREFIXES) {
+    if ([...prefix].every((ch, i) => isSyntax(valueChars[i], ch))) {
+      operator = op;
+      valueChars = valueChars.slice(prefix.length);
+      break;
+    }
+  }
+
+  if (valueChars.some((c) => isSyntax(c, ","))) {
+    const values: string[] = [];
+    let current: ScannedChar[] = [];
+    for (const char of [...valueChars, { ch: ",", literal: false }]) {
+      if (isSyntax(char, ",")) {
+        if (current.length > 0) values.push(charsToString(current));
+        current = [];
+      } else {
+        current.push(char);
+      }
+    }
+    return { field, operator: "in", values, negated, wildcard: "none" };
+  }
+
+  if (operator === "eq") {
+    const parsed = splitWildcard(valueChars);
+    return { field, operator, values: [parsed.value], negated, wildcard: parsed.wildcard };
+  }
+
+  return { field, operator, values: [charsToString(valueChars)], negated, wildcard: "none" };
+}
+
+/**
+ * Parse a `q` string into a typed query AST.
+ *
+ * Accepts every form listed in the {@link q} syntax reference and interprets
+ * it the same way the mock server's `query-parser.js` does. Parenthesised
+ * groups and OR chains become {@link QueryGroup} nodes; unbalanced
+ * parentheses and dangling keywords are skipped, as on the server.
+ *
+ * @example
+ * parseQuery('status:approved -programs:snap,tanf name:*john*')
+ * // => { conditions: [
+ * //   { field: "status", operator: "eq", values: ["approved"], negated: false, wildcard: "none" },
+ * //   { field: "programs", operator: "in", values: ["snap", "tanf"], negated: true, wildcard: "none" },
+ * //   { field: "name", operator: "eq", values: ["john"], negated: false, wildcard: "contains" }
+ * // ] }
+ *
+ * @example
+ * parseQuery("(status:pending priority:high) OR assignedTo:me")
+ * // => { conditions: [{ operator: "or", negated: false, children: [
+ * //   { operator: "and", negated: false, children: [<status:pending>, <priority:high>] },
+ * //   <assignedTo:me>
+ * // ] }] }
+ *
+ * @param query - A `q` parameter value
+ * @returns The parsed conditions, in order
+ */
+export function parseQuery(query: string): QueryAst {
+  const conditions: QueryNode[] = [];
+  if (!query) return { conditions };
+
+  const cursor: TermCursor = { terms: splitTerms(query), pos: 0 };
+  while (cursor.pos < cursor.terms.length) {
+    const branches = parseBranches(cursor);
+    if (branches.length > 1) {
+      conditions.push(toGroup(branches, false));
+    } else if (branches.length === 1) {
+      conditions.push(...branches[0]);
+    }
+    // Skip an unmatched closing parenthesis
+    if (cursor.terms[cursor.pos] === CLOSE_GROUP) cursor.pos++;
+  }
+
+  return { conditions };
+}
+
+function wrapWildcard(escaped: string, wildcard: WildcardKind): string {
+  switch (wildcard) {
+    case "contains":
+      return `*${escaped}*`;
+    case "startsWith":
+      return `${escaped}*`;
+    case "endsWith":
+      return `*${escaped}`;
+    default:
+      return escaped;
+  }
+}
+
+function stringifyCondition(condition: QueryCondition): string {
+  const { field, operator, values, negated, wildcard } = condition;
+  const prefix = negated ? "-" : "";
+
+  if (field === null) {
+    return prefix + wrapWildcard(escapeTerm(values[0] ?? ""), wildcard);
+  }
+
+  switch (operator) {
+    case "exists":
+      return `${prefix}${field}:*`;
+    case "in": {
+      // A trailing comma keeps zero- and one-value lists parsing back as `in`
+      const list = values.map(escapeValue).join(",");
+      return `${prefix}${field}:${values.length < 2 ? `${list},` : list}`;
+    }
+    case "eq":
+      return `${prefix}${field}:${wrapWildcard(escapeValue(values[0] ?? ""), wildcard)}`;
+    default:
+      return `${prefix}${field}:${COMPARISON_SYMBOLS[operator]}${escapeValue(values[0] ?? "")}`;
+  }
+}
+
+function stringifyNode(node: QueryNode): string {
+  if (!isQueryGroup(node)) return stringifyCondition(node);
+
+  const children = node.children.map(stringifyNode).filter(Boolean);
+  if (children.length === 0) return "";
+  const joined = children.join(node.operator === "or" ? " OR " : " ");
+  return `${node.negated ? "-" : ""}(${joined})`;
+}
+
+/**
+ * Turn a query AST back into a `q` string.
+ *
+ * `stringify(parseQuery(s))` returns `s` unchanged for any query built with
+ * {@link q} and {@link search}; hand-written queries come back in that same
+ * canonical form (single spaces, values escaped by {@link escapeValue},
+ * every group and top-level OR chain in parentheses).
+ *
+ * @example
+ * const ast = parseQuery("status:approved");
+ * ast.conditions[0].negated = true;
+ * stringify(ast);
+ * // => "-status:approved"
+ *
+ * @param ast - Parsed or hand-built query
+ * @returns A search query string to pass to the `q` parameter
+ */
+export function stringify(ast: QueryAst): string {
+  return q(...ast.conditions.map(stringifyNode));
+}
+
+/**
+ * Name of the mock server `TokenType` a condition evaluates as.
+ *
+ * The server ignores `-` on wildcard and comparison terms, and treats a
+ * negated full-text term as a search for the literal `-term`; the returned
+ * type reflects that.
+ *
+ * @example
+ * conditionTokenType(parseQuery("-status:denied").conditions[0])
+ * // => "neq"
+ */
+export function conditionTokenType(condition: QueryCondition): QueryTokenType {
+  const { field, operator, negated, wildcard } = condition;
+
+  if (field === null) {
+    switch (wildcard) {
+      case "contains":
+        return "fullTextContains";
+      case "startsWith":
+        return "fullTextStartsWith";
+      case "endsWith":
+        return "fullTextEndsWith";
+      default:
+        return "fullText";
+    }
+  }
+
+  switch (operator) {
+    case "exists":
+      return negated ? "notExists" : "exists";
+    case "in":
+      return negated ? "notIn" : "in";
+    case "eq":
+      if (wildcard !== "none") return wildcard;
+      return negated ? "neq" : "exact";
+    default:
+      return operator;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Search State Serialization for Safety Net API Clients
+ *
+ * Encodes the parameters of a list or search request — `q`, `sort`,
+ * `limit`, `offset` and the cross-resource `types` filter — into URL query
+ * parameters and back, for deep links and bookmarks.
+ *
+ * @module search-state
+ *
+ * @example
+ * import { fromURLSearchParams, toURLSearchParams, search, q } from '@codeforamerica/safety-net-colorado';
+ *
+ * const state = fromURLSearchParams(location.search);
+ * const next = { ...state, q: q(state.q, search.eq("status", "pending")), offset: 0 };
+ * history.pushState(null, "", `?${toURLSearchParams(next, { base: location.search })}`);
+ */
+
+import { MAX_PAGE_SIZE } from "./pagination.js";
+
+/**
+ * Format version written to the `v` parameter. Links without `v` are read as
+ * version 1, so links written before versioning keep working.
+ */
+export const SEARCH_STATE_VERSION = 1;
+
+/**
+ * Parameters of a list or search request.
+ */
+export interface SearchState<Type extends string = string> {
+  /** Search query for the `q` parameter; empty for none */
+  q: string;
+  /** Sort expression for the `sort` parameter; empty for the endpoint default */
+  sort: string;
+  limit: number;
+  offset: number;
+  /** Resource types for the cross-resource `/search` endpoint; empty for all */
+  types: Type[];
+}
+
+/**
+ * Values left out of the URL, and filled in when a parameter is absent or
+ * invalid. `limit` and `offset` match `LimitParam` and `OffsetParam`.
+ */
+export const DEFAULT_SEARCH_STATE: Readonly<SearchState<never>> = Object.freeze({
+  q: "",
+  sort: "",
+  limit: 25,
+  offset: 0,
+  types: [],
+});
+
+export interface SearchStateOptions<Type extends string = string> {
+  /** Prefix for every parameter name, to share a URL with other state (e.g. `"cases."`) */
+  prefix?: string;
+  /** Defaults to use instead of {@link DEFAULT_SEARCH_STATE} */
+  defaults?: Partial<SearchState<Type>>;
+  /** Accepted `types` values; others are dropped when reading */
+  types?: readonly Type[];
+}
+
+export interface ToURLSearchParamsOptions<Type extends string = string> extends SearchStateOptions<Type> {
+  /** Existing parameters to keep, e.g. `location.search`; search parameters in it are replaced */
+  base?: URLSearchParams | string;
+}
+
+const KEYS = ["v", "q", "sort", "limit", "offset", "types"] as const;
+
+type Key = (typeof KEYS)[number];
+
+type Decoder = (
+  read: (key: Key) => string[],
+  defaults: SearchState,
+  types: readonly string[] | undefined
+) => SearchState;
+
+function readInteger(raw: string | undefined, min: number, max: number, fallback: number): number {
+  if (raw === undefined || !/^\d+$/.test(raw)) return fallback;
+  const value = Number(raw);
+  return value >= min && value <= max ? value : fallback;
+}
+
+/**
+ * Decoders per format version. Add a decoder here when the format changes,
+ * and keep the old ones so existing bookmarks still parse.
+ */
+const DECODERS: Record<number, Decoder> = {
+  1: (read, defaults, types) => {
+    // An empty `types=` is kept: it overrides non-empty default types
+    const written = read("types");
+    const listed = written.flatMap((value) => value.split(",")).filter((value) => value !== "");
+    const allowed = types ? listed.filter((value) => types.includes(value)) : listed;
+
+    return {
+      q: read("q")[0] ?? defaults.q,
+      sort: read("sort")[0] ?? defaults.sort,
+      limit: readInteger(read("limit")[0], 1, MAX_PAGE_SIZE, defaults.limit),
+      offset: readInteger(read("offset")[0], 0, Number.MAX_SAFE_INTEGER, defaults.offset),
+      types: written.length > 0 ? [...new Set(allowed)] : [...defaults.types],
+    };
+  },
+};
+
+function resolveDefaults<Type extends string>(defaults?: Partial<SearchState<Type>>): SearchState<Type> {
+  return { ...DEFAULT_SEARCH_STATE, ...defaults } as SearchState<Type>;
+}
+
+/**
+ * Write search state as URL query parameters.
+ *
+ * Values equal to their defaults are left out, so the URL only holds what
+ * the user changed; `v` is written whenever anything else is. `types` is
+ * written comma-separated, the form the `/search` endpoint accepts.
+ *
+ * @example
+ * toURLSearchParams({ q: "status:pending", sort: "-priority", offset: 50 }).toString()
+ * // => "v=1&q=status%3Apending&sort=-priority&offset=50"
+ *
+ * @example
+ * // Keep the page's other parameters
+ * toURLSearchParams(state, { base: location.search, prefix: "cases." })
+ *
+ * @param state - Search state; missing fields are treated as defaults
+ * @param options - Parameter prefix, defaults, and parameters to keep
+ */
+export function toURLSearchParams<Type extends string = string>(
+  state: Partial<SearchState<Type>>,
+  options: ToURLSearchParamsOptions<Type> = {}
+): URLSearchParams {
+  const { prefix = "" } = options;
+  const defaults = resolveDefaults(options.defaults);
+  const params = new URLSearchParams(options.base);
+  for (const key of KEYS) params.delete(prefix + key);
+
+  const entries: [Key, string][] = [];
+  if (state.q !== undefined && state.q !== defaults.q) entries.push(["q", state.q]);
+  if (state.sort !== undefined && state.sort !== defaults.sort) entries.push(["sort", state.sort]);
+  if (state.limit !== undefined && state.limit !== defaults.limit) entries.push(["limit", String(state.limit)]);
+  if (state.offset !== undefined && state.offset !== defaults.offset) entries.push(["offset", String(state.offset)]);
+  if (state.types !== undefined && state.types.join(",") !== defaults.types.join(",")) {
+    entries.push(["types", state.types.join(",")]);
+  }
+
+  if (entries.length > 0) {
+    params.set(prefix + "v", String(SEARCH_STATE_VERSION));
+    for (const [key, value] of entries) params.set(prefix + key, value);
+  }
+  return params;
+}
+
+/**
+ * Read search state from URL query parameters.
+ *
+ * Absent or invalid values fall back to their defaults (`limit` must be
+ * 1-100 and `offset` a non-negative integer), and parameters other than the
+ * search parameters are ignored. `types` may be comma-separated or repeated.
+ * Links from a newer format version are read as far as this version
+ * understands them.
+ *
+ * @example
+ * fromURLSearchParams("?v=1&q=status%3Apending&types=person,case&limit=500")
+ * // => { q: "status:pending", sort: "", limit: 25, offset: 0, types: ["person", "case"] }
+ *
+ * @param params - A `URLSearchParams`, or a query string with or without `?`
+ * @param options - Parameter prefix, defaults, and accepted `types` values
+ * @returns The complete search state
+ */
+export function fromURLSearchParams<Type extends string = string>(
+  params: URLSearchParams | string,
+  options: SearchStateOptions<Type> = {}
+): SearchState<Type> {
+  const { prefix = "" } = options;
+  const source = new URLSearchParams(params);
+  const read = (key: Key) => source.getAll(prefix + key);
+
+  const version = readInteger(read("v")[0], 1, Number.MAX_SAFE_INTEGER, 1);
+  const decode = DECODERS[Math.min(version, SEARCH_STATE_VERSION)];
+  return decode(read, resolveDefaults(options.defaults), options.types) as SearchState<Type>;
+}
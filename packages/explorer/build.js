@@ -81,8 +81,9 @@ if (buildContextMap) {
 if (buildServiceBP) {
   const annotationsPath = resolve(__dirname, 'service-blueprints', 'config', 'intake-annotations.yaml');
   const outDir = resolve(__dirname, 'service-blueprints', 'output');
+  const dataDir = resolve(__dirname, 'service-blueprints', 'data');
 
-  const blueprintHtmlPath = renderBlueprint(enrichedConfig, annotationsPath, outDir);
+  const blueprintHtmlPath = renderBlueprint(enrichedConfig, annotationsPath, outDir, dataDir);
 
   if (browser) {
     const { htmlToPng } = await import('./src/html-to-png.js');
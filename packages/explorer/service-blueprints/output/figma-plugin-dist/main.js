@@ -19,6 +19,18 @@
     return a;
   };
   var __spreadProps = (a, b) => __defProps(a, __getOwnPropDescs(b));
+  var __objRest = (source, exclude) => {
+    var target = {};
+    for (var prop in source)
+      if (__hasOwnProp.call(source, prop) && exclude.indexOf(prop) < 0)
+        target[prop] = source[prop];
+    if (source != null && __getOwnPropSymbols)
+      for (var prop of __getOwnPropSymbols(source)) {
+        if (exclude.indexOf(prop) < 0 && __propIsEnum.call(source, prop))
+          target[prop] = source[prop];
+      }
+    return target;
+  };
   var __async = (__this, __arguments, generator) => {
     return new Promise((resolve, reject) => {
       var fulfilled = (value) => {
@@ -40,10 +52,62 @@
     });
   };
 
-  // service-blueprints/src/figma-plugin/src/_current_card_types.json
-  var current_card_types_default = { types: { "staff-action": { headerBg: "#2B1A78", bodyBg: "#EEEBFF", headerFg: "#FFFFFF", bodyFg: "#1A1040", label: "STAFF ACTION", icon: "person-single" }, "person-action": { headerBg: "#2B1A78", bodyBg: "#EEEBFF", headerFg: "#FFFFFF", bodyFg: "#1A1040", label: "PERSON", icon: "person-single" }, system: { headerBg: "#137C69", bodyBg: "#F1FFFD", headerFg: "#FFFFFF", bodyFg: "#0A3A2E", label: "SYSTEM", icon: "gear" }, "data-entity": { headerBg: "#154C21", bodyBg: "#E3F5E1", headerFg: "#FFFFFF", bodyFg: "#0A2E1E", label: "DATA", icon: "document" }, communications: { headerBg: "#2672DE", bodyBg: "#EDF5FF", headerFg: "#FFFFFF", bodyFg: "#0A1E40", label: "COMMUNICATIONS", icon: "mail" }, "domain-event": { headerBg: "#2E6276", bodyBg: "#E7F2F5", headerFg: "#FFFFFF", bodyFg: "#0A2E34", label: "EVENT", icon: "lightning" }, "pain-point": { headerBg: "#EB646B", bodyBg: "#F9E9EA", headerFg: "#1A0000", bodyFg: "#2A0A0A", label: "PAIN POINT", icon: "diamond-alert" }, opportunity: { headerBg: "#FDAF49", bodyBg: "#FEF1DD", headerFg: "#3D2800", bodyFg: "#3D2800", label: "OPPORTUNITY", icon: "lightbulb" }, note: { headerBg: "#FDDA40", bodyBg: "#FFFBE7", headerFg: "#333333", bodyFg: "#555555", label: "" }, policy: { rendersAs: "question", headerBg: "#EDD7CD", bodyBg: "#F8F6F5", headerFg: "#3D2B0E", bodyFg: "#3D2B0E", label: "POLICY", icon: "building" }, metrics: { headerBg: "#B9E5DF", bodyBg: "#F1FFFD", headerFg: "#1A3A36", bodyFg: "#1A3A36", label: "METRICS", icon: "bar-chart" }, question: { headerBg: "#686868", bodyBg: "#E3E3E3", headerFg: "#FFFFFF", bodyFg: "#1A1A1A", label: "QUESTION", icon: "help" }, touchpoint: { headerBg: "#434343", bodyBg: "#F1F1F1", headerFg: "#FFFFFF", bodyFg: "#1A1A1A", label: "TOUCHPOINT", icon: "diamond" } }, actors: { applicant: { headerBg: "#D97C20", bodyBg: "#FDECD4", headerFg: "#3D1800", bodyFg: "#3D1800", label: "APPLICANT", icon: "person-single" }, caseworker: { headerBg: "#2B1A78", bodyBg: "#EEEBFF", headerFg: "#FFFFFF", bodyFg: "#1A1040", label: "CASEWORKER", icon: "person-single" }, supervisor: { headerBg: "#4F41B2", bodyBg: "#EEEBFF", headerFg: "#FFFFFF", bodyFg: "#1A1040", label: "SUPERVISOR", icon: "person-group" }, system: { headerBg: "#137C69", bodyBg: "#F1FFFD", headerFg: "#FFFFFF", bodyFg: "#0A3A2E", label: "SYSTEM", icon: "gear" } } };
+  // src/library-layout.ts
+  var LIBRARY_PADDING = 40;
+  var LIBRARY_CARD_WIDTH = 240;
+  var LIBRARY_CARD_GAP = 16;
+  var LIBRARY_SECTION_GAP = 48;
+  var CARDS_PER_ROW = 5;
+  var TITLE_GAP = 24;
+  var HEADING_GAP = 12;
+  function libraryTitle(data) {
+    return `${data.name} \u2014 Card Library`;
+  }
+  function layoutCardLibrary(data, options) {
+    const texts = [];
+    const cards = [];
+    const x = LIBRARY_PADDING;
+    let y = LIBRARY_PADDING;
+    let index = 0;
+    const title = libraryTitle(data);
+    texts.push({ role: "title", text: title, x, y });
+    y += options.measureText("title", title) + TITLE_GAP;
+    for (const phase of data.phases) {
+      for (const subPhase of phase.subPhases) {
+        if (!subPhase.cards.length) continue;
+        const heading = `${phase.label}  /  ${subPhase.label}`.toUpperCase();
+        texts.push({ role: "heading", text: heading, x, y });
+        y += options.measureText("heading", heading) + HEADING_GAP;
+        let col = 0;
+        let rowMaxH = 0;
+        for (const entry of subPhase.cards) {
+          const height = options.measureCard(entry, index++);
+          cards.push({
+            entry,
+            phaseId: phase.id,
+            subPhaseId: subPhase.id,
+            x: x + col * (LIBRARY_CARD_WIDTH + LIBRARY_CARD_GAP),
+            y,
+            width: LIBRARY_CARD_WIDTH,
+            height
+          });
+          rowMaxH = Math.max(rowMaxH, height);
+          col++;
+          if (col >= CARDS_PER_ROW) {
+            col = 0;
+            y += rowMaxH + LIBRARY_CARD_GAP;
+            rowMaxH = 0;
+          }
+        }
+        if (col > 0) y += rowMaxH;
+        y += LIBRARY_SECTION_GAP;
+      }
+    }
+    const width = LIBRARY_PADDING * 2 + CARDS_PER_ROW * LIBRARY_CARD_WIDTH + (CARDS_PER_ROW - 1) * LIBRARY_CARD_GAP;
+    return { width, height: y + LIBRARY_PADDING, texts, cards };
+  }
 
-  // service-blueprints/src/figma-plugin/src/renderer.ts
+  // ../blueprint-layout.js
   var PHASE_WIDTH = 280;
   var LANE_LABEL_WIDTH = 120;
   var HEADER_HEIGHT = 72;
@@ -51,21 +115,980 @@
   var CELL_PADDING = 12;
   var CARD_WIDTH = PHASE_WIDTH - CELL_PADDING * 2;
   var CARD_PADDING = 14;
-  var CARD_CORNER = 8;
   var CARD_GAP = 12;
+  var ROW_MIN_HEIGHT = 80;
+  var TAG_PADDING_X = 6;
+  var TAG_PADDING_Y = 2;
+  var STACK_LIMIT = 3;
+  var MAX_STACKS = 3;
+  var COMPACT_WIDTH = 160;
+  var MORE_CARD_HEIGHT = 56;
+  var LINE_STRONG = "#AAAAAA";
+  var LINE_MEDIUM = "#CCCCCC";
+  var LINE_LIGHT = "#DDDDDD";
+  var GLYPH_WIDTH = { regular: 0.55, semibold: 0.58 };
+  var LINE_HEIGHT = 1.25;
+  function wrapText(text, fontSize, width, weight = "regular") {
+    const perLine = Math.max(1, Math.floor(width / (fontSize * GLYPH_WIDTH[weight])));
+    const lines = [];
+    for (const paragraph of String(text).split("\n")) {
+      let line = "";
+      for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+        while (word.length > perLine) {
+          if (line) {
+            lines.push(line);
+            line = "";
+          }
+          lines.push(word.slice(0, perLine));
+          word = word.slice(perLine);
+        }
+        if (!line) line = word;
+        else if (line.length + 1 + word.length <= perLine) line += ` ${word}`;
+        else {
+          lines.push(line);
+          line = word;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+  function lineHeight(fontSize) {
+    return Math.round(fontSize * LINE_HEIGHT);
+  }
+  function domainTag(card) {
+    return card.domain ? card.domain.toUpperCase() : "";
+  }
+  function cardMetrics(card, width = CARD_WIDTH, label = "") {
+    const textWidth = width - CARD_PADDING * 2;
+    const text = (content2, fontSize, weight) => {
+      const lines = wrapText(content2, fontSize, textWidth, weight);
+      return { lines, fontSize, weight, height: lines.length * lineHeight(fontSize) };
+    };
+    const tagText = domainTag(card);
+    const tag = tagText ? {
+      lines: [tagText],
+      fontSize: 10,
+      weight: "semibold",
+      width: Math.ceil(tagText.length * 10 * GLYPH_WIDTH.semibold) + TAG_PADDING_X * 2,
+      height: lineHeight(10) + TAG_PADDING_Y * 2
+    } : null;
+    const tagHeight = tag ? 6 + tag.height : 0;
+    if (card.type === "note") {
+      const title2 = text(card.text, 13, "semibold");
+      const subtext2 = card.subtext ? text(card.subtext, 11, "regular") : null;
+      const height2 = CARD_PADDING * 2 + title2.height + (subtext2 ? 6 + subtext2.height : 0) + tagHeight;
+      return { title: title2, label: null, tag, subtext: subtext2, headerHeight: height2, height: height2 };
+    }
+    const title = text(card.text, 14, "semibold");
+    const labelText = label ? text(label, 11, "regular") : null;
+    const headerHeight = CARD_PADDING * 2 + title.height + (labelText ? 6 + labelText.height : 0) + tagHeight;
+    const subtext = card.subtext ? text(card.subtext, 12, "regular") : null;
+    const height = headerHeight + (subtext ? CARD_PADDING * 2 + subtext.height : 0);
+    return { title, label: labelText, tag, subtext, headerHeight, height };
+  }
+  var FUTURE_STYLE = { color: "#565C65", weight: 2, dash: [6, 4], legend: "Dashed outline \u2014 future state" };
+  var MORE_STYLE = { fill: "#F5F5F5", stroke: "#AAAAAA", color: "#555555", dash: [4, 4] };
+  function estimateCardHeight(card, width = CARD_WIDTH, label = "") {
+    return cardMetrics(card, width, label).height;
+  }
+  var LINK_STYLES = {
+    triggers: { color: "#00687D", dash: [], legend: "Teal arrow \u2014 event triggers card" },
+    emits: { color: "#71767A", dash: [4, 4], legend: "Dashed gray arrow \u2014 card emits event" }
+  };
+  function linkRoute(from, to) {
+    const a = { x: from.x + from.width / 2, y: from.y + from.height / 2 };
+    const b = { x: to.x + to.width / 2, y: to.y + to.height / 2 };
+    let points;
+    if (Math.abs(b.x - a.x) >= (from.width + to.width) / 2) {
+      const dir = b.x > a.x ? 1 : -1;
+      const start = { x: a.x + dir * from.width / 2, y: a.y };
+      const end = { x: b.x - dir * to.width / 2, y: b.y };
+      const midX = (start.x + end.x) / 2;
+      points = [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+    } else {
+      const dir = b.y > a.y ? 1 : -1;
+      const start = { x: a.x, y: a.y + dir * from.height / 2 };
+      const end = { x: b.x, y: b.y - dir * to.height / 2 };
+      const midY = (start.y + end.y) / 2;
+      points = [start, { x: start.x, y: midY }, { x: end.x, y: midY }, end];
+    }
+    return points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+  }
+  function cardKey(cell, card, index) {
+    var _a2, _b, _c;
+    return `${cell.laneId}/${cell.subPhaseId}/${(_c = (_b = card.id) != null ? _b : (_a2 = cell.cardIndexes) == null ? void 0 : _a2[index]) != null ? _c : index}`;
+  }
+  function stackedWidth(stacks) {
+    return CELL_PADDING * 2 + stacks * CARD_WIDTH + (stacks - 1) * CARD_GAP;
+  }
+  function layoutBlueprint(blueprint, options = {}) {
+    var _a2, _b, _c, _d;
+    const left = (_a2 = options.x) != null ? _a2 : 0;
+    const top = (_b = options.y) != null ? _b : 0;
+    const auto = options.layout === "auto";
+    const measureCard = (_c = options.measureCard) != null ? _c : ((card) => estimateCardHeight(card));
+    const cellMap = /* @__PURE__ */ new Map();
+    for (const cell of blueprint.cells) cellMap.set(`${cell.laneId}/${cell.subPhaseId}`, cell);
+    const columns = [];
+    blueprint.phases.forEach((phase, phaseIndex) => {
+      phase.subPhases.forEach((sp, subPhaseIndex) => {
+        let stacks = 1;
+        if (auto) {
+          const most = Math.max(0, ...blueprint.lanes.map((l) => {
+            var _a3, _b2;
+            return (_b2 = (_a3 = cellMap.get(`${l.id}/${sp.id}`)) == null ? void 0 : _a3.cards.length) != null ? _b2 : 0;
+          }));
+          stacks = Math.min(MAX_STACKS, Math.ceil(most / STACK_LIMIT));
+        }
+        const width = !auto ? PHASE_WIDTH : stacks === 0 ? COMPACT_WIDTH : stackedWidth(stacks);
+        columns.push({ sp, phase, phaseIndex, subPhaseIndex, stacks, width });
+      });
+    });
+    const gridLeft = left + LANE_LABEL_WIDTH;
+    const xs = [];
+    let nextX = gridLeft;
+    for (const c of columns) {
+      xs.push(nextX);
+      nextX += c.width;
+    }
+    const tableWidth = nextX - left;
+    const columnX = (i) => xs[i];
+    const labels = [];
+    const lines = [];
+    const hLine = (x, y2, length, color) => lines.push({ orientation: "horizontal", x, y: y2, length, color });
+    const vLine = (x, y2, length, color) => lines.push({ orientation: "vertical", x, y: y2, length, color });
+    const grid = {
+      lanes: [],
+      columns: columns.map(({ sp, phaseIndex, subPhaseIndex, width }, i) => ({ id: sp.id, x: columnX(i), width, phaseIndex, subPhaseIndex }))
+    };
+    let colOffset = 0;
+    for (const phase of blueprint.phases) {
+      const span = phase.subPhases.length;
+      const spanWidth = columns.slice(colOffset, colOffset + span).reduce((w, c) => w + c.width, 0);
+      labels.push({
+        role: "phase",
+        text: phase.label,
+        fontSize: 13,
+        weight: "semibold",
+        color: "#1A1A1A",
+        x: columnX(colOffset),
+        y: top + 8,
+        width: spanWidth
+      });
+      colOffset += span;
+      if (colOffset < columns.length) vLine(columnX(colOffset), top, HEADER_HEIGHT, LINE_STRONG);
+    }
+    hLine(gridLeft, top + PHASE_HEADER_H, tableWidth - LANE_LABEL_WIDTH, LINE_MEDIUM);
+    columns.forEach(({ sp, phase, width }, i) => {
+      labels.push({
+        role: "sub-phase",
+        text: sp.label,
+        fontSize: 11,
+        weight: "regular",
+        color: "#555555",
+        x: columnX(i),
+        y: top + PHASE_HEADER_H + 6,
+        width
+      });
+      if (i < columns.length - 1 && columns[i + 1].phase.id === phase.id) {
+        vLine(columnX(i) + width, top + PHASE_HEADER_H, HEADER_HEIGHT - PHASE_HEADER_H, LINE_LIGHT);
+      }
+    });
+    hLine(left, top + HEADER_HEIGHT, tableWidth, LINE_STRONG);
+    const cards = [];
+    const more = [];
+    let y = top + HEADER_HEIGHT;
+    blueprint.lanes.forEach((lane, li) => {
+      const rowCells = columns.map(({ sp, stacks }) => {
+        var _a3;
+        const cell = cellMap.get(`${lane.id}/${sp.id}`);
+        const all = ((_a3 = cell == null ? void 0 : cell.cards) != null ? _a3 : []).map((card, index) => ({ card, index, key: cardKey(cell, card, index) }));
+        const capacity = auto ? stacks * STACK_LIMIT : Infinity;
+        const shown = all.length > capacity ? all.slice(0, capacity - 1) : all;
+        const hidden = all.slice(shown.length);
+        const heights = new Array(Math.max(1, stacks)).fill(0);
+        const place2 = (height) => {
+          const s = heights.indexOf(Math.min(...heights));
+          const at = { dx: CELL_PADDING + s * (CARD_WIDTH + CARD_GAP), dy: CELL_PADDING + heights[s] };
+          heights[s] += height + CARD_GAP;
+          return at;
+        };
+        const placed = shown.map(({ card, index, key }) => {
+          const height = measureCard(card, key, CARD_WIDTH);
+          return __spreadValues({ key, laneId: lane.id, subPhaseId: sp.id, index, card, width: CARD_WIDTH, height }, place2(height));
+        });
+        const overflow = hidden.length > 0 ? __spreadValues({ laneId: lane.id, subPhaseId: sp.id, keys: hidden.map((h) => h.key), width: CARD_WIDTH, height: MORE_CARD_HEIGHT }, place2(MORE_CARD_HEIGHT)) : null;
+        const content2 = all.length > 0 ? CELL_PADDING * 2 + Math.max(...heights) - CARD_GAP : 0;
+        return { placed, overflow, content: content2 };
+      });
+      const rowHeight = Math.max(ROW_MIN_HEIGHT, ...rowCells.map((c) => c.content));
+      if (li > 0) hLine(left, y, tableWidth, LINE_MEDIUM);
+      grid.lanes.push({ id: lane.id, y, height: rowHeight });
+      labels.push({
+        role: "lane",
+        text: lane.label,
+        fontSize: 11,
+        weight: "semibold",
+        color: "#555555",
+        x: left,
+        y,
+        width: LANE_LABEL_WIDTH,
+        height: rowHeight
+      });
+      vLine(gridLeft, y, rowHeight, LINE_LIGHT);
+      rowCells.forEach(({ placed, overflow }, ci) => {
+        for (const _a3 of placed) {
+          const _b2 = _a3, { dx, dy } = _b2, c = __objRest(_b2, ["dx", "dy"]);
+          cards.push(__spreadProps(__spreadValues({}, c), { x: columnX(ci) + dx, y: y + dy }));
+        }
+        if (overflow) {
+          const _c2 = overflow, { dx, dy } = _c2, m = __objRest(_c2, ["dx", "dy"]);
+          more.push(__spreadProps(__spreadValues({}, m), { x: columnX(ci) + dx, y: y + dy }));
+        }
+        if (ci < columns.length - 1) {
+          const phaseBreak = columns[ci + 1].phase.id !== columns[ci].phase.id;
+          vLine(columnX(ci) + columns[ci].width, y, rowHeight, phaseBreak ? LINE_STRONG : LINE_LIGHT);
+        }
+      });
+      y += rowHeight;
+    });
+    hLine(left, y, tableWidth, LINE_STRONG);
+    vLine(left, top + HEADER_HEIGHT, y - top - HEADER_HEIGHT, LINE_STRONG);
+    vLine(left + tableWidth, top + HEADER_HEIGHT, y - top - HEADER_HEIGHT, LINE_STRONG);
+    const byKey = new Map(cards.map((c) => [c.key, c]));
+    for (const m of more) for (const key of m.keys) byKey.set(key, m);
+    const links = [];
+    for (const link of (_d = blueprint.links) != null ? _d : []) {
+      const from = byKey.get(link.from);
+      const to = byKey.get(link.to);
+      if (from && to && from !== to) links.push(__spreadProps(__spreadValues({}, link), { points: linkRoute(from, to) }));
+    }
+    return { width: left + tableWidth, height: y, grid, labels, lines, cards, more, links };
+  }
+
+  // src/board-export.ts
+  var STICKY_COLORS = {
+    note: "light_yellow",
+    question: "gray"
+  };
+  var FRAME_FILL = "#FFFFFF";
+  var LABEL_COLOR = "#555555";
+  var CARD_FONT_SIZE = 12;
+  var CSV_COLUMNS = [
+    "key",
+    "phase",
+    "sub_phase",
+    "lane",
+    "type",
+    "actor",
+    "text",
+    "subtext",
+    "citation",
+    "domain",
+    "status",
+    "citation_url",
+    "x",
+    "y",
+    "width",
+    "height"
+  ];
+  function isSticky(card) {
+    return card.type === "note" || card.type === "question";
+  }
+  function cardParagraphs(card, label) {
+    const paragraphs = label ? [label, card.text] : [card.text];
+    if (card.subtext) paragraphs.push(card.subtext);
+    return paragraphs;
+  }
+  function phaseBoxes(blueprint, scene, top = 0) {
+    const boxes = [];
+    for (const phase of blueprint.phases) {
+      const ids = phase.subPhases.map((sp) => sp.id);
+      const columns = scene.grid.columns.filter((c) => ids.indexOf(c.id) !== -1);
+      if (columns.length === 0) continue;
+      const x = columns[0].x;
+      const width = columns.reduce((w, c) => w + c.width, 0);
+      boxes.push({ id: phase.id, label: phase.label, x, y: top, width, height: scene.height - top });
+    }
+    return boxes;
+  }
+  function measure(colorsFor) {
+    return (card, width) => estimateCardHeight(card, width, card.type === "note" ? "" : colorsFor(card).label);
+  }
+  function blueprintScene(blueprint, options) {
+    const height = measure(options.colorsFor);
+    return layoutBlueprint(blueprint, { layout: options.layout, measureCard: (card, _key, width) => height(card, width) });
+  }
+  function libraryScene(data, options) {
+    const height = measure(options.colorsFor);
+    return layoutCardLibrary(data, {
+      measureCard: (entry) => height(entry, LIBRARY_CARD_WIDTH),
+      measureText: (role) => lineHeight(role === "title" ? 16 : 10)
+    });
+  }
+  function escapeHtml(text) {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  }
+  function content(paragraphs, bold) {
+    return paragraphs.map((p, i) => `<p>${i === 0 && bold ? `<strong>${escapeHtml(p)}</strong>` : escapeHtml(p)}</p>`).join("");
+  }
+  function topLeft(frame) {
+    if (!frame) return { x: 0, y: 0 };
+    return { x: frame.position.x - frame.geometry.width / 2, y: frame.position.y - frame.geometry.height / 2 };
+  }
+  function centerOf(box, frame) {
+    const origin = topLeft(frame);
+    return { x: box.x - origin.x + box.width / 2, y: box.y - origin.y + box.height / 2, origin: "center" };
+  }
+  function frameItem(id, title, box) {
+    return {
+      id,
+      type: "frame",
+      data: { title, format: "custom", type: "freeform" },
+      style: { fillColor: FRAME_FILL },
+      position: centerOf(box),
+      geometry: { width: box.width, height: box.height }
+    };
+  }
+  function cardItem(id, card, box, frame, colorsFor) {
+    var _a2;
+    const colors = colorsFor(card);
+    const label = card.type === "note" ? "" : colors.label;
+    const base = { id, parent: frame.id, position: centerOf(box, frame) };
+    if (isSticky(card)) {
+      return __spreadProps(__spreadValues({}, base), {
+        type: "sticky_note",
+        geometry: { width: box.width },
+        data: { content: content(cardParagraphs(card, label), Boolean(label)), shape: "rectangle" },
+        style: { fillColor: (_a2 = STICKY_COLORS[card.type]) != null ? _a2 : "light_yellow", textAlign: "left", textAlignVertical: "top" }
+      });
+    }
+    return __spreadProps(__spreadValues({}, base), {
+      type: "shape",
+      geometry: { width: box.width, height: box.height },
+      data: { content: content(cardParagraphs(card, label), Boolean(label)), shape: "round_rectangle" },
+      style: {
+        fillColor: colors.fill,
+        borderColor: colors.border,
+        borderStyle: card.status === "future" ? "dashed" : "normal",
+        borderWidth: "2",
+        color: colors.text,
+        fontSize: String(CARD_FONT_SIZE),
+        textAlign: "left",
+        textAlignVertical: "top"
+      }
+    });
+  }
+  function textItem(id, text, box, fontSize, textAlign, frame) {
+    return __spreadProps(__spreadValues({
+      id,
+      type: "text"
+    }, frame ? { parent: frame.id } : {}), {
+      data: { content: escapeHtml(text) },
+      style: { color: LABEL_COLOR, fontSize: String(fontSize), textAlign },
+      position: centerOf(box, frame),
+      geometry: { width: box.width }
+    });
+  }
+  function blueprintBoard(blueprint, options) {
+    const scene = blueprintScene(blueprint, options);
+    const items = [];
+    const frames = /* @__PURE__ */ new Map();
+    for (const box of phaseBoxes(blueprint, scene)) {
+      const frame = frameItem(`phase:${box.id}`, box.label, box);
+      items.push(frame);
+      const phase = blueprint.phases.filter((p) => p.id === box.id)[0];
+      for (const sp of phase.subPhases) frames.set(sp.id, frame);
+    }
+    scene.grid.columns.forEach((column, i) => {
+      const label = scene.labels.filter((l) => l.role === "sub-phase")[i];
+      const box = { x: column.x, y: label.y, width: column.width, height: lineHeight(label.fontSize) };
+      items.push(textItem(`sub-phase:${column.id}`, label.text, box, label.fontSize, "center", frames.get(column.id)));
+    });
+    scene.labels.filter((l) => l.role === "lane").forEach((label, i) => {
+      var _a2;
+      const height = lineHeight(label.fontSize);
+      const box = { x: label.x, y: label.y + (((_a2 = label.height) != null ? _a2 : height) - height) / 2, width: label.width, height };
+      items.push(textItem(`lane:${scene.grid.lanes[i].id}`, label.text, box, label.fontSize, "center"));
+    });
+    const ids = /* @__PURE__ */ new Map();
+    for (const c of scene.cards) {
+      items.push(cardItem(`card:${c.key}`, c.card, c, frames.get(c.subPhaseId), options.colorsFor));
+      ids.set(c.key, `card:${c.key}`);
+    }
+    for (const m of scene.more) {
+      const id = `more:${m.laneId}/${m.subPhaseId}`;
+      const frame = frames.get(m.subPhaseId);
+      items.push({
+        id,
+        type: "shape",
+        parent: frame.id,
+        position: centerOf(m, frame),
+        geometry: { width: m.width, height: m.height },
+        data: { content: `<p><strong>+${m.keys.length} more</strong></p>`, shape: "round_rectangle" },
+        style: {
+          fillColor: MORE_STYLE.fill,
+          borderColor: MORE_STYLE.stroke,
+          borderStyle: "dashed",
+          borderWidth: "1",
+          color: MORE_STYLE.color,
+          fontSize: "14",
+          textAlign: "center",
+          textAlignVertical: "middle"
+        }
+      });
+      for (const key of m.keys) ids.set(key, id);
+    }
+    const connectors = [];
+    for (const link of scene.links) {
+      const start = ids.get(link.from);
+      const end = ids.get(link.to);
+      if (start === void 0 || end === void 0) continue;
+      const style = LINK_STYLES[link.kind];
+      connectors.push({
+        startItem: { id: start },
+        endItem: { id: end },
+        shape: "elbowed",
+        style: { strokeColor: style.color, strokeStyle: style.dash.length > 0 ? "dashed" : "normal", strokeWidth: "2", endStrokeCap: "arrow" }
+      });
+    }
+    return { name: blueprint.name, items, connectors };
+  }
+  function libraryBoard(data, options) {
+    const scene = libraryScene(data, options);
+    const frame = frameItem("library", libraryTitle(data), { x: 0, y: 0, width: scene.width, height: scene.height });
+    const items = [frame];
+    scene.texts.forEach((t, i) => {
+      const fontSize = t.role === "title" ? 16 : 10;
+      const box = { x: t.x, y: t.y, width: scene.width - t.x * 2, height: lineHeight(fontSize) };
+      items.push(textItem(`text:${i}`, t.text, box, fontSize, "left", frame));
+    });
+    scene.cards.forEach((c, i) => items.push(cardItem(`card:${i}`, c.entry, c, frame, options.colorsFor)));
+    return { name: libraryTitle(data), items, connectors: [] };
+  }
+  function csvField(value) {
+    const text = value === void 0 ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+  function toCsv(rows) {
+    const lines = [CSV_COLUMNS.join(",")];
+    for (const { key, phase, subPhase, lane, card, box } of rows) {
+      const citation = "citation" in card ? card.citation : void 0;
+      lines.push([
+        key,
+        phase,
+        subPhase,
+        lane,
+        card.type,
+        card.actor,
+        card.text,
+        card.subtext,
+        citation,
+        card.domain,
+        card.status,
+        card.citationUrl,
+        box && Math.round(box.x),
+        box && Math.round(box.y),
+        box && Math.round(box.width),
+        box && Math.round(box.height)
+      ].map(csvField).join(","));
+    }
+    return lines.join("\n") + "\n";
+  }
+  function blueprintCsv(blueprint, options) {
+    const scene = blueprintScene(blueprint, options);
+    const boxes = new Map(scene.cards.map((c) => [c.key, c]));
+    const phaseOf = /* @__PURE__ */ new Map();
+    for (const phase of blueprint.phases) {
+      for (const sp of phase.subPhases) phaseOf.set(sp.id, { phase: phase.label, subPhase: sp.label });
+    }
+    const rows = [];
+    for (const lane of blueprint.lanes) {
+      for (const column of scene.grid.columns) {
+        const cell = blueprint.cells.filter((c) => c.laneId === lane.id && c.subPhaseId === column.id)[0];
+        if (!cell) continue;
+        const where = phaseOf.get(column.id);
+        cell.cards.forEach((card, i) => {
+          const key = cardKey(cell, card, i);
+          rows.push(__spreadProps(__spreadValues({ key }, where), { lane: lane.label, card, box: boxes.get(key) }));
+        });
+      }
+    }
+    return toCsv(rows);
+  }
+  function libraryCsv(data, options) {
+    const scene = libraryScene(data, options);
+    const labels = /* @__PURE__ */ new Map();
+    for (const phase of data.phases) {
+      for (const sp of phase.subPhases) labels.set(sp.id, { phase: phase.label, subPhase: sp.label });
+    }
+    const counts = /* @__PURE__ */ new Map();
+    const rows = scene.cards.map((c) => {
+      var _a2;
+      const index = (_a2 = counts.get(c.subPhaseId)) != null ? _a2 : 0;
+      counts.set(c.subPhaseId, index + 1);
+      const where = labels.get(c.subPhaseId);
+      return __spreadProps(__spreadValues({ key: `${c.phaseId}/${c.subPhaseId}/${index}` }, where), { lane: "", card: c.entry, box: c });
+    });
+    return toCsv(rows);
+  }
+
+  // src/diff.ts
+  var COMPARED_FIELDS = ["type", "text", "subtext", "actor", "domain", "status"];
+  function changedFields(before, after) {
+    return COMPARED_FIELDS.filter((f) => {
+      var _a2, _b;
+      return ((_a2 = before[f]) != null ? _a2 : "") !== ((_b = after[f]) != null ? _b : "");
+    });
+  }
+  function mergeOrdered(base, head) {
+    const merged = [...head];
+    const headIds = new Set(head.map((item) => item.id));
+    let anchor = -1;
+    for (const item of base) {
+      if (headIds.has(item.id)) {
+        anchor = merged.findIndex((m) => m.id === item.id);
+      } else {
+        merged.splice(anchor + 1, 0, item);
+        anchor++;
+      }
+    }
+    return merged;
+  }
+  function idChanges(base, head) {
+    const baseIds = new Set(base.map((item) => item.id));
+    const headIds = new Set(head.map((item) => item.id));
+    return {
+      added: [...headIds].filter((id) => !baseIds.has(id)),
+      removed: [...baseIds].filter((id) => !headIds.has(id))
+    };
+  }
+  function allSubPhases(phases) {
+    const result = [];
+    for (const phase of phases) result.push(...phase.subPhases);
+    return result;
+  }
+  function mergePhases(base, head) {
+    const baseById = new Map(base.map((p) => [p.id, p]));
+    return mergeOrdered(base, head).map((phase) => {
+      const basePhase = baseById.get(phase.id);
+      const headPhase = head.find((p) => p.id === phase.id);
+      if (!basePhase || !headPhase) return phase;
+      return __spreadProps(__spreadValues({}, headPhase), { subPhases: mergeOrdered(basePhase.subPhases, headPhase.subPhases) });
+    });
+  }
+  function diffCells(baseCards, headCards) {
+    const matchOf = headCards.map(() => -1);
+    const used = /* @__PURE__ */ new Set();
+    const pass = (matches) => {
+      headCards.forEach((h, hi) => {
+        if (matchOf[hi] !== -1) return;
+        const bi = baseCards.findIndex((b, i) => !used.has(i) && matches(b, h));
+        if (bi !== -1) {
+          matchOf[hi] = bi;
+          used.add(bi);
+        }
+      });
+    };
+    pass((b, h) => b.id !== void 0 && b.id === h.id);
+    pass((b, h) => b.id === void 0 && h.id === void 0 && b.type === h.type && b.text === h.text);
+    pass((b, h) => b.id === void 0 && h.id === void 0 && b.type === h.type);
+    const result = [];
+    const placed = /* @__PURE__ */ new Set();
+    const flushRemovedBefore = (limit) => {
+      for (let bi = 0; bi < limit; bi++) {
+        if (!used.has(bi) && !placed.has(bi)) {
+          result.push({ change: "removed", card: baseCards[bi] });
+          placed.add(bi);
+        }
+      }
+    };
+    headCards.forEach((card, hi) => {
+      const bi = matchOf[hi];
+      if (bi === -1) {
+        result.push({ change: "added", card });
+        return;
+      }
+      flushRemovedBefore(bi);
+      const fields = changedFields(baseCards[bi], card);
+      result.push(fields.length > 0 ? { change: "modified", card, before: baseCards[bi], fields } : { change: "unchanged", card });
+    });
+    flushRemovedBefore(baseCards.length);
+    return result;
+  }
+  function diffBlueprints(base, head) {
+    var _a2, _b;
+    const cardsOf = (bp) => {
+      const map = /* @__PURE__ */ new Map();
+      for (const cell of bp.cells) map.set(`${cell.laneId}/${cell.subPhaseId}`, cell.cards);
+      return map;
+    };
+    const baseCells = cardsOf(base);
+    const headCells = cardsOf(head);
+    const lanes = mergeOrdered(base.lanes, head.lanes);
+    const phases = mergePhases(base.phases, head.phases);
+    const subPhases = allSubPhases(phases);
+    const cells = [];
+    const summary = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+    for (const lane of lanes) {
+      for (const sp of subPhases) {
+        const key = `${lane.id}/${sp.id}`;
+        const cards = diffCells((_a2 = baseCells.get(key)) != null ? _a2 : [], (_b = headCells.get(key)) != null ? _b : []);
+        if (cards.length === 0) continue;
+        for (const d of cards) summary[d.change]++;
+        cells.push({ laneId: lane.id, subPhaseId: sp.id, cards });
+      }
+    }
+    return {
+      base: { id: base.id, name: base.name },
+      head: { id: head.id, name: head.name },
+      lanes,
+      phases,
+      cells,
+      laneChanges: idChanges(base.lanes, head.lanes),
+      subPhaseChanges: idChanges(allSubPhases(base.phases), allSubPhases(head.phases)),
+      summary
+    };
+  }
+  function summarizeDiff(diff) {
+    const { added, removed, modified, unchanged } = diff.summary;
+    const lines = [
+      `Compared with: ${diff.base.name}`,
+      `${added} added \xB7 ${removed} removed \xB7 ${modified} modified \xB7 ${unchanged} unchanged`
+    ];
+    const structural = [
+      ["Lanes added", diff.laneChanges.added],
+      ["Lanes removed", diff.laneChanges.removed],
+      ["Sub-phases added", diff.subPhaseChanges.added],
+      ["Sub-phases removed", diff.subPhaseChanges.removed]
+    ];
+    for (const [label, ids] of structural) {
+      if (ids.length > 0) lines.push(`${label}: ${ids.join(", ")}`);
+    }
+    return lines;
+  }
+
+  // src/filter.ts
+  function isFiltered(filter) {
+    return !!filter && (filter.lanes !== void 0 || filter.phases !== void 0 || filter.cardTypes !== void 0);
+  }
+  function keeps(list, value) {
+    return list === void 0 || list.indexOf(value) !== -1;
+  }
+  function filterId(filter) {
+    const parts = [];
+    if (filter.lanes) parts.push(`lanes=${filter.lanes.join(",")}`);
+    if (filter.phases) parts.push(`phases=${filter.phases.join(",")}`);
+    if (filter.cardTypes) parts.push(`types=${filter.cardTypes.join(",")}`);
+    return parts.join(";");
+  }
+  function filterBlueprint(blueprint, filter) {
+    var _a2;
+    const phases = blueprint.phases.filter((p) => keeps(filter.phases, p.id));
+    const subPhaseIds = /* @__PURE__ */ new Set();
+    for (const phase of phases) for (const sp of phase.subPhases) subPhaseIds.add(sp.id);
+    const cells = [];
+    const keys = /* @__PURE__ */ new Set();
+    for (const cell of blueprint.cells) {
+      if (!keeps(filter.lanes, cell.laneId) || !subPhaseIds.has(cell.subPhaseId)) continue;
+      const cards = [];
+      const cardIndexes = [];
+      cell.cards.forEach((card, i) => {
+        var _a3, _b;
+        if (!keeps(filter.cardTypes, card.type)) return;
+        cards.push(card);
+        cardIndexes.push((_b = (_a3 = cell.cardIndexes) == null ? void 0 : _a3[i]) != null ? _b : i);
+        keys.add(cardKey(cell, card, i));
+      });
+      if (cards.length > 0) cells.push(__spreadProps(__spreadValues({}, cell), { cards, cardIndexes }));
+    }
+    const occupied = new Set(cells.map((c) => c.laneId));
+    const lanes = blueprint.lanes.filter((l) => keeps(filter.lanes, l.id) && (filter.cardTypes === void 0 || occupied.has(l.id)));
+    const links = ((_a2 = blueprint.links) != null ? _a2 : []).filter((l) => keys.has(l.from) && keys.has(l.to));
+    return __spreadValues(__spreadProps(__spreadValues({}, blueprint), {
+      id: `${blueprint.id}:${filterId(filter)}`,
+      name: `${blueprint.name} (filtered)`,
+      lanes,
+      phases,
+      cells
+    }), blueprint.links ? { links } : {});
+  }
+  function describeFilter(blueprint, filter) {
+    const notes = [];
+    if (filter.lanes) {
+      const labels = blueprint.lanes.filter((l) => filter.lanes.indexOf(l.id) !== -1).map((l) => l.label);
+      notes.push(`Lanes: ${labels.join(", ") || "none"}`);
+    }
+    if (filter.phases) {
+      const labels = blueprint.phases.filter((p) => filter.phases.indexOf(p.id) !== -1).map((p) => p.label);
+      notes.push(`Phases: ${labels.join(", ") || "none"}`);
+    }
+    if (filter.cardTypes) notes.push(`Card types: ${filter.cardTypes.join(", ") || "none"}`);
+    return notes.length > 0 ? ["Filtered view", ...notes] : [];
+  }
+
+  // src/metrics.ts
+  var HEAT_STYLES = {
+    ok: { fill: "#E3F5E1", text: "#154C21", legend: "Green \u2014 median well within its SLA target" },
+    warning: { fill: "#FEF0C8", text: "#3D2800", legend: "Amber \u2014 median past the SLA warning threshold" },
+    breach: { fill: "#F9E0E4", text: "#5C1111", legend: "Red \u2014 median over its SLA target" }
+  };
+  var NO_HEAT_STYLE = { fill: "#F5F5F5", text: "#555555" };
+  var DEFAULT_WARNING_PERCENT = 75;
+  var UNIT_SECONDS = {
+    minutes: 60,
+    hours: 60 * 60,
+    days: 24 * 60 * 60
+  };
+  function isMetricsResponse(payload) {
+    return Array.isArray(payload.items);
+  }
+  function isDurationUnit(unit) {
+    return unit !== void 0 && UNIT_SECONDS.hasOwnProperty(unit);
+  }
+  function durationSeconds(duration) {
+    return duration.amount * UNIT_SECONDS[duration.unit];
+  }
+  function formatDuration(seconds) {
+    if (seconds >= UNIT_SECONDS.days) return `${round(seconds / UNIT_SECONDS.days)} d`;
+    if (seconds >= UNIT_SECONDS.hours) return `${round(seconds / UNIT_SECONDS.hours)} h`;
+    return `${Math.max(1, Math.round(seconds / UNIT_SECONDS.minutes))} min`;
+  }
+  function round(value) {
+    return value >= 10 ? Math.round(value) : Math.round(value * 10) / 10;
+  }
+  function medianTarget(metric) {
+    for (const t of metric.targets) {
+      if (t.stat === "p50" && typeof t.amount === "number" && isDurationUnit(t.unit)) return { amount: t.amount, unit: t.unit };
+    }
+    return void 0;
+  }
+  function valueOf(metric) {
+    return metric && metric.breakdown === null && typeof metric.value === "number" ? metric.value : void 0;
+  }
+  function toBlueprintMetrics(payload, blueprint, slaTypes) {
+    if (!isMetricsResponse(payload)) return payload;
+    const byId = new Map(payload.items.map((m) => [m.id, m]));
+    const subPhases = {};
+    for (const phase of blueprint.phases) {
+      for (const sp of phase.subPhases) {
+        const binding = sp.metrics;
+        if (!binding) continue;
+        const median = binding.median !== void 0 ? byId.get(binding.median) : void 0;
+        const sla = slaTypes.filter((t) => t.id === binding.sla)[0];
+        const m = {};
+        if (sla) {
+          m.slaTarget = sla.duration;
+          if (sla.warningThresholdPercent !== void 0) m.warningThresholdPercent = sla.warningThresholdPercent;
+        } else if (median && medianTarget(median)) {
+          m.slaTarget = medianTarget(median);
+        }
+        const medianSeconds = median && median.aggregate === "duration" ? valueOf(median) : void 0;
+        if (medianSeconds !== void 0) m.medianSeconds = medianSeconds;
+        const volume = valueOf(binding.volume !== void 0 ? byId.get(binding.volume) : void 0);
+        if (volume !== void 0) m.volume = volume;
+        if (Object.keys(m).length > 0) subPhases[sp.id] = m;
+      }
+    }
+    const computedAt = payload.items.length > 0 ? payload.items[0].computedAt : void 0;
+    return __spreadProps(__spreadValues({}, computedAt ? { computedAt } : {}), { subPhases });
+  }
+  function heatOf(m) {
+    var _a2;
+    if (!m.slaTarget || m.medianSeconds === void 0) return null;
+    const share = m.medianSeconds / durationSeconds(m.slaTarget) * 100;
+    if (share > 100) return "breach";
+    return share >= ((_a2 = m.warningThresholdPercent) != null ? _a2 : DEFAULT_WARNING_PERCENT) ? "warning" : "ok";
+  }
+  function metricsLines(m) {
+    const lines = [];
+    if (m.slaTarget) lines.push(`SLA ${formatDuration(durationSeconds(m.slaTarget))}`);
+    if (m.medianSeconds !== void 0) lines.push(`Median ${formatDuration(m.medianSeconds)}`);
+    if (m.volume !== void 0) lines.push(`Volume ${m.volume}`);
+    return lines;
+  }
+  function metricsLegend(metrics) {
+    const levels = [];
+    for (const id of Object.keys(metrics.subPhases)) {
+      const level = heatOf(metrics.subPhases[id]);
+      if (level && levels.indexOf(level) === -1) levels.push(level);
+    }
+    const order = Object.keys(HEAT_STYLES);
+    const lines = order.filter((l) => levels.indexOf(l) !== -1).map((l) => HEAT_STYLES[l].legend);
+    if (metrics.computedAt) lines.push(`Metrics as of ${metrics.computedAt.slice(0, 10)}`);
+    return lines;
+  }
+
+  // src/state-layout.ts
+  var STATE_WIDTH = 240;
+  var COLUMN_GAP = 240;
+  var LABEL_WIDTH = 200;
+  var ROW_GAP = 64;
+  var TRACK_GAP = 32;
+  var START_MARGIN = 56;
+  var LABEL_GAP = 8;
+  function routedTransitions(diagram) {
+    const ids = new Set(diagram.states.map((s) => s.id));
+    return diagram.transitions.filter((t) => t.to !== void 0 && ids.has(t.from) && ids.has(t.to));
+  }
+  function columnsOf(diagram, transitions) {
+    const column = /* @__PURE__ */ new Map([[diagram.initialState, 0]]);
+    const queue = [diagram.initialState];
+    while (queue.length > 0) {
+      const id = queue.shift();
+      for (const t of transitions) {
+        if (t.from !== id || column.has(t.to)) continue;
+        column.set(t.to, column.get(id) + 1);
+        queue.push(t.to);
+      }
+    }
+    let last = 0;
+    column.forEach((c) => {
+      last = Math.max(last, c);
+    });
+    for (const s of diagram.states) if (!column.has(s.id)) column.set(s.id, last + 1);
+    return column;
+  }
+  function spread(start, length, count) {
+    const points = [];
+    for (let i = 0; i < count; i++) points.push(start + length * (i + 1) / (count + 1));
+    return points;
+  }
+  function layoutStateMachine(diagram, options) {
+    var _a2, _b, _c, _d;
+    const left = ((_a2 = options.x) != null ? _a2 : 0) + START_MARGIN;
+    const top = (_b = options.y) != null ? _b : 0;
+    const transitions = routedTransitions(diagram);
+    const column = columnsOf(diagram, transitions);
+    const columnY = [];
+    const placed = /* @__PURE__ */ new Map();
+    for (const state of diagram.states) {
+      const c = column.get(state.id);
+      const y = (_c = columnY[c]) != null ? _c : top;
+      const height2 = options.measureState(state);
+      placed.set(state.id, { id: state.id, column: c, state, x: left + c * (STATE_WIDTH + COLUMN_GAP), y, width: STATE_WIDTH, height: height2 });
+      columnY[c] = y + height2 + ROW_GAP;
+    }
+    let bottom = top;
+    placed.forEach((s) => {
+      bottom = Math.max(bottom, s.y + s.height);
+    });
+    const adjacent = [];
+    const tracked = [];
+    transitions.forEach((t, i) => {
+      const from = placed.get(t.from);
+      const to = placed.get(t.to);
+      (to.column === from.column + 1 ? adjacent : tracked).push(i);
+    });
+    const sides = /* @__PURE__ */ new Map();
+    const addPort = (side, index, end, order) => {
+      var _a3;
+      const list = (_a3 = sides.get(side)) != null ? _a3 : [];
+      list.push({ index, end, order });
+      sides.set(side, list);
+    };
+    const centerOf2 = (id) => {
+      const s = placed.get(id);
+      return { x: s.x + s.width / 2, y: s.y + s.height / 2 };
+    };
+    for (const i of adjacent) {
+      const t = transitions[i];
+      addPort(`${t.from}/right`, i, "from", centerOf2(t.to).y);
+      addPort(`${t.to}/left`, i, "to", centerOf2(t.from).y);
+    }
+    for (const i of tracked) {
+      const t = transitions[i];
+      addPort(`${t.from}/bottom`, i, "from", centerOf2(t.to).x);
+      addPort(`${t.to}/bottom`, i, "to", centerOf2(t.from).x);
+    }
+    const ports = /* @__PURE__ */ new Map();
+    sides.forEach((list, side) => {
+      const [id, edge] = side.split("/");
+      const s = placed.get(id);
+      list.sort((a, b) => a.order - b.order || a.index - b.index);
+      if (edge === "bottom") {
+        spread(s.x, s.width, list.length).forEach((x, k) => ports.set(`${list[k].index}/${list[k].end}`, { x, y: s.y + s.height }));
+      } else {
+        const x = edge === "right" ? s.x + s.width : s.x;
+        spread(s.y, s.height, list.length).forEach((y, k) => ports.set(`${list[k].index}/${list[k].end}`, { x, y }));
+      }
+    });
+    const routes = [];
+    let height = bottom;
+    const gaps = /* @__PURE__ */ new Map();
+    for (const i of adjacent) {
+      const t = transitions[i];
+      const start2 = ports.get(`${i}/from`);
+      const end = ports.get(`${i}/to`);
+      const midX = start2.x + COLUMN_GAP / 2;
+      const points = start2.y === end.y ? [start2, end] : [start2, { x: midX, y: start2.y }, { x: midX, y: end.y }, end];
+      const route = { transition: t, points, label: { x: midX, y: (start2.y + end.y) / 2 } };
+      routes.push(route);
+      const c = placed.get(t.from).column;
+      gaps.set(c, [...(_d = gaps.get(c)) != null ? _d : [], { route, size: options.measureLabel(t) }]);
+    }
+    gaps.forEach((list) => {
+      list.sort((a, b) => a.route.label.y - b.route.label.y);
+      let floor = -Infinity;
+      for (const { route, size } of list) {
+        route.label.y = Math.max(route.label.y, floor + size.height / 2);
+        floor = route.label.y + size.height / 2 + LABEL_GAP;
+        height = Math.max(height, floor);
+      }
+    });
+    let trackY = bottom + TRACK_GAP;
+    for (const i of tracked) {
+      const t = transitions[i];
+      const size = options.measureLabel(t);
+      const start2 = ports.get(`${i}/from`);
+      const end = ports.get(`${i}/to`);
+      const y = trackY + size.height / 2;
+      routes.push({
+        transition: t,
+        points: [start2, { x: start2.x, y }, { x: end.x, y }, end],
+        label: { x: (start2.x + end.x) / 2, y }
+      });
+      trackY += size.height + TRACK_GAP;
+      height = Math.max(height, trackY);
+    }
+    const initial = placed.get(diagram.initialState);
+    const start = initial ? [{ x: initial.x - START_MARGIN + 12, y: initial.y + 24 }, { x: initial.x, y: initial.y + 24 }] : [];
+    let width = left;
+    placed.forEach((s) => {
+      width = Math.max(width, s.x + s.width);
+    });
+    for (const r of routes) {
+      const size = options.measureLabel(r.transition);
+      width = Math.max(width, r.label.x + size.width / 2);
+    }
+    return { width, height, states: [...placed.values()], transitions: routes, start };
+  }
+
+  // src/_current_card_types.json
+  var current_card_types_default = { types: { "staff-action": { headerBg: "#2B1A78", bodyBg: "#EEEBFF", headerFg: "#FFFFFF", bodyFg: "#1A1040", label: "STAFF ACTION", icon: "person-single" }, "person-action": { headerBg: "#2B1A78", bodyBg: "#EEEBFF", headerFg: "#FFFFFF", bodyFg: "#1A1040", label: "PERSON", icon: "person-single" }, system: { headerBg: "#137C69", bodyBg: "#F1FFFD", headerFg: "#FFFFFF", bodyFg: "#0A3A2E", label: "SYSTEM", icon: "gear" }, "data-entity": { headerBg: "#154C21", bodyBg: "#E3F5E1", headerFg: "#FFFFFF", bodyFg: "#0A2E1E", label: "DATA", icon: "document" }, communications: { headerBg: "#2672DE", bodyBg: "#EDF5FF", headerFg: "#FFFFFF", bodyFg: "#0A1E40", label: "COMMUNICATIONS", icon: "mail" }, "domain-event": { headerBg: "#2E6276", bodyBg: "#E7F2F5", headerFg: "#FFFFFF", bodyFg: "#0A2E34", label: "EVENT", icon: "lightning" }, "pain-point": { headerBg: "#EB646B", bodyBg: "#F9E9EA", headerFg: "#1A0000", bodyFg: "#2A0A0A", label: "PAIN POINT", icon: "diamond-alert" }, opportunity: { headerBg: "#FDAF49", bodyBg: "#FEF1DD", headerFg: "#3D2800", bodyFg: "#3D2800", label: "OPPORTUNITY", icon: "lightbulb" }, note: { headerBg: "#FDDA40", bodyBg: "#FFFBE7", headerFg: "#333333", bodyFg: "#555555", label: "" }, policy: { rendersAs: "question", headerBg: "#EDD7CD", bodyBg: "#F8F6F5", headerFg: "#3D2B0E", bodyFg: "#3D2B0E", label: "POLICY", icon: "building" }, metrics: { headerBg: "#B9E5DF", bodyBg: "#F1FFFD", headerFg: "#1A3A36", bodyFg: "#1A3A36", label: "METRICS", icon: "bar-chart" }, question: { headerBg: "#686868", bodyBg: "#E3E3E3", headerFg: "#FFFFFF", bodyFg: "#1A1A1A", label: "QUESTION", icon: "help" }, touchpoint: { headerBg: "#434343", bodyBg: "#F1F1F1", headerFg: "#FFFFFF", bodyFg: "#1A1A1A", label: "TOUCHPOINT", icon: "diamond" } }, actors: { applicant: { headerBg: "#D97C20", bodyBg: "#FDECD4", headerFg: "#3D1800", bodyFg: "#3D1800", label: "APPLICANT", icon: "person-single" }, caseworker: { headerBg: "#2B1A78", bodyBg: "#EEEBFF", headerFg: "#FFFFFF", bodyFg: "#1A1040", label: "CASEWORKER", icon: "person-single" }, supervisor: { headerBg: "#4F41B2", bodyBg: "#EEEBFF", headerFg: "#FFFFFF", bodyFg: "#1A1040", label: "SUPERVISOR", icon: "person-group" }, system: { headerBg: "#137C69", bodyBg: "#F1FFFD", headerFg: "#FFFFFF", bodyFg: "#0A3A2E", label: "SYSTEM", icon: "gear" } }, themes: { "high-contrast": { cards: { "staff-action": { headerBg: "#1A0F4D", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, "person-action": { headerBg: "#1A0F4D", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, system: { headerBg: "#0B4D41", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, "data-entity": { headerBg: "#0C3314", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, communications: { headerBg: "#0B4A9E", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, "domain-event": { headerBg: "#173845", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, "pain-point": { headerBg: "#8B1A1F", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, opportunity: { headerBg: "#FDAF49", headerFg: "#000000", bodyBg: "#FFFFFF", bodyFg: "#000000" }, note: { headerBg: "#FDDA40", headerFg: "#000000", bodyBg: "#FFFFFF", bodyFg: "#000000" }, policy: { headerBg: "#5C3A21", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, metrics: { headerBg: "#0F4D45", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, question: { headerBg: "#2E2E2E", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, touchpoint: { headerBg: "#1B1B1B", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" } }, actors: { applicant: { headerBg: "#7A3E00", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, caseworker: { headerBg: "#1A0F4D", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, supervisor: { headerBg: "#2E2480", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" }, system: { headerBg: "#0B4D41", headerFg: "#FFFFFF", bodyBg: "#FFFFFF", bodyFg: "#000000" } } } } };
+
+  // src/renderer.ts
+  var CARD_CORNER = 8;
   var KEY_CARD_WIDTH = 220;
   var KEY_PANEL_WIDTH = KEY_CARD_WIDTH + 40;
   var KEY_GAP = 56;
   var KEY_TOTAL = KEY_PANEL_WIDTH + KEY_GAP;
-  var ROW_MIN_HEIGHT = 80;
   var PALETTE = current_card_types_default.types;
   var ACTOR_PALETTE = current_card_types_default.actors;
+  var _a;
+  var THEMES = (_a = current_card_types_default.themes) != null ? _a : {};
   function paletteFor(type, actor) {
-    var _a, _b;
-    if (type === "person-action" && actor) return (_a = ACTOR_PALETTE[actor]) != null ? _a : PALETTE["person-action"];
+    var _a2, _b;
+    if (type === "person-action" && actor) return (_a2 = ACTOR_PALETTE[actor]) != null ? _a2 : PALETTE["person-action"];
     const p = PALETTE[type];
     return (_b = (p == null ? void 0 : p.rendersAs) ? PALETTE[p.rendersAs] : p) != null ? _b : p;
   }
+  function boardColors(card) {
+    var _a2;
+    const p = (_a2 = paletteFor(card.type, card.actor)) != null ? _a2 : PALETTE.note;
+    return { fill: p.bodyBg, border: p.headerBg, text: p.bodyFg, label: p.label };
+  }
   function rgb(h) {
     return {
       r: parseInt(h.slice(1, 3), 16) / 255,
@@ -76,6 +1099,111 @@
   function fill(color) {
     return [{ type: "SOLID", color: rgb(color) }];
   }
+  var PALETTE_COLLECTION = "Card palettes";
+  var DEFAULT_THEME = "default";
+  var COLOR_FIELDS = ["headerBg", "bodyBg", "headerFg", "bodyFg"];
+  function themeNames() {
+    return [DEFAULT_THEME, ...Object.keys(THEMES)];
+  }
+  function cardTypeNames() {
+    return Object.keys(PALETTE);
+  }
+  function paletteKey(type, actor) {
+    if (type === "person-action" && actor && ACTOR_PALETTE[actor]) return `actors/${actor}`;
+    const p = PALETTE[type];
+    if (!p) return "types/note";
+    return `types/${p.rendersAs && PALETTE[p.rendersAs] ? p.rendersAs : type}`;
+  }
+  function paletteKeys() {
+    return [
+      ...Object.keys(PALETTE).map((type) => `types/${type}`),
+      ...Object.keys(ACTOR_PALETTE).map((actor) => `actors/${actor}`)
+    ];
+  }
+  function themedPalette(key, theme) {
+    var _a2;
+    const [group, name] = key.split("/");
+    const base = group === "actors" ? ACTOR_PALETTE[name] : PALETTE[name];
+    const overrides = (_a2 = THEMES[theme]) == null ? void 0 : _a2[group === "actors" ? "actors" : "cards"];
+    return __spreadValues(__spreadValues({}, base), overrides == null ? void 0 : overrides[name]);
+  }
+  function cardColors(card, variables) {
+    const key = paletteKey(card.type, card.actor);
+    const p = themedPalette(key, DEFAULT_THEME);
+    const bound = variables == null ? void 0 : variables.get(key);
+    const colors = {};
+    for (const field of COLOR_FIELDS) {
+      const [paint] = fill(p[field]);
+      colors[field] = [bound ? figma.variables.setBoundVariableForPaint(paint, "color", bound[field]) : paint];
+    }
+    return colors;
+  }
+  function paletteCollection() {
+    return __async(this, null, function* () {
+      const collections = yield figma.variables.getLocalVariableCollectionsAsync();
+      let collection = collections.find((c) => c.getPluginData(DATA_ROLE) === "palettes");
+      if (!collection) {
+        collection = figma.variables.createVariableCollection(PALETTE_COLLECTION);
+        collection.setPluginData(DATA_ROLE, "palettes");
+        collection.renameMode(collection.modes[0].modeId, DEFAULT_THEME);
+      }
+      return collection;
+    });
+  }
+  function themeModes(collection) {
+    const modes = /* @__PURE__ */ new Map();
+    for (const theme of themeNames()) {
+      const mode = collection.modes.find((m) => m.name === theme);
+      if (mode) {
+        modes.set(theme, mode.modeId);
+        continue;
+      }
+      try {
+        modes.set(theme, collection.addMode(theme));
+      } catch (e) {
+        figma.notify(`Theme "${theme}" not added: ${e.message}`, { error: true });
+      }
+    }
+    return modes;
+  }
+  function loadPaletteVariables() {
+    return __async(this, null, function* () {
+      var _a2;
+      const collection = yield paletteCollection();
+      const modes = themeModes(collection);
+      const existing = /* @__PURE__ */ new Map();
+      for (const v of yield figma.variables.getLocalVariablesAsync("COLOR")) {
+        if (v.variableCollectionId === collection.id) existing.set(v.name, v);
+      }
+      const variables = /* @__PURE__ */ new Map();
+      for (const key of paletteKeys()) {
+        const bound = {};
+        for (const field of COLOR_FIELDS) {
+          const name = `${key}/${field}`;
+          const variable = (_a2 = existing.get(name)) != null ? _a2 : figma.variables.createVariable(name, collection, "COLOR");
+          variable.scopes = field.endsWith("Bg") ? ["FRAME_FILL", "SHAPE_FILL"] : ["TEXT_FILL"];
+          modes.forEach((modeId, theme) => variable.setValueForMode(modeId, rgb(themedPalette(key, theme)[field])));
+          bound[field] = variable;
+        }
+        variables.set(key, bound);
+      }
+      return variables;
+    });
+  }
+  function applyTheme(theme) {
+    return __async(this, null, function* () {
+      const collection = yield paletteCollection();
+      const modeId = themeModes(collection).get(theme);
+      if (!modeId) {
+        figma.notify(`Unknown theme: ${theme}`, { error: true });
+        return;
+      }
+      const selection = figma.currentPage.selection;
+      const targets = selection.length > 0 ? [...selection] : [figma.currentPage];
+      for (const node of targets) node.setExplicitVariableModeForCollection(collection, modeId);
+      figma.notify(`Theme "${theme}" applied to ${selection.length > 0 ? `${selection.length} selected` : "the page"}`);
+    });
+  }
   var ICON_SIZE = 14;
   var ICON_GAP = 4;
   var ICON_DEFS = {
@@ -171,8 +1299,8 @@
     }
   };
   function normalizePath(d, dx, dy) {
-    var _a;
-    const tokens = (_a = d.match(/[A-Za-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g)) != null ? _a : [];
+    var _a2;
+    const tokens = (_a2 = d.match(/[A-Za-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g)) != null ? _a2 : [];
     const out = [];
     let i = 0;
     let cx = 0, cy = 0;
@@ -296,8 +1424,8 @@
     return out.join(" ");
   }
   function iconKey(type, actor) {
-    var _a, _b, _c;
-    if (type === "person-action" && actor) return (_b = (_a = ACTOR_PALETTE[actor]) == null ? void 0 : _a.icon) != null ? _b : null;
+    var _a2, _b, _c;
+    if (type === "person-action" && actor) return (_b = (_a2 = ACTOR_PALETTE[actor]) == null ? void 0 : _a2.icon) != null ? _b : null;
     const p = PALETTE[type];
     const resolved = (p == null ? void 0 : p.rendersAs) ? PALETTE[p.rendersAs] : p;
     return (_c = resolved == null ? void 0 : resolved.icon) != null ? _c : null;
@@ -321,12 +1449,12 @@
     f.clipsContent = false;
     return f;
   }
-  function txt(content, size, style, color, wrapWidth) {
+  function txt(content2, size, style, color, wrapWidth) {
     const t = figma.createText();
     t.fontName = { family: "Inter", style };
     t.fontSize = size;
-    t.fills = fill(color);
-    t.characters = content;
+    t.fills = typeof color === "string" ? fill(color) : color;
+    t.characters = content2;
     if (wrapWidth !== void 0) {
       t.textAutoResize = "HEIGHT";
       t.resize(wrapWidth, t.height);
@@ -334,7 +1462,7 @@
     return t;
   }
   function hDivider(container, x, y, width, color = "#CCCCCC") {
-    const r = figma.createRectangle();
+    const r = markStructure(figma.createRectangle());
     container.appendChild(r);
     r.x = x;
     r.y = y;
@@ -342,51 +1470,72 @@
     r.fills = fill(color);
   }
   function vDivider(container, x, y, height, color = "#DDDDDD") {
-    const r = figma.createRectangle();
+    const r = markStructure(figma.createRectangle());
     container.appendChild(r);
     r.x = x;
     r.y = y;
     r.resize(1, height);
     r.fills = fill(color);
   }
-  function renderNoteCard(card, cardWidth) {
-    const p = PALETTE["note"];
+  function renderNoteCard(card, cardWidth, variables) {
+    const c = cardColors(card, variables);
     const textWidth = cardWidth - CARD_PADDING * 2;
     const f = vFrame("card:note", 6);
-    f.fills = fill(p.headerBg);
+    f.fills = c.headerBg;
     f.paddingTop = f.paddingBottom = CARD_PADDING;
     f.paddingLeft = f.paddingRight = CARD_PADDING;
     f.resize(cardWidth, 1);
     f.primaryAxisSizingMode = "AUTO";
     f.counterAxisSizingMode = "FIXED";
     f.cornerRadius = CARD_CORNER;
-    const titleNode = txt(card.text, 13, "Semi Bold", p.headerFg, textWidth);
+    const titleNode = txt(card.text, 13, "Semi Bold", c.headerFg, textWidth);
+    titleNode.name = "title";
     f.appendChild(titleNode);
     titleNode.layoutSizingHorizontal = "FILL";
     if (card.subtext) {
-      const sub = txt(card.subtext, 11, "Regular", p.bodyFg, textWidth);
+      const sub = txt(card.subtext, 11, "Regular", c.bodyFg, textWidth);
+      sub.name = "subtext";
       f.appendChild(sub);
       sub.layoutSizingHorizontal = "FILL";
     }
+    if (card.domain) f.appendChild(renderDomainTag(card, c.headerFg));
     return f;
   }
-  function renderTypedCard(card, cardWidth) {
-    let p = paletteFor(card.type, card.actor);
-    if (card.type === "system" && card.domain) {
-      p = __spreadProps(__spreadValues({}, p), { label: `SYSTEM (${card.domain.toUpperCase()})` });
-    }
-    if (card.type === "domain-event" && card.domain) {
-      p = __spreadProps(__spreadValues({}, p), { label: `EVENT (${card.domain.toUpperCase()})` });
-    }
+  function cardLabel(card) {
+    var _a2, _b;
+    return (_b = (_a2 = paletteFor(card.type, card.actor)) == null ? void 0 : _a2.label) != null ? _b : "";
+  }
+  function renderDomainTag(card, color) {
+    const tag = figma.createFrame();
+    tag.name = "domain-tag";
+    tag.fills = [];
+    tag.strokes = color;
+    tag.strokeWeight = 1;
+    tag.strokeAlign = "INSIDE";
+    tag.cornerRadius = 4;
+    tag.layoutMode = "HORIZONTAL";
+    tag.primaryAxisSizingMode = "AUTO";
+    tag.counterAxisSizingMode = "AUTO";
+    tag.paddingTop = tag.paddingBottom = TAG_PADDING_Y;
+    tag.paddingLeft = tag.paddingRight = TAG_PADDING_X;
+    const text = txt(domainTag(card), 10, "Semi Bold", color);
+    text.name = "domain";
+    tag.appendChild(text);
+    return tag;
+  }
+  function renderTypedCard(card, cardWidth, variables) {
+    const p = __spreadProps(__spreadValues({}, paletteFor(card.type, card.actor)), { label: cardLabel(card) });
+    const c = cardColors(card, variables);
     const textWidth = cardWidth - CARD_PADDING * 2;
     const header = vFrame("header", 6);
-    header.fills = fill(p.headerBg);
+    header.fills = c.headerBg;
     header.paddingTop = header.paddingBottom = CARD_PADDING;
     header.paddingLeft = header.paddingRight = CARD_PADDING;
     header.resize(cardWidth, 1);
     header.primaryAxisSizingMode = "AUTO";
     header.counterAxisSizingMode = "FIXED";
-    const titleNode = txt(card.text, 14, "Semi Bold", p.headerFg, textWidth);
+    const titleNode = txt(card.text, 14, "Semi Bold", c.headerFg, textWidth);
+    titleNode.name = "title";
     header.appendChild(titleNode);
     titleNode.layoutSizingHorizontal = "FILL";
     const key = p.label ? iconKey(card.type, card.actor) : null;
@@ -403,20 +1552,23 @@
       const iconScale = ICON_SIZE / Math.max(def.w, def.h);
       const v = figma.createVector();
       v.vectorPaths = [{ windingRule: "NONZERO", data: normalizePath(def.d, def.minX, def.minY) }];
-      v.fills = fill(p.headerFg);
+      v.fills = c.headerFg;
       v.strokes = [];
       v.resize(def.w * iconScale, def.h * iconScale);
       v.layoutSizingHorizontal = "FIXED";
       v.layoutSizingVertical = "FIXED";
       labelRow.appendChild(v);
-      const labelNode = txt(p.label, 11, "Regular", p.headerFg);
+      const labelNode = txt(p.label, 11, "Regular", c.headerFg);
+      labelNode.name = "label";
       labelRow.appendChild(labelNode);
       header.appendChild(labelRow);
     } else if (p.label) {
-      const labelNode = txt(p.label, 11, "Regular", p.headerFg, textWidth);
+      const labelNode = txt(p.label, 11, "Regular", c.headerFg, textWidth);
+      labelNode.name = "label";
       header.appendChild(labelNode);
       labelNode.layoutSizingHorizontal = "FILL";
     }
+    if (card.domain) header.appendChild(renderDomainTag(card, c.headerFg));
     header.locked = true;
     const cardFrame = vFrame(`card:${card.type}`, 0);
     cardFrame.resize(cardWidth, 1);
@@ -427,24 +1579,211 @@
     cardFrame.appendChild(header);
     if (card.subtext) {
       const body = vFrame("body", 0);
-      body.fills = fill(p.bodyBg);
+      body.fills = c.bodyBg;
       body.paddingTop = body.paddingBottom = CARD_PADDING;
       body.paddingLeft = body.paddingRight = CARD_PADDING;
       body.resize(cardWidth, 1);
       body.primaryAxisSizingMode = "AUTO";
       body.counterAxisSizingMode = "FIXED";
       body.locked = true;
-      const sub = txt(card.subtext, 12, "Regular", p.bodyFg, textWidth);
+      const sub = txt(card.subtext, 12, "Regular", c.bodyFg, textWidth);
+      sub.name = "subtext";
       body.appendChild(sub);
       sub.layoutSizingHorizontal = "FILL";
       cardFrame.appendChild(body);
     }
     return cardFrame;
   }
-  function renderCard(card, cardWidth = CARD_WIDTH) {
-    return card.type === "note" ? renderNoteCard(card, cardWidth) : renderTypedCard(card, cardWidth);
+  function drawCard(card, cardWidth = CARD_WIDTH, variables) {
+    return card.type === "note" ? renderNoteCard(card, cardWidth, variables) : renderTypedCard(card, cardWidth, variables);
+  }
+  var COMPONENTS_PAGE = "Card Components";
+  var COMPONENT_VERSION = 3;
+  var DATA_COMPONENT = "component";
+  var DATA_PALETTE = "palette";
+  var PROP_TITLE = "Title";
+  var PROP_SUBTEXT = "Subtext";
+  var PROP_SHOW_SUBTEXT = "Show subtext";
+  var PROP_LABEL = "Label";
+  var PROP_DOMAIN = "Domain";
+  var PROP_SHOW_DOMAIN = "Show domain";
+  var PROP_ACTOR = "Actor";
+  var PROP_TYPE = "Type";
+  var NO_ACTOR = "none";
+  var SET_GAP = 40;
+  var BLUEPRINT_STYLE = { id: "blueprint", name: "Blueprint card", draw: (card, variables) => drawCard(card, CARD_WIDTH, variables) };
+  var DESIGN_STYLE = { id: "design", name: "Design card", draw: renderDesignCard };
+  function componentsPage() {
+    return __async(this, null, function* () {
+      let page = figma.root.children.find((p) => p.getPluginData(DATA_ROLE) === "components");
+      if (!page) {
+        page = figma.createPage();
+        page.name = COMPONENTS_PAGE;
+        page.setPluginData(DATA_ROLE, "components");
+      }
+      yield page.loadAsync();
+      return page;
+    });
+  }
+  function variantCards(type) {
+    const placeholder = { text: PROP_TITLE, subtext: "Description", domain: "domain" };
+    if (type !== "person-action") return [{ name: `${PROP_TYPE}=${type}`, card: __spreadValues({ type }, placeholder) }];
+    return [
+      ...Object.keys(ACTOR_PALETTE).map((actor) => ({
+        name: `${PROP_ACTOR}=${actor}`,
+        card: __spreadValues({ type, actor }, placeholder)
+      })),
+      { name: `${PROP_ACTOR}=${NO_ACTOR}`, card: __spreadValues({ type }, placeholder) }
+    ];
+  }
+  function paletteStamp(type) {
+    const palettes = type === "person-action" ? { type: PALETTE[type], actors: ACTOR_PALETTE } : { type: paletteFor(type) };
+    return `${COMPONENT_VERSION}:${JSON.stringify(palettes)}`;
   }
-  function buildKey(blueprintName) {
+  function propertyKey(set, name) {
+    return Object.keys(set.componentPropertyDefinitions).find((key) => key.split("#")[0] === name);
+  }
+  function bindProperties(set, type) {
+    var _a2;
+    const define = (name, kind, value) => {
+      var _a3;
+      return (_a3 = propertyKey(set, name)) != null ? _a3 : set.addComponentProperty(name, kind, value);
+    };
+    const props = {
+      title: define(PROP_TITLE, "TEXT", PROP_TITLE),
+      subtext: define(PROP_SUBTEXT, "TEXT", "Description"),
+      showSubtext: define(PROP_SHOW_SUBTEXT, "BOOLEAN", true)
+    };
+    if ((_a2 = paletteFor(type)) == null ? void 0 : _a2.label) props.label = define(PROP_LABEL, "TEXT", paletteFor(type).label);
+    if (set.findOne((n) => n.name === "domain-tag")) {
+      props.domain = define(PROP_DOMAIN, "TEXT", "DOMAIN");
+      props.showDomain = define(PROP_SHOW_DOMAIN, "BOOLEAN", false);
+    }
+    for (const variant of set.children) {
+      if (variant.type !== "COMPONENT") continue;
+      const refs = /* @__PURE__ */ new Map();
+      const bind = (name, field, key) => {
+        const node = variant.findOne((n) => n.name === name);
+        if (node) refs.set(node, __spreadProps(__spreadValues({}, refs.get(node)), { [field]: key }));
+      };
+      bind("title", "characters", props.title);
+      bind("subtext", "characters", props.subtext);
+      bind(variant.findOne((n) => n.name === "body") ? "body" : "subtext", "visible", props.showSubtext);
+      if (props.label) bind("label", "characters", props.label);
+      if (props.domain) bind("domain", "characters", props.domain);
+      if (props.showDomain) bind("domain-tag", "visible", props.showDomain);
+      refs.forEach((value, node) => {
+        node.componentPropertyReferences = value;
+      });
+    }
+  }
+  function buildComponentSet(style, type, variables, page, y) {
+    const components = variantCards(type).map(({ name, card }) => {
+      const component = figma.createComponentFromNode(style.draw(card, variables));
+      component.name = name;
+      page.appendChild(component);
+      return component;
+    });
+    const set = figma.combineAsVariants(components, page);
+    set.name = `${style.name}/${type}`;
+    set.layoutMode = "HORIZONTAL";
+    set.primaryAxisSizingMode = "AUTO";
+    set.counterAxisSizingMode = "AUTO";
+    set.itemSpacing = CARD_GAP;
+    set.paddingTop = set.paddingBottom = set.paddingLeft = set.paddingRight = CARD_GAP;
+    set.x = 0;
+    set.y = y;
+    set.setPluginData(DATA_COMPONENT, `${style.id}/${type}`);
+    return set;
+  }
+  function redrawComponentSet(style, type, variables, set) {
+    for (const { name, card } of variantCards(type)) {
+      const frame = style.draw(card, variables);
+      const existing = set.children.find((c) => c.name === name);
+      if (existing && existing.type === "COMPONENT") {
+        refreshCard(existing, frame);
+      } else {
+        const component = figma.createComponentFromNode(frame);
+        component.name = name;
+        set.appendChild(component);
+      }
+    }
+  }
+  function loadCardLibrary(style) {
+    return __async(this, null, function* () {
+      const variables = yield loadPaletteVariables();
+      const page = yield componentsPage();
+      const existing = /* @__PURE__ */ new Map();
+      let y = 0;
+      for (const node of page.children) {
+        if (node.type === "COMPONENT_SET" && node.getPluginData(DATA_COMPONENT)) {
+          existing.set(node.getPluginData(DATA_COMPONENT), node);
+        }
+        y = Math.max(y, node.y + node.height + SET_GAP);
+      }
+      const sets = /* @__PURE__ */ new Map();
+      for (const type of Object.keys(PALETTE)) {
+        const stamp = paletteStamp(type);
+        let set = existing.get(`${style.id}/${type}`);
+        if (!set) {
+          set = buildComponentSet(style, type, variables, page, y);
+          y += set.height + SET_GAP;
+        } else if (set.getPluginData(DATA_PALETTE) !== stamp) {
+          redrawComponentSet(style, type, variables, set);
+        }
+        bindProperties(set, type);
+        set.setPluginData(DATA_PALETTE, stamp);
+        sets.set(type, set);
+      }
+      return { style, sets };
+    });
+  }
+  function variantFor(set, card) {
+    var _a2;
+    const name = card.type === "person-action" ? `${PROP_ACTOR}=${(_a2 = card.actor) != null ? _a2 : NO_ACTOR}` : `${PROP_TYPE}=${card.type}`;
+    const match = set.children.find((c) => c.name === name);
+    return match && match.type === "COMPONENT" ? match : set.defaultVariant;
+  }
+  function applyCard(library, node, card) {
+    var _a2, _b;
+    const set = (_a2 = library.sets.get(card.type)) != null ? _a2 : library.sets.get("note");
+    node.swapComponent(variantFor(set, card));
+    const props = {};
+    const title = propertyKey(set, PROP_TITLE);
+    const subtext = propertyKey(set, PROP_SUBTEXT);
+    const showSubtext = propertyKey(set, PROP_SHOW_SUBTEXT);
+    const label = propertyKey(set, PROP_LABEL);
+    const domain = propertyKey(set, PROP_DOMAIN);
+    const showDomain = propertyKey(set, PROP_SHOW_DOMAIN);
+    if (title) props[title] = card.text;
+    if (subtext) props[subtext] = (_b = card.subtext) != null ? _b : "";
+    if (showSubtext) props[showSubtext] = Boolean(card.subtext);
+    if (label) props[label] = cardLabel(card);
+    if (domain) props[domain] = domainTag(card) || "DOMAIN";
+    if (showDomain) props[showDomain] = Boolean(card.domain);
+    node.setProperties(props);
+    node.name = `card:${card.type}`;
+    const future = card.status === "future";
+    node.strokes = future ? fill(FUTURE_STYLE.color) : [];
+    node.strokeWeight = FUTURE_STYLE.weight;
+    node.strokeAlign = "INSIDE";
+    node.dashPattern = future ? FUTURE_STYLE.dash : [];
+  }
+  function cardInstance(library, card, width) {
+    var _a2;
+    const set = (_a2 = library.sets.get(card.type)) != null ? _a2 : library.sets.get("note");
+    const node = variantFor(set, card).createInstance();
+    applyCard(library, node, card);
+    if (width !== void 0) node.resize(width, node.height);
+    return node;
+  }
+  function renderSample(library, card) {
+    const sample = cardInstance(library, card, KEY_CARD_WIDTH);
+    sample.setPluginData(DATA_ROLE, "sample");
+    sample.setPluginData(DATA_CARD, JSON.stringify(card));
+    return sample;
+  }
+  function buildKey(library, blueprintName, notes = []) {
     const panel = freeFrame("Legend");
     panel.fills = fill("#F8F8F8");
     panel.resize(KEY_PANEL_WIDTH, 100);
@@ -452,11 +1791,22 @@
     panel.appendChild(title);
     title.x = 20;
     title.y = 24;
+    let y = 24 + title.height + 4;
+    if (notes.length > 0) {
+      for (const line of notes) {
+        const note = txt(line, 11, "Regular", "#1A1A1A", KEY_CARD_WIDTH);
+        panel.appendChild(note);
+        note.x = 20;
+        note.y = y;
+        y += note.height + 4;
+      }
+      y += 12;
+    }
     const sub = txt("Card types \u2014 copy to add", 10, "Regular", "#888888");
     panel.appendChild(sub);
     sub.x = 20;
-    sub.y = 24 + title.height + 4;
-    let y = 24 + title.height + 4 + sub.height + 20;
+    sub.y = y;
+    y += sub.height + 20;
     const types = [
       "system",
       "policy",
@@ -472,9 +1822,9 @@
     ];
     const actors = ["applicant", "caseworker", "supervisor"];
     for (const actor of actors) {
-      const sample = renderCard(
-        { type: "person-action", actor, text: ACTOR_PALETTE[actor].label, subtext: "Action taken" },
-        KEY_CARD_WIDTH
+      const sample = renderSample(
+        library,
+        { type: "person-action", actor, text: ACTOR_PALETTE[actor].label, subtext: "Action taken" }
       );
       panel.appendChild(sample);
       sample.x = 20;
@@ -483,10 +1833,7 @@
     }
     for (const type of types) {
       const p = PALETTE[type];
-      const sample = renderCard(
-        { type, text: p.label || "Note", subtext: "Description" },
-        KEY_CARD_WIDTH
-      );
+      const sample = renderSample(library, { type, text: p.label || "Note", subtext: "Description" });
       panel.appendChild(sample);
       sample.x = 20;
       sample.y = y;
@@ -495,117 +1842,617 @@
     panel.resize(KEY_PANEL_WIDTH, y + 24);
     return panel;
   }
-  function renderBlueprint(blueprint) {
-    return __async(this, null, function* () {
-      var _a;
-      yield figma.loadFontAsync({ family: "Inter", style: "Regular" });
-      yield figma.loadFontAsync({ family: "Inter", style: "Medium" });
-      yield figma.loadFontAsync({ family: "Inter", style: "Semi Bold" });
-      const columns = [];
-      for (const phase of blueprint.phases) {
-        for (const sp of phase.subPhases) {
-          columns.push(__spreadProps(__spreadValues({}, sp), { phase }));
-        }
+  var DATA_BLUEPRINT = "blueprintId";
+  var DATA_GRID = "grid";
+  var DATA_RENDERED = "rendered";
+  var DATA_ROLE = "role";
+  var DATA_KEY = "key";
+  var DATA_CARD = "card";
+  var DATA_SLOT = "slot";
+  var DATA_REMOVED = "removed";
+  var DATA_COLLAPSED = "collapsed";
+  var REMOVED_OPACITY = 0.35;
+  function markStructure(node) {
+    node.setPluginData(DATA_ROLE, "structure");
+    return node;
+  }
+  function slotOf(x, y) {
+    return `${Math.round(x)},${Math.round(y)}`;
+  }
+  function findRender(blueprintId) {
+    for (const node of figma.currentPage.children) {
+      if (node.type === "FRAME" && node.getPluginData(DATA_BLUEPRINT) === blueprintId) return node;
+    }
+    return null;
+  }
+  function refreshCard(target, source) {
+    for (const child of [...target.children]) child.remove();
+    for (const child of [...source.children]) target.appendChild(child);
+    target.fills = source.fills;
+    target.itemSpacing = source.itemSpacing;
+    target.paddingTop = source.paddingTop;
+    target.paddingBottom = source.paddingBottom;
+    target.paddingLeft = source.paddingLeft;
+    target.paddingRight = source.paddingRight;
+    target.cornerRadius = source.cornerRadius;
+    target.clipsContent = source.clipsContent;
+    target.resize(source.width, target.height);
+    source.remove();
+  }
+  var LINK_GROUP_NAMES = {
+    triggers: "Event triggers",
+    emits: "Emits event"
+  };
+  var LINK_KINDS = Object.keys(LINK_GROUP_NAMES);
+  function drawArrow(parent, points, style) {
+    return __async(this, null, function* () {
+      const left = Math.min(...points.map((p) => p.x));
+      const top = Math.min(...points.map((p) => p.y));
+      const arrow = figma.createVector();
+      parent.appendChild(arrow);
+      yield arrow.setVectorNetworkAsync({
+        vertices: points.map((p, i) => __spreadValues({
+          x: p.x - left,
+          y: p.y - top
+        }, i === points.length - 1 ? { strokeCap: "ARROW_LINES" } : {})),
+        segments: points.slice(1).map((_, i) => ({ start: i, end: i + 1 }))
+      });
+      arrow.x = left;
+      arrow.y = top;
+      arrow.fills = [];
+      arrow.strokes = fill(style.color);
+      arrow.strokeWeight = 1.5;
+      arrow.dashPattern = style.dash;
+      return arrow;
+    });
+  }
+  function drawLinks(container, links, cards, shown) {
+    return __async(this, null, function* () {
+      for (const kind of LINK_KINDS) {
+        const arrows = [];
+        for (const link of links) {
+          const from = cards.get(link.from);
+          const to = cards.get(link.to);
+          if (link.kind !== kind || !from || !to || from === to) continue;
+          const arrow = yield drawArrow(container, linkRoute(from, to), LINK_STYLES[kind]);
+          arrow.name = `${link.from} \u2192 ${link.to}`;
+          arrows.push(arrow);
+        }
+        if (arrows.length === 0) continue;
+        const group = figma.group(arrows, container);
+        group.name = `Links: ${LINK_GROUP_NAMES[kind]}`;
+        group.visible = shown.indexOf(kind) !== -1;
+        group.setPluginData(DATA_ROLE, "links");
+      }
+    });
+  }
+  function linkLegend(links, shown) {
+    return LINK_KINDS.filter((kind) => shown.indexOf(kind) !== -1 && links.some((l) => l.kind === kind)).map((kind) => LINK_STYLES[kind].legend);
+  }
+  var MORE_LEGEND = '"+N more" \u2014 cards a full cell leaves out';
+  function findCardLibrary() {
+    for (const node of figma.currentPage.children) {
+      if (node.type === "SECTION" && / — Card Library$/.test(node.name)) return node;
+    }
+    return null;
+  }
+  function renderMore(more, cardLibrary) {
+    const node = vFrame(`+${more.keys.length} more`, 2);
+    node.primaryAxisSizingMode = "FIXED";
+    node.counterAxisSizingMode = "FIXED";
+    node.primaryAxisAlignItems = "CENTER";
+    node.resize(more.width, more.height);
+    node.paddingLeft = node.paddingRight = CARD_PADDING;
+    node.fills = fill(MORE_STYLE.fill);
+    node.strokes = fill(MORE_STYLE.stroke);
+    node.dashPattern = MORE_STYLE.dash;
+    node.cornerRadius = CARD_CORNER;
+    node.appendChild(txt(`+${more.keys.length} more`, 14, "Semi Bold", MORE_STYLE.color));
+    if (cardLibrary) {
+      const link = txt("See the card library", 11, "Regular", MORE_STYLE.color);
+      link.hyperlink = { type: "NODE", value: cardLibrary.id };
+      link.textDecoration = "UNDERLINE";
+      node.appendChild(link);
+    }
+    return node;
+  }
+  var METRICS_BAND_HEIGHT = 64;
+  var METRICS_BAND_GAP = 8;
+  var TINT_OPACITY = 0.6;
+  function drawMetricsBand(container, grid, metrics) {
+    for (const column of grid.columns) {
+      const m = metrics.subPhases[column.id];
+      if (!m) continue;
+      const level = heatOf(m);
+      const style = level ? HEAT_STYLES[level] : NO_HEAT_STYLE;
+      const band = markStructure(vFrame(`metrics:${column.id}`, 2));
+      band.primaryAxisSizingMode = "FIXED";
+      band.counterAxisSizingMode = "FIXED";
+      band.primaryAxisAlignItems = "CENTER";
+      band.counterAxisAlignItems = "CENTER";
+      band.resize(column.width - 2, METRICS_BAND_HEIGHT - METRICS_BAND_GAP);
+      band.fills = fill(style.fill);
+      band.cornerRadius = 4;
+      for (const line of metricsLines(m)) band.appendChild(txt(line, 11, "Regular", style.text));
+      container.appendChild(band);
+      band.x = column.x + 1;
+      band.y = 0;
+    }
+  }
+  function drawMetricsTint(container, grid, metrics) {
+    if (grid.lanes.length === 0) return;
+    const top = grid.lanes[0].y;
+    const last = grid.lanes[grid.lanes.length - 1];
+    for (const column of grid.columns) {
+      const m = metrics.subPhases[column.id];
+      const level = m ? heatOf(m) : null;
+      if (!level) continue;
+      const tint = markStructure(figma.createRectangle());
+      tint.name = `heat:${column.id}`;
+      container.appendChild(tint);
+      tint.x = column.x;
+      tint.y = top;
+      tint.resize(column.width, last.y + last.height - top);
+      tint.fills = fill(HEAT_STYLES[level].fill);
+      tint.opacity = TINT_OPACITY;
+    }
+  }
+  function statusLegend(blueprint) {
+    const future = blueprint.cells.some((cell) => cell.cards.some((card) => card.status === "future"));
+    return future ? [FUTURE_STYLE.legend] : [];
+  }
+  function renderBlueprint(_0) {
+    return __async(this, arguments, function* (blueprint, options = {}) {
+      const { filter } = options;
+      const filtered = isFiltered(filter);
+      const shown = filtered ? filterBlueprint(blueprint, filter) : blueprint;
+      if (figma.editorType === "figjam") {
+        const section = yield drawJamBlueprint(shown, options);
+        figma.viewport.scrollAndZoomIntoView([section]);
+        figma.notify(`Generated: ${shown.name}`);
+        return;
+      }
+      const hooks = filtered ? { legendNotes: describeFilter(blueprint, filter) } : {};
+      const { container, grid, rendered, updated, added, changed, removed } = yield drawBlueprint(shown, options, hooks);
+      if (!filtered) {
+        container.setPluginData(DATA_GRID, JSON.stringify(grid));
+        container.setPluginData(DATA_RENDERED, JSON.stringify(rendered));
+      }
+      figma.viewport.scrollAndZoomIntoView([container]);
+      figma.notify(updated ? `Updated: ${shown.name} \u2014 ${added} added, ${changed} changed, ${removed} removed` : `Generated: ${shown.name}`);
+    });
+  }
+  function drawBlueprint(_0, _1) {
+    return __async(this, arguments, function* (blueprint, options, hooks = {}) {
+      var _a2, _b, _c;
+      yield figma.loadFontAsync({ family: "Inter", style: "Regular" });
+      yield figma.loadFontAsync({ family: "Inter", style: "Medium" });
+      yield figma.loadFontAsync({ family: "Inter", style: "Semi Bold" });
+      const library = yield loadCardLibrary(BLUEPRINT_STYLE);
+      const links = (_a2 = blueprint.links) != null ? _a2 : [];
+      const shownLinks = (_b = options.links) != null ? _b : LINK_KINDS;
+      const previous = options.update === false ? null : findRender(blueprint.id);
+      const previousCards = /* @__PURE__ */ new Map();
+      if (previous) {
+        for (const node of previous.children) {
+          if ((node.type === "FRAME" || node.type === "INSTANCE") && node.getPluginData(DATA_ROLE) === "card") {
+            previousCards.set(node.getPluginData(DATA_KEY), node);
+          }
+        }
       }
-      const cellMap = /* @__PURE__ */ new Map();
+      const laneIds = new Set(blueprint.lanes.map((l) => l.id));
+      const subPhaseIds = /* @__PURE__ */ new Set();
+      for (const phase of blueprint.phases) for (const sp of phase.subPhases) subPhaseIds.add(sp.id);
+      const nodes = /* @__PURE__ */ new Map();
       for (const cell of blueprint.cells) {
-        cellMap.set(`${cell.laneId}/${cell.subPhaseId}`, cell);
-      }
-      const cellGrid = [];
-      const rowHeights = [];
-      for (const lane of blueprint.lanes) {
-        const laneRow = [];
-        let maxH = ROW_MIN_HEIGHT;
-        for (const col of columns) {
-          const entry = cellMap.get(`${lane.id}/${col.id}`);
-          const cards = ((_a = entry == null ? void 0 : entry.cards) != null ? _a : []).map((c) => renderCard(c, CARD_WIDTH));
-          let h = CELL_PADDING;
-          for (const card of cards) h += card.height + CARD_GAP;
-          if (cards.length > 0) h = h - CARD_GAP + CELL_PADDING;
-          else h = CELL_PADDING * 2;
-          const contentHeight = Math.max(h, ROW_MIN_HEIGHT);
-          laneRow.push({ cards, contentHeight });
-          maxH = Math.max(maxH, contentHeight);
+        if (!laneIds.has(cell.laneId) || !subPhaseIds.has(cell.subPhaseId)) continue;
+        cell.cards.forEach((c, i) => {
+          const instance = cardInstance(library, c);
+          nodes.set(cardKey(cell, c, i), hooks.decorate ? hooks.decorate(instance, cell, i) : instance);
+        });
+      }
+      const band = options.metrics !== void 0 && options.overlay !== "tint";
+      const scene = layoutBlueprint(blueprint, {
+        x: KEY_TOTAL,
+        y: band ? METRICS_BAND_HEIGHT : 0,
+        layout: options.layout,
+        measureCard: (_card, key2) => nodes.get(key2).height
+      });
+      const collapsed = /* @__PURE__ */ new Set();
+      for (const m of scene.more) for (const k of m.keys) collapsed.add(k);
+      collapsed.forEach((k) => {
+        nodes.get(k).remove();
+        const old = previousCards.get(k);
+        if (!old) return;
+        previousCards.delete(k);
+        old.visible = false;
+        old.setPluginData(DATA_COLLAPSED, "true");
+      });
+      let container;
+      if (previous) {
+        container = previous;
+        container.name = blueprint.name;
+        for (const node of [...container.children]) {
+          const role = node.getPluginData(DATA_ROLE);
+          if (role === "structure" || role === "links") node.remove();
         }
-        cellGrid.push(laneRow);
-        rowHeights.push(maxH);
+      } else {
+        container = freeFrame(blueprint.name);
+        container.fills = fill("#FFFFFF");
+        container.resize(scene.width, Math.max(scene.height, 400));
+        container.setPluginData(DATA_BLUEPRINT, blueprint.id);
+        figma.currentPage.appendChild(container);
       }
-      const tableWidth = LANE_LABEL_WIDTH + columns.length * PHASE_WIDTH;
-      const tableHeight = HEADER_HEIGHT + rowHeights.reduce((a, b) => a + b, 0);
-      const totalWidth = KEY_TOTAL + tableWidth;
-      const container = freeFrame(blueprint.name);
-      container.fills = fill("#FFFFFF");
-      container.resize(totalWidth, Math.max(tableHeight, 400));
-      figma.currentPage.appendChild(container);
-      const key = buildKey(blueprint.name);
+      const legendNotes = [
+        ...(_c = hooks.legendNotes) != null ? _c : [],
+        ...linkLegend(links, shownLinks),
+        ...statusLegend(blueprint),
+        ...scene.more.length > 0 ? [MORE_LEGEND] : [],
+        ...options.metrics ? metricsLegend(options.metrics) : []
+      ];
+      const key = markStructure(buildKey(library, blueprint.name, legendNotes));
       container.appendChild(key);
       key.x = 0;
       key.y = 0;
-      const bpX = KEY_TOTAL;
-      {
-        let colOffset = 0;
-        for (const phase of blueprint.phases) {
-          const spanW = phase.subPhases.length * PHASE_WIDTH;
-          const spanX = bpX + LANE_LABEL_WIDTH + colOffset * PHASE_WIDTH;
-          const label = txt(phase.label, 13, "Semi Bold", "#1A1A1A");
-          container.appendChild(label);
-          label.x = spanX + (spanW - label.width) / 2;
-          label.y = 8;
-          colOffset += phase.subPhases.length;
-          if (colOffset < columns.length) {
-            vDivider(container, bpX + LANE_LABEL_WIDTH + colOffset * PHASE_WIDTH, 0, HEADER_HEIGHT, "#AAAAAA");
-          }
-        }
+      if (options.metrics) {
+        if (band) drawMetricsBand(container, scene.grid, options.metrics);
+        else drawMetricsTint(container, scene.grid, options.metrics);
       }
-      hDivider(container, bpX + LANE_LABEL_WIDTH, PHASE_HEADER_H, tableWidth - LANE_LABEL_WIDTH, "#CCCCCC");
-      for (let i = 0; i < columns.length; i++) {
-        const col = columns[i];
-        const colX = bpX + LANE_LABEL_WIDTH + i * PHASE_WIDTH;
-        const label = txt(col.label, 11, "Regular", "#555555");
+      for (const l of scene.labels) {
+        const label = markStructure(txt(l.text, l.fontSize, l.weight === "semibold" ? "Semi Bold" : "Regular", l.color));
         container.appendChild(label);
-        label.x = colX + (PHASE_WIDTH - label.width) / 2;
-        label.y = PHASE_HEADER_H + 6;
-        if (i < columns.length - 1 && columns[i + 1].phase.id === col.phase.id) {
-          vDivider(container, colX + PHASE_WIDTH, PHASE_HEADER_H, HEADER_HEIGHT - PHASE_HEADER_H, "#DDDDDD");
-        }
+        label.x = l.x + (l.width - label.width) / 2;
+        label.y = l.height === void 0 ? l.y : l.y + (l.height - label.height) / 2;
+      }
+      for (const line of scene.lines) {
+        if (line.orientation === "horizontal") hDivider(container, line.x, line.y, line.length, line.color);
+        else vDivider(container, line.x, line.y, line.length, line.color);
       }
-      hDivider(container, bpX, HEADER_HEIGHT, tableWidth, "#AAAAAA");
-      let y = HEADER_HEIGHT;
-      for (let li = 0; li < blueprint.lanes.length; li++) {
-        const lane = blueprint.lanes[li];
-        const rowH = rowHeights[li];
-        if (li > 0) hDivider(container, bpX, y, tableWidth, "#CCCCCC");
-        const laneLabel = txt(lane.label, 11, "Semi Bold", "#555555");
-        container.appendChild(laneLabel);
-        laneLabel.x = bpX + (LANE_LABEL_WIDTH - laneLabel.width) / 2;
-        laneLabel.y = y + (rowH - laneLabel.height) / 2;
-        vDivider(container, bpX + LANE_LABEL_WIDTH, y, rowH);
-        for (let ci = 0; ci < columns.length; ci++) {
-          const { cards } = cellGrid[li][ci];
-          const baseX = bpX + LANE_LABEL_WIDTH + ci * PHASE_WIDTH;
-          let cardY = y + CELL_PADDING;
-          for (const card of cards) {
-            container.appendChild(card);
-            card.x = baseX + CELL_PADDING;
-            card.y = cardY;
-            cardY += card.height + CARD_GAP;
+      const rendered = {};
+      const placedCards = /* @__PURE__ */ new Map();
+      let added = 0;
+      let changed = 0;
+      for (const { key: cardId, card, laneId, subPhaseId, x: slotX, y: slotY } of scene.cards) {
+        const node = nodes.get(cardId);
+        let placed = node;
+        const old = previousCards.get(cardId);
+        if (old) {
+          previousCards.delete(cardId);
+          const moved = old.getPluginData(DATA_SLOT) !== slotOf(old.x, old.y);
+          const differs = old.getPluginData(DATA_CARD) !== JSON.stringify(card);
+          if (differs) changed++;
+          if (old.type === "INSTANCE") {
+            if (differs) applyCard(library, old, card);
+            node.remove();
+            placed = old;
+          } else {
+            container.insertChild(container.children.indexOf(old), node);
+            node.x = old.x;
+            node.y = old.y;
+            old.remove();
           }
-          if (ci < columns.length - 1) {
-            const isPhaseBreak = columns[ci + 1].phase.id !== columns[ci].phase.id;
-            vDivider(container, baseX + PHASE_WIDTH, y, rowH, isPhaseBreak ? "#AAAAAA" : "#DDDDDD");
+          placed.name = `card:${card.type}`;
+          placed.opacity = 1;
+          placed.visible = true;
+          placed.setPluginData(DATA_REMOVED, "");
+          placed.setPluginData(DATA_COLLAPSED, "");
+          if (!moved) {
+            placed.x = slotX;
+            placed.y = slotY;
           }
+        } else {
+          container.appendChild(node);
+          node.x = slotX;
+          node.y = slotY;
+          if (previous) added++;
+        }
+        placed.setPluginData(DATA_ROLE, "card");
+        placed.setPluginData(DATA_KEY, cardId);
+        placed.setPluginData(DATA_CARD, JSON.stringify(card));
+        placed.setPluginData(DATA_SLOT, slotOf(slotX, slotY));
+        rendered[cardId] = { laneId, subPhaseId, card };
+        placedCards.set(cardId, placed);
+      }
+      const cardLibrary = scene.more.length > 0 ? findCardLibrary() : null;
+      const linkEnds = new Map(placedCards);
+      for (const m of scene.more) {
+        const node = markStructure(renderMore(m, cardLibrary));
+        container.appendChild(node);
+        node.x = m.x;
+        node.y = m.y;
+        for (const k of m.keys) linkEnds.set(k, node);
+      }
+      container.resize(scene.width, Math.max(scene.height, 400));
+      yield drawLinks(container, links, linkEnds, shownLinks);
+      let removed = 0;
+      for (const old of previousCards.values()) {
+        if (old.getPluginData(DATA_REMOVED) === "true") continue;
+        old.name = `removed:${old.name}`;
+        old.opacity = REMOVED_OPACITY;
+        old.setPluginData(DATA_REMOVED, "true");
+        removed++;
+      }
+      if (previous) {
+        const structure = container.children.filter((n) => n.getPluginData(DATA_ROLE) === "structure");
+        structure.forEach((node, i) => container.insertChild(i, node));
+      }
+      return { container, grid: scene.grid, rendered, updated: previous !== null, added, changed, removed };
+    });
+  }
+  var JAM_FONT = { family: "Inter", style: "Medium" };
+  var JAM_FONT_SIZE = 12;
+  var JAM_TITLE_GAP = 48;
+  function jamCard(card, width) {
+    var _a2;
+    const p = (_a2 = paletteFor(card.type, card.actor)) != null ? _a2 : PALETTE.note;
+    const label = card.type === "note" ? "" : p.label;
+    const node = isSticky(card) ? figma.createSticky() : figma.createShapeWithText();
+    node.text.fontName = JAM_FONT;
+    node.text.characters = cardParagraphs(card, label).join("\n");
+    if (node.type === "STICKY") {
+      node.fills = fill(p.headerBg);
+      node.text.fills = fill(p.headerFg);
+    } else {
+      node.shapeType = "ROUNDED_RECTANGLE";
+      node.fills = fill(p.bodyBg);
+      node.strokes = fill(card.status === "future" ? FUTURE_STYLE.color : p.headerBg);
+      node.dashPattern = card.status === "future" ? FUTURE_STYLE.dash : [];
+      node.text.fontSize = JAM_FONT_SIZE;
+      node.text.fills = fill(p.bodyFg);
+      node.resize(width, estimateCardHeight(card, width, label));
+    }
+    node.name = `card:${card.type}`;
+    node.setPluginData(DATA_CARD, JSON.stringify(card));
+    return node;
+  }
+  function jamMore(more) {
+    const node = figma.createShapeWithText();
+    node.name = `+${more.keys.length} more`;
+    node.shapeType = "ROUNDED_RECTANGLE";
+    node.fills = fill(MORE_STYLE.fill);
+    node.strokes = fill(MORE_STYLE.stroke);
+    node.dashPattern = MORE_STYLE.dash;
+    node.text.fontName = JAM_FONT;
+    node.text.characters = node.name;
+    node.text.fills = fill(MORE_STYLE.color);
+    node.resize(more.width, more.height);
+    return node;
+  }
+  function jamConnector(from, to, kind) {
+    const style = LINK_STYLES[kind];
+    const connector = figma.createConnector();
+    connector.connectorStart = { endpointNodeId: from.id, magnet: "AUTO" };
+    connector.connectorEnd = { endpointNodeId: to.id, magnet: "AUTO" };
+    connector.connectorLineType = "ELBOWED";
+    connector.connectorEndStrokeCap = "ARROW_LINES";
+    connector.strokes = fill(style.color);
+    connector.dashPattern = style.dash;
+    return connector;
+  }
+  function place(parent, node, x, y) {
+    parent.appendChild(node);
+    node.x = x;
+    node.y = y;
+  }
+  function loadJamFonts() {
+    return __async(this, null, function* () {
+      yield figma.loadFontAsync({ family: "Inter", style: "Regular" });
+      yield figma.loadFontAsync({ family: "Inter", style: "Medium" });
+      yield figma.loadFontAsync({ family: "Inter", style: "Semi Bold" });
+    });
+  }
+  function drawJamBlueprint(blueprint, options) {
+    return __async(this, null, function* () {
+      var _a2, _b;
+      yield loadJamFonts();
+      const shownLinks = (_a2 = options.links) != null ? _a2 : LINK_KINDS;
+      const nodes = /* @__PURE__ */ new Map();
+      const scene = layoutBlueprint(blueprint, {
+        y: JAM_TITLE_GAP,
+        layout: options.layout,
+        measureCard: (card, key, width) => {
+          const node = jamCard(card, width);
+          nodes.set(key, node);
+          return node.height;
         }
-        y += rowH;
+      });
+      const outer = figma.createSection();
+      outer.name = blueprint.name;
+      outer.setPluginData(DATA_BLUEPRINT, blueprint.id);
+      figma.currentPage.appendChild(outer);
+      const sections = /* @__PURE__ */ new Map();
+      for (const box of phaseBoxes(blueprint, scene, JAM_TITLE_GAP)) {
+        const section = figma.createSection();
+        section.name = box.label;
+        place(outer, section, box.x, box.y);
+        section.resizeWithoutConstraints(box.width, box.height);
+        const phase = blueprint.phases.filter((p) => p.id === box.id)[0];
+        for (const sp of phase.subPhases) sections.set(sp.id, section);
+      }
+      const inSection = (subPhaseId, node, x, y) => {
+        const section = sections.get(subPhaseId);
+        place(section, node, x - section.x, y - section.y);
+      };
+      const subPhaseLabels = scene.labels.filter((l) => l.role === "sub-phase");
+      scene.grid.columns.forEach((column, i) => {
+        const l = subPhaseLabels[i];
+        const label = txt(l.text, l.fontSize, "Regular", l.color);
+        inSection(column.id, label, l.x + (l.width - label.width) / 2, l.y);
+      });
+      for (const l of scene.labels.filter((l2) => l2.role === "lane")) {
+        const label = txt(l.text, l.fontSize, "Semi Bold", l.color);
+        place(outer, label, l.x + (l.width - label.width) / 2, l.y + (((_b = l.height) != null ? _b : 0) - label.height) / 2);
       }
-      hDivider(container, bpX, y, tableWidth, "#AAAAAA");
-      vDivider(container, bpX, HEADER_HEIGHT, y - HEADER_HEIGHT, "#AAAAAA");
-      vDivider(container, bpX + tableWidth, HEADER_HEIGHT, y - HEADER_HEIGHT, "#AAAAAA");
-      container.resize(totalWidth, Math.max(y, 400));
+      for (const line of scene.lines) {
+        if (line.orientation !== "horizontal") continue;
+        const rule = figma.createRectangle();
+        rule.resize(line.length, 1);
+        rule.fills = fill(line.color);
+        place(outer, rule, line.x, line.y);
+      }
+      for (const c of scene.cards) inSection(c.subPhaseId, nodes.get(c.key), c.x, c.y);
+      for (const m of scene.more) {
+        const node = jamMore(m);
+        inSection(m.subPhaseId, node, m.x, m.y);
+        for (const k of m.keys) nodes.set(k, node);
+      }
+      for (const link of scene.links) {
+        const connector = jamConnector(nodes.get(link.from), nodes.get(link.to), link.kind);
+        connector.name = `${link.from} \u2192 ${link.to}`;
+        connector.visible = shownLinks.indexOf(link.kind) !== -1;
+        outer.appendChild(connector);
+      }
+      outer.resizeWithoutConstraints(scene.width, scene.height);
+      return outer;
+    });
+  }
+  function renderJamCards(data) {
+    return __async(this, null, function* () {
+      yield loadJamFonts();
+      const lib = figma.createSection();
+      lib.name = libraryTitle(data);
+      figma.currentPage.appendChild(lib);
+      const labels = [];
+      const cards = [];
+      const scene = layoutCardLibrary(data, {
+        measureText: (role, text) => {
+          const label = role === "title" ? txt(text, 16, "Semi Bold", "#1A1A1A") : txt(text, 10, "Semi Bold", "#888888");
+          labels.push(label);
+          return label.height;
+        },
+        measureCard: (entry) => {
+          const card = jamCard(entry, LIBRARY_CARD_WIDTH);
+          cards.push(card);
+          return card.height;
+        }
+      });
+      scene.texts.forEach((t, i) => place(lib, labels[i], t.x, t.y));
+      scene.cards.forEach((c, i) => place(lib, cards[i], c.x, c.y));
+      lib.resizeWithoutConstraints(scene.width, scene.height);
+      figma.viewport.scrollAndZoomIntoView([lib]);
+      figma.notify(`Generated: ${lib.name}`);
+    });
+  }
+  var DIFF_COLORS = {
+    added: "#2E8540",
+    removed: "#D83933",
+    modified: "#FA9441"
+  };
+  var DIFF_NOTE_BG = "#FEF0C8";
+  function decorateDiff(instance, d) {
+    var _a2;
+    if (d.change === "unchanged") return instance;
+    const node = d.change === "modified" ? instance.detachInstance() : instance;
+    node.name = `${d.change}:${node.name}`;
+    node.strokes = fill(DIFF_COLORS[d.change]);
+    node.strokeWeight = 3;
+    node.strokeAlign = "INSIDE";
+    if (d.change === "removed") {
+      node.opacity = REMOVED_OPACITY;
+      node.dashPattern = [6, 4];
+    }
+    if (d.change === "modified" && d.before && node.type === "FRAME") {
+      const lines = [`Changed: ${((_a2 = d.fields) != null ? _a2 : []).join(", ")}`];
+      if (d.fields && d.fields.indexOf("text") !== -1) lines.push(`Was: ${d.before.text}`);
+      const note = vFrame("diff-note", 0);
+      note.fills = fill(DIFF_NOTE_BG);
+      note.paddingTop = note.paddingBottom = 8;
+      note.paddingLeft = note.paddingRight = CARD_PADDING;
+      const text = txt(lines.join("\n"), 10, "Regular", "#3D2800", node.width - CARD_PADDING * 2);
+      note.appendChild(text);
+      node.appendChild(note);
+      note.layoutSizingHorizontal = "FILL";
+      text.layoutSizingHorizontal = "FILL";
+    }
+    return node;
+  }
+  function renderBlueprintDiff(diff) {
+    return __async(this, null, function* () {
+      const changes = new Map(diff.cells.map((c) => [`${c.laneId}/${c.subPhaseId}`, c.cards]));
+      const blueprint = {
+        id: `${diff.head.id}:diff`,
+        name: `${diff.head.name} \u2014 changes`,
+        lanes: diff.lanes,
+        phases: diff.phases,
+        cells: diff.cells.map((c) => ({ laneId: c.laneId, subPhaseId: c.subPhaseId, cards: c.cards.map((d) => d.card) }))
+      };
+      const { container } = yield drawBlueprint(blueprint, { update: false }, {
+        legendNotes: [
+          ...summarizeDiff(diff),
+          "Green outline \u2014 added \xB7 faded red \u2014 removed \xB7 orange outline \u2014 modified"
+        ],
+        decorate: (node, cell, index) => {
+          var _a2;
+          const d = (_a2 = changes.get(`${cell.laneId}/${cell.subPhaseId}`)) == null ? void 0 : _a2[index];
+          return d ? decorateDiff(node, d) : node;
+        }
+      });
       figma.viewport.scrollAndZoomIntoView([container]);
-      figma.notify(`Generated: ${blueprint.name}`);
+      const { added, removed, modified } = diff.summary;
+      figma.notify(`Compared: ${added} added, ${removed} removed, ${modified} modified`);
     });
   }
-  var DESIGN_CARD_W = 240;
+  function isExportable(node) {
+    return node.type === "FRAME" && node.getPluginData(DATA_GRID) !== "";
+  }
+  function findBlueprintFrame() {
+    for (const node of figma.currentPage.selection) {
+      for (let n = node; n && n.type !== "PAGE"; n = n.parent) {
+        if (isExportable(n)) return n;
+      }
+    }
+    for (const node of figma.currentPage.children) {
+      if (isExportable(node)) return node;
+    }
+    return null;
+  }
+  function textOf(node, name) {
+    const found = node.findOne((n) => n.type === "TEXT" && n.name === name);
+    for (let n = found; n && n !== node; n = n.parent) {
+      if ("visible" in n && !n.visible) return "";
+    }
+    return found ? found.characters : void 0;
+  }
+  function readCanvas(container) {
+    var _a2, _b;
+    const cards = [];
+    for (const node of container.children) {
+      if (node.type !== "FRAME" && node.type !== "INSTANCE") continue;
+      const role = node.getPluginData(DATA_ROLE);
+      if (role !== "card" && role !== "sample") continue;
+      if (node.getPluginData(DATA_REMOVED) === "true" || node.getPluginData(DATA_COLLAPSED) === "true") continue;
+      const card = JSON.parse(node.getPluginData(DATA_CARD));
+      const text = (_a2 = textOf(node, "title")) != null ? _a2 : card.text;
+      let subtext = (_b = textOf(node, "subtext")) != null ? _b : card.subtext;
+      if (role === "sample" && subtext === card.subtext) subtext = void 0;
+      cards.push(__spreadProps(__spreadValues(__spreadProps(__spreadValues(__spreadProps(__spreadValues({}, role === "card" ? { key: node.getPluginData(DATA_KEY) } : {}), {
+        type: card.type
+      }), card.actor ? { actor: card.actor } : {}), {
+        text
+      }), subtext ? { subtext } : {}), {
+        x: node.x,
+        y: node.y,
+        width: node.width
+      }));
+    }
+    return {
+      blueprintId: container.getPluginData(DATA_BLUEPRINT),
+      name: container.name,
+      grid: JSON.parse(container.getPluginData(DATA_GRID)),
+      rendered: JSON.parse(container.getPluginData(DATA_RENDERED)),
+      cards
+    };
+  }
+  function selectedCard() {
+    const selection = figma.currentPage.selection;
+    if (selection.length !== 1) return null;
+    for (let n = selection[0]; n && n.type !== "PAGE"; n = n.parent) {
+      const data = n.getPluginData(DATA_CARD);
+      if (data) return JSON.parse(data);
+    }
+    return null;
+  }
+  var DESIGN_CARD_W = LIBRARY_CARD_WIDTH;
   var DESIGN_CARD_CORNER = 5;
   var DESIGN_HEADER_PAD = 18;
   var DESIGN_BODY_PAD = 24;
@@ -613,9 +2460,7 @@
   var DESIGN_PILL_PAD_H = 4;
   var DESIGN_PILL_PAD_V = 8;
   var DESIGN_PILL_GAP = 4;
-  var DESIGN_SECTION_GAP = 48;
-  var DESIGN_CARD_GAP = 16;
-  function sspTxt(content, size, style, color, opts) {
+  function sspTxt(content2, size, style, color, opts) {
     const t = figma.createText();
     t.fontName = { family: "Source Sans Pro", style };
     t.fontSize = size;
@@ -625,17 +2470,18 @@
     if ((opts == null ? void 0 : opts.letterSpacing) !== void 0) {
       t.letterSpacing = { value: opts.letterSpacing, unit: "PIXELS" };
     }
-    t.characters = content;
-    t.fills = fill(color);
+    t.characters = content2;
+    t.fills = typeof color === "string" ? fill(color) : color;
     if ((opts == null ? void 0 : opts.wrapWidth) !== void 0) {
       t.textAutoResize = "HEIGHT";
       t.resize(opts.wrapWidth, t.height);
     }
     return t;
   }
-  function renderDesignCard(entry) {
-    var _a;
-    const p = (_a = paletteFor(entry.type, entry.actor)) != null ? _a : PALETTE["note"];
+  function renderDesignCard(entry, variables) {
+    var _a2;
+    const p = (_a2 = paletteFor(entry.type, entry.actor)) != null ? _a2 : PALETTE["note"];
+    const c = cardColors(entry, variables);
     const bodyText = entry.subtext || "";
     const header = figma.createFrame();
     header.name = "header";
@@ -643,14 +2489,15 @@
     header.paddingTop = header.paddingBottom = DESIGN_HEADER_PAD;
     header.paddingLeft = header.paddingRight = DESIGN_HEADER_PAD;
     header.itemSpacing = 0;
-    header.fills = fill(p.headerBg);
+    header.fills = c.headerBg;
     header.resize(DESIGN_CARD_W, 1);
     header.primaryAxisSizingMode = "AUTO";
     header.counterAxisSizingMode = "FIXED";
-    const titleNode = sspTxt(entry.text, 18, "SemiBold", p.headerFg, {
+    const titleNode = sspTxt(entry.text, 18, "SemiBold", c.headerFg, {
       lineHeight: 24,
       wrapWidth: DESIGN_TEXT_W
     });
+    titleNode.name = "title";
     header.appendChild(titleNode);
     titleNode.layoutSizingHorizontal = "FILL";
     if (p.label) {
@@ -664,7 +2511,7 @@
       pill.paddingLeft = pill.paddingRight = DESIGN_PILL_PAD_V;
       pill.itemSpacing = DESIGN_PILL_GAP;
       pill.cornerRadius = 12;
-      pill.fills = fill(p.headerBg);
+      pill.fills = c.headerBg;
       pill.strokes = [];
       const key = iconKey(entry.type, entry.actor);
       const def = key ? ICON_DEFS[key] : null;
@@ -672,14 +2519,15 @@
         const iconScale = ICON_SIZE / Math.max(def.w, def.h);
         const v = figma.createVector();
         v.vectorPaths = [{ windingRule: "NONZERO", data: normalizePath(def.d, def.minX, def.minY) }];
-        v.fills = fill(p.headerFg);
+        v.fills = c.headerFg;
         v.strokes = [];
         v.resize(def.w * iconScale, def.h * iconScale);
         v.layoutSizingHorizontal = "FIXED";
         v.layoutSizingVertical = "FIXED";
         pill.appendChild(v);
       }
-      const labelNode = sspTxt(p.label, 12, "Regular", p.headerFg, { lineHeight: 24, letterSpacing: 1 });
+      const labelNode = sspTxt(p.label, 12, "Regular", c.headerFg, { lineHeight: 24, letterSpacing: 1 });
+      labelNode.name = "label";
       pill.appendChild(labelNode);
       header.appendChild(pill);
     }
@@ -701,22 +2549,23 @@
       body.layoutMode = "VERTICAL";
       body.paddingTop = body.paddingBottom = DESIGN_BODY_PAD;
       body.paddingLeft = body.paddingRight = DESIGN_HEADER_PAD;
-      body.fills = fill(p.bodyBg);
+      body.fills = c.bodyBg;
       body.resize(DESIGN_CARD_W, 1);
       body.primaryAxisSizingMode = "AUTO";
       body.counterAxisSizingMode = "FIXED";
       body.locked = true;
-      const sub = sspTxt(bodyText, 14, "Regular", p.bodyFg, {
+      const sub = sspTxt(bodyText, 14, "Regular", c.bodyFg, {
         lineHeight: 21,
         wrapWidth: DESIGN_TEXT_W
       });
+      sub.name = "subtext";
       body.appendChild(sub);
       sub.layoutSizingHorizontal = "FILL";
       card.appendChild(body);
     }
     return card;
   }
-  function labelFrame(content, size, style, color) {
+  function labelFrame(content2, size, style, color) {
     const f = figma.createFrame();
     f.name = "";
     f.fills = [];
@@ -724,431 +2573,861 @@
     f.primaryAxisSizingMode = "AUTO";
     f.counterAxisSizingMode = "AUTO";
     f.clipsContent = false;
-    const t = txt(content, size, style, color);
+    const t = txt(content2, size, style, color);
     f.appendChild(t);
     return f;
   }
   function renderCards(data) {
     return __async(this, null, function* () {
+      if (figma.editorType === "figjam") {
+        yield renderJamCards(data);
+        return;
+      }
       yield figma.loadFontAsync({ family: "Source Sans Pro", style: "Regular" });
       yield figma.loadFontAsync({ family: "Source Sans Pro", style: "SemiBold" });
       yield figma.loadFontAsync({ family: "Inter", style: "Regular" });
       yield figma.loadFontAsync({ family: "Inter", style: "Semi Bold" });
-      const PAGE_PADDING = 40;
-      const CARDS_PER_ROW = 5;
+      const library = yield loadCardLibrary(DESIGN_STYLE);
       const lib = figma.createSection();
-      lib.name = `${data.name} \u2014 Card Library`;
+      lib.name = libraryTitle(data);
       figma.currentPage.appendChild(lib);
-      let x = PAGE_PADDING;
-      let y = PAGE_PADDING;
-      const titleFrame = labelFrame(`${data.name} \u2014 Card Library`, 16, "Semi Bold", "#1A1A1A");
-      lib.appendChild(titleFrame);
-      titleFrame.x = x;
-      titleFrame.y = y;
-      y += titleFrame.height + 24;
-      for (const phase of data.phases) {
-        for (const subPhase of phase.subPhases) {
-          if (!subPhase.cards.length) continue;
-          const phaseLabel = `${phase.label}  /  ${subPhase.label}`;
-          const labelF = labelFrame(phaseLabel.toUpperCase(), 10, "Semi Bold", "#888888");
-          lib.appendChild(labelF);
-          labelF.x = x;
-          labelF.y = y;
-          y += labelF.height + 12;
-          let col = 0;
-          let rowX = x;
-          let rowMaxH = 0;
-          for (const entry of subPhase.cards) {
-            const card = renderDesignCard(entry);
-            lib.appendChild(card);
-            card.x = rowX;
-            card.y = y;
-            rowMaxH = Math.max(rowMaxH, card.height);
-            rowX += DESIGN_CARD_W + DESIGN_CARD_GAP;
-            col++;
-            if (col >= CARDS_PER_ROW) {
-              col = 0;
-              rowX = x;
-              y += rowMaxH + DESIGN_CARD_GAP;
-              rowMaxH = 0;
-            }
-          }
-          if (col > 0) y += rowMaxH;
-          y += DESIGN_SECTION_GAP;
+      const labels = [];
+      const cards = [];
+      const scene = layoutCardLibrary(data, {
+        measureText: (role, text) => {
+          const label = role === "title" ? labelFrame(text, 16, "Semi Bold", "#1A1A1A") : labelFrame(text, 10, "Semi Bold", "#888888");
+          labels.push(label);
+          return label.height;
+        },
+        measureCard: (entry) => {
+          const card = cardInstance(library, entry);
+          cards.push(card);
+          return card.height;
         }
-      }
-      const sectionW = PAGE_PADDING * 2 + CARDS_PER_ROW * DESIGN_CARD_W + (CARDS_PER_ROW - 1) * DESIGN_CARD_GAP;
-      lib.resizeWithoutConstraints(sectionW, y + PAGE_PADDING);
+      });
+      scene.texts.forEach((t, i) => {
+        lib.appendChild(labels[i]);
+        labels[i].x = t.x;
+        labels[i].y = t.y;
+      });
+      scene.cards.forEach((c, i) => {
+        const card = cards[i];
+        card.name = c.entry.citation || "";
+        card.setPluginData(DATA_CARD, JSON.stringify(c.entry));
+        lib.appendChild(card);
+        card.x = c.x;
+        card.y = c.y;
+      });
+      lib.resizeWithoutConstraints(scene.width, scene.height);
       figma.viewport.scrollAndZoomIntoView([lib]);
-      figma.notify(`Generated: ${data.name} \u2014 Card Library`);
+      figma.notify(`Generated: ${lib.name}`);
+    });
+  }
+  var DIAGRAM_MARGIN = 40;
+  var STATE_PADDING = 12;
+  var STATE_CORNER = 12;
+  var STATE_STROKE = "#565C65";
+  var TERMINAL_STROKE = 3;
+  var CHIP_GAP = 4;
+  var TRANSITION_STYLE = { color: "#565C65", dash: [] };
+  var SLA_COLORS = {
+    running: { bg: "#D9F2DE", fg: "#154C21" },
+    paused: { bg: "#FEF0C8", fg: "#3D2800" },
+    stopped: { bg: "#E6E6E6", fg: "#1A1A1A" }
+  };
+  function diagramActor(actor) {
+    const key = actor.replace(/_/g, "");
+    return ACTOR_PALETTE[key] ? key : void 0;
+  }
+  function chip(content2, bg, fg) {
+    const c = figma.createFrame();
+    c.name = `chip:${content2}`;
+    c.fills = bg;
+    c.cornerRadius = 4;
+    c.layoutMode = "HORIZONTAL";
+    c.primaryAxisSizingMode = "AUTO";
+    c.counterAxisSizingMode = "AUTO";
+    c.paddingTop = c.paddingBottom = TAG_PADDING_Y;
+    c.paddingLeft = c.paddingRight = TAG_PADDING_X;
+    c.appendChild(txt(content2, 10, "Semi Bold", fg));
+    return c;
+  }
+  function chipRow(parent, name, chips) {
+    if (chips.length === 0) return;
+    const row = figma.createFrame();
+    row.name = name;
+    row.fills = [];
+    row.layoutMode = "HORIZONTAL";
+    row.layoutWrap = "WRAP";
+    row.itemSpacing = CHIP_GAP;
+    row.counterAxisSpacing = CHIP_GAP;
+    row.primaryAxisSizingMode = "FIXED";
+    row.counterAxisSizingMode = "AUTO";
+    for (const c of chips) row.appendChild(c);
+    parent.appendChild(row);
+    row.layoutSizingHorizontal = "FILL";
+  }
+  function actorChips(t, variables) {
+    return t.actors.map((actor) => {
+      const c = cardColors({ type: "person-action", actor: diagramActor(actor) }, variables);
+      return chip(actor.replace(/_/g, " "), c.headerBg, c.headerFg);
+    });
+  }
+  function eventChips(t, variables) {
+    const c = cardColors({ type: "domain-event" }, variables);
+    return t.emits.map((event) => chip(event, c.headerBg, c.headerFg));
+  }
+  function transitionDetails(frame, t, title, variables) {
+    const trigger = txt(title, 11, "Semi Bold", "#1A1A1A");
+    trigger.name = "trigger";
+    frame.appendChild(trigger);
+    chipRow(frame, "actors", actorChips(t, variables));
+    if (t.guard) {
+      const guard = txt(`if ${t.guard}`, 10, "Regular", "#555555", LABEL_WIDTH);
+      guard.name = "guard";
+      frame.appendChild(guard);
+      guard.layoutSizingHorizontal = "FILL";
+    }
+    chipRow(frame, "emits", eventChips(t, variables));
+  }
+  function renderTransitionLabel(t, variables) {
+    const label = vFrame(`transition:${t.trigger}`, 4);
+    label.fills = fill("#FFFFFF");
+    label.cornerRadius = 4;
+    label.paddingTop = label.paddingBottom = label.paddingLeft = label.paddingRight = 6;
+    label.resize(LABEL_WIDTH, 1);
+    label.counterAxisSizingMode = "FIXED";
+    transitionDetails(label, t, t.trigger, variables);
+    return label;
+  }
+  function renderState(state, inPlace, variables) {
+    const f = vFrame(`state:${state.id}`, 6);
+    f.fills = fill("#FFFFFF");
+    f.strokes = fill(STATE_STROKE);
+    f.strokeWeight = state.terminal ? TERMINAL_STROKE : 1.5;
+    f.strokeAlign = "INSIDE";
+    f.cornerRadius = STATE_CORNER;
+    f.paddingTop = f.paddingBottom = f.paddingLeft = f.paddingRight = STATE_PADDING;
+    f.resize(STATE_WIDTH, 1);
+    f.counterAxisSizingMode = "FIXED";
+    const textWidth = STATE_WIDTH - STATE_PADDING * 2;
+    const title = txt(state.terminal ? `${state.label} (terminal)` : state.label, 14, "Semi Bold", "#1A1A1A", textWidth);
+    title.name = "title";
+    f.appendChild(title);
+    title.layoutSizingHorizontal = "FILL";
+    if (state.slaClock) {
+      const colors = SLA_COLORS[state.slaClock];
+      chipRow(f, "sla", [chip(`SLA clock ${state.slaClock}`, fill(colors.bg), fill(colors.fg))]);
+    }
+    if (state.description) {
+      const description = txt(state.description, 11, "Regular", "#555555", textWidth);
+      description.name = "description";
+      f.appendChild(description);
+      description.layoutSizingHorizontal = "FILL";
+    }
+    for (const t of inPlace) {
+      const row = vFrame(`in-place:${t.trigger}`, 4);
+      row.fills = fill("#F5F5F5");
+      row.cornerRadius = 4;
+      row.paddingTop = row.paddingBottom = row.paddingLeft = row.paddingRight = 6;
+      transitionDetails(row, t, `${t.trigger} (stays in state)`, variables);
+      f.appendChild(row);
+      row.layoutSizingHorizontal = "FILL";
+    }
+    return f;
+  }
+  function renderStateMachine(diagram) {
+    return __async(this, null, function* () {
+      yield figma.loadFontAsync({ family: "Inter", style: "Regular" });
+      yield figma.loadFontAsync({ family: "Inter", style: "Semi Bold" });
+      const variables = yield loadPaletteVariables();
+      const container = freeFrame(diagram.name);
+      container.fills = fill("#FFFFFF");
+      figma.currentPage.appendChild(container);
+      const title = txt(diagram.name, 16, "Semi Bold", "#1A1A1A");
+      container.appendChild(title);
+      title.x = DIAGRAM_MARGIN;
+      title.y = DIAGRAM_MARGIN;
+      const states = /* @__PURE__ */ new Map();
+      for (const state of diagram.states) {
+        const inPlace = diagram.transitions.filter((t) => t.from === state.id && t.to === void 0);
+        states.set(state.id, renderState(state, inPlace, variables));
+      }
+      const labels = /* @__PURE__ */ new Map();
+      for (const t of diagram.transitions) {
+        if (t.to !== void 0) labels.set(t, renderTransitionLabel(t, variables));
+      }
+      const scene = layoutStateMachine(diagram, {
+        x: DIAGRAM_MARGIN,
+        y: title.y + title.height + 32,
+        measureState: (state) => states.get(state.id).height,
+        measureLabel: (t) => labels.get(t)
+      });
+      for (const route of scene.transitions) {
+        const arrow = yield drawArrow(container, route.points, TRANSITION_STYLE);
+        arrow.name = `${route.transition.from} \u2192 ${route.transition.to}`;
+      }
+      if (scene.start.length > 0) {
+        const [from] = scene.start;
+        const dot = figma.createEllipse();
+        dot.name = "initial";
+        dot.resize(12, 12);
+        dot.fills = fill(STATE_STROKE);
+        container.appendChild(dot);
+        dot.x = from.x - 6;
+        dot.y = from.y - 6;
+        const arrow = yield drawArrow(container, scene.start, TRANSITION_STYLE);
+        arrow.name = `initial \u2192 ${diagram.initialState}`;
+      }
+      for (const placed of scene.states) {
+        const node = states.get(placed.id);
+        container.appendChild(node);
+        node.x = placed.x;
+        node.y = placed.y;
+      }
+      for (const route of scene.transitions) {
+        const label = labels.get(route.transition);
+        container.appendChild(label);
+        label.x = route.label.x - label.width / 2;
+        label.y = route.label.y - label.height / 2;
+      }
+      const routed = new Set(scene.transitions.map((r) => r.transition));
+      labels.forEach((node, t) => {
+        if (!routed.has(t)) node.remove();
+      });
+      container.resize(scene.width + DIAGRAM_MARGIN, scene.height + DIAGRAM_MARGIN);
+      figma.viewport.scrollAndZoomIntoView([container]);
+      figma.notify(`Generated: ${diagram.name}`);
     });
   }
 
-  // service-blueprints/src/figma-plugin/src/_current.json
-  var current_default = {
-    id: "intake-blueprint",
-    name: "Intake Service Blueprint",
-    lanes: [
-      {
-        id: "applicant",
-        label: "Applicant"
-      },
-      {
-        id: "caseworker",
-        label: "Caseworker"
-      },
-      {
-        id: "system",
-        label: "System"
-      },
-      {
-        id: "regulations",
-        label: "Regulations"
-      },
-      {
-        id: "data",
-        label: "Events"
-      }
-    ],
-    phases: [
-      {
-        id: "application-intake",
-        label: "Application intake",
-        subPhases: [
-          {
-            id: "submitted",
-            label: "Submission"
-          }
-        ]
-      },
-      {
-        id: "application-review",
-        label: "Application review",
-        subPhases: [
-          {
-            id: "automated-screening",
-            label: "Automated screening"
-          },
-          {
-            id: "under-review",
-            label: "Task assignment"
-          },
-          {
-            id: "active-review",
-            label: "Verification review"
-          },
-          {
-            id: "interview",
-            label: "Program verification"
-          },
-          {
-            id: "escalation",
-            label: "Escalation"
-          }
-        ]
-      },
-      {
-        id: "eligibility-determination",
-        label: "Eligibility determination",
-        subPhases: [
-          {
-            id: "submit-for-determination",
-            label: "Submit for determination"
-          },
-          {
-            id: "benefits-calculation",
-            label: "Determination"
-          },
-          {
-            id: "decision",
-            label: "Closeout"
-          }
-        ]
-      }
-    ],
-    cells: [
-      {
-        laneId: "system",
-        subPhaseId: "submitted",
-        cards: [
-          {
-            type: "system",
-            domain: "intake",
-            text: "Documents linked to verification items"
-          }
-        ]
-      },
-      {
-        laneId: "data",
-        subPhaseId: "automated-screening",
-        cards: [
-          {
-            type: "domain-event",
-            text: "application.submitted",
-            domain: "intake"
-          },
-          {
-            type: "domain-event",
-            text: "eligibility.application.expedited",
-            domain: "eligibility"
-          },
-          {
-            type: "domain-event",
-            text: "call.completed",
-            domain: "data_exchange",
-            subtext: "One per call; results arrive asynchronously"
-          },
-          {
-            type: "domain-event",
-            text: "eligibility.application.decision_completed",
-            domain: "eligibility",
-            subtext: "One per auto-resolved Medicaid Decision; Decision.submissionChecks records the electronic check results"
-          },
-          {
-            type: "domain-event",
-            text: "person.match_resolved",
-            domain: "client_management"
-          }
-        ]
-      },
-      {
-        laneId: "system",
-        subPhaseId: "automated-screening",
-        cards: [
-          {
-            type: "system",
-            domain: "workflow",
-            text: "Task created in intake queue; SLA and queue routing assigned",
-            subtext: "In response to event application.submitted"
-          },
-          {
-            type: "system",
-            domain: "eligibility",
-            text: "Expedited screening initiated",
-            subtext: "Also initiates Medicaid RTE if applicable"
-          },
-          {
-            type: "system",
-            domain: "intake",
-            text: "Set isExpedited = true on application",
-            subtext: "In response to event eligibility.application.expedited"
-          },
-          {
-            type: "system",
-            domain: "workflow",
-            text: "Assign expedited SLA track",
-            subtext: "In response to event eligibility.application.expedited"
-          },
-          {
-            type: "system",
-            domain: "eligibility",
-            text: "Electronic checks evaluated per Medicaid applicant",
-            subtext: "In response to event call.completed"
-          },
-          {
-            type: "system",
-            domain: "client_management",
-            text: "Person matching initiated",
-            subtext: "In response to event application.submitted"
-          },
-          {
-            type: "note",
-            domain: "intake",
-            text: "\u26A0 Auto-confirm exact matches; queue fuzzy matches for caseworker review",
-            subtext: "Person match auto-confirmation behavior not yet designed in intake"
-          }
-        ]
-      },
-      {
-        laneId: "caseworker",
-        subPhaseId: "under-review",
-        cards: [
-          {
-            type: "person-action",
-            actor: "caseworker",
-            text: "Claims task from queue",
-            subtext: "Caseworker selects from prioritized intake queue"
-          },
-          {
-            type: "person-action",
-            actor: "caseworker",
-            text: "Schedules interview",
-            subtext: "Launched from within intake \u2014 ensures appointment links to application"
-          }
-        ]
-      },
-      {
-        laneId: "system",
-        subPhaseId: "under-review",
-        cards: [
-          {
-            type: "system",
-            domain: "intake",
-            text: "Application status \u2192 under_review"
-          },
-          {
-            type: "system",
-            domain: "intake",
-            text: "Interview record created and linked to application"
-          }
-        ]
-      },
-      {
-        laneId: "caseworker",
-        subPhaseId: "active-review",
-        cards: [
-          {
-            type: "person-action",
-            actor: "caseworker",
-            text: "Reviews verification results; resolves satisfied items; flags unresolved"
-          },
-          {
-            type: "person-action",
-            actor: "caseworker",
-            text: "Uploads supporting document; attaches to verification item"
-          },
-          {
-            type: "person-action",
-            actor: "caseworker",
-            text: "Reviews failure; determines if retriable",
-            subtext: "Failure reason visible on Verification; retriable vs non-retriable per Decision 10 (data exchange)"
-          },
-          {
-            type: "person-action",
-            actor: "caseworker",
-            text: "Initiates retry"
-          }
-        ]
-      },
-      {
-        laneId: "system",
-        subPhaseId: "active-review",
-        cards: [
-          {
-            type: "system",
-            domain: "intake",
-            text: "Verification item status updated"
-          },
-          {
-            type: "note",
-            domain: "communications",
-            text: "\u26A0 Document request notice sent to applicant",
-            subtext: "Notice template catalog not yet designed"
-          },
-          {
-            type: "system",
-            domain: "intake",
-            text: "Document linked to verification item as evidence"
-          },
-          {
-            type: "system",
-            domain: "intake",
-            text: "Verification updated with new result",
-            subtext: "In response to event call.completed"
-          },
-          {
-            type: "system",
-            domain: "intake",
-            text: "Verification marked cannot_verify; caseworker decides next step",
-            subtext: "In response to event call.completed"
-          }
-        ]
-      },
-      {
-        laneId: "data",
-        subPhaseId: "active-review",
-        cards: [
-          {
-            type: "domain-event",
-            text: "call.completed",
-            domain: "data_exchange"
+  // src/export.ts
+  var OP_ORDER = { update: 0, move: 1, remove: 2, add: 3 };
+  function fieldsOf(card) {
+    return __spreadValues(__spreadProps(__spreadValues({
+      type: card.type
+    }, card.actor ? { actor: card.actor } : {}), {
+      text: card.text
+    }), card.subtext ? { subtext: card.subtext } : {});
+  }
+  function editsOf(before, after) {
+    var _a2, _b, _c;
+    const set = {};
+    if (after.text !== before.text) set.text = after.text;
+    if (((_a2 = after.subtext) != null ? _a2 : "") !== ((_b = before.subtext) != null ? _b : "")) set.subtext = (_c = after.subtext) != null ? _c : "";
+    return Object.keys(set).length > 0 ? set : void 0;
+  }
+  function sameCell(a, b) {
+    return a.laneId === b.laneId && a.subPhaseId === b.subPhaseId;
+  }
+  function cellAt(grid, card) {
+    const x = card.x + card.width / 2;
+    const lane = grid.lanes.filter((l) => card.y >= l.y && card.y < l.y + l.height)[0];
+    const column = grid.columns.filter((c) => x >= c.x && x < c.x + c.width)[0];
+    return lane && column ? { laneId: lane.id, subPhaseId: column.id } : null;
+  }
+  function findCanvasChanges(snapshot) {
+    const { grid, rendered } = snapshot;
+    const annotations = [];
+    const flowCards = [];
+    const skipped = [];
+    const placed = snapshot.cards.map((card) => ({ card, cell: cellAt(grid, card) }));
+    const columnIds = new Set(grid.columns.map((c) => c.id));
+    const offGrid = (r) => `"${r.card.text}" was generated in sub-phase '${r.subPhaseId}', which isn't in the grid`;
+    const owner = /* @__PURE__ */ new Map();
+    for (const { card, cell } of placed) {
+      const r = card.key !== void 0 ? rendered[card.key] : void 0;
+      if (r && cell && sameCell(cell, r) && !owner.has(card.key)) owner.set(card.key, card);
+    }
+    for (const { card } of placed) {
+      if (card.key !== void 0 && rendered[card.key] && !owner.has(card.key)) owner.set(card.key, card);
+    }
+    for (const { card, cell } of placed) {
+      const r = card.key !== void 0 && owner.get(card.key) === card ? rendered[card.key] : void 0;
+      if (!cell) {
+        skipped.push(`"${card.text}" is outside the grid`);
+        continue;
+      }
+      if (!r) {
+        annotations.push({ op: "add", to: cell, card: fieldsOf(card) });
+        continue;
+      }
+      if (!columnIds.has(r.subPhaseId)) {
+        skipped.push(offGrid(r));
+        continue;
+      }
+      const set = editsOf(r.card, card);
+      const moved = !sameCell(cell, r);
+      const at = { laneId: r.laneId, subPhaseId: r.subPhaseId };
+      if (r.card.origin === "annotation" && r.card.annotationIndex !== void 0) {
+        const ref = { at, index: r.card.annotationIndex, text: r.card.text };
+        if (set) annotations.push(__spreadProps(__spreadValues({ op: "update" }, ref), { set }));
+        if (moved) annotations.push(__spreadProps(__spreadValues({ op: "move" }, ref), { to: cell }));
+      } else if (set || moved) {
+        flowCards.push(__spreadValues(__spreadValues({ at, card: fieldsOf(r.card) }, set ? { set } : {}), moved ? { to: cell } : {}));
+      }
+    }
+    for (const key of Object.keys(rendered)) {
+      if (owner.has(key)) continue;
+      const r = rendered[key];
+      if (!columnIds.has(r.subPhaseId)) {
+        skipped.push(offGrid(r));
+        continue;
+      }
+      const at = { laneId: r.laneId, subPhaseId: r.subPhaseId };
+      if (r.card.origin === "annotation" && r.card.annotationIndex !== void 0) {
+        annotations.push({ op: "remove", at, index: r.card.annotationIndex, text: r.card.text });
+      } else {
+        flowCards.push({ at, card: fieldsOf(r.card), removed: true });
+      }
+    }
+    annotations.sort((a, b) => OP_ORDER[a.op] - OP_ORDER[b.op]);
+    return { blueprintId: snapshot.blueprintId, name: snapshot.name, annotations, flowCards, skipped };
+  }
+  function pointerSegment(segment) {
+    return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+  }
+  function toJsonPatch(snapshot, changes) {
+    const columns = new Map(snapshot.grid.columns.map((c) => [c.id, c]));
+    const cardsPath = (subPhaseId) => {
+      const c = columns.get(subPhaseId);
+      return c ? `/phases/${c.phaseIndex}/subPhases/${c.subPhaseIndex}/cards` : null;
+    };
+    const listPath = (loc) => {
+      const parent = cardsPath(loc.subPhaseId);
+      return parent === null ? null : `${parent}/${pointerSegment(loc.laneId)}`;
+    };
+    const lists = /* @__PURE__ */ new Set();
+    const maps = /* @__PURE__ */ new Set();
+    for (const key of Object.keys(snapshot.rendered)) {
+      const r = snapshot.rendered[key];
+      const path = listPath(r);
+      if (r.card.origin !== "annotation" || path === null) continue;
+      lists.add(path);
+      maps.add(cardsPath(r.subPhaseId));
+    }
+    const ops = [];
+    const ensureList = (loc) => {
+      const path = listPath(loc);
+      if (path === null || lists.has(path)) return path;
+      const parent = cardsPath(loc.subPhaseId);
+      if (!maps.has(parent)) {
+        ops.push({ op: "add", path: parent, value: {} });
+        maps.add(parent);
+      }
+      ops.push({ op: "add", path, value: [] });
+      lists.add(path);
+      return path;
+    };
+    for (const change of changes.annotations) {
+      if (change.op !== "update") continue;
+      const list = listPath(change.at);
+      if (list === null) continue;
+      const cardPath = `${list}/${change.index}`;
+      for (const field of Object.keys(change.set)) {
+        const value = change.set[field];
+        ops.push(value === "" ? { op: "remove", path: `${cardPath}/${field}` } : { op: "add", path: `${cardPath}/${field}`, value });
+      }
+    }
+    const outgoing = changes.annotations.filter((c) => c.op === "move" || c.op === "remove").sort((a, b) => b.index - a.index);
+    for (const change of outgoing) {
+      const list = listPath(change.at);
+      if (list === null) continue;
+      const path = `${list}/${change.index}`;
+      if (change.op === "remove") {
+        ops.push({ op: "remove", path });
+      } else {
+        const to = ensureList(change.to);
+        if (to !== null) ops.push({ op: "move", from: path, path: `${to}/-` });
+      }
+    }
+    for (const change of changes.annotations) {
+      if (change.op !== "add") continue;
+      const to = ensureList(change.to);
+      if (to !== null) ops.push({ op: "add", path: `${to}/-`, value: change.card });
+    }
+    return ops;
+  }
+  function yamlScalar(value) {
+    if (typeof value !== "string") return String(value);
+    const plain = /^[A-Za-z][\w-]*$/.test(value) && !/^(true|false|yes|no|on|off|null)$/i.test(value);
+    return plain ? value : JSON.stringify(value);
+  }
+  function isScalar(value) {
+    return typeof value !== "object" || value === null;
+  }
+  function yamlLines(value) {
+    const lines = [];
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        const [first, ...rest] = isScalar(item) ? [yamlScalar(item)] : yamlLines(item);
+        lines.push(`- ${first}`, ...rest.map((l) => `  ${l}`));
+      }
+      return lines;
+    }
+    const obj = value;
+    for (const key of Object.keys(obj)) {
+      const v = obj[key];
+      if (v === void 0) continue;
+      if (isScalar(v)) lines.push(`${key}: ${yamlScalar(v)}`);
+      else if (Array.isArray(v) && v.length === 0) lines.push(`${key}: []`);
+      else lines.push(`${key}:`, ...yamlLines(v).map((l) => `  ${l}`));
+    }
+    return lines;
+  }
+  function changesToYaml(changes) {
+    const header = [
+      `# Changes made in Figma to ${changes.name}`,
+      "#",
+      "# annotations: apply to the sub-phase `cards` in the annotations YAML.",
+      "#   `index` counts from 0 in the lane's card list, before any change is applied.",
+      "# flowCards:   cards derived from config.yaml flows \u2014 edit the flow steps there."
+    ];
+    const body = yamlLines(__spreadValues({
+      blueprint: changes.blueprintId,
+      annotations: changes.annotations,
+      flowCards: changes.flowCards
+    }, changes.skipped.length > 0 ? { skipped: changes.skipped } : {}));
+    return [...header, ...body].join("\n") + "\n";
+  }
+
+  // ../lint-blueprint.js
+  var MAX_TEXT_LENGTH = 280;
+  var MAX_SUBTEXT_LENGTH = 400;
+  function excerpt(text) {
+    return text.length > 40 ? `${text.slice(0, 39)}\u2026` : text;
+  }
+  function lintBlueprint(blueprint, options = {}) {
+    var _a2, _b, _c, _d;
+    const errors = [];
+    const warnings = [];
+    const error = (code, path, message) => errors.push({ severity: "error", code, path, message });
+    const warn = (code, path, message) => warnings.push({ severity: "warning", code, path, message });
+    const unique = (what) => {
+      const seen = /* @__PURE__ */ new Set();
+      return (id, path) => {
+        if (seen.has(id)) error("duplicate-id", path, `duplicate ${what} '${id}'`);
+        seen.add(id);
+      };
+    };
+    const laneIds = /* @__PURE__ */ new Set();
+    const checkLane = unique("lane id");
+    ((_a2 = blueprint.lanes) != null ? _a2 : []).forEach((lane, i) => {
+      checkLane(lane.id, `lanes[${i}].id`);
+      laneIds.add(lane.id);
+    });
+    const subPhaseIds = /* @__PURE__ */ new Set();
+    const checkPhase = unique("phase id");
+    const checkSubPhase = unique("sub-phase id");
+    ((_b = blueprint.phases) != null ? _b : []).forEach((phase, i) => {
+      var _a3, _b2;
+      checkPhase(phase.id, `phases[${i}].id`);
+      if (((_a3 = phase.subPhases) != null ? _a3 : []).length === 0) warn("empty-phase", `phases[${i}]`, `phase '${phase.id}' has no sub-phases`);
+      ((_b2 = phase.subPhases) != null ? _b2 : []).forEach((sp, j) => {
+        checkSubPhase(sp.id, `phases[${i}].subPhases[${j}].id`);
+        subPhaseIds.add(sp.id);
+      });
+    });
+    const known = options.cardTypes ? new Set(options.cardTypes) : null;
+    const filled = /* @__PURE__ */ new Set();
+    const checkCell = unique("cell");
+    ((_c = blueprint.cells) != null ? _c : []).forEach((cell, i) => {
+      const path = `cells[${i}]`;
+      const count = `${cell.cards.length} card${cell.cards.length === 1 ? "" : "s"}`;
+      checkCell(`${cell.laneId}/${cell.subPhaseId}`, path);
+      if (!laneIds.has(cell.laneId)) {
+        error("orphaned-cell", `${path}.laneId`, `lane '${cell.laneId}' is not in the blueprint; its ${count} won't be drawn`);
+      } else if (!subPhaseIds.has(cell.subPhaseId)) {
+        error("orphaned-cell", `${path}.subPhaseId`, `sub-phase '${cell.subPhaseId}' is not in the blueprint; its ${count} won't be drawn`);
+      } else if (cell.cards.length > 0) {
+        filled.add(cell.subPhaseId);
+      }
+      const checkCard = unique("card id");
+      cell.cards.forEach((card, j) => {
+        const cardPath = `${path}.cards[${j}]`;
+        if (card.id !== void 0) checkCard(card.id, `${cardPath}.id`);
+        if (card.type === "person-action" && !card.actor) {
+          warn("missing-actor", `${cardPath}.actor`, `person-action card '${excerpt(card.text)}' has no actor`);
+        }
+        if (known && !known.has(card.type)) {
+          warn("unknown-type", `${cardPath}.type`, `card type '${card.type}' is not in card-types.yaml; drawn as a note`);
+        }
+        if (card.text.length > MAX_TEXT_LENGTH) {
+          warn("long-text", `${cardPath}.text`, `${card.text.length} characters; keep card text under ${MAX_TEXT_LENGTH}`);
+        }
+        if (card.subtext && card.subtext.length > MAX_SUBTEXT_LENGTH) {
+          warn("long-text", `${cardPath}.subtext`, `${card.subtext.length} characters; keep subtext under ${MAX_SUBTEXT_LENGTH}`);
+        }
+      });
+    });
+    ((_d = blueprint.phases) != null ? _d : []).forEach((phase, i) => {
+      var _a3;
+      ((_a3 = phase.subPhases) != null ? _a3 : []).forEach((sp, j) => {
+        if (!filled.has(sp.id)) warn("empty-phase", `phases[${i}].subPhases[${j}]`, `sub-phase '${sp.id}' has no cards`);
+      });
+    });
+    return [...errors, ...warnings];
+  }
+  function formatProblem(problem) {
+    return `${problem.severity === "error" ? "Error" : "Warning"}: ${problem.path}: ${problem.message}`;
+  }
+
+  // src/validate.ts
+  var CARD_TYPES = {
+    "staff-action": true,
+    "system": true,
+    "policy": true,
+    "pain-point": true,
+    "opportunity": true,
+    "domain-event": true,
+    "data-entity": true,
+    "note": true,
+    "person-action": true,
+    "communications": true,
+    "metrics": true,
+    "question": true,
+    "touchpoint": true
+  };
+  var ACTOR_TYPES = {
+    applicant: true,
+    caseworker: true,
+    supervisor: true,
+    system: true
+  };
+  var LINK_KINDS2 = {
+    emits: true,
+    triggers: true
+  };
+  var CARD_STATUSES = {
+    current: true,
+    future: true
+  };
+  var SOURCE_KINDS = {
+    "flow-step": true,
+    policy: true
+  };
+  var DURATION_UNITS = {
+    minutes: true,
+    hours: true,
+    days: true
+  };
+  var MAX_ERRORS = 20;
+  function isObject(value) {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+  function validateBlueprint(value) {
+    const errors = [];
+    const report = (path, message) => {
+      if (errors.length < MAX_ERRORS) errors.push(`${path}: ${message}`);
+    };
+    const join = (path, field) => path ? `${path}.${field}` : field;
+    const requireString = (obj, field, path) => {
+      if (typeof obj[field] !== "string" || obj[field] === "") report(join(path, field), "expected a non-empty string");
+    };
+    const requireArray = (obj, field, path) => {
+      const list = obj[field];
+      if (Array.isArray(list)) return list;
+      report(join(path, field), "expected an array");
+      return [];
+    };
+    const eachObject = (list, path, check) => {
+      list.forEach((item, i) => {
+        if (isObject(item)) check(item, `${path}[${i}]`);
+        else report(`${path}[${i}]`, "expected an object");
+      });
+    };
+    if (!isObject(value)) return ["expected a Blueprint object"];
+    requireString(value, "id", "");
+    requireString(value, "name", "");
+    eachObject(requireArray(value, "lanes", ""), "lanes", (lane, path) => {
+      requireString(lane, "id", path);
+      requireString(lane, "label", path);
+    });
+    eachObject(requireArray(value, "phases", ""), "phases", (phase, path) => {
+      requireString(phase, "id", path);
+      requireString(phase, "label", path);
+      eachObject(requireArray(phase, "subPhases", path), `${path}.subPhases`, (sp, spPath) => {
+        requireString(sp, "id", spPath);
+        requireString(sp, "label", spPath);
+        if (sp.metrics !== void 0) {
+          if (!isObject(sp.metrics)) report(`${spPath}.metrics`, "expected an object");
+          else {
+            for (const field of ["sla", "median", "volume"]) {
+              if (sp.metrics[field] !== void 0) requireString(sp.metrics, field, `${spPath}.metrics`);
+            }
           }
-        ]
-      },
-      {
-        laneId: "system",
-        subPhaseId: "interview",
-        cards: [
-          {
-            type: "system",
-            domain: "intake",
-            text: "Caseworker attests interview complete (PATCH Interview.completedAt)"
+        }
+      });
+    });
+    eachObject(requireArray(value, "cells", ""), "cells", (cell, path) => {
+      requireString(cell, "laneId", path);
+      requireString(cell, "subPhaseId", path);
+      eachObject(requireArray(cell, "cards", path), `${path}.cards`, (card, cardPath) => {
+        if (typeof card.type !== "string" || !CARD_TYPES.hasOwnProperty(card.type)) {
+          report(`${cardPath}.type`, `unknown card type '${String(card.type)}'`);
+        }
+        if (typeof card.text !== "string") report(`${cardPath}.text`, "expected a string");
+        if (card.subtext !== void 0 && typeof card.subtext !== "string") report(`${cardPath}.subtext`, "expected a string");
+        if (card.id !== void 0 && typeof card.id !== "string") report(`${cardPath}.id`, "expected a string");
+        if (card.actor !== void 0 && (typeof card.actor !== "string" || !ACTOR_TYPES.hasOwnProperty(card.actor))) {
+          report(`${cardPath}.actor`, `unknown actor '${String(card.actor)}'`);
+        }
+        if (card.origin !== void 0 && card.origin !== "flow" && card.origin !== "annotation") {
+          report(`${cardPath}.origin`, `unknown origin '${String(card.origin)}'`);
+        }
+        if (card.annotationIndex !== void 0 && !(typeof card.annotationIndex === "number" && card.annotationIndex >= 0 && card.annotationIndex % 1 === 0)) {
+          report(`${cardPath}.annotationIndex`, "expected a non-negative integer");
+        }
+        if (card.domain !== void 0 && typeof card.domain !== "string") report(`${cardPath}.domain`, "expected a string");
+        if (card.citationUrl !== void 0 && typeof card.citationUrl !== "string") report(`${cardPath}.citationUrl`, "expected a string");
+        if (card.status !== void 0 && (typeof card.status !== "string" || !CARD_STATUSES.hasOwnProperty(card.status))) {
+          report(`${cardPath}.status`, `unknown status '${String(card.status)}'`);
+        }
+        if (card.source !== void 0) {
+          const source = card.source;
+          if (!isObject(source)) {
+            report(`${cardPath}.source`, "expected an object");
+          } else {
+            if (typeof source.kind !== "string" || !SOURCE_KINDS.hasOwnProperty(source.kind)) {
+              report(`${cardPath}.source.kind`, `unknown source kind '${String(source.kind)}'`);
+            }
+            requireString(source, "flow", `${cardPath}.source`);
           }
-        ]
-      },
-      {
-        laneId: "caseworker",
-        subPhaseId: "escalation",
-        cards: [
-          {
-            type: "person-action",
-            actor: "caseworker",
-            text: "Escalates case"
-          },
-          {
-            type: "person-action",
-            actor: "supervisor",
-            text: "Claims escalated task"
-          },
-          {
-            type: "person-action",
-            actor: "supervisor",
-            text: "Reviews escalation; provides guidance or takes over resolution"
+        }
+      });
+    });
+    if (value.links !== void 0) {
+      eachObject(requireArray(value, "links", ""), "links", (link, path) => {
+        requireString(link, "from", path);
+        requireString(link, "to", path);
+        if (typeof link.kind !== "string" || !LINK_KINDS2.hasOwnProperty(link.kind)) {
+          report(`${path}.kind`, `unknown link kind '${String(link.kind)}'`);
+        }
+      });
+    }
+    return errors;
+  }
+  function validateMetrics(value) {
+    const errors = [];
+    const report = (path, message) => {
+      if (errors.length < MAX_ERRORS) errors.push(`${path}: ${message}`);
+    };
+    const optionalNumber = (obj, field, path) => {
+      if (obj[field] !== void 0 && typeof obj[field] !== "number") report(`${path}.${field}`, "expected a number");
+    };
+    if (!isObject(value)) return ["expected a metrics object or a GET /metrics response"];
+    if (Array.isArray(value.items)) {
+      value.items.forEach((item, i) => {
+        const path = `items[${i}]`;
+        if (!isObject(item)) {
+          report(path, "expected an object");
+          return;
+        }
+        if (typeof item.id !== "string") report(`${path}.id`, "expected a string");
+        if (item.value !== null && typeof item.value !== "number") report(`${path}.value`, "expected a number or null");
+        if (item.breakdown !== null) {
+          const breakdown = item.breakdown;
+          if (!isObject(breakdown) || Object.keys(breakdown).some((k) => breakdown[k] !== null && typeof breakdown[k] !== "number")) {
+            report(`${path}.breakdown`, "expected null or an object of numbers");
           }
-        ]
-      },
-      {
-        laneId: "system",
-        subPhaseId: "escalation",
-        cards: [
-          {
-            type: "system",
-            domain: "intake",
-            text: "Application status \u2192 under supervisor review"
+        }
+        if (!Array.isArray(item.targets)) {
+          report(`${path}.targets`, "expected an array");
+          return;
+        }
+        item.targets.forEach((t, j) => {
+          const targetPath = `${path}.targets[${j}]`;
+          if (!isObject(t)) {
+            report(targetPath, "expected an object");
+            return;
           }
-        ]
-      },
-      {
-        laneId: "regulations",
-        subPhaseId: "decision",
-        cards: [
-          {
-            type: "policy",
-            text: "Notice of Action required",
-            subtext: "Adverse action notice required for denials and closures"
+          if (typeof t.stat !== "string") report(`${targetPath}.stat`, "expected a string");
+          optionalNumber(t, "amount", targetPath);
+          for (const field of ["operator", "unit", "direction"]) {
+            if (t[field] !== void 0 && typeof t[field] !== "string") report(`${targetPath}.${field}`, "expected a string");
           }
-        ]
+        });
+      });
+      return errors;
+    }
+    if (!isObject(value.subPhases)) return ["subPhases: expected an object keyed by sub-phase id"];
+    if (value.computedAt !== void 0 && typeof value.computedAt !== "string") report("computedAt", "expected a string");
+    for (const id of Object.keys(value.subPhases)) {
+      const m = value.subPhases[id];
+      const path = `subPhases.${id}`;
+      if (!isObject(m)) {
+        report(path, "expected an object");
+        continue;
       }
-    ]
-  };
+      optionalNumber(m, "medianSeconds", path);
+      optionalNumber(m, "volume", path);
+      optionalNumber(m, "warningThresholdPercent", path);
+      if (m.slaTarget !== void 0) {
+        const t = m.slaTarget;
+        if (!isObject(t) || typeof t.amount !== "number" || typeof t.unit !== "string" || !DURATION_UNITS.hasOwnProperty(t.unit)) {
+          report(`${path}.slaTarget`, "expected { amount, unit } with unit minutes, hours or days");
+        }
+      }
+    }
+    return errors;
+  }
 
-  // service-blueprints/src/figma-plugin/src/_current_cards.json
-  var current_cards_default = { domain: "intake", name: "Intake", phases: [{ id: "flow-0", label: "Application Submission", subPhases: [{ id: "frag-0-0", label: "Application Submission", cards: [{ type: "policy", text: "7 CFR \xA7 273.2(g)", subtext: "Agency must accept any application on the date of first contact, even if incomplete. The date received is the application filing date and starts the processing clock.", citation: "7 CFR \xA7 273.2(g)" }, { type: "policy", text: "7 CFR \xA7 273.2(c)(1)", subtext: "Agency must date-stamp or otherwise record the date of receipt on every application. The date stamp establishes the filing date used for timeliness determinations.", citation: "7 CFR \xA7 273.2(c)(1)" }, { type: "policy", text: "7 CFR \xA7 273.2(i)(1)", subtext: "Agency must act on an application and provide benefits or send a notice of denial within 30 days of the date of application.", citation: "7 CFR \xA7 273.2(i)(1)" }, { type: "policy", text: "7 CFR \xA7 273.2(i)(3)(i)", subtext: "Benefits must be issued within 7 days for households with gross monthly income below $150 and liquid resources at or below $100, or households whose combined monthly gross income and liquid resources are less than the monthly rent or mortgage and utilities.", citation: "7 CFR \xA7 273.2(i)(3)(i)" }, { type: "policy", text: "42 CFR \xA7 435.912", subtext: "States must make eligibility determinations within 45 days of application for most applicants and within 90 days for applicants who require a disability determination.", citation: "42 CFR \xA7 435.912" }, { type: "policy", text: "7 CFR \xA7 273.2(a)", subtext: "Any household may apply for SNAP benefits regardless of current participation in other programs. Agencies may not screen out applicants before accepting an application.", citation: "7 CFR \xA7 273.2(a)" }, { type: "policy", text: "7 CFR \xA7 273.1", subtext: "All household members must be listed on the application regardless of whether they are individually applying for SNAP. Members who are ineligible \u2014 such as non-citizens who do not qualify \u2014 must still be listed because their income and resources are counted when calculating the benefit amount for the rest of the household.", citation: "7 CFR \xA7 273.1" }, { type: "policy", text: "7 CFR \xA7 273.2(f)", subtext: "Before certifying a household, the agency must verify income, identity, and residency. Verification may occur via electronic check, document review, or interview. States may not require verification of items beyond those listed in this section.", citation: "7 CFR \xA7 273.2(f)" }, { type: "policy", text: "42 CFR \xA7 435.940", subtext: "When verification is required, electronic data sources must be checked before requesting paper documentation from applicants. Applies to citizenship, immigration status, and income verification. Paper documents may only be requested when an electronic check returns inconclusive.", citation: "42 CFR \xA7 435.940" }, { type: "policy", text: "42 U.S.C. \xA7 1320b-7", subtext: "Agencies must use SSA data matches to verify identity and citizenship status for SNAP applicants. FDSH SSA is the electronic source for this check.", citation: "42 U.S.C. \xA7 1320b-7" }, { type: "policy", text: "7 CFR \xA7 272.8", subtext: "Income must be verified through available electronic data sources (SSA IEVS, IRS IEVS, SWICA, UIB) before relying on applicant statements. Electronic verification reduces documentation burden on applicants.", citation: "7 CFR \xA7 272.8" }, { type: "policy", text: "42 CFR \xA7 435.956(b)", subtext: "States must use electronic data sources to verify citizenship before requesting paper documentation. FDSH SSA citizenship check satisfies this requirement.", citation: "42 CFR \xA7 435.956(b)" }, { type: "policy", text: "42 CFR \xA7 435.956(c)", subtext: "States must use electronic data sources to verify immigration status before requesting paper documentation. FDSH VLP satisfies this requirement.", citation: "42 CFR \xA7 435.956(c)" }, { type: "policy", text: "42 CFR \xA7 435.948", subtext: "States must use data from other agencies and programs to verify eligibility information electronically before requesting documentation from applicants.", citation: "42 CFR \xA7 435.948" }] }, { id: "frag-0-1", label: "if Medicaid applied", cards: [{ type: "policy", text: "Check for existing Medicare or Medicaid enrollment before starting verification \u2014 active coverage may allow auto-approval", subtext: "Two federal data hub checks must be performed before requesting documents from the applicant: one for existing Medicare enrollment and one for existing Medicaid or other health coverage. If active coverage is found, the application may be auto-approved without further verification. Otherwise, standard electronic verification continues.", citation: "42 CFR \xA7 435.916" }] }] }, { id: "flow-1", label: "Caseworker Review", subPhases: [{ id: "frag-1-0", label: "Caseworker Review", cards: [{ type: "policy", text: "7 CFR \xA7 273.2(e)", subtext: "SNAP applicants must complete an in-person or telephone interview before certification. The interview must be conducted by a qualified eligibility worker.", citation: "7 CFR \xA7 273.2(e)" }] }] }, { id: "flow-2", label: "Eligibility Determination", subPhases: [{ id: "frag-2-0", label: "Path B: caseworker reviews complete determination picture", cards: [{ type: "policy", text: "7 CFR \xA7 273.15", subtext: "Applicants have the right to a fair hearing if the agency delays or denies benefits. Supervisor review is a prerequisite for escalated cases prior to formal hearing proceedings.", citation: "7 CFR \xA7 273.15" }, { type: "policy", text: "7 CFR \xA7 273.2(h)", subtext: "Written notice of eligibility or denial must be sent to each applicant household within the 30-day processing deadline (7 days for expedited). Notice must include the eligibility decision, benefit amount if approved, or denial reason if denied.", citation: "7 CFR \xA7 273.2(h)" }, { type: "policy", text: "42 CFR \xA7 435.917", subtext: "Written notice of eligibility, denial, or termination must be sent within the 45-day processing deadline (90 days if a disability determination is required). Notice must state the decision, the reason, and the applicant's right to appeal.", citation: "42 CFR \xA7 435.917" }, { type: "policy", text: "7 CFR \xA7 273.15(a)", subtext: "Every household has the right to a fair hearing to contest any agency action affecting their benefits, including delays, denials, reductions, and terminations.", citation: "7 CFR \xA7 273.15(a)" }, { type: "policy", text: "42 CFR \xA7 431.17(b)(1)", subtext: "Each eligibility determination must be documented with the date of the decision, the regulatory basis for the decision, and all information and documents used to support it. Applies to approvals, denials, and terminations.", citation: "42 CFR \xA7 431.17(b)(1)" }] }] }] };
+  // src/_manifest.json
+  var manifest_default = { blueprints: [{ key: "intake", label: "Intake Service Blueprint", domain: "intake", data: { id: "intake-blueprint", name: "Intake Service Blueprint", lanes: [{ id: "applicant", label: "Applicant" }, { id: "caseworker", label: "Caseworker" }, { id: "system", label: "System" }, { id: "regulations", label: "Regulations" }, { id: "data", label: "Events" }], phases: [{ id: "application-intake", label: "Application intake", subPhases: [{ id: "submitted", label: "Submission" }] }, { id: "application-review", label: "Application review", subPhases: [{ id: "automated-screening", label: "Automated screening" }, { id: "under-review", label: "Task assignment", metrics: { median: "task_time_to_claim", volume: "tasks_in_queue" } }, { id: "active-review", label: "Verification review" }, { id: "interview", label: "Program verification" }, { id: "escalation", label: "Escalation" }] }, { id: "eligibility-determination", label: "Eligibility determination", subPhases: [{ id: "submit-for-determination", label: "Submit for determination" }, { id: "benefits-calculation", label: "Determination" }, { id: "decision", label: "Closeout" }] }], cells: [{ laneId: "regulations", subPhaseId: "submitted", cards: [{ id: "policy:application_submission:snap-application-acceptance", origin: "flow", type: "policy", text: "Agency must accept any application on the date of first contact, even if incomplete. The date received is the application filing date and starts the processing clock.", subtext: "7 CFR \xA7 273.2(g)", source: { kind: "policy", flow: "application_submission", policy: "snap-application-acceptance", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { id: "policy:application_submission:snap-application-date-stamp", origin: "flow", type: "policy", text: "Agency must date-stamp or otherwise record the date of receipt on every application. The date stamp establishes the filing date used for timeliness determinations.", subtext: "7 CFR \xA7 273.2(c)(1)", source: { kind: "policy", flow: "application_submission", policy: "snap-application-date-stamp", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { id: "policy:application_submission:snap-processing-clock", origin: "flow", type: "policy", text: "Agency must act on an application and provide benefits or send a notice of denial within 30 days of the date of application.", subtext: "7 CFR \xA7 273.2(i)(1)", source: { kind: "policy", flow: "application_submission", policy: "snap-processing-clock", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { id: "policy:application_submission:snap-expedited-processing", origin: "flow", type: "policy", text: "Benefits must be issued within 7 days for households with gross monthly income below $150 and liquid resources at or below $100, or households whose combined monthly gross income and liquid resources are less than the monthly rent or mortgage and utilities.", subtext: "7 CFR \xA7 273.2(i)(3)(i)", source: { kind: "policy", flow: "application_submission", policy: "snap-expedited-processing", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { id: "policy:application_submission:medicaid-processing-clock", origin: "flow", type: "policy", text: "States must make eligibility determinations within 45 days of application for most applicants and within 90 days for applicants who require a disability determination.", subtext: "42 CFR \xA7 435.912", source: { kind: "policy", flow: "application_submission", policy: "medicaid-processing-clock", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.912" }, { id: "policy:application_submission:snap-right-to-apply", origin: "flow", type: "policy", text: "Any household may apply for SNAP benefits regardless of current participation in other programs. Agencies may not screen out applicants before accepting an application.", subtext: "7 CFR \xA7 273.2(a)", source: { kind: "policy", flow: "application_submission", policy: "snap-right-to-apply", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { id: "policy:application_submission:snap-household-composition", origin: "flow", type: "policy", text: "All household members must be listed on the application regardless of whether they are individually applying for SNAP. Members who are ineligible \u2014 such as non-citizens who do not qualify \u2014 must still be listed because their income and resources are counted when calculating the benefit amount for the rest of the household.", subtext: "7 CFR \xA7 273.1", source: { kind: "policy", flow: "application_submission", policy: "snap-household-composition", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.1" }, { id: "policy:application_submission:snap-verification-requirements", origin: "flow", type: "policy", text: "Before certifying a household, the agency must verify income, identity, and residency. Verification may occur via electronic check, document review, or interview. States may not require verification of items beyond those listed in this section.", subtext: "7 CFR \xA7 273.2(f)", source: { kind: "policy", flow: "application_submission", policy: "snap-verification-requirements", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { id: "policy:application_submission:medicaid-electronic-verification-first", origin: "flow", type: "policy", text: "When verification is required, electronic data sources must be checked before requesting paper documentation from applicants. Applies to citizenship, immigration status, and income verification. Paper documents may only be requested when an electronic check returns inconclusive.", subtext: "42 CFR \xA7 435.940", source: { kind: "policy", flow: "application_submission", policy: "medicaid-electronic-verification-first", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.940" }, { id: "policy:application_submission:snap-ssa-identity-check", origin: "flow", type: "policy", text: "Agencies must use SSA data matches to verify identity and citizenship status for SNAP applicants. FDSH SSA is the electronic source for this check.", subtext: "42 U.S.C. \xA7 1320b-7", source: { kind: "policy", flow: "application_submission", policy: "snap-ssa-identity-check", contract: "events/intake.verification.created" }, citationUrl: "https://uscode.house.gov/view.xhtml?req=granuleid:USC-prelim-title42-section1320b-7" }, { id: "policy:application_submission:snap-income-verification", origin: "flow", type: "policy", text: "Income must be verified through available electronic data sources (SSA IEVS, IRS IEVS, SWICA, UIB) before relying on applicant statements. Electronic verification reduces documentation burden on applicants.", subtext: "7 CFR \xA7 272.8", source: { kind: "policy", flow: "application_submission", policy: "snap-income-verification", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-272.8" }, { id: "policy:application_submission:medicaid-citizenship-electronic-check", origin: "flow", type: "policy", text: "States must use electronic data sources to verify citizenship before requesting paper documentation. FDSH SSA citizenship check satisfies this requirement.", subtext: "42 CFR \xA7 435.956(b)", source: { kind: "policy", flow: "application_submission", policy: "medicaid-citizenship-electronic-check", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.956" }, { id: "policy:application_submission:medicaid-immigration-electronic-check", origin: "flow", type: "policy", text: "States must use electronic data sources to verify immigration status before requesting paper documentation. FDSH VLP satisfies this requirement.", subtext: "42 CFR \xA7 435.956(c)", source: { kind: "policy", flow: "application_submission", policy: "medicaid-immigration-electronic-check", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.956" }, { id: "policy:application_submission:medicaid-data-sharing", origin: "flow", type: "policy", text: "States must use data from other agencies and programs to verify eligibility information electronically before requesting documentation from applicants.", subtext: "42 CFR \xA7 435.948", source: { kind: "policy", flow: "application_submission", policy: "medicaid-data-sharing", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.948" }] }, { laneId: "applicant", subPhaseId: "submitted", cards: [{ id: "application_submission:Submits application", origin: "flow", type: "person-action", actor: "applicant", text: "Submits application", source: { kind: "flow-step", flow: "application_submission", step: "Submits application", contract: "operations/application.submit" }, subtext: "Online or in person; caseworker may submit on behalf of applicant" }] }, { laneId: "system", subPhaseId: "submitted", cards: [{ id: "application_submission:Verifications created per program and household member", origin: "flow", type: "system", domain: "intake", text: "Verifications created per program and household member", source: { kind: "flow-step", flow: "application_submission", step: "Verifications created per program and household member", contract: "events/intake.verification.created" }, subtext: "Income, identity, residency for SNAP; citizenship and immigration for Medicaid (per member)" }, { id: "application_submission:Documents linked to verification items", origin: "flow", type: "system", domain: "intake", text: "Documents linked to verification items", source: { kind: "flow-step", flow: "application_submission", step: "Documents linked to verification items" } }] }, { laneId: "data", subPhaseId: "automated-screening", cards: [{ id: "event:application.submitted", origin: "flow", type: "domain-event", text: "application.submitted", source: { kind: "flow-step", flow: "application_submission", step: "application.submitted" }, domain: "intake" }, { id: "event:eligibility.application.expedited", origin: "flow", type: "domain-event", text: "eligibility.application.expedited", source: { kind: "flow-step", flow: "application_submission", step: "eligibility.application.expedited" }, domain: "eligibility" }, { id: "event:call.completed", origin: "flow", type: "domain-event", text: "call.completed", source: { kind: "flow-step", flow: "application_submission", step: "call.completed" }, domain: "data_exchange", subtext: "One per call; results arrive asynchronously" }, { id: "event:eligibility.application.decision_completed", origin: "flow", type: "domain-event", text: "eligibility.application.decision_completed", source: { kind: "flow-step", flow: "application_submission", step: "eligibility.application.decision_completed" }, domain: "eligibility", subtext: "One per auto-resolved Medicaid Decision; Decision.submissionChecks records the electronic check results" }, { id: "event:person.match_resolved", origin: "flow", type: "domain-event", text: "person.match_resolved", source: { kind: "flow-step", flow: "application_submission", step: "person.match_resolved" }, domain: "client_management" }] }, { laneId: "system", subPhaseId: "automated-screening", cards: [{ id: "application_submission:Task created in intake queue; SLA and queue routing assigned", origin: "flow", type: "system", domain: "workflow", text: "Task created in intake queue; SLA and queue routing assigned", source: { kind: "flow-step", flow: "application_submission", step: "Task created in intake queue; SLA and queue routing assigned" }, subtext: "In response to event application.submitted" }, { id: "application_submission:Expedited screening initiated", origin: "flow", type: "system", domain: "eligibility", text: "Expedited screening initiated", source: { kind: "flow-step", flow: "application_submission", step: "Expedited screening initiated" }, subtext: "Also initiates Medicaid RTE if applicable" }, { id: "application_submission:Set isExpedited = true on application", origin: "flow", type: "system", domain: "intake", text: "Set isExpedited = true on application", source: { kind: "flow-step", flow: "application_submission", step: "Set isExpedited = true on application" }, subtext: "In response to event eligibility.application.expedited" }, { id: "application_submission:Assign expedited SLA track", origin: "flow", type: "system", domain: "workflow", text: "Assign expedited SLA track", source: { kind: "flow-step", flow: "application_submission", step: "Assign expedited SLA track" }, subtext: "In response to event eligibility.application.expedited" }, { id: "application_submission:Electronic checks evaluated per Medicaid applicant", origin: "flow", type: "system", domain: "eligibility", text: "Electronic checks evaluated per Medicaid applicant", source: { kind: "flow-step", flow: "application_submission", step: "Electronic checks evaluated per Medicaid applicant" }, subtext: "In response to event call.completed" }, { id: "application_submission:Person matching initiated", origin: "flow", type: "system", domain: "client_management", text: "Person matching initiated", source: { kind: "flow-step", flow: "application_submission", step: "Person matching initiated" }, subtext: "In response to event application.submitted" }, { id: "application_submission:Auto-confirm exact matches; queue fuzzy matches for caseworker review", origin: "flow", type: "note", domain: "intake", text: "\u26A0 Auto-confirm exact matches; queue fuzzy matches for caseworker review", source: { kind: "flow-step", flow: "application_submission", step: "Auto-confirm exact matches; queue fuzzy matches for caseworker review" }, subtext: "Person match auto-confirmation behavior not yet designed in intake" }] }, { laneId: "regulations", subPhaseId: "automated-screening", cards: [{ id: "policy:application_submission:42 CFR \xA7 435.948", origin: "flow", type: "policy", text: "Medicaid: MAGI income verified electronically before requesting paper documents \u2014 Income is checked against federal tax data electronically (FDSH FTI) before requesting documentation from the applicant. Paper documentation (pay stubs, tax returns) may only be requested if the electronic check is inconclusive.", subtext: "42 CFR \xA7 435.948", source: { kind: "policy", flow: "application_submission" } }, { id: "policy:application_submission:42 CFR \xA7 435.916", origin: "flow", type: "policy", text: "Check for existing Medicare or Medicaid enrollment before starting verification \u2014 active coverage may allow auto-approval \u2014 Two federal data hub checks must be performed before requesting documents from the applicant: one for existing Medicare enrollment and one for existing Medicaid or other health coverage. If active coverage is found, the application may be auto-approved without further verification. Otherwise, standard electronic verification continues.", subtext: "42 CFR \xA7 435.916", source: { kind: "policy", flow: "application_submission" } }] }, { laneId: "caseworker", subPhaseId: "under-review", cards: [{ id: "caseworker_review:Claims task from queue", origin: "flow", type: "person-action", actor: "caseworker", text: "Claims task from queue", source: { kind: "flow-step", flow: "caseworker_review", step: "Claims task from queue" }, subtext: "Caseworker selects from prioritized intake queue" }, { id: "caseworker_review:Schedules interview", origin: "flow", type: "person-action", actor: "caseworker", text: "Schedules interview", source: { kind: "flow-step", flow: "caseworker_review", step: "Schedules interview" }, subtext: "Launched from within intake \u2014 ensures appointment links to application" }] }, { laneId: "system", subPhaseId: "under-review", cards: [{ id: "caseworker_review:Application status \u2192 under_review", origin: "flow", type: "system", domain: "intake", text: "Application status \u2192 under_review", source: { kind: "flow-step", flow: "caseworker_review", step: "Application status \u2192 under_review" } }, { id: "caseworker_review:Interview record created and linked to application", origin: "flow", type: "system", domain: "intake", text: "Interview record created and linked to application", source: { kind: "flow-step", flow: "caseworker_review", step: "Interview record created and linked to application" } }] }, { laneId: "caseworker", subPhaseId: "active-review", cards: [{ id: "caseworker_review:Reviews verification results; resolves satisfied items; flags unresolved", origin: "flow", type: "person-action", actor: "caseworker", text: "Reviews verification results; resolves satisfied items; flags unresolved", source: { kind: "flow-step", flow: "caseworker_review", step: "Reviews verification results; resolves satisfied items; flags unresolved" } }, { id: "caseworker_review:Uploads supporting document; attaches to verification item", origin: "flow", type: "person-action", actor: "caseworker", text: "Uploads supporting document; attaches to verification item", source: { kind: "flow-step", flow: "caseworker_review", step: "Uploads supporting document; attaches to verification item" } }, { id: "caseworker_review:Reviews failure; determines if retriable", origin: "flow", type: "person-action", actor: "caseworker", text: "Reviews failure; determines if retriable", source: { kind: "flow-step", flow: "caseworker_review", step: "Reviews failure; determines if retriable" }, subtext: "Failure reason visible on Verification; retriable vs non-retriable per Decision 10 (data exchange)" }, { id: "caseworker_review:Initiates retry", origin: "flow", type: "person-action", actor: "caseworker", text: "Initiates retry", source: { kind: "flow-step", flow: "caseworker_review", step: "Initiates retry" } }] }, { laneId: "system", subPhaseId: "active-review", cards: [{ id: "caseworker_review:Verification item status updated", origin: "flow", type: "system", domain: "intake", text: "Verification item status updated", source: { kind: "flow-step", flow: "caseworker_review", step: "Verification item status updated" } }, { id: "caseworker_review:Document request notice sent to applicant", origin: "flow", type: "note", domain: "communications", text: "\u26A0 Document request notice sent to applicant", source: { kind: "flow-step", flow: "caseworker_review", step: "Document request notice sent to applicant" }, subtext: "Notice template catalog not yet designed" }, { id: "caseworker_review:Document linked to verification item as evidence", origin: "flow", type: "system", domain: "intake", text: "Document linked to verification item as evidence", source: { kind: "flow-step", flow: "caseworker_review", step: "Document linked to verification item as evidence" } }, { id: "caseworker_review:Verification updated with new result", origin: "flow", type: "system", domain: "intake", text: "Verification updated with new result", source: { kind: "flow-step", flow: "caseworker_review", step: "Verification updated with new result" }, subtext: "In response to event call.completed" }, { id: "caseworker_review:Verification marked cannot_verify; caseworker decides next step", origin: "flow", type: "system", domain: "intake", text: "Verification marked cannot_verify; caseworker decides next step", source: { kind: "flow-step", flow: "caseworker_review", step: "Verification marked cannot_verify; caseworker decides next step" }, subtext: "In response to event call.completed" }] }, { laneId: "data", subPhaseId: "active-review", cards: [{ id: "event:call.completed", origin: "flow", type: "domain-event", text: "call.completed", source: { kind: "flow-step", flow: "caseworker_review", step: "call.completed" }, domain: "data_exchange" }] }, { laneId: "regulations", subPhaseId: "interview", cards: [{ id: "policy:caseworker_review:snap-interview-requirement", origin: "flow", type: "policy", text: "SNAP applicants must complete an in-person or telephone interview before certification. The interview must be conducted by a qualified eligibility worker.", subtext: "7 CFR \xA7 273.2(e)", source: { kind: "policy", flow: "caseworker_review", policy: "snap-interview-requirement", contract: "schema/Interview.completedAt" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }] }, { laneId: "caseworker", subPhaseId: "interview", cards: [{ id: "caseworker_review:Conducts interview; resolves remaining verification items", origin: "flow", type: "person-action", actor: "caseworker", text: "Conducts interview; resolves remaining verification items", source: { kind: "flow-step", flow: "caseworker_review", step: "Conducts interview; resolves remaining verification items", contract: "schema/Interview.completedAt" }, subtext: "May require multiple appointments" }] }, { laneId: "system", subPhaseId: "interview", cards: [{ id: "caseworker_review:Caseworker attests interview complete (PATCH Interview.completedAt)", origin: "flow", type: "system", domain: "intake", text: "Caseworker attests interview complete (PATCH Interview.completedAt)", source: { kind: "flow-step", flow: "caseworker_review", step: "Caseworker attests interview complete (PATCH Interview.completedAt)" } }] }, { laneId: "caseworker", subPhaseId: "escalation", cards: [{ id: "caseworker_review:Escalates case", origin: "flow", type: "person-action", actor: "caseworker", text: "Escalates case", source: { kind: "flow-step", flow: "caseworker_review", step: "Escalates case" } }, { id: "caseworker_review:Claims escalated task", origin: "flow", type: "person-action", actor: "supervisor", text: "Claims escalated task", source: { kind: "flow-step", flow: "caseworker_review", step: "Claims escalated task" } }, { id: "caseworker_review:Reviews escalation; provides guidance or takes over resolution", origin: "flow", type: "person-action", actor: "supervisor", text: "Reviews escalation; provides guidance or takes over resolution", source: { kind: "flow-step", flow: "caseworker_review", step: "Reviews escalation; provides guidance or takes over resolution" } }] }, { laneId: "system", subPhaseId: "escalation", cards: [{ id: "caseworker_review:Application status \u2192 under supervisor review", origin: "flow", type: "system", domain: "intake", text: "Application status \u2192 under supervisor review", source: { kind: "flow-step", flow: "caseworker_review", step: "Application status \u2192 under supervisor review" } }] }, { laneId: "caseworker", subPhaseId: "submit-for-determination", cards: [{ id: "determination:Submits case for determination", origin: "flow", type: "person-action", actor: "caseworker", text: "Submits case for determination", source: { kind: "flow-step", flow: "determination", step: "Submits case for determination" }, subtext: "Available when all verification items are resolved" }] }, { laneId: "system", subPhaseId: "submit-for-determination", cards: [{ id: "determination:Application stays under_review; review_completed emitted to eligibility", origin: "flow", type: "system", domain: "intake", text: "Application stays under_review; review_completed emitted to eligibility", source: { kind: "flow-step", flow: "determination", step: "Application stays under_review; review_completed emitted to eligibility" } }, { id: "determination:Runs rules engine for all undetermined program+member combinations", origin: "flow", type: "system", domain: "eligibility", text: "Runs rules engine for all undetermined program+member combinations", source: { kind: "flow-step", flow: "determination", step: "Runs rules engine for all undetermined program+member combinations" }, subtext: "Skips any already auto-determined at submission; uses verification evidence and household data" }, { id: "determination:Decision recorded per person per program", origin: "flow", type: "system", domain: "intake", text: "Decision recorded per person per program", source: { kind: "flow-step", flow: "determination", step: "Decision recorded per person per program" }, subtext: "In response to event eligibility.application.decision_completed" }] }, { laneId: "data", subPhaseId: "submit-for-determination", cards: [{ id: "event:application.review_completed", origin: "flow", type: "domain-event", text: "application.review_completed", source: { kind: "flow-step", flow: "determination", step: "application.review_completed" }, domain: "intake" }, { id: "event:eligibility.application.decision_completed", origin: "flow", type: "domain-event", text: "eligibility.application.decision_completed", source: { kind: "flow-step", flow: "determination", step: "eligibility.application.decision_completed" }, domain: "eligibility", subtext: "Per person per program; may fire multiple times as each resolves" }] }, { laneId: "caseworker", subPhaseId: "decision", cards: [{ id: "determination:Reviews all determination results", origin: "flow", type: "person-action", actor: "caseworker", text: "Reviews all determination results", source: { kind: "flow-step", flow: "determination", step: "Reviews all determination results" } }, { id: "determination:Records determination and rationale", origin: "flow", type: "person-action", actor: "caseworker", text: "Records determination and rationale", source: { kind: "flow-step", flow: "determination", step: "Records determination and rationale", contract: "operations/application.approve-determination" } }, { id: "determination:Claims task from queue", origin: "flow", type: "person-action", actor: "supervisor", text: "Claims task from queue", source: { kind: "flow-step", flow: "determination", step: "Claims task from queue" }, subtext: "Supervisor selects from supervisor review queue" }, { id: "determination:Reviews and approves or rejects determination", origin: "flow", type: "person-action", actor: "supervisor", text: "Reviews and approves or rejects determination", source: { kind: "flow-step", flow: "determination", step: "Reviews and approves or rejects determination" }, subtext: "On approval: application closes, workflow completes both tasks. On rejection: intake returns application to under_review; workflow calls return-to-worker on caseworker task" }] }, { laneId: "regulations", subPhaseId: "decision", cards: [{ id: "policy:determination:snap-supervisor-review", origin: "flow", type: "policy", text: "Applicants have the right to a fair hearing if the agency delays or denies benefits. Supervisor review is a prerequisite for escalated cases prior to formal hearing proceedings.", subtext: "7 CFR \xA7 273.15", source: { kind: "policy", flow: "determination", policy: "snap-supervisor-review", contract: "operations/application.approve-determination" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.15" }, { id: "policy:determination:snap-notice-of-eligibility", origin: "flow", type: "policy", text: "Written notice of eligibility or denial must be sent to each applicant household within the 30-day processing deadline (7 days for expedited). Notice must include the eligibility decision, benefit amount if approved, or denial reason if denied.", subtext: "7 CFR \xA7 273.2(h)", source: { kind: "policy", flow: "determination", policy: "snap-notice-of-eligibility", contract: "operations/application.approve-determination" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { id: "policy:determination:medicaid-notice-of-eligibility", origin: "flow", type: "policy", text: "Written notice of eligibility, denial, or termination must be sent within the 45-day processing deadline (90 days if a disability determination is required). Notice must state the decision, the reason, and the applicant's right to appeal.", subtext: "42 CFR \xA7 435.917", source: { kind: "policy", flow: "determination", policy: "medicaid-notice-of-eligibility", contract: "operations/application.approve-determination" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.917" }, { id: "policy:determination:snap-fair-hearing-rights", origin: "flow", type: "policy", text: "Every household has the right to a fair hearing to contest any agency action affecting their benefits, including delays, denials, reductions, and terminations.", subtext: "7 CFR \xA7 273.15(a)", source: { kind: "policy", flow: "determination", policy: "snap-fair-hearing-rights", contract: "operations/application.approve-determination" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.15" }, { id: "policy:determination:medicaid-determination-documentation", origin: "flow", type: "policy", text: "Each eligibility determination must be documented with the date of the decision, the regulatory basis for the decision, and all information and documents used to support it. Applies to approvals, denials, and terminations.", subtext: "42 CFR \xA7 431.17(b)(1)", source: { kind: "policy", flow: "determination", policy: "medicaid-determination-documentation", contract: "operations/application.approve-determination" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-431.17" }, { id: "policy:determination:snap-notice-of-eligibility#2", origin: "flow", type: "policy", text: "Written notice of eligibility or denial must be sent to each applicant household within the 30-day processing deadline (7 days for expedited). Notice must include the eligibility decision, benefit amount if approved, or denial reason if denied.", subtext: "7 CFR \xA7 273.2(h)", source: { kind: "policy", flow: "determination", policy: "snap-notice-of-eligibility", contract: "operations/application.close" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { id: "policy:determination:medicaid-notice-of-eligibility#2", origin: "flow", type: "policy", text: "Written notice of eligibility, denial, or termination must be sent within the 45-day processing deadline (90 days if a disability determination is required). Notice must state the decision, the reason, and the applicant's right to appeal.", subtext: "42 CFR \xA7 435.917", source: { kind: "policy", flow: "determination", policy: "medicaid-notice-of-eligibility", contract: "operations/application.close" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.917" }, { id: "policy:determination:snap-fair-hearing-rights#2", origin: "flow", type: "policy", text: "Every household has the right to a fair hearing to contest any agency action affecting their benefits, including delays, denials, reductions, and terminations.", subtext: "7 CFR \xA7 273.15(a)", source: { kind: "policy", flow: "determination", policy: "snap-fair-hearing-rights", contract: "operations/application.close" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.15" }, { id: "policy:determination:medicaid-determination-documentation#2", origin: "flow", type: "policy", text: "Each eligibility determination must be documented with the date of the decision, the regulatory basis for the decision, and all information and documents used to support it. Applies to approvals, denials, and terminations.", subtext: "42 CFR \xA7 431.17(b)(1)", source: { kind: "policy", flow: "determination", policy: "medicaid-determination-documentation", contract: "operations/application.close" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-431.17" }] }, { laneId: "system", subPhaseId: "decision", cards: [{ id: "determination:Evaluates determination against supervisor approval thresholds", origin: "flow", type: "system", domain: "intake", text: "Evaluates determination against supervisor approval thresholds", source: { kind: "flow-step", flow: "determination", step: "Evaluates determination against supervisor approval thresholds" } }, { id: "determination:Caseworker task \u2192 pending_review; supervisor approval task created", origin: "flow", type: "system", domain: "workflow", text: "Caseworker task \u2192 pending_review; supervisor approval task created", source: { kind: "flow-step", flow: "determination", step: "Caseworker task \u2192 pending_review; supervisor approval task created" }, subtext: "In response to event determination.approval_needed" }, { id: "determination:Application status \u2192 pending_approval", origin: "flow", type: "system", domain: "intake", text: "Application status \u2192 pending_approval", source: { kind: "flow-step", flow: "determination", step: "Application status \u2192 pending_approval" } }, { id: "determination:Creates case", origin: "flow", type: "system", domain: "case_management", text: "Creates case", source: { kind: "flow-step", flow: "determination", step: "Creates case" }, subtext: "In response to event application.closed" }, { id: "determination:Completes or cancels open tasks: pending_review task \u2192 completed (approval path); in_progress task \u2192 completed (manual path); pending task \u2192 cancelled (auto-determination path)", origin: "flow", type: "system", domain: "workflow", text: "Completes or cancels open tasks: pending_review task \u2192 completed (approval path); in_progress task \u2192 completed (manual path); pending task \u2192 cancelled (auto-determination path)", source: { kind: "flow-step", flow: "determination", step: "Completes or cancels open tasks: pending_review task \u2192 completed (approval path); in_progress task \u2192 completed (manual path); pending task \u2192 cancelled (auto-determination path)" }, subtext: "In response to event application.closed" }] }, { laneId: "data", subPhaseId: "decision", cards: [{ id: "event:determination.approval_needed", origin: "flow", type: "domain-event", text: "determination.approval_needed", source: { kind: "flow-step", flow: "determination", step: "determination.approval_needed" }, domain: "intake" }, { id: "event:application.closed", origin: "flow", type: "domain-event", text: "application.closed", source: { kind: "flow-step", flow: "determination", step: "application.closed" }, domain: "intake" }] }], links: [{ from: "data/automated-screening/event:application.submitted", to: "system/automated-screening/application_submission:Task created in intake queue; SLA and queue routing assigned", kind: "triggers" }, { from: "data/automated-screening/event:application.submitted", to: "system/automated-screening/application_submission:Expedited screening initiated", kind: "triggers" }, { from: "system/automated-screening/application_submission:Expedited screening initiated", to: "data/automated-screening/event:eligibility.application.expedited", kind: "emits" }, { from: "data/automated-screening/event:eligibility.application.expedited", to: "system/automated-screening/application_submission:Set isExpedited = true on application", kind: "triggers" }, { from: "data/automated-screening/event:eligibility.application.expedited", to: "system/automated-screening/application_submission:Assign expedited SLA track", kind: "triggers" }, { from: "data/automated-screening/event:call.completed", to: "system/automated-screening/application_submission:Electronic checks evaluated per Medicaid applicant", kind: "triggers" }, { from: "system/automated-screening/application_submission:Electronic checks evaluated per Medicaid applicant", to: "data/automated-screening/event:eligibility.application.decision_completed", kind: "emits" }, { from: "system/automated-screening/application_submission:Set isExpedited = true on application", to: "data/automated-screening/event:application.submitted", kind: "emits" }, { from: "data/automated-screening/event:application.submitted", to: "system/automated-screening/application_submission:Person matching initiated", kind: "triggers" }, { from: "system/automated-screening/application_submission:Person matching initiated", to: "data/automated-screening/event:person.match_resolved", kind: "emits" }, { from: "data/automated-screening/event:person.match_resolved", to: "system/automated-screening/application_submission:Auto-confirm exact matches; queue fuzzy matches for caseworker review", kind: "triggers" }, { from: "data/active-review/event:call.completed", to: "system/active-review/caseworker_review:Verification updated with new result", kind: "triggers" }, { from: "data/active-review/event:call.completed", to: "system/active-review/caseworker_review:Verification marked cannot_verify; caseworker decides next step", kind: "triggers" }, { from: "system/submit-for-determination/determination:Application stays under_review; review_completed emitted to eligibility", to: "data/submit-for-determination/event:application.review_completed", kind: "emits" }, { from: "data/submit-for-determination/event:application.review_completed", to: "system/submit-for-determination/determination:Runs rules engine for all undetermined program+member combinations", kind: "triggers" }, { from: "system/submit-for-determination/determination:Runs rules engine for all undetermined program+member combinations", to: "data/submit-for-determination/event:eligibility.application.decision_completed", kind: "emits" }, { from: "data/submit-for-determination/event:eligibility.application.decision_completed", to: "system/submit-for-determination/determination:Decision recorded per person per program", kind: "triggers" }, { from: "system/decision/determination:Evaluates determination against supervisor approval thresholds", to: "data/decision/event:determination.approval_needed", kind: "emits" }, { from: "data/decision/event:determination.approval_needed", to: "system/decision/determination:Caseworker task \u2192 pending_review; supervisor approval task created", kind: "triggers" }, { from: "system/decision/determination:Application status \u2192 pending_approval", to: "data/decision/event:application.closed", kind: "emits" }, { from: "data/decision/event:application.closed", to: "system/decision/determination:Creates case", kind: "triggers" }, { from: "data/decision/event:application.closed", to: "system/decision/determination:Completes or cancels open tasks: pending_review task \u2192 completed (approval path); in_progress task \u2192 completed (manual path); pending task \u2192 cancelled (auto-determination path)", kind: "triggers" }] } }], cards: [{ key: "intake", label: "Intake", domain: "intake", data: { domain: "intake", name: "Intake", phases: [{ id: "flow-0", label: "Application Submission", subPhases: [{ id: "frag-0-0", label: "Application Submission", cards: [{ type: "policy", text: "7 CFR \xA7 273.2(g)", subtext: "Agency must accept any application on the date of first contact, even if incomplete. The date received is the application filing date and starts the processing clock.", citation: "7 CFR \xA7 273.2(g)", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "snap-application-acceptance", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { type: "policy", text: "7 CFR \xA7 273.2(c)(1)", subtext: "Agency must date-stamp or otherwise record the date of receipt on every application. The date stamp establishes the filing date used for timeliness determinations.", citation: "7 CFR \xA7 273.2(c)(1)", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "snap-application-date-stamp", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { type: "policy", text: "7 CFR \xA7 273.2(i)(1)", subtext: "Agency must act on an application and provide benefits or send a notice of denial within 30 days of the date of application.", citation: "7 CFR \xA7 273.2(i)(1)", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "snap-processing-clock", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { type: "policy", text: "7 CFR \xA7 273.2(i)(3)(i)", subtext: "Benefits must be issued within 7 days for households with gross monthly income below $150 and liquid resources at or below $100, or households whose combined monthly gross income and liquid resources are less than the monthly rent or mortgage and utilities.", citation: "7 CFR \xA7 273.2(i)(3)(i)", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "snap-expedited-processing", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { type: "policy", text: "42 CFR \xA7 435.912", subtext: "States must make eligibility determinations within 45 days of application for most applicants and within 90 days for applicants who require a disability determination.", citation: "42 CFR \xA7 435.912", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "medicaid-processing-clock", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.912" }, { type: "policy", text: "7 CFR \xA7 273.2(a)", subtext: "Any household may apply for SNAP benefits regardless of current participation in other programs. Agencies may not screen out applicants before accepting an application.", citation: "7 CFR \xA7 273.2(a)", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "snap-right-to-apply", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { type: "policy", text: "7 CFR \xA7 273.1", subtext: "All household members must be listed on the application regardless of whether they are individually applying for SNAP. Members who are ineligible \u2014 such as non-citizens who do not qualify \u2014 must still be listed because their income and resources are counted when calculating the benefit amount for the rest of the household.", citation: "7 CFR \xA7 273.1", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "snap-household-composition", contract: "operations/application.submit" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.1" }, { type: "policy", text: "7 CFR \xA7 273.2(f)", subtext: "Before certifying a household, the agency must verify income, identity, and residency. Verification may occur via electronic check, document review, or interview. States may not require verification of items beyond those listed in this section.", citation: "7 CFR \xA7 273.2(f)", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "snap-verification-requirements", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { type: "policy", text: "42 CFR \xA7 435.940", subtext: "When verification is required, electronic data sources must be checked before requesting paper documentation from applicants. Applies to citizenship, immigration status, and income verification. Paper documents may only be requested when an electronic check returns inconclusive.", citation: "42 CFR \xA7 435.940", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "medicaid-electronic-verification-first", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.940" }, { type: "policy", text: "42 U.S.C. \xA7 1320b-7", subtext: "Agencies must use SSA data matches to verify identity and citizenship status for SNAP applicants. FDSH SSA is the electronic source for this check.", citation: "42 U.S.C. \xA7 1320b-7", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "snap-ssa-identity-check", contract: "events/intake.verification.created" }, citationUrl: "https://uscode.house.gov/view.xhtml?req=granuleid:USC-prelim-title42-section1320b-7" }, { type: "policy", text: "7 CFR \xA7 272.8", subtext: "Income must be verified through available electronic data sources (SSA IEVS, IRS IEVS, SWICA, UIB) before relying on applicant statements. Electronic verification reduces documentation burden on applicants.", citation: "7 CFR \xA7 272.8", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "snap-income-verification", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-272.8" }, { type: "policy", text: "42 CFR \xA7 435.956(b)", subtext: "States must use electronic data sources to verify citizenship before requesting paper documentation. FDSH SSA citizenship check satisfies this requirement.", citation: "42 CFR \xA7 435.956(b)", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "medicaid-citizenship-electronic-check", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.956" }, { type: "policy", text: "42 CFR \xA7 435.956(c)", subtext: "States must use electronic data sources to verify immigration status before requesting paper documentation. FDSH VLP satisfies this requirement.", citation: "42 CFR \xA7 435.956(c)", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "medicaid-immigration-electronic-check", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.956" }, { type: "policy", text: "42 CFR \xA7 435.948", subtext: "States must use data from other agencies and programs to verify eligibility information electronically before requesting documentation from applicants.", citation: "42 CFR \xA7 435.948", domain: "intake", source: { kind: "policy", flow: "application_submission", policy: "medicaid-data-sharing", contract: "events/intake.verification.created" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.948" }] }, { id: "frag-0-1", label: "if Medicaid applied", cards: [{ type: "policy", text: "Check for existing Medicare or Medicaid enrollment before starting verification \u2014 active coverage may allow auto-approval", subtext: "Two federal data hub checks must be performed before requesting documents from the applicant: one for existing Medicare enrollment and one for existing Medicaid or other health coverage. If active coverage is found, the application may be auto-approved without further verification. Otherwise, standard electronic verification continues.", citation: "42 CFR \xA7 435.916", domain: "intake", source: { kind: "policy", flow: "application_submission" } }] }] }, { id: "flow-1", label: "Caseworker Review", subPhases: [{ id: "frag-1-0", label: "Caseworker Review", cards: [{ type: "policy", text: "7 CFR \xA7 273.2(e)", subtext: "SNAP applicants must complete an in-person or telephone interview before certification. The interview must be conducted by a qualified eligibility worker.", citation: "7 CFR \xA7 273.2(e)", domain: "intake", source: { kind: "policy", flow: "caseworker_review", policy: "snap-interview-requirement", contract: "schema/Interview.completedAt" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }] }] }, { id: "flow-2", label: "Eligibility Determination", subPhases: [{ id: "frag-2-0", label: "Path B: caseworker reviews complete determination picture", cards: [{ type: "policy", text: "7 CFR \xA7 273.15", subtext: "Applicants have the right to a fair hearing if the agency delays or denies benefits. Supervisor review is a prerequisite for escalated cases prior to formal hearing proceedings.", citation: "7 CFR \xA7 273.15", domain: "intake", source: { kind: "policy", flow: "determination", policy: "snap-supervisor-review", contract: "operations/application.approve-determination" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.15" }, { type: "policy", text: "7 CFR \xA7 273.2(h)", subtext: "Written notice of eligibility or denial must be sent to each applicant household within the 30-day processing deadline (7 days for expedited). Notice must include the eligibility decision, benefit amount if approved, or denial reason if denied.", citation: "7 CFR \xA7 273.2(h)", domain: "intake", source: { kind: "policy", flow: "determination", policy: "snap-notice-of-eligibility", contract: "operations/application.approve-determination" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.2" }, { type: "policy", text: "42 CFR \xA7 435.917", subtext: "Written notice of eligibility, denial, or termination must be sent within the 45-day processing deadline (90 days if a disability determination is required). Notice must state the decision, the reason, and the applicant's right to appeal.", citation: "42 CFR \xA7 435.917", domain: "intake", source: { kind: "policy", flow: "determination", policy: "medicaid-notice-of-eligibility", contract: "operations/application.approve-determination" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-435.917" }, { type: "policy", text: "7 CFR \xA7 273.15(a)", subtext: "Every household has the right to a fair hearing to contest any agency action affecting their benefits, including delays, denials, reductions, and terminations.", citation: "7 CFR \xA7 273.15(a)", domain: "intake", source: { kind: "policy", flow: "determination", policy: "snap-fair-hearing-rights", contract: "operations/application.approve-determination" }, citationUrl: "https://www.ecfr.gov/current/title-7/section-273.15" }, { type: "policy", text: "42 CFR \xA7 431.17(b)(1)", subtext: "Each eligibility determination must be documented with the date of the decision, the regulatory basis for the decision, and all information and documents used to support it. Applies to approvals, denials, and terminations.", citation: "42 CFR \xA7 431.17(b)(1)", domain: "intake", source: { kind: "policy", flow: "determination", policy: "medicaid-determination-documentation", contract: "operations/application.approve-determination" }, citationUrl: "https://www.ecfr.gov/current/title-42/section-431.17" }] }] }] } }], stateMachines: [{ key: "eligibility/determination", label: "Eligibility \u2014 Determination", domain: "eligibility", data: { id: "eligibility/determination", name: "Eligibility \u2014 Determination", domain: "eligibility", object: "Determination", initialState: "in_progress", states: [{ id: "in_progress", label: "In Progress", slaClock: "running" }, { id: "completed", label: "Completed", slaClock: "stopped", terminal: true }, { id: "withdrawn", label: "Withdrawn", slaClock: "stopped", terminal: true }], transitions: [{ trigger: "flag-expedited", from: "in_progress", actors: ["system"], guard: "callerIsSystem", emits: ["eligibility.application.expedited"], description: "System flags a Determination as qualifying for expedited SNAP processing" }, { trigger: "complete", from: "in_progress", to: "completed", actors: ["system"], guard: "callerIsSystem", emits: ["eligibility.application.determination_completed"], description: "System marks a Determination as complete after all program Decisions are resolved" }, { trigger: "withdraw", from: "in_progress", to: "withdrawn", actors: ["system"], guard: "callerIsSystem", emits: ["eligibility.determination.withdrawn"], description: "System withdraws a Determination when the associated application is withdrawn" }] } }, { key: "eligibility/decision", label: "Eligibility \u2014 Decision", domain: "eligibility", data: { id: "eligibility/decision", name: "Eligibility \u2014 Decision", domain: "eligibility", object: "Decision", initialState: "pending", states: [{ id: "pending", label: "Pending", slaClock: "running" }, { id: "approved", label: "Approved", slaClock: "stopped", terminal: true }, { id: "denied", label: "Denied", slaClock: "stopped", terminal: true }, { id: "ineligible", label: "Ineligible", slaClock: "stopped", terminal: true }], transitions: [{ trigger: "approve", from: "pending", to: "approved", actors: ["system"], guard: "callerIsSystem", emits: ["eligibility.application.decision_completed"], description: "System approves a Decision after automatic or caseworker review" }, { trigger: "deny", from: "pending", to: "denied", actors: ["system"], guard: "callerIsSystem", emits: ["eligibility.application.decision_completed"], description: "System denies a Decision based on failing eligibility criteria" }, { trigger: "mark-ineligible", from: "pending", to: "ineligible", actors: ["system"], guard: "callerIsSystem", emits: ["eligibility.application.decision_completed"], description: "System marks a Decision as categorically ineligible" }] } }, { key: "intake/application", label: "Intake \u2014 Application", domain: "intake", data: { id: "intake/application", name: "Intake \u2014 Application", domain: "intake", object: "Application", initialState: "draft", states: [{ id: "draft", label: "Draft", slaClock: "stopped", description: "Created but not yet filed; regulatory clock has not started" }, { id: "submitted", label: "Submitted", slaClock: "running", description: "Formally filed; regulatory clock starts; caseworker task and automated screening initiated" }, { id: "under_review", label: "Under Review", slaClock: "running", description: "Caseworker is actively reviewing; clock is running toward the 30/45-day deadline" }, { id: "pending_approval", label: "Pending Approval", slaClock: "stopped", description: "Determination awaiting supervisor approval; clock paused per agency policy" }, { id: "withdrawn", label: "Withdrawn", slaClock: "stopped", description: "Household withdrew; open tasks cancelled and household notified. Terminal.", terminal: true }, { id: "closed", label: "Closed", slaClock: "stopped", description: "Intake complete; case management creates a benefit case if approved. Terminal.", terminal: true }], transitions: [{ trigger: "submit", from: "draft", to: "submitted", actors: ["applicant", "case_worker"], guard: "callerIsApplicant or callerIsCaseworker", emits: ["intake.application.submitted"], description: "Formally submits a draft application, starting the regulatory processing clock" }, { trigger: "open", from: "submitted", to: "under_review", actors: ["system"], guard: "callerIsSystem", emits: ["intake.application.opened"], description: "System marks a submitted application as under active caseworker review" }, { trigger: "complete-review", from: "under_review", actors: ["case_worker", "supervisor"], guard: "callerIsCaseworker or callerIsSupervisor", emits: ["intake.application.review_completed"], description: "Caseworker signals data collection is complete and the application is ready for determination" }, { trigger: "submit-for-approval", from: "under_review", to: "pending_approval", actors: ["system"], guard: "callerIsSystem", emits: ["intake.determination.approval_needed"], description: "System routes the application to supervisor review when state-configured approval thresholds are met" }, { trigger: "approve-determination", from: "pending_approval", to: "closed", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["intake.application.closed"], description: "Supervisor approves the determination; closes the application and triggers NOA and case creation" }, { trigger: "reject-determination", from: "pending_approval", to: "under_review", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["intake.determination.rejected"], description: "Supervisor rejects the determination and returns the application to the caseworker for revision" }, { trigger: "close", from: "under_review", to: "closed", actors: ["case_worker", "supervisor", "system"], guard: "callerIsCaseworker or callerIsSupervisor or callerIsSystem", emits: ["intake.application.closed"], description: "Marks a reviewed application as closed after all determinations are complete" }, { trigger: "withdraw", from: "submitted", to: "withdrawn", actors: ["applicant", "case_worker", "supervisor"], guard: "callerIsApplicant or callerIsCaseworker or callerIsSupervisor", emits: ["intake.application.withdrawn"], description: "Applicant or caseworker withdraws the application before a decision is made" }, { trigger: "withdraw", from: "under_review", to: "withdrawn", actors: ["applicant", "case_worker", "supervisor"], guard: "callerIsApplicant or callerIsCaseworker or callerIsSupervisor", emits: ["intake.application.withdrawn"], description: "Applicant or caseworker withdraws the application before a decision is made" }] } }, { key: "intake/verification", label: "Intake \u2014 Verification", domain: "intake", data: { id: "intake/verification", name: "Intake \u2014 Verification", domain: "intake", object: "Verification", initialState: "pending", states: [{ id: "pending", label: "Pending", slaClock: "stopped", description: "Verification item created; electronic check or document request not yet complete" }, { id: "inconclusive", label: "Inconclusive", slaClock: "stopped", description: "Electronic check returned insufficient data; document fallback triggered (42 CFR \xA7 435.940)" }, { id: "satisfied", label: "Satisfied", slaClock: "stopped", description: "Verified \u2014 via electronic check, document review, or interview. Terminal.", terminal: true }, { id: "waived", label: "Waived", slaClock: "stopped", description: "Verification requirement waived by state policy. Terminal.", terminal: true }, { id: "cannot_verify", label: "Cannot Verify", slaClock: "stopped", description: "Verification could not be completed after all attempts; caseworker decides next step. Terminal.", terminal: true }], transitions: [{ trigger: "satisfy", from: "pending", to: "satisfied", actors: ["system"], guard: "callerIsSystem", emits: ["intake.verification.satisfied"], description: "System marks an obligation as satisfied after receiving conclusive service call or document evidence" }, { trigger: "satisfy", from: "inconclusive", to: "satisfied", actors: ["system"], guard: "callerIsSystem", emits: ["intake.verification.satisfied"], description: "System marks an obligation as satisfied after receiving conclusive service call or document evidence" }, { trigger: "mark-inconclusive", from: "pending", to: "inconclusive", actors: ["system"], guard: "callerIsSystem", emits: ["intake.verification.inconclusive"], description: "System records that a service call returned inconclusive, triggering document fallback" }, { trigger: "waive", from: "pending", to: "waived", actors: ["case_worker", "supervisor"], guard: "callerIsCaseworker or callerIsSupervisor", emits: ["intake.verification.waived"], description: "Caseworker grants a waiver for an obligation that cannot be satisfied through normal means" }, { trigger: "waive", from: "inconclusive", to: "waived", actors: ["case_worker", "supervisor"], guard: "callerIsCaseworker or callerIsSupervisor", emits: ["intake.verification.waived"], description: "Caseworker grants a waiver for an obligation that cannot be satisfied through normal means" }, { trigger: "mark-cannot-verify", from: "pending", to: "cannot_verify", actors: ["case_worker", "supervisor"], guard: "callerIsCaseworker or callerIsSupervisor", emits: [], description: "Caseworker closes an obligation when all available verification methods are exhausted" }, { trigger: "mark-cannot-verify", from: "inconclusive", to: "cannot_verify", actors: ["case_worker", "supervisor"], guard: "callerIsCaseworker or callerIsSupervisor", emits: [], description: "Caseworker closes an obligation when all available verification methods are exhausted" }] } }, { key: "workflow/task", label: "Workflow \u2014 Task", domain: "workflow", data: { id: "workflow/task", name: "Workflow \u2014 Task", domain: "workflow", object: "Task", initialState: "pending", states: [{ id: "pending", label: "Pending", slaClock: "running" }, { id: "in_progress", label: "In Progress", slaClock: "running" }, { id: "completed", label: "Completed", slaClock: "stopped", terminal: true }, { id: "escalated", label: "Escalated", slaClock: "running" }, { id: "cancelled", label: "Cancelled", slaClock: "stopped" }, { id: "awaiting_client", label: "Awaiting Client", slaClock: "paused" }, { id: "awaiting_verification", label: "Awaiting Verification", slaClock: "paused" }, { id: "pending_review", label: "Pending Review", slaClock: "running" }], transitions: [{ trigger: "claim", from: "pending", to: "in_progress", actors: ["case_worker", "supervisor"], guard: "taskIsUnassigned", emits: ["workflow.task.claimed"], description: "Caseworker takes ownership of an unassigned pending task" }, { trigger: "complete", from: "in_progress", to: "completed", actors: ["case_worker", "supervisor", "system"], guard: "callerIsAssignedWorker or callerIsSystem", emits: ["workflow.task.completed"], description: "Marks an in-progress task done with an outcome and optional notes" }, { trigger: "release", from: "in_progress", to: "pending", actors: ["case_worker", "supervisor"], guard: "callerIsAssignedWorker", emits: ["workflow.task.released"], description: "Returns an in-progress task to the queue, clearing the assignment" }, { trigger: "escalate", from: "pending", to: "escalated", actors: ["case_worker", "supervisor"], guard: "callerIsAssignedWorker or callerIsSupervisor", emits: ["workflow.task.escalated"], description: "Escalate a task; assigned workers can escalate in-progress tasks, supervisors can escalate from any state" }, { trigger: "escalate", from: "in_progress", to: "escalated", actors: ["case_worker", "supervisor"], guard: "callerIsAssignedWorker or callerIsSupervisor", emits: ["workflow.task.escalated"], description: "Escalate a task; assigned workers can escalate in-progress tasks, supervisors can escalate from any state" }, { trigger: "de-escalate", from: "escalated", to: "pending", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.de-escalated"], description: "Returns an escalated task to the pending queue" }, { trigger: "cancel", from: "pending", to: "cancelled", actors: ["supervisor", "system"], guard: "callerIsSupervisor or callerIsSystem", emits: ["workflow.task.cancelled"], description: "Supervisor cancels a task from any active state" }, { trigger: "cancel", from: "in_progress", to: "cancelled", actors: ["supervisor", "system"], guard: "callerIsSupervisor or callerIsSystem", emits: ["workflow.task.cancelled"], description: "Supervisor cancels a task from any active state" }, { trigger: "cancel", from: "escalated", to: "cancelled", actors: ["supervisor", "system"], guard: "callerIsSupervisor or callerIsSystem", emits: ["workflow.task.cancelled"], description: "Supervisor cancels a task from any active state" }, { trigger: "reopen", from: "cancelled", to: "pending", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.reopened"], description: "Supervisor returns a cancelled task to the pending queue" }, { trigger: "await-client", from: "in_progress", to: "awaiting_client", actors: ["case_worker", "supervisor"], guard: "callerIsAssignedWorker", emits: ["workflow.task.awaiting_client"], description: "Pauses an in-progress task while waiting for a client response" }, { trigger: "await-verification", from: "in_progress", to: "awaiting_verification", actors: ["case_worker", "supervisor"], guard: "callerIsAssignedWorker", emits: ["workflow.task.awaiting_verification"], description: "Pauses an in-progress task while waiting for a verification result" }, { trigger: "resume", from: "awaiting_client", to: "in_progress", actors: ["case_worker", "supervisor"], guard: "callerIsAssignedWorker or callerIsSupervisor", emits: ["workflow.task.resumed"], description: "Resumes a blocked task, cancelling any active wait timers" }, { trigger: "resume", from: "awaiting_verification", to: "in_progress", actors: ["case_worker", "supervisor"], guard: "callerIsAssignedWorker or callerIsSupervisor", emits: ["workflow.task.resumed"], description: "Resumes a blocked task, cancelling any active wait timers" }, { trigger: "auto-resume", from: "awaiting_verification", to: "in_progress", actors: ["system"], guard: "callerIsSystem", emits: ["workflow.task.resumed"], description: "System resumes a verification-blocked task when the timeout fires or a verification result arrives" }, { trigger: "sla-escalate", from: "pending", to: "escalated", actors: ["system"], guard: "callerIsSystem", emits: ["workflow.task.sla_breached", "workflow.task.escalated"], description: "System escalates a task when an SLA timer fires (creation deadline, warning, or breach)" }, { trigger: "sla-escalate", from: "in_progress", to: "escalated", actors: ["system"], guard: "callerIsSystem", emits: ["workflow.task.sla_breached", "workflow.task.escalated"], description: "System escalates a task when an SLA timer fires (creation deadline, warning, or breach)" }, { trigger: "sla-escalate", from: "escalated", actors: ["system"], guard: "callerIsSystem", emits: ["workflow.task.sla_breached", "workflow.task.escalated"], description: "System escalates a task when an SLA timer fires (creation deadline, warning, or breach)" }, { trigger: "auto-cancel", from: "awaiting_client", to: "cancelled", actors: ["system"], guard: "callerIsSystem", emits: ["workflow.task.cancelled"], description: "System cancels a client-blocked task after 30 days without a response" }, { trigger: "submit-for-review", from: "in_progress", to: "pending_review", actors: ["case_worker", "supervisor", "system"], guard: "callerIsAssignedWorker or callerIsSystem", emits: ["workflow.task.submitted_for_review"], description: "Worker submits a completed task to a supervisor for review and approval" }, { trigger: "submit-for-review", from: "escalated", to: "pending_review", actors: ["case_worker", "supervisor", "system"], guard: "callerIsAssignedWorker or callerIsSystem", emits: ["workflow.task.submitted_for_review"], description: "Worker submits a completed task to a supervisor for review and approval" }, { trigger: "approve", from: "pending_review", to: "completed", actors: ["supervisor", "system"], guard: "callerIsSupervisor or callerIsSystem", emits: ["workflow.task.approved"], description: "Supervisor approves a submitted task and records the final outcome" }, { trigger: "return-to-worker", from: "pending_review", to: "in_progress", actors: ["supervisor", "system"], guard: "callerIsSupervisor or callerIsSystem", emits: ["workflow.task.returned_to_worker"], description: "Supervisor sends a review-pending task back to the worker with feedback" }, { trigger: "assign", from: "pending", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.assigned"], description: "Supervisor reassigns a task to a specific caseworker or moves it to a different queue" }, { trigger: "assign", from: "in_progress", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.assigned"], description: "Supervisor reassigns a task to a specific caseworker or moves it to a different queue" }, { trigger: "assign", from: "escalated", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.assigned"], description: "Supervisor reassigns a task to a specific caseworker or moves it to a different queue" }, { trigger: "assign", from: "awaiting_client", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.assigned"], description: "Supervisor reassigns a task to a specific caseworker or moves it to a different queue" }, { trigger: "assign", from: "awaiting_verification", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.assigned"], description: "Supervisor reassigns a task to a specific caseworker or moves it to a different queue" }, { trigger: "assign", from: "pending_review", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.assigned"], description: "Supervisor reassigns a task to a specific caseworker or moves it to a different queue" }, { trigger: "set-priority", from: "pending", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.priority_changed"], description: "Supervisor manually overrides the task priority" }, { trigger: "set-priority", from: "in_progress", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.priority_changed"], description: "Supervisor manually overrides the task priority" }, { trigger: "set-priority", from: "escalated", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.priority_changed"], description: "Supervisor manually overrides the task priority" }, { trigger: "set-priority", from: "awaiting_client", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.priority_changed"], description: "Supervisor manually overrides the task priority" }, { trigger: "set-priority", from: "awaiting_verification", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.priority_changed"], description: "Supervisor manually overrides the task priority" }, { trigger: "set-priority", from: "pending_review", actors: ["supervisor"], guard: "callerIsSupervisor", emits: ["workflow.task.priority_changed"], description: "Supervisor manually overrides the task priority" }] } }], slaTypes: [{ id: "snap_expedited", name: "SNAP Expedited", duration: { amount: 7, unit: "days" }, warningThresholdPercent: 75 }, { id: "snap_standard", name: "SNAP Standard", duration: { amount: 30, unit: "days" }, warningThresholdPercent: 75 }, { id: "medicaid_standard", name: "Medicaid Standard", duration: { amount: 45, unit: "days" }, warningThresholdPercent: 75 }, { id: "medicaid_disability", name: "Medicaid Disability", duration: { amount: 90, unit: "days" }, warningThresholdPercent: 75 }] };
 
-  // service-blueprints/src/figma-plugin/src/main.ts
-  var BLUEPRINTS = {
-    intake: current_default
-  };
-  var CARDS = {
-    intake: current_cards_default
-  };
-  figma.showUI(__html__, { width: 320, height: 240, title: "Service Blueprint" });
+  // src/main.ts
+  var manifest = manifest_default;
+  var BLUEPRINTS = {};
+  for (const entry of manifest.blueprints) BLUEPRINTS[entry.key] = entry.data;
+  var CARDS = {};
+  for (const entry of manifest.cards) CARDS[entry.key] = entry.data;
+  var STATE_MACHINES = {};
+  for (const entry of manifest.stateMachines) STATE_MACHINES[entry.key] = entry.data;
+  figma.showUI(__html__, { width: 320, height: 600, title: "Service Blueprint" });
+  function cardTypesOf(blueprint) {
+    const types = [];
+    for (const cell of blueprint.cells) {
+      for (const card of cell.cards) if (types.indexOf(card.type) === -1) types.push(card.type);
+    }
+    return types;
+  }
+  figma.ui.postMessage({
+    type: "manifest",
+    blueprints: manifest.blueprints.map(({ key, label, data }) => ({
+      key,
+      label,
+      lanes: data.lanes.map(({ id, label: label2 }) => ({ id, label: label2 })),
+      phases: data.phases.map(({ id, label: label2 }) => ({ id, label: label2 })),
+      cardTypes: cardTypesOf(data)
+    })),
+    cards: manifest.cards.map(({ key, label }) => ({ key, label })),
+    stateMachines: manifest.stateMachines.map(({ key, label }) => ({ key, label })),
+    themes: themeNames(),
+    editorType: figma.editorType
+    // FigJam offers only the blueprint, cards and board export modes
+  });
+  figma.on("selectionchange", () => {
+    figma.ui.postMessage({ type: "selection", card: selectedCard() });
+  });
+  function checkBlueprint(value, what) {
+    const errors = validateBlueprint(value);
+    if (errors.length === 0) return true;
+    figma.ui.postMessage({ type: "invalid", errors });
+    figma.notify(`${what} is not a valid blueprint (${errors.length} problem${errors.length === 1 ? "" : "s"})`, { error: true });
+    return false;
+  }
+  function checkMetrics(value) {
+    const errors = validateMetrics(value);
+    if (errors.length === 0) return true;
+    figma.ui.postMessage({ type: "invalid", errors });
+    figma.notify(`Metrics file is not valid (${errors.length} problem${errors.length === 1 ? "" : "s"})`, { error: true });
+    return false;
+  }
+  function lintBeforeRender(blueprint, force) {
+    const problems = lintBlueprint(blueprint, { cardTypes: cardTypeNames() });
+    const errors = problems.filter((p) => p.severity === "error").length;
+    const blocked = errors > 0 && !force;
+    figma.ui.postMessage({ type: "lint", problems: problems.map(formatProblem), blocked });
+    if (blocked) figma.notify(`${blueprint.name} has ${errors} content error${errors === 1 ? "" : "s"}`, { error: true });
+    return !blocked;
+  }
+  function messageBlueprint(msg) {
+    if (msg.json !== void 0) return checkBlueprint(msg.json, "Pasted JSON") ? msg.json : void 0;
+    return msg.blueprint !== void 0 ? BLUEPRINTS[msg.blueprint] : void 0;
+  }
   figma.ui.on("message", (msg) => __async(null, null, function* () {
-    var _a, _b;
+    var _a2, _b, _c, _d, _e;
     if (msg.type === "generate") {
-      const blueprint = BLUEPRINTS[(_a = msg.blueprint) != null ? _a : ""];
+      const blueprint = messageBlueprint(msg);
       if (!blueprint) {
+        if (msg.json === void 0) figma.notify(`Unknown blueprint: ${msg.blueprint}`, { error: true });
+        return;
+      }
+      if (msg.metrics !== void 0 && !checkMetrics(msg.metrics)) return;
+      if (!lintBeforeRender(blueprint, msg.force === true)) return;
+      try {
+        const metrics = msg.metrics !== void 0 ? toBlueprintMetrics(msg.metrics, blueprint, manifest.slaTypes) : void 0;
+        yield renderBlueprint(blueprint, {
+          update: msg.update !== false,
+          links: msg.links,
+          layout: msg.layout,
+          filter: msg.filter,
+          metrics,
+          overlay: msg.overlay
+        });
+      } catch (e) {
+        figma.notify(`Error: ${e.message}`, { error: true });
+      }
+    }
+    if (msg.type === "generate-diff") {
+      const head = BLUEPRINTS[(_a2 = msg.blueprint) != null ? _a2 : ""];
+      if (!head) {
         figma.notify(`Unknown blueprint: ${msg.blueprint}`, { error: true });
         return;
       }
+      if (!checkBlueprint(msg.base, "Baseline")) return;
+      try {
+        yield renderBlueprintDiff(diffBlueprints(msg.base, head));
+      } catch (e) {
+        figma.notify(`Error: ${e.message}`, { error: true });
+      }
+    }
+    if (msg.type === "export-changes") {
+      const frame = findBlueprintFrame();
+      if (!frame) {
+        figma.notify("No blueprint frame to export \u2014 generate one with this version of the plugin first", { error: true });
+        return;
+      }
+      const snapshot = readCanvas(frame);
+      const changes = findCanvasChanges(snapshot);
+      figma.ui.postMessage({
+        type: "export",
+        blueprintId: snapshot.blueprintId,
+        yaml: changesToYaml(changes),
+        json: JSON.stringify(toJsonPatch(snapshot, changes), null, 2),
+        annotations: changes.annotations.length,
+        flowCards: changes.flowCards.length,
+        skipped: changes.skipped
+      });
+      figma.notify(`Exported ${changes.annotations.length} annotation change${changes.annotations.length === 1 ? "" : "s"} from ${snapshot.name}`);
+    }
+    if (msg.type === "export-board") {
+      const full = messageBlueprint(msg);
+      if (msg.json !== void 0 && !full) return;
+      const blueprint = full && isFiltered(msg.filter) ? filterBlueprint(full, msg.filter) : full;
+      const data = msg.domain !== void 0 ? CARDS[msg.domain] : void 0;
+      if (!blueprint && !data) {
+        figma.notify(`Unknown blueprint or card library: ${(_b = msg.blueprint) != null ? _b : msg.domain}`, { error: true });
+        return;
+      }
+      const options = { colorsFor: boardColors, layout: msg.layout };
+      const board = blueprint ? blueprintBoard(blueprint, options) : libraryBoard(data, options);
+      const csv = blueprint ? blueprintCsv(blueprint, options) : libraryCsv(data, options);
+      const fileName = blueprint ? blueprint.id.replace(/[^\w.-]+/g, "-") : `${data.domain}-cards`;
+      figma.ui.postMessage({ type: "board", fileName, miro: JSON.stringify(board, null, 2), csv });
+      figma.notify(`Exported ${board.name} \u2014 ${board.items.length} board items, ${board.connectors.length} connectors`);
+    }
+    if (msg.type === "set-theme") {
+      try {
+        yield applyTheme((_c = msg.theme) != null ? _c : "");
+      } catch (e) {
+        figma.notify(`Error: ${e.message}`, { error: true });
+      }
+    }
+    if (msg.type === "generate-state-machine") {
+      const diagram = STATE_MACHINES[(_d = msg.stateMachine) != null ? _d : ""];
+      if (!diagram) {
+        figma.notify(`Unknown state machine: ${msg.stateMachine}`, { error: true });
+        return;
+      }
       try {
-        yield renderBlueprint(blueprint);
+        yield renderStateMachine(diagram);
       } catch (e) {
         figma.notify(`Error: ${e.message}`, { error: true });
       }
     }
     if (msg.type === "generate-cards") {
-      const data = CARDS[(_b = msg.domain) != null ? _b : ""];
+      const data = CARDS[(_e = msg.domain) != null ? _e : ""];
       if (!data) {
         figma.notify(`Unknown domain: ${msg.domain}`, { error: true });
         return;
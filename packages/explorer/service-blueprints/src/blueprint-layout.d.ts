@@ -0,0 +1,121 @@
+// Types for blueprint-layout.js, used by the Figma plugin.
+
+import type { Blueprint, Card, Link, LinkKind } from './figma-plugin/src/types.js';
+import type { GridGeometry } from './figma-plugin/src/export.js';
+
+export const PHASE_WIDTH: number;
+export const LANE_LABEL_WIDTH: number;
+export const HEADER_HEIGHT: number;
+export const PHASE_HEADER_H: number;
+export const CELL_PADDING: number;
+export const CARD_WIDTH: number;
+export const CARD_PADDING: number;
+export const CARD_GAP: number;
+export const ROW_MIN_HEIGHT: number;
+export const TAG_PADDING_X: number;
+export const TAG_PADDING_Y: number;
+export const STACK_LIMIT: number;
+export const MAX_STACKS: number;
+export const COMPACT_WIDTH: number;
+export const MORE_CARD_HEIGHT: number;
+
+export const LINK_STYLES: Record<LinkKind, { color: string; dash: number[]; legend: string }>;
+export const FUTURE_STYLE: { color: string; weight: number; dash: number[]; legend: string };
+export const MORE_STYLE: { fill: string; stroke: string; color: string; dash: number[] };
+
+export type FontWeight = 'regular' | 'semibold';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Box extends Point {
+  width: number;
+  height: number;
+}
+
+// Centered horizontally in its box; centered vertically too when it has a height
+export interface SceneLabel {
+  role: 'phase' | 'sub-phase' | 'lane';
+  text: string;
+  fontSize: number;
+  weight: FontWeight;
+  color: string;
+  x: number;
+  y: number;
+  width: number;
+  height?: number;
+}
+
+export interface SceneLine {
+  orientation: 'horizontal' | 'vertical';
+  x: number;
+  y: number;
+  length: number;
+  color: string;
+}
+
+export interface SceneCard extends Box {
+  key: string;         // laneId/subPhaseId/(card id or index)
+  laneId: string;
+  subPhaseId: string;
+  index: number;       // position in its cell
+  card: Card;
+}
+
+// "+N more" card ending a cell with more cards than the auto layout shows
+export interface SceneMore extends Box {
+  laneId: string;
+  subPhaseId: string;
+  keys: string[];      // keys of the cards it stands in for
+}
+
+export interface SceneLink extends Link {
+  points: Point[];     // elbow route; the arrowhead is at the last point
+}
+
+export interface BlueprintScene {
+  width: number;
+  height: number;
+  grid: GridGeometry;
+  labels: SceneLabel[];
+  lines: SceneLine[];
+  cards: SceneCard[];  // lane by lane, then column by column, in card order
+  more: SceneMore[];
+  links: SceneLink[];
+}
+
+export type LayoutMode = 'grid' | 'auto';
+
+export interface LayoutOptions {
+  x?: number;
+  y?: number;
+  layout?: LayoutMode;  // defaults to 'grid'
+  measureCard?: (card: Card, key: string, width: number) => number;
+}
+
+export interface TextBlock {
+  lines: string[];
+  fontSize: number;
+  weight: FontWeight;
+  height: number;
+}
+
+export interface CardMetrics {
+  title: TextBlock;
+  label: TextBlock | null;
+  tag: (TextBlock & { width: number }) | null;  // domain tag, padding included
+  subtext: TextBlock | null;
+  headerHeight: number;
+  height: number;
+}
+
+export function wrapText(text: string, fontSize: number, width: number, weight?: FontWeight): string[];
+export function lineHeight(fontSize: number): number;
+export function domainTag(card: Card): string;
+export function cardMetrics(card: Card, width?: number, label?: string): CardMetrics;
+export function estimateCardHeight(card: Card, width?: number, label?: string): number;
+export function linkRoute(from: Box, to: Box): Point[];
+export function cardKey(cell: { laneId: string; subPhaseId: string; cardIndexes?: number[] }, card: Card, index: number): string;
+export function layoutBlueprint(blueprint: Blueprint, options?: LayoutOptions): BlueprintScene;
@@ -0,0 +1,330 @@
+/**
+ * blueprint-layout.js
+ *
+ * Lays out a service blueprint (the Blueprint type in figma-plugin/src/types.ts)
+ * as a positioned scene: header and lane labels, grid lines, cards and link
+ * routes, all in pixels. Pure — no Figma API and no file I/O — so the Figma
+ * plugin and the SVG renderer draw the same layout, and it runs under Node.
+ *
+ * Two layouts: the fixed grid ('grid'), where every sub-phase is PHASE_WIDTH
+ * wide and every cell one stack of cards, and 'auto', where full cells spread
+ * their cards over side-by-side stacks, sub-phases are as wide as their stacks
+ * (narrower when empty), and cells over capacity end in a "+N more" card.
+ *
+ * Card heights depend on how the text wraps. The Figma plugin measures its
+ * rendered cards and passes their heights in; the SVG renderer uses
+ * estimateCardHeight, which wraps text with average glyph widths.
+ *
+ * Types are declared in blueprint-layout.d.ts for the plugin.
+ */
+
+// ── Grid dimensions ───────────────────────────────────────────────────────────
+
+export const PHASE_WIDTH      = 280;
+export const LANE_LABEL_WIDTH = 120;
+export const HEADER_HEIGHT    = 72;   // two-row header: phase group (top) + sub-phase (bottom)
+export const PHASE_HEADER_H   = 30;   // height of the phase group row
+export const CELL_PADDING     = 12;
+export const CARD_WIDTH       = PHASE_WIDTH - CELL_PADDING * 2;  // 256
+export const CARD_PADDING     = 14;
+export const CARD_GAP         = 12;
+export const ROW_MIN_HEIGHT   = 80;
+export const TAG_PADDING_X    = 6;    // domain tag: left/right padding
+export const TAG_PADDING_Y    = 2;    // domain tag: top/bottom padding
+
+// Auto layout
+export const STACK_LIMIT      = 3;    // cards per stack before a cell adds another stack
+export const MAX_STACKS       = 3;    // stacks per cell; the rest collapse into "+N more"
+export const COMPACT_WIDTH    = 160;  // sub-phases without cards
+export const MORE_CARD_HEIGHT = 56;
+
+const LINE_STRONG = '#AAAAAA';  // outer edges, header rule, phase boundaries
+const LINE_MEDIUM = '#CCCCCC';  // between lanes, between header rows
+const LINE_LIGHT  = '#DDDDDD';  // between sub-phases of a phase, lane label column
+
+// ── Text estimates ────────────────────────────────────────────────────────────
+// Inter's average glyph width is a little over half the font size. Estimates
+// err wide so estimated cards are never shorter than their text.
+
+const GLYPH_WIDTH = { regular: 0.55, semibold: 0.58 };
+const LINE_HEIGHT = 1.25;
+
+/** Word-wrap text to a width in px; words longer than a line are broken. */
+export function wrapText(text, fontSize, width, weight = 'regular') {
+  const perLine = Math.max(1, Math.floor(width / (fontSize * GLYPH_WIDTH[weight])));
+  const lines = [];
+  for (const paragraph of String(text).split('\n')) {
+    let line = '';
+    for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+      while (word.length > perLine) {
+        if (line) { lines.push(line); line = ''; }
+        lines.push(word.slice(0, perLine));
+        word = word.slice(perLine);
+      }
+      if (!line) line = word;
+      else if (line.length + 1 + word.length <= perLine) line += ` ${word}`;
+      else { lines.push(line); line = word; }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export function lineHeight(fontSize) {
+  return Math.round(fontSize * LINE_HEIGHT);
+}
+
+/** Text of the tag naming a card's domain, or '' when it has none. */
+export function domainTag(card) {
+  return card.domain ? card.domain.toUpperCase() : '';
+}
+
+/**
+ * Estimated card layout, matching the cards drawn by the Figma plugin: note
+ * cards are one block, typed cards a header (title + label + domain tag) and
+ * a body (subtext). `label` is the card type label from the palette, if any.
+ */
+export function cardMetrics(card, width = CARD_WIDTH, label = '') {
+  const textWidth = width - CARD_PADDING * 2;
+  const text = (content, fontSize, weight) => {
+    const lines = wrapText(content, fontSize, textWidth, weight);
+    return { lines, fontSize, weight, height: lines.length * lineHeight(fontSize) };
+  };
+
+  const tagText = domainTag(card);
+  const tag = tagText ? {
+    lines: [tagText], fontSize: 10, weight: 'semibold',
+    width: Math.ceil(tagText.length * 10 * GLYPH_WIDTH.semibold) + TAG_PADDING_X * 2,
+    height: lineHeight(10) + TAG_PADDING_Y * 2,
+  } : null;
+  const tagHeight = tag ? 6 + tag.height : 0;
+
+  if (card.type === 'note') {
+    const title = text(card.text, 13, 'semibold');
+    const subtext = card.subtext ? text(card.subtext, 11, 'regular') : null;
+    const height = CARD_PADDING * 2 + title.height + (subtext ? 6 + subtext.height : 0) + tagHeight;
+    return { title, label: null, tag, subtext, headerHeight: height, height };
+  }
+
+  const title = text(card.text, 14, 'semibold');
+  const labelText = label ? text(label, 11, 'regular') : null;
+  const headerHeight = CARD_PADDING * 2 + title.height + (labelText ? 6 + labelText.height : 0) + tagHeight;
+  const subtext = card.subtext ? text(card.subtext, 12, 'regular') : null;
+  const height = headerHeight + (subtext ? CARD_PADDING * 2 + subtext.height : 0);
+  return { title, label: labelText, tag, subtext, headerHeight, height };
+}
+
+/** Outline of future-state cards (status: 'future'), in the plugin and the SVG alike. */
+export const FUTURE_STYLE = { color: '#565C65', weight: 2, dash: [6, 4], legend: 'Dashed outline — future state' };
+
+/** "+N more" card ending a cell in auto layout, in the plugin and the SVG alike. */
+export const MORE_STYLE = { fill: '#F5F5F5', stroke: '#AAAAAA', color: '#555555', dash: [4, 4] };
+
+export function estimateCardHeight(card, width = CARD_WIDTH, label = '') {
+  return cardMetrics(card, width, label).height;
+}
+
+// ── Links ─────────────────────────────────────────────────────────────────────
+
+/** How each link kind is drawn, by the Figma plugin and the SVG renderer alike. */
+export const LINK_STYLES = {
+  triggers: { color: '#00687D', dash: [],     legend: 'Teal arrow — event triggers card' },
+  emits:    { color: '#71767A', dash: [4, 4], legend: 'Dashed gray arrow — card emits event' },
+};
+
+/**
+ * Elbow route between two card boxes ({ x, y, width, height }): side to side
+ * when they are in different columns, otherwise bottom to top. The last point
+ * is where the arrowhead goes.
+ */
+export function linkRoute(from, to) {
+  const a = { x: from.x + from.width / 2, y: from.y + from.height / 2 };
+  const b = { x: to.x + to.width / 2, y: to.y + to.height / 2 };
+  let points;
+  if (Math.abs(b.x - a.x) >= (from.width + to.width) / 2) {
+    const dir = b.x > a.x ? 1 : -1;
+    const start = { x: a.x + dir * from.width / 2, y: a.y };
+    const end = { x: b.x - dir * to.width / 2, y: b.y };
+    const midX = (start.x + end.x) / 2;
+    points = [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+  } else {
+    const dir = b.y > a.y ? 1 : -1;
+    const start = { x: a.x, y: a.y + dir * from.height / 2 };
+    const end = { x: b.x, y: b.y - dir * to.height / 2 };
+    const midY = (start.y + end.y) / 2;
+    points = [start, { x: start.x, y: midY }, { x: end.x, y: midY }, end];
+  }
+  return points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+}
+
+// ── Layout ────────────────────────────────────────────────────────────────────
+
+/**
+ * Key of a card in its cell; the Figma plugin stores it as plugin data. A card
+ * without an id is keyed by its position, in the full cell when the blueprint
+ * was filtered (cell.cardIndexes).
+ */
+export function cardKey(cell, card, index) {
+  return `${cell.laneId}/${cell.subPhaseId}/${card.id ?? cell.cardIndexes?.[index] ?? index}`;
+}
+
+function stackedWidth(stacks) {
+  return CELL_PADDING * 2 + stacks * CARD_WIDTH + (stacks - 1) * CARD_GAP;
+}
+
+/**
+ * @param {Object}   blueprint
+ * @param {Object}   [options]
+ * @param {number}   [options.x=0]         left edge of the grid (the plugin's legend sits to its left)
+ * @param {number}   [options.y=0]         top edge of the grid
+ * @param {string}   [options.layout='grid'] 'grid' or 'auto'
+ * @param {Function} [options.measureCard] (card, key, width) → height; defaults to estimateCardHeight
+ * @returns scene — see BlueprintScene in blueprint-layout.d.ts
+ */
+export function layoutBlueprint(blueprint, options = {}) {
+  const left = options.x ?? 0;
+  const top  = options.y ?? 0;
+  const auto = options.layout === 'auto';
+  const measureCard = options.measureCard ?? (card => estimateCardHeight(card));
+
+  const cellMap = new Map();
+  for (const cell of blueprint.cells) cellMap.set(`${cell.laneId}/${cell.subPhaseId}`, cell);
+
+  // Stacks per sub-phase: one on the fixed grid; in auto layout enough for
+  // its fullest cell, up to MAX_STACKS, and none when it has no cards
+  const columns = [];
+  blueprint.phases.forEach((phase, phaseIndex) => {
+    phase.subPhases.forEach((sp, subPhaseIndex) => {
+      let stacks = 1;
+      if (auto) {
+        const most = Math.max(0, ...blueprint.lanes.map(l => cellMap.get(`${l.id}/${sp.id}`)?.cards.length ?? 0));
+        stacks = Math.min(MAX_STACKS, Math.ceil(most / STACK_LIMIT));
+      }
+      const width = !auto ? PHASE_WIDTH : stacks === 0 ? COMPACT_WIDTH : stackedWidth(stacks);
+      columns.push({ sp, phase, phaseIndex, subPhaseIndex, stacks, width });
+    });
+  });
+
+  const gridLeft = left + LANE_LABEL_WIDTH;
+  const xs = [];
+  let nextX = gridLeft;
+  for (const c of columns) { xs.push(nextX); nextX += c.width; }
+  const tableWidth = nextX - left;
+  const columnX    = i => xs[i];
+
+  const labels = [];
+  const lines  = [];
+  const hLine = (x, y, length, color) => lines.push({ orientation: 'horizontal', x, y, length, color });
+  const vLine = (x, y, length, color) => lines.push({ orientation: 'vertical', x, y, length, color });
+
+  const grid = {
+    lanes: [],
+    columns: columns.map(({ sp, phaseIndex, subPhaseIndex, width }, i) => (
+      { id: sp.id, x: columnX(i), width, phaseIndex, subPhaseIndex }
+    )),
+  };
+
+  // ── Header: one label per phase spanning its sub-phases, then sub-phases ──
+  let colOffset = 0;
+  for (const phase of blueprint.phases) {
+    const span = phase.subPhases.length;
+    const spanWidth = columns.slice(colOffset, colOffset + span).reduce((w, c) => w + c.width, 0);
+    labels.push({
+      role: 'phase', text: phase.label, fontSize: 13, weight: 'semibold', color: '#1A1A1A',
+      x: columnX(colOffset), y: top + 8, width: spanWidth,
+    });
+    colOffset += span;
+    if (colOffset < columns.length) vLine(columnX(colOffset), top, HEADER_HEIGHT, LINE_STRONG);
+  }
+
+  hLine(gridLeft, top + PHASE_HEADER_H, tableWidth - LANE_LABEL_WIDTH, LINE_MEDIUM);
+
+  columns.forEach(({ sp, phase, width }, i) => {
+    labels.push({
+      role: 'sub-phase', text: sp.label, fontSize: 11, weight: 'regular', color: '#555555',
+      x: columnX(i), y: top + PHASE_HEADER_H + 6, width,
+    });
+    if (i < columns.length - 1 && columns[i + 1].phase.id === phase.id) {
+      vLine(columnX(i) + width, top + PHASE_HEADER_H, HEADER_HEIGHT - PHASE_HEADER_H, LINE_LIGHT);
+    }
+  });
+
+  hLine(left, top + HEADER_HEIGHT, tableWidth, LINE_STRONG);
+
+  // ── Lanes: each row is as tall as its fullest cell ────────────────────────
+  // Each card goes on the shortest stack of its cell, so cell-relative
+  // positions are worked out before the row height is known.
+  const cards = [];
+  const more = [];
+  let y = top + HEADER_HEIGHT;
+
+  blueprint.lanes.forEach((lane, li) => {
+    const rowCells = columns.map(({ sp, stacks }) => {
+      const cell = cellMap.get(`${lane.id}/${sp.id}`);
+      const all = (cell?.cards ?? []).map((card, index) => ({ card, index, key: cardKey(cell, card, index) }));
+      const capacity = auto ? stacks * STACK_LIMIT : Infinity;
+      const shown = all.length > capacity ? all.slice(0, capacity - 1) : all;
+      const hidden = all.slice(shown.length);
+
+      const heights = new Array(Math.max(1, stacks)).fill(0);
+      const place = height => {
+        const s = heights.indexOf(Math.min(...heights));
+        const at = { dx: CELL_PADDING + s * (CARD_WIDTH + CARD_GAP), dy: CELL_PADDING + heights[s] };
+        heights[s] += height + CARD_GAP;
+        return at;
+      };
+      const placed = shown.map(({ card, index, key }) => {
+        const height = measureCard(card, key, CARD_WIDTH);
+        return { key, laneId: lane.id, subPhaseId: sp.id, index, card, width: CARD_WIDTH, height, ...place(height) };
+      });
+      const overflow = hidden.length > 0
+        ? { laneId: lane.id, subPhaseId: sp.id, keys: hidden.map(h => h.key), width: CARD_WIDTH, height: MORE_CARD_HEIGHT, ...place(MORE_CARD_HEIGHT) }
+        : null;
+      const content = all.length > 0 ? CELL_PADDING * 2 + Math.max(...heights) - CARD_GAP : 0;
+      return { placed, overflow, content };
+    });
+
+    const rowHeight = Math.max(ROW_MIN_HEIGHT, ...rowCells.map(c => c.content));
+
+    if (li > 0) hLine(left, y, tableWidth, LINE_MEDIUM);
+    grid.lanes.push({ id: lane.id, y, height: rowHeight });
+
+    labels.push({
+      role: 'lane', text: lane.label, fontSize: 11, weight: 'semibold', color: '#555555',
+      x: left, y, width: LANE_LABEL_WIDTH, height: rowHeight,
+    });
+    vLine(gridLeft, y, rowHeight, LINE_LIGHT);
+
+    rowCells.forEach(({ placed, overflow }, ci) => {
+      for (const { dx, dy, ...c } of placed) cards.push({ ...c, x: columnX(ci) + dx, y: y + dy });
+      if (overflow) {
+        const { dx, dy, ...m } = overflow;
+        more.push({ ...m, x: columnX(ci) + dx, y: y + dy });
+      }
+      if (ci < columns.length - 1) {
+        const phaseBreak = columns[ci + 1].phase.id !== columns[ci].phase.id;
+        vLine(columnX(ci) + columns[ci].width, y, rowHeight, phaseBreak ? LINE_STRONG : LINE_LIGHT);
+      }
+    });
+
+    y += rowHeight;
+  });
+
+  // Outer edges
+  hLine(left, y, tableWidth, LINE_STRONG);
+  vLine(left, top + HEADER_HEIGHT, y - top - HEADER_HEIGHT, LINE_STRONG);
+  vLine(left + tableWidth, top + HEADER_HEIGHT, y - top - HEADER_HEIGHT, LINE_STRONG);
+
+  // Links between laid-out cards; links to cards not in the blueprint are
+  // dropped, and links to collapsed cards end at their "+N more" card
+  const byKey = new Map(cards.map(c => [c.key, c]));
+  for (const m of more) for (const key of m.keys) byKey.set(key, m);
+  const links = [];
+  for (const link of (blueprint.links ?? [])) {
+    const from = byKey.get(link.from);
+    const to = byKey.get(link.to);
+    if (from && to && from !== to) links.push({ ...link, points: linkRoute(from, to) });
+  }
+
+  return { width: left + tableWidth, height: y, grid, labels, lines, cards, more, links };
+}
@@ -1,16 +1,24 @@
 /**
  * build.js
  *
- * Bundles the Figma plugin, optionally against a state-specific blueprint.
+ * Bundles the Figma plugin with every blueprint and card set found in the
+ * input dir, a diagram of every contract state machine and the contract SLA
+ * types (for the metrics overlay), so the plugin UI can offer them all
+ * without a rebuild.
  *
  * Usage:
- *   node build.js                                    # baseline → dist/
- *   node build.js <input-dir> <output-dir>           # state-specific
+ *   node build.js                                    # baseline data/ → output/figma-plugin-dist/
+ *   node build.js <input-dir> <output-dir>           # custom input
  *   node build.js --watch                            # watch mode (baseline)
- *   node build.js <input-dir> <output-dir> --watch   # watch mode (state-specific)
+ *   node build.js <input-dir> <output-dir> --watch   # watch mode (custom input)
  *
- * Examples:
- *   node build.js src/blueprints/states/co dist/co
+ * Input dir layout:
+ *   <input-dir>/*.json                  baseline blueprints, card sets and state machine diagrams
+ *   <input-dir>/states/<state>/*.json   state overlays (labelled with the state code)
+ *   <input-dir>/states/<state>/theme.yaml  state color theme (a mode of the card palettes)
+ *
+ * The baseline data/ is written by the explorer build
+ * (packages/explorer: node build.js --only=service-blueprints).
  *
  * The output dir receives main.js, ui.html, and a manifest.json with paths
  * relative to that folder so Figma can load it directly.
@@ -21,6 +29,8 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import yaml from 'js-yaml';
+import { stateMachineDiagrams } from '../generate-state-diagrams.js';
+import { policyCardSets } from '../policy-cards.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -32,161 +42,158 @@ const watch = process.argv.includes('--watch');
 const inputDir  = args[0] ? path.resolve(args[0]) : path.join(__dirname, '..', '..', 'data');
 const outputDir = args[1] ? path.resolve(args[1]) : path.join(__dirname, '..', '..', 'output', 'figma-plugin-dist');
 
-// ── Validate input ────────────────────────────────────────────────────────────
+// ── Collect blueprints and card sets ──────────────────────────────────────────
+// JSON files are classified by shape: a Blueprint has lanes and cells, a card
+// set (CardData) has a domain and phases but no lanes, and a state machine
+// diagram has states and transitions.
 
-const blueprintSrc = path.join(inputDir, 'intake.json');
-if (!fs.existsSync(blueprintSrc)) {
-  console.error(`Error: no intake.json found in ${inputDir}`);
-  process.exit(1);
+const manifest = { blueprints: [], cards: [], stateMachines: [], slaTypes: [] };
+const KIND_LABELS = { blueprints: 'Blueprint', cards: 'Cards', stateMachines: 'State machine' };
+
+function classify(data) {
+  if (Array.isArray(data?.lanes) && Array.isArray(data?.cells)) return 'blueprints';
+  if (Array.isArray(data?.states) && Array.isArray(data?.transitions)) return 'stateMachines';
+  if (typeof data?.domain === 'string' && Array.isArray(data?.phases)) return 'cards';
+  return null;
 }
 
-// ── Stage blueprint ───────────────────────────────────────────────────────────
-// Copy selected blueprint to the well-known path main.ts imports from.
+function collectEntries(dir, state) {
+  if (!fs.existsSync(dir)) return;
+  for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.json') && !f.startsWith('_')).sort()) {
+    const src = path.join(dir, file);
+    let data;
+    try {
+      data = JSON.parse(fs.readFileSync(src, 'utf8'));
+    } catch (err) {
+      console.warn(`Warning: skipping ${path.relative(__dirname, src)}: ${err.message}`);
+      continue;
+    }
+    const kind = classify(data);
+    if (!kind) continue;
+
+    const stem = path.basename(file, '.json');
+    const domain = kind === 'blueprints' ? stem : data.domain;
+    manifest[kind].push({
+      key: state ? `${state}/${stem}` : stem,
+      label: state ? `${data.name} (${state.toUpperCase()})` : data.name,
+      domain,
+      ...(state ? { state } : {}),
+      data,
+    });
+    console.log(`${KIND_LABELS[kind]}: ${path.relative(__dirname, src)}`);
+  }
+}
 
-const currentPath = path.join(__dirname, 'src', '_current.json');
-fs.copyFileSync(blueprintSrc, currentPath);
-console.log(`Blueprint: ${path.relative(__dirname, blueprintSrc)} → src/_current.json`);
+collectEntries(inputDir);
+const statesDir = path.join(inputDir, 'states');
+if (fs.existsSync(statesDir)) {
+  for (const state of fs.readdirSync(statesDir).sort()) {
+    if (fs.statSync(path.join(statesDir, state)).isDirectory()) collectEntries(path.join(statesDir, state), state);
+  }
+}
+
+if (manifest.blueprints.length === 0) {
+  console.error(`Error: no blueprint JSON files found in ${inputDir}`);
+  process.exit(1);
+}
 
 // ── Stage cards ───────────────────────────────────────────────────────────────
-// Derive policy cards from config.yaml steps. Steps may use either:
-//   ref: "section/key"  — resolved via domain annotations + policy registry
-//   regulatory: [...]   — legacy inline format (kept for unconverted steps)
-// Groups by flow label (phase) → enclosing fragment label (sub-phase).
-// Deduplicates globally by policy ID / citation so each regulation appears once.
+// Derive one policy card set per domain from config.yaml steps (see
+// ../policy-cards.js). A card set for the same domain from the input dir takes
+// precedence.
 
 const configSrc = path.join(__dirname, '..', '..', '..', 'src', 'config.yaml');
-const cardsCurrentPath = path.join(__dirname, 'src', '_current_cards.json');
 const contractsDir = path.join(__dirname, '..', '..', '..', '..', 'contracts');
 
 if (fs.existsSync(configSrc)) {
   const config = yaml.load(fs.readFileSync(configSrc, 'utf8'));
 
-  // Load domain annotations and policy registry from contracts
-  let annotationSections = {};
-  let policies = {};
-  const citationToPolicyId = {};  // reverse index: citation string → policy ID
-
-  const annotationsPath = path.join(contractsDir, 'intake-annotations.yaml');
-  if (fs.existsSync(annotationsPath)) {
-    const annotations = yaml.load(fs.readFileSync(annotationsPath, 'utf8'));
-    annotationSections = {
-      schema: annotations.schema || {},
-      operations: annotations.operations || {},
-      events: annotations.events || {},
-    };
-  }
-
   const registryPath = path.join(contractsDir, 'platform-registry-policies.yaml');
-  if (fs.existsSync(registryPath)) {
-    const registry = yaml.load(fs.readFileSync(registryPath, 'utf8'));
-    policies = registry.policies || {};
-    for (const [id, policy] of Object.entries(policies)) {
-      if (policy.citation) citationToPolicyId[policy.citation] = id;
-    }
-  }
+  const policies = fs.existsSync(registryPath) ? yaml.load(fs.readFileSync(registryPath, 'utf8')).policies || {} : {};
 
-  // Resolve "section/key" ref to policy card objects
-  function resolveRef(ref) {
-    const slashIdx = ref.indexOf('/');
-    if (slashIdx === -1) return [];
-    const section = ref.slice(0, slashIdx);
-    const key = ref.slice(slashIdx + 1);
-    const annotation = annotationSections[section]?.[key];
-    if (!annotation?.policies) return [];
-    return annotation.policies.flatMap(id => {
-      const policy = policies[id];
-      if (!policy) return [];
-      return [{ policyId: id, type: 'policy', text: policy.citation, subtext: policy.description?.trim(), citation: policy.citation }];
-    });
+  function annotationsFor(domain) {
+    const annotationsPath = path.join(contractsDir, `${domain}-annotations.yaml`);
+    return fs.existsSync(annotationsPath) ? yaml.load(fs.readFileSync(annotationsPath, 'utf8')) : undefined;
   }
 
-  // First pass: collect every occurrence of each policy across all flows/fragments.
-  // occurrences: dedup key → [{ flowLabel, fragmentLabel, text, subtext, citation, legacy? }]
-  const occurrences = new Map();
-
-  function collect(steps, flowLabel, fragmentLabel) {
-    for (const step of steps) {
-      const frag = (step.fragment !== undefined && step.label) ? step.label : fragmentLabel;
-
-      if (step.ref && typeof step.ref === 'string') {
-        for (const card of resolveRef(step.ref)) {
-          if (!occurrences.has(card.policyId)) occurrences.set(card.policyId, []);
-          occurrences.get(card.policyId).push({ flowLabel, fragmentLabel: frag, text: card.text, subtext: card.subtext, citation: card.citation });
-        }
-      }
-
-      if (Array.isArray(step.regulatory)) {
-        for (const reg of step.regulatory) {
-          if (!reg.citation) continue;
-          // Use policy ID as dedup key when the citation matches a registry entry
-          const key = citationToPolicyId[reg.citation] || reg.citation;
-          if (!occurrences.has(key)) occurrences.set(key, []);
-          occurrences.get(key).push({ flowLabel, fragmentLabel: frag, text: reg.summary, subtext: reg.detail, citation: reg.citation });
-        }
-      }
+  const derived = policyCardSets(config, { policies, annotationsFor })
+    .filter(cardsData => !manifest.cards.some(entry => entry.key === cardsData.domain))
+    .map(cardsData => ({ key: cardsData.domain, label: cardsData.name, domain: cardsData.domain, data: cardsData }));
+  for (const entry of derived) console.log(`Cards: ${path.relative(__dirname, configSrc)} (${entry.domain})`);
+  manifest.cards.unshift(...derived);
+} else {
+  console.warn(`Warning: no config.yaml found at ${configSrc}`);
+}
 
-      if (Array.isArray(step.steps)) collect(step.steps, flowLabel, frag);
-      if (Array.isArray(step.operands)) {
-        for (const op of step.operands) {
-          if (Array.isArray(op.steps)) collect(op.steps, flowLabel, op.label || frag);
-        }
-      }
+// ── Stage state machines ──────────────────────────────────────────────────────
+// One diagram per machine in contracts/*-state-machine.yaml, after any diagrams
+// from the input dir. The platform file has no machines and yields none.
+
+if (fs.existsSync(contractsDir)) {
+  for (const file of fs.readdirSync(contractsDir).filter(f => f.endsWith('-state-machine.yaml')).sort()) {
+    const src = path.join(contractsDir, file);
+    const diagrams = stateMachineDiagrams(yaml.load(fs.readFileSync(src, 'utf8')));
+    for (const diagram of diagrams) {
+      if (manifest.stateMachines.some(entry => entry.key === diagram.id)) continue;
+      manifest.stateMachines.push({ key: diagram.id, label: diagram.name, domain: diagram.domain, data: diagram });
     }
+    if (diagrams.length > 0) console.log(`State machines: ${path.relative(__dirname, src)}`);
   }
+}
 
-  for (const flow of (config.flows || [])) {
-    if (Array.isArray(flow.steps)) collect(flow.steps, flow.label, flow.label);
-  }
-
-  // Second pass: place each policy once (at first occurrence), appending
-  // "Used in: A · B · C" to subtext when it appears in multiple phases.
-  const grouped = {};  // { [flowLabel]: { [fragmentLabel]: CardEntry[] } }
-
-  for (const [, list] of occurrences) {
-    const first = list[0];
-    const phases = [...new Set(list.map(o => o.flowLabel))];
-    const usedIn = phases.length > 1 ? `Used in: ${phases.join(' · ')}` : null;
-    const subtext = [first.subtext, usedIn].filter(Boolean).join('\n\n') || undefined;
-    const card = { type: 'policy', text: first.text, subtext, citation: first.citation };
+// ── Stage SLA types ───────────────────────────────────────────────────────────
+// Every SLA type in contracts/*-sla-types.yaml, for the `sla` of the metric
+// bindings on blueprint sub-phases.
 
-    if (!grouped[first.flowLabel]) grouped[first.flowLabel] = {};
-    if (!grouped[first.flowLabel][first.fragmentLabel]) grouped[first.flowLabel][first.fragmentLabel] = [];
-    grouped[first.flowLabel][first.fragmentLabel].push(card);
+if (fs.existsSync(contractsDir)) {
+  for (const file of fs.readdirSync(contractsDir).filter(f => f.endsWith('-sla-types.yaml')).sort()) {
+    const src = path.join(contractsDir, file);
+    const slaTypes = yaml.load(fs.readFileSync(src, 'utf8'))?.slaTypes ?? [];
+    for (const { id, name, duration, warningThresholdPercent } of slaTypes) {
+      manifest.slaTypes.push({ id, name, duration, ...(warningThresholdPercent !== undefined ? { warningThresholdPercent } : {}) });
+    }
+    if (slaTypes.length > 0) console.log(`SLA types: ${path.relative(__dirname, src)}`);
   }
-
-  const phases = Object.entries(grouped).map(([flowLabel, fragments], fi) => ({
-    id: `flow-${fi}`,
-    label: flowLabel,
-    subPhases: Object.entries(fragments).map(([fragLabel, cards], si) => ({
-      id: `frag-${fi}-${si}`,
-      label: fragLabel,
-      cards,
-    })),
-  }));
-
-  const cardsData = { domain: 'intake', name: 'Intake', phases };
-  fs.writeFileSync(cardsCurrentPath, JSON.stringify(cardsData));
-  console.log(`Cards: ${path.relative(__dirname, configSrc)} → src/_current_cards.json`);
-} else {
-  fs.writeFileSync(cardsCurrentPath, JSON.stringify({ domain: '', name: '', phases: [] }));
-  console.warn(`Warning: no config.yaml found at ${configSrc}`);
 }
 
 // ── Stage card types ──────────────────────────────────────────────────────────
 // Convert card-types YAML to JSON and stage to the well-known path renderer.ts imports.
 // This is the source of truth for all card type colors, labels, and icon keys.
+// State themes (<input-dir>/states/<state>/theme.yaml) are added to its
+// `themes`, named by the upper-cased state code.
+
+function collectStateThemes() {
+  const themes = {};
+  if (!fs.existsSync(statesDir)) return themes;
+  for (const state of fs.readdirSync(statesDir).sort()) {
+    const themePath = path.join(statesDir, state, 'theme.yaml');
+    if (!fs.existsSync(themePath)) continue;
+    const theme = yaml.load(fs.readFileSync(themePath, 'utf8')) ?? {};
+    themes[state.toUpperCase()] = { cards: theme.cards ?? {}, actors: theme.actors ?? {} };
+    console.log(`Theme: ${path.relative(__dirname, themePath)}`);
+  }
+  return themes;
+}
 
 const cardTypesSrc = path.join(__dirname, '..', '..', 'config', 'card-types.yaml');
 const cardTypesCurrentPath = path.join(__dirname, 'src', '_current_card_types.json');
 if (fs.existsSync(cardTypesSrc)) {
   const cardTypesData = yaml.load(fs.readFileSync(cardTypesSrc, 'utf8'));
+  cardTypesData.themes = { ...cardTypesData.themes, ...collectStateThemes() };
   fs.writeFileSync(cardTypesCurrentPath, JSON.stringify(cardTypesData));
   console.log(`Card types: ${path.relative(__dirname, cardTypesSrc)} → src/_current_card_types.json`);
 } else {
-  fs.writeFileSync(cardTypesCurrentPath, JSON.stringify({ types: {}, actors: {} }));
+  fs.writeFileSync(cardTypesCurrentPath, JSON.stringify({ types: {}, actors: {}, themes: {} }));
   console.warn(`Warning: no card-types.yaml found at ${cardTypesSrc}`);
 }
 
+// ── Stage manifest ────────────────────────────────────────────────────────────
+// Everything collected above, written to the well-known path main.ts imports.
+
+const manifestPath = path.join(__dirname, 'src', '_manifest.json');
+fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+console.log(`Manifest: ${manifest.blueprints.length} blueprints, ${manifest.cards.length} card sets, ${manifest.stateMachines.length} state machines, ${manifest.slaTypes.length} SLA types → src/_manifest.json`);
+
 // ── Build ─────────────────────────────────────────────────────────────────────
 
 fs.mkdirSync(outputDir, { recursive: true });
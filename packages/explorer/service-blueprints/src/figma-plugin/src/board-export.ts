@@ -0,0 +1,368 @@
+import { Blueprint, Card, CardData, CardEntry, CardType } from './types.js';
+import { CardLibraryScene, LIBRARY_CARD_WIDTH, layoutCardLibrary, libraryTitle } from './library-layout.js';
+import {
+  BlueprintScene, Box, LINK_STYLES, LayoutMode, MORE_STYLE, cardKey, estimateCardHeight, layoutBlueprint, lineHeight,
+} from '../../blueprint-layout.js';
+
+// ── Board export ──────────────────────────────────────────────────────────────
+// Turns a blueprint or card library into a Miro board import and a CSV of its
+// cards. Pure — no Figma API; renderer.ts passes in the card palettes.
+//
+// Positions come from blueprint-layout.js and library-layout.ts with estimated
+// card heights, as in the SVG renderer, so a board matches the Figma and
+// FigJam renders. Phases become frames; note and question cards become
+// stickies, as they do in FigJam.
+//
+// A MiroBoard lists request bodies for Miro's REST API (v2), frames first.
+// Each has a local `id`; `parent` and connector ends refer to those ids, and
+// an import script swaps in the ids Miro returns as it creates the items. An
+// item in a frame is positioned from the frame's top-left corner, as Miro
+// expects; all positions are of the item's center.
+
+export interface CardColors {
+  fill: string;
+  border: string;
+  text: string;
+  label: string;   // type label, e.g. "SYSTEM"; '' for notes
+}
+
+export type ColorsFor = (card: Card) => CardColors;
+
+export interface BoardOptions {
+  colorsFor: ColorsFor;
+  layout?: LayoutMode;  // blueprints only; defaults to 'grid'
+}
+
+interface MiroPosition {
+  x: number;
+  y: number;
+  origin: 'center';
+}
+
+interface MiroBase {
+  id: string;           // local id
+  parent?: string;      // local id of the frame it is in
+  position: MiroPosition;
+  geometry: { width: number; height?: number };  // stickies and text take a width only
+}
+
+export interface MiroFrame extends MiroBase {
+  type: 'frame';
+  data: { title: string; format: 'custom'; type: 'freeform' };
+  style: { fillColor: string };
+}
+
+export interface MiroSticky extends MiroBase {
+  type: 'sticky_note';
+  data: { content: string; shape: 'rectangle' };
+  style: { fillColor: string; textAlign: 'left'; textAlignVertical: 'top' };
+}
+
+export interface MiroShape extends MiroBase {
+  type: 'shape';
+  data: { content: string; shape: 'round_rectangle' };
+  style: {
+    fillColor: string; borderColor: string; borderStyle: 'normal' | 'dashed'; borderWidth: string;
+    color: string; fontSize: string; textAlign: 'left' | 'center'; textAlignVertical: 'top' | 'middle';
+  };
+}
+
+export interface MiroText extends MiroBase {
+  type: 'text';
+  data: { content: string };
+  style: { color: string; fontSize: string; textAlign: 'left' | 'center' };
+}
+
+export type MiroItem = MiroFrame | MiroSticky | MiroShape | MiroText;
+
+export interface MiroConnector {
+  startItem: { id: string };
+  endItem: { id: string };
+  shape: 'elbowed';
+  style: { strokeColor: string; strokeStyle: 'normal' | 'dashed'; strokeWidth: string; endStrokeCap: 'arrow' };
+}
+
+export interface MiroBoard {
+  name: string;
+  items: MiroItem[];
+  connectors: MiroConnector[];
+}
+
+// Miro stickies take a named color, not a hex one
+const STICKY_COLORS: Partial<Record<CardType, string>> = {
+  note:     'light_yellow',
+  question: 'gray',
+};
+
+const FRAME_FILL     = '#FFFFFF';
+const LABEL_COLOR    = '#555555';
+const CARD_FONT_SIZE = 12;
+
+const CSV_COLUMNS = [
+  'key', 'phase', 'sub_phase', 'lane', 'type', 'actor', 'text', 'subtext', 'citation',
+  'domain', 'status', 'citation_url', 'x', 'y', 'width', 'height',
+];
+
+// ── Shared with the FigJam renderer ───────────────────────────────────────────
+
+// Note and question cards are stickies on a whiteboard; the rest are shapes
+export function isSticky(card: { type: CardType }): boolean {
+  return card.type === 'note' || card.type === 'question';
+}
+
+// What a board card says: its type label, title and subtext
+export function cardParagraphs(card: Card, label: string): string[] {
+  const paragraphs = label ? [label, card.text] : [card.text];
+  if (card.subtext) paragraphs.push(card.subtext);
+  return paragraphs;
+}
+
+export interface PhaseBox extends Box {
+  id: string;
+  label: string;
+}
+
+// Where each phase's sub-phase columns are, from `top` (where the scene was
+// laid out) to the bottom of the scene
+export function phaseBoxes(blueprint: Blueprint, scene: BlueprintScene, top = 0): PhaseBox[] {
+  const boxes: PhaseBox[] = [];
+  for (const phase of blueprint.phases) {
+    const ids = phase.subPhases.map(sp => sp.id);
+    const columns = scene.grid.columns.filter(c => ids.indexOf(c.id) !== -1);
+    if (columns.length === 0) continue;
+    const x = columns[0].x;
+    const width = columns.reduce((w, c) => w + c.width, 0);
+    boxes.push({ id: phase.id, label: phase.label, x, y: top, width, height: scene.height - top });
+  }
+  return boxes;
+}
+
+// ── Layouts with estimated heights ────────────────────────────────────────────
+
+function measure(colorsFor: ColorsFor) {
+  return (card: Card, width: number) => estimateCardHeight(card, width, card.type === 'note' ? '' : colorsFor(card).label);
+}
+
+function blueprintScene(blueprint: Blueprint, options: BoardOptions): BlueprintScene {
+  const height = measure(options.colorsFor);
+  return layoutBlueprint(blueprint, { layout: options.layout, measureCard: (card, _key, width) => height(card, width) });
+}
+
+function libraryScene(data: CardData, options: BoardOptions): CardLibraryScene {
+  const height = measure(options.colorsFor);
+  return layoutCardLibrary(data, {
+    measureCard: entry => height(entry, LIBRARY_CARD_WIDTH),
+    measureText: role => lineHeight(role === 'title' ? 16 : 10),
+  });
+}
+
+// ── Miro items ────────────────────────────────────────────────────────────────
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function content(paragraphs: string[], bold: boolean): string {
+  return paragraphs.map((p, i) => `<p>${i === 0 && bold ? `<strong>${escapeHtml(p)}</strong>` : escapeHtml(p)}</p>`).join('');
+}
+
+// Top-left corner of a frame, or the board's origin for items not in one
+function topLeft(frame?: MiroFrame): { x: number; y: number } {
+  if (!frame) return { x: 0, y: 0 };
+  return { x: frame.position.x - frame.geometry.width / 2, y: frame.position.y - (frame.geometry.height as number) / 2 };
+}
+
+function centerOf(box: Box, frame?: MiroFrame): MiroPosition {
+  const origin = topLeft(frame);
+  return { x: box.x - origin.x + box.width / 2, y: box.y - origin.y + box.height / 2, origin: 'center' };
+}
+
+function frameItem(id: string, title: string, box: Box): MiroFrame {
+  return {
+    id, type: 'frame',
+    data: { title, format: 'custom', type: 'freeform' },
+    style: { fillColor: FRAME_FILL },
+    position: centerOf(box),
+    geometry: { width: box.width, height: box.height },
+  };
+}
+
+function cardItem(id: string, card: Card, box: Box, frame: MiroFrame, colorsFor: ColorsFor): MiroItem {
+  const colors = colorsFor(card);
+  const label = card.type === 'note' ? '' : colors.label;
+  const base = { id, parent: frame.id, position: centerOf(box, frame) };
+  if (isSticky(card)) {
+    return {
+      ...base, type: 'sticky_note', geometry: { width: box.width },
+      data: { content: content(cardParagraphs(card, label), Boolean(label)), shape: 'rectangle' },
+      style: { fillColor: STICKY_COLORS[card.type] ?? 'light_yellow', textAlign: 'left', textAlignVertical: 'top' },
+    };
+  }
+  return {
+    ...base, type: 'shape', geometry: { width: box.width, height: box.height },
+    data: { content: content(cardParagraphs(card, label), Boolean(label)), shape: 'round_rectangle' },
+    style: {
+      fillColor: colors.fill, borderColor: colors.border, borderStyle: card.status === 'future' ? 'dashed' : 'normal',
+      borderWidth: '2', color: colors.text, fontSize: String(CARD_FONT_SIZE), textAlign: 'left', textAlignVertical: 'top',
+    },
+  };
+}
+
+function textItem(
+  id: string, text: string, box: Box, fontSize: number, textAlign: MiroText['style']['textAlign'], frame?: MiroFrame
+): MiroText {
+  return {
+    id, type: 'text', ...(frame ? { parent: frame.id } : {}),
+    data: { content: escapeHtml(text) },
+    style: { color: LABEL_COLOR, fontSize: String(fontSize), textAlign },
+    position: centerOf(box, frame),
+    geometry: { width: box.width },
+  };
+}
+
+// One frame per phase, with its sub-phase headers and cards; lane labels
+// left of the frames. Links become connectors.
+export function blueprintBoard(blueprint: Blueprint, options: BoardOptions): MiroBoard {
+  const scene = blueprintScene(blueprint, options);
+  const items: MiroItem[] = [];
+  const frames = new Map<string, MiroFrame>();   // by sub-phase id
+  for (const box of phaseBoxes(blueprint, scene)) {
+    const frame = frameItem(`phase:${box.id}`, box.label, box);
+    items.push(frame);
+    const phase = blueprint.phases.filter(p => p.id === box.id)[0];
+    for (const sp of phase.subPhases) frames.set(sp.id, frame);
+  }
+
+  scene.grid.columns.forEach((column, i) => {
+    const label = scene.labels.filter(l => l.role === 'sub-phase')[i];
+    const box = { x: column.x, y: label.y, width: column.width, height: lineHeight(label.fontSize) };
+    items.push(textItem(`sub-phase:${column.id}`, label.text, box, label.fontSize, 'center', frames.get(column.id)));
+  });
+  scene.labels.filter(l => l.role === 'lane').forEach((label, i) => {
+    const height = lineHeight(label.fontSize);
+    const box = { x: label.x, y: label.y + ((label.height ?? height) - height) / 2, width: label.width, height };
+    items.push(textItem(`lane:${scene.grid.lanes[i].id}`, label.text, box, label.fontSize, 'center'));
+  });
+
+  const ids = new Map<string, string>();  // card key → item id
+  for (const c of scene.cards) {
+    items.push(cardItem(`card:${c.key}`, c.card, c, frames.get(c.subPhaseId) as MiroFrame, options.colorsFor));
+    ids.set(c.key, `card:${c.key}`);
+  }
+  for (const m of scene.more) {
+    const id = `more:${m.laneId}/${m.subPhaseId}`;
+    const frame = frames.get(m.subPhaseId) as MiroFrame;
+    items.push({
+      id, type: 'shape', parent: frame.id, position: centerOf(m, frame), geometry: { width: m.width, height: m.height },
+      data: { content: `<p><strong>+${m.keys.length} more</strong></p>`, shape: 'round_rectangle' },
+      style: {
+        fillColor: MORE_STYLE.fill, borderColor: MORE_STYLE.stroke, borderStyle: 'dashed', borderWidth: '1',
+        color: MORE_STYLE.color, fontSize: '14', textAlign: 'center', textAlignVertical: 'middle',
+      },
+    });
+    for (const key of m.keys) ids.set(key, id);
+  }
+
+  // Links with an end that isn't on the board are left out
+  const connectors: MiroConnector[] = [];
+  for (const link of scene.links) {
+    const start = ids.get(link.from);
+    const end = ids.get(link.to);
+    if (start === undefined || end === undefined) continue;
+    const style = LINK_STYLES[link.kind];
+    connectors.push({
+      startItem: { id: start },
+      endItem: { id: end },
+      shape: 'elbowed',
+      style: { strokeColor: style.color, strokeStyle: style.dash.length > 0 ? 'dashed' : 'normal', strokeWidth: '2', endStrokeCap: 'arrow' },
+    });
+  }
+
+  return { name: blueprint.name, items, connectors };
+}
+
+// One frame holding the library as the Cards mode draws it
+export function libraryBoard(data: CardData, options: BoardOptions): MiroBoard {
+  const scene = libraryScene(data, options);
+  const frame = frameItem('library', libraryTitle(data), { x: 0, y: 0, width: scene.width, height: scene.height });
+  const items: MiroItem[] = [frame];
+  scene.texts.forEach((t, i) => {
+    const fontSize = t.role === 'title' ? 16 : 10;
+    const box = { x: t.x, y: t.y, width: scene.width - t.x * 2, height: lineHeight(fontSize) };
+    items.push(textItem(`text:${i}`, t.text, box, fontSize, 'left', frame));
+  });
+  scene.cards.forEach((c, i) => items.push(cardItem(`card:${i}`, c.entry, c, frame, options.colorsFor)));
+  return { name: libraryTitle(data), items, connectors: [] };
+}
+
+// ── CSV ───────────────────────────────────────────────────────────────────────
+// One row per card, with where the board puts it. Cards an auto layout
+// collapses into "+N more" have no position.
+
+interface CsvRow {
+  key: string;
+  phase: string;
+  subPhase: string;
+  lane: string;
+  card: Card | CardEntry;
+  box?: Box;
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: CsvRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const { key, phase, subPhase, lane, card, box } of rows) {
+    const citation = 'citation' in card ? card.citation : undefined;
+    lines.push([
+      key, phase, subPhase, lane, card.type, card.actor, card.text, card.subtext, citation,
+      card.domain, card.status, card.citationUrl,
+      box && Math.round(box.x), box && Math.round(box.y), box && Math.round(box.width), box && Math.round(box.height),
+    ].map(csvField).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Cards in blueprint order: lane by lane, then column by column
+export function blueprintCsv(blueprint: Blueprint, options: BoardOptions): string {
+  const scene = blueprintScene(blueprint, options);
+  const boxes = new Map(scene.cards.map(c => [c.key, c as Box]));
+  const phaseOf = new Map<string, { phase: string; subPhase: string }>();
+  for (const phase of blueprint.phases) {
+    for (const sp of phase.subPhases) phaseOf.set(sp.id, { phase: phase.label, subPhase: sp.label });
+  }
+
+  const rows: CsvRow[] = [];
+  for (const lane of blueprint.lanes) {
+    for (const column of scene.grid.columns) {
+      const cell = blueprint.cells.filter(c => c.laneId === lane.id && c.subPhaseId === column.id)[0];
+      if (!cell) continue;
+      const where = phaseOf.get(column.id) as { phase: string; subPhase: string };
+      cell.cards.forEach((card, i) => {
+        const key = cardKey(cell, card, i);
+        rows.push({ key, ...where, lane: lane.label, card, box: boxes.get(key) });
+      });
+    }
+  }
+  return toCsv(rows);
+}
+
+// Cards in library order; keys are "phaseId/subPhaseId/index"
+export function libraryCsv(data: CardData, options: BoardOptions): string {
+  const scene = libraryScene(data, options);
+  const labels = new Map<string, { phase: string; subPhase: string }>();
+  for (const phase of data.phases) {
+    for (const sp of phase.subPhases) labels.set(sp.id, { phase: phase.label, subPhase: sp.label });
+  }
+  const counts = new Map<string, number>();
+  const rows = scene.cards.map(c => {
+    const index = counts.get(c.subPhaseId) ?? 0;
+    counts.set(c.subPhaseId, index + 1);
+    const where = labels.get(c.subPhaseId) as { phase: string; subPhase: string };
+    return { key: `${c.phaseId}/${c.subPhaseId}/${index}`, ...where, lane: '', card: c.entry, box: c as Box };
+  });
+  return toCsv(rows);
+}
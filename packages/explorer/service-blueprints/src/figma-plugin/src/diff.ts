@@ -0,0 +1,204 @@
+import { Blueprint, Card, Lane, Phase, SubPhase } from './types.js';
+
+// ── Blueprint diff ────────────────────────────────────────────────────────────
+// Compares two Blueprint payloads (e.g. the baseline and the current build) cell
+// by cell. Pure — no Figma API — so it can run and be tested outside the plugin.
+//
+// Cards within a cell are matched in three passes:
+//   1. same `id`, when both cards have one
+//   2. same type and text — unchanged, or modified if subtext or actor differ
+//   3. same type, in order — modified (the text changed)
+// Whatever is left over is removed (base only) or added (head only). A card that
+// moves to another lane or sub-phase shows up as removed + added.
+
+export type CardChange = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface CardDiff {
+  change: CardChange;
+  card: Card;            // head card; base card when change === 'removed'
+  before?: Card;         // base card when change === 'modified'
+  fields?: (keyof Card)[]; // fields that differ when change === 'modified'
+}
+
+export interface CellDiff {
+  laneId: string;
+  subPhaseId: string;
+  cards: CardDiff[];     // head order, with removed cards after the ones they followed
+}
+
+export interface IdChanges {
+  added: string[];
+  removed: string[];
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+}
+
+export interface BlueprintDiff {
+  base: { id: string; name: string };
+  head: { id: string; name: string };
+  // Union of both versions' structure: head order, with base-only entries kept
+  // after the entry they followed in the base
+  lanes: Lane[];
+  phases: Phase[];
+  cells: CellDiff[];
+  laneChanges: IdChanges;
+  subPhaseChanges: IdChanges;
+  summary: DiffSummary;
+}
+
+const COMPARED_FIELDS: (keyof Card)[] = ['type', 'text', 'subtext', 'actor', 'domain', 'status'];
+
+function changedFields(before: Card, after: Card): (keyof Card)[] {
+  return COMPARED_FIELDS.filter(f => (before[f] ?? '') !== (after[f] ?? ''));
+}
+
+// Merge two ordered lists by id: head order, base-only items inserted after
+// the item that preceded them in the base.
+function mergeOrdered<T extends { id: string }>(base: T[], head: T[]): T[] {
+  const merged = [...head];
+  const headIds = new Set(head.map(item => item.id));
+  let anchor = -1;  // index in merged of the last base item placed
+
+  for (const item of base) {
+    if (headIds.has(item.id)) {
+      anchor = merged.findIndex(m => m.id === item.id);
+    } else {
+      merged.splice(anchor + 1, 0, item);
+      anchor++;
+    }
+  }
+  return merged;
+}
+
+function idChanges(base: { id: string }[], head: { id: string }[]): IdChanges {
+  const baseIds = new Set(base.map(item => item.id));
+  const headIds = new Set(head.map(item => item.id));
+  return {
+    added: [...headIds].filter(id => !baseIds.has(id)),
+    removed: [...baseIds].filter(id => !headIds.has(id)),
+  };
+}
+
+function allSubPhases(phases: Phase[]): SubPhase[] {
+  const result: SubPhase[] = [];
+  for (const phase of phases) result.push(...phase.subPhases);
+  return result;
+}
+
+function mergePhases(base: Phase[], head: Phase[]): Phase[] {
+  const baseById = new Map(base.map(p => [p.id, p]));
+  return mergeOrdered(base, head).map(phase => {
+    const basePhase = baseById.get(phase.id);
+    const headPhase = head.find(p => p.id === phase.id);
+    if (!basePhase || !headPhase) return phase;
+    return { ...headPhase, subPhases: mergeOrdered(basePhase.subPhases, headPhase.subPhases) };
+  });
+}
+
+export function diffCells(baseCards: Card[], headCards: Card[]): CardDiff[] {
+  // matchOf[i] = index into baseCards matched to headCards[i], or -1
+  const matchOf = headCards.map(() => -1);
+  const used = new Set<number>();
+
+  const pass = (matches: (b: Card, h: Card) => boolean) => {
+    headCards.forEach((h, hi) => {
+      if (matchOf[hi] !== -1) return;
+      const bi = baseCards.findIndex((b, i) => !used.has(i) && matches(b, h));
+      if (bi !== -1) { matchOf[hi] = bi; used.add(bi); }
+    });
+  };
+  pass((b, h) => b.id !== undefined && b.id === h.id);
+  pass((b, h) => b.id === undefined && h.id === undefined && b.type === h.type && b.text === h.text);
+  pass((b, h) => b.id === undefined && h.id === undefined && b.type === h.type);
+
+  const result: CardDiff[] = [];
+  const placed = new Set<number>();
+
+  // Removed base cards are emitted right after the matched card that preceded them
+  const flushRemovedBefore = (limit: number) => {
+    for (let bi = 0; bi < limit; bi++) {
+      if (!used.has(bi) && !placed.has(bi)) {
+        result.push({ change: 'removed', card: baseCards[bi] });
+        placed.add(bi);
+      }
+    }
+  };
+
+  headCards.forEach((card, hi) => {
+    const bi = matchOf[hi];
+    if (bi === -1) {
+      result.push({ change: 'added', card });
+      return;
+    }
+    flushRemovedBefore(bi);
+    const fields = changedFields(baseCards[bi], card);
+    result.push(fields.length > 0
+      ? { change: 'modified', card, before: baseCards[bi], fields }
+      : { change: 'unchanged', card });
+  });
+  flushRemovedBefore(baseCards.length);
+
+  return result;
+}
+
+export function diffBlueprints(base: Blueprint, head: Blueprint): BlueprintDiff {
+  const cardsOf = (bp: Blueprint) => {
+    const map = new Map<string, Card[]>();
+    for (const cell of bp.cells) map.set(`${cell.laneId}/${cell.subPhaseId}`, cell.cards);
+    return map;
+  };
+  const baseCells = cardsOf(base);
+  const headCells = cardsOf(head);
+
+  const lanes  = mergeOrdered(base.lanes, head.lanes);
+  const phases = mergePhases(base.phases, head.phases);
+  const subPhases = allSubPhases(phases);
+
+  const cells: CellDiff[] = [];
+  const summary: DiffSummary = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+
+  for (const lane of lanes) {
+    for (const sp of subPhases) {
+      const key = `${lane.id}/${sp.id}`;
+      const cards = diffCells(baseCells.get(key) ?? [], headCells.get(key) ?? []);
+      if (cards.length === 0) continue;
+      for (const d of cards) summary[d.change]++;
+      cells.push({ laneId: lane.id, subPhaseId: sp.id, cards });
+    }
+  }
+
+  return {
+    base: { id: base.id, name: base.name },
+    head: { id: head.id, name: head.name },
+    lanes,
+    phases,
+    cells,
+    laneChanges: idChanges(base.lanes, head.lanes),
+    subPhaseChanges: idChanges(allSubPhases(base.phases), allSubPhases(head.phases)),
+    summary,
+  };
+}
+
+// Plain-text summary lines, as shown in the legend panel.
+export function summarizeDiff(diff: BlueprintDiff): string[] {
+  const { added, removed, modified, unchanged } = diff.summary;
+  const lines = [
+    `Compared with: ${diff.base.name}`,
+    `${added} added · ${removed} removed · ${modified} modified · ${unchanged} unchanged`,
+  ];
+  const structural: [string, string[]][] = [
+    ['Lanes added', diff.laneChanges.added],
+    ['Lanes removed', diff.laneChanges.removed],
+    ['Sub-phases added', diff.subPhaseChanges.added],
+    ['Sub-phases removed', diff.subPhaseChanges.removed],
+  ];
+  for (const [label, ids] of structural) {
+    if (ids.length > 0) lines.push(`${label}: ${ids.join(', ')}`);
+  }
+  return lines;
+}
@@ -0,0 +1,330 @@
+import { ActorType, Card, CardType } from './types.js';
+
+// ── Export canvas edits ───────────────────────────────────────────────────────
+// Turns what designers changed on a generated blueprint frame back into a patch
+// for the annotations YAML read by generate-blueprint.js. Pure — no Figma API;
+// renderer.ts reads the frame into a CanvasSnapshot.
+//
+// Cards authored in the annotations file (origin 'annotation') become patch
+// operations, addressed by their index in the sub-phase's card list for the
+// lane. Cards derived from config.yaml flows can't be changed from the
+// annotations file, so edits to them are listed separately. Cards copied from
+// the legend into the frame become additions.
+
+export interface GridLane {
+  id: string;
+  y: number;
+  height: number;
+}
+
+export interface GridColumn {
+  id: string;             // sub-phase id
+  x: number;
+  width: number;
+  phaseIndex: number;     // position in the annotations file's `phases`
+  subPhaseIndex: number;  // position in that phase's `subPhases`
+}
+
+// Where each lane and sub-phase was drawn, in container coordinates
+export interface GridGeometry {
+  lanes: GridLane[];
+  columns: GridColumn[];
+}
+
+export interface CardLocation {
+  laneId: string;
+  subPhaseId: string;
+}
+
+export interface GeneratedCard extends CardLocation {
+  card: Card;
+}
+
+// A card as it is on the canvas now
+export interface CanvasCard {
+  key?: string;  // generated card's key; omitted for cards copied from the legend
+  type: CardType;
+  actor?: ActorType;
+  text: string;
+  subtext?: string;
+  x: number;
+  y: number;
+  width: number;
+}
+
+export interface CanvasSnapshot {
+  blueprintId: string;
+  name: string;
+  grid: GridGeometry;
+  rendered: Record<string, GeneratedCard>;  // card key → card as last generated
+  cards: CanvasCard[];
+}
+
+export type CardFields = Pick<Card, 'type' | 'text' | 'subtext' | 'actor'>;
+
+// Fields designers can edit on the canvas; an empty subtext means it was cleared
+export type CardEdits = Partial<Pick<Card, 'text' | 'subtext'>>;
+
+// `index` and `text` identify the card as it is in the annotations file
+export type AnnotationChange =
+  | { op: 'update'; at: CardLocation; index: number; text: string; set: CardEdits }
+  | { op: 'move';   at: CardLocation; index: number; text: string; to: CardLocation }
+  | { op: 'remove'; at: CardLocation; index: number; text: string }
+  | { op: 'add';    to: CardLocation; card: CardFields };
+
+export interface FlowCardChange {
+  at: CardLocation;
+  card: CardFields;   // as generated
+  set?: CardEdits;
+  to?: CardLocation;
+  removed?: boolean;
+}
+
+export interface CanvasChanges {
+  blueprintId: string;
+  name: string;
+  annotations: AnnotationChange[];  // updates, moves, removals, then additions
+  flowCards: FlowCardChange[];      // apply to the flows in config.yaml by hand
+  skipped: string[];                // cards that couldn't be placed in a cell
+}
+
+// RFC 6902 operation
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'move';
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+const OP_ORDER: Record<AnnotationChange['op'], number> = { update: 0, move: 1, remove: 2, add: 3 };
+
+function fieldsOf(card: CardFields): CardFields {
+  return {
+    type: card.type,
+    ...(card.actor ? { actor: card.actor } : {}),
+    text: card.text,
+    ...(card.subtext ? { subtext: card.subtext } : {}),
+  };
+}
+
+function editsOf(before: Card, after: CanvasCard): CardEdits | undefined {
+  const set: CardEdits = {};
+  if (after.text !== before.text) set.text = after.text;
+  if ((after.subtext ?? '') !== (before.subtext ?? '')) set.subtext = after.subtext ?? '';
+  return Object.keys(set).length > 0 ? set : undefined;
+}
+
+function sameCell(a: CardLocation, b: CardLocation): boolean {
+  return a.laneId === b.laneId && a.subPhaseId === b.subPhaseId;
+}
+
+// The cell under a card's top edge, where designers line cards up
+export function cellAt(grid: GridGeometry, card: Pick<CanvasCard, 'x' | 'y' | 'width'>): CardLocation | null {
+  const x = card.x + card.width / 2;
+  const lane = grid.lanes.filter(l => card.y >= l.y && card.y < l.y + l.height)[0];
+  const column = grid.columns.filter(c => x >= c.x && x < c.x + c.width)[0];
+  return lane && column ? { laneId: lane.id, subPhaseId: column.id } : null;
+}
+
+export function findCanvasChanges(snapshot: CanvasSnapshot): CanvasChanges {
+  const { grid, rendered } = snapshot;
+  const annotations: AnnotationChange[] = [];
+  const flowCards: FlowCardChange[] = [];
+  const skipped: string[] = [];
+
+  const placed = snapshot.cards.map(card => ({ card, cell: cellAt(grid, card) }));
+  const columnIds = new Set(grid.columns.map(c => c.id));
+  const offGrid = (r: GeneratedCard) => `"${r.card.text}" was generated in sub-phase '${r.subPhaseId}', which isn't in the grid`;
+
+  // A generated card copied on the canvas keeps its key. The copy in the
+  // original cell (or else the first) is the card; other copies are additions.
+  const owner = new Map<string, CanvasCard>();
+  for (const { card, cell } of placed) {
+    const r = card.key !== undefined ? rendered[card.key] : undefined;
+    if (r && cell && sameCell(cell, r) && !owner.has(card.key as string)) owner.set(card.key as string, card);
+  }
+  for (const { card } of placed) {
+    if (card.key !== undefined && rendered[card.key] && !owner.has(card.key)) owner.set(card.key, card);
+  }
+
+  for (const { card, cell } of placed) {
+    const r = card.key !== undefined && owner.get(card.key) === card ? rendered[card.key] : undefined;
+    if (!cell) {
+      skipped.push(`"${card.text}" is outside the grid`);
+      continue;
+    }
+    if (!r) {
+      annotations.push({ op: 'add', to: cell, card: fieldsOf(card) });
+      continue;
+    }
+    if (!columnIds.has(r.subPhaseId)) {
+      skipped.push(offGrid(r));
+      continue;
+    }
+
+    const set = editsOf(r.card, card);
+    const moved = !sameCell(cell, r);
+    const at: CardLocation = { laneId: r.laneId, subPhaseId: r.subPhaseId };
+
+    if (r.card.origin === 'annotation' && r.card.annotationIndex !== undefined) {
+      const ref = { at, index: r.card.annotationIndex, text: r.card.text };
+      if (set) annotations.push({ op: 'update', ...ref, set });
+      if (moved) annotations.push({ op: 'move', ...ref, to: cell });
+    } else if (set || moved) {
+      flowCards.push({ at, card: fieldsOf(r.card), ...(set ? { set } : {}), ...(moved ? { to: cell } : {}) });
+    }
+  }
+
+  // Generated cards that are gone from the canvas were deleted by a designer
+  for (const key of Object.keys(rendered)) {
+    if (owner.has(key)) continue;
+    const r = rendered[key];
+    if (!columnIds.has(r.subPhaseId)) {
+      skipped.push(offGrid(r));
+      continue;
+    }
+    const at: CardLocation = { laneId: r.laneId, subPhaseId: r.subPhaseId };
+    if (r.card.origin === 'annotation' && r.card.annotationIndex !== undefined) {
+      annotations.push({ op: 'remove', at, index: r.card.annotationIndex, text: r.card.text });
+    } else {
+      flowCards.push({ at, card: fieldsOf(r.card), removed: true });
+    }
+  }
+
+  annotations.sort((a, b) => OP_ORDER[a.op] - OP_ORDER[b.op]);
+  return { blueprintId: snapshot.blueprintId, name: snapshot.name, annotations, flowCards, skipped };
+}
+
+// ── JSON patch ────────────────────────────────────────────────────────────────
+// Operations run in sequence, so indexes are kept valid: field edits first,
+// then removals and moves from the highest index down, then additions
+// appended to the end of their list. Changes in a sub-phase that isn't in the
+// grid have no path in the annotations file and are left out.
+
+function pointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+export function toJsonPatch(snapshot: CanvasSnapshot, changes: CanvasChanges): JsonPatchOperation[] {
+  const columns = new Map(snapshot.grid.columns.map(c => [c.id, c]));
+  const cardsPath = (subPhaseId: string): string | null => {
+    const c = columns.get(subPhaseId);
+    return c ? `/phases/${c.phaseIndex}/subPhases/${c.subPhaseIndex}/cards` : null;
+  };
+  const listPath = (loc: CardLocation): string | null => {
+    const parent = cardsPath(loc.subPhaseId);
+    return parent === null ? null : `${parent}/${pointerSegment(loc.laneId)}`;
+  };
+
+  // Lists and sub-phase `cards` maps known to exist in the annotations file
+  const lists = new Set<string>();
+  const maps = new Set<string>();
+  for (const key of Object.keys(snapshot.rendered)) {
+    const r = snapshot.rendered[key];
+    const path = listPath(r);
+    if (r.card.origin !== 'annotation' || path === null) continue;
+    lists.add(path);
+    maps.add(cardsPath(r.subPhaseId) as string);
+  }
+
+  const ops: JsonPatchOperation[] = [];
+  // Returns the list's path, adding the list (and its `cards` map) when missing
+  const ensureList = (loc: CardLocation): string | null => {
+    const path = listPath(loc);
+    if (path === null || lists.has(path)) return path;
+    const parent = cardsPath(loc.subPhaseId) as string;
+    if (!maps.has(parent)) {
+      ops.push({ op: 'add', path: parent, value: {} });
+      maps.add(parent);
+    }
+    ops.push({ op: 'add', path, value: [] });
+    lists.add(path);
+    return path;
+  };
+
+  for (const change of changes.annotations) {
+    if (change.op !== 'update') continue;
+    const list = listPath(change.at);
+    if (list === null) continue;
+    const cardPath = `${list}/${change.index}`;
+    for (const field of Object.keys(change.set) as (keyof CardEdits)[]) {
+      const value = change.set[field];
+      ops.push(value === ''
+        ? { op: 'remove', path: `${cardPath}/${field}` }
+        : { op: 'add', path: `${cardPath}/${field}`, value });
+    }
+  }
+
+  const outgoing = changes.annotations
+    .filter((c): c is Extract<AnnotationChange, { op: 'move' | 'remove' }> => c.op === 'move' || c.op === 'remove')
+    .sort((a, b) => b.index - a.index);
+  for (const change of outgoing) {
+    const list = listPath(change.at);
+    if (list === null) continue;
+    const path = `${list}/${change.index}`;
+    if (change.op === 'remove') {
+      ops.push({ op: 'remove', path });
+    } else {
+      const to = ensureList(change.to);
+      if (to !== null) ops.push({ op: 'move', from: path, path: `${to}/-` });
+    }
+  }
+
+  for (const change of changes.annotations) {
+    if (change.op !== 'add') continue;
+    const to = ensureList(change.to);
+    if (to !== null) ops.push({ op: 'add', path: `${to}/-`, value: change.card });
+  }
+
+  return ops;
+}
+
+// ── YAML ──────────────────────────────────────────────────────────────────────
+// Readable form of the same changes, including edits to derived cards.
+
+function yamlScalar(value: unknown): string {
+  if (typeof value !== 'string') return String(value);
+  const plain = /^[A-Za-z][\w-]*$/.test(value) && !/^(true|false|yes|no|on|off|null)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return typeof value !== 'object' || value === null;
+}
+
+function yamlLines(value: unknown): string[] {
+  const lines: string[] = [];
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const [first, ...rest] = isScalar(item) ? [yamlScalar(item)] : yamlLines(item);
+      lines.push(`- ${first}`, ...rest.map(l => `  ${l}`));
+    }
+    return lines;
+  }
+  const obj = value as Record<string, unknown>;
+  for (const key of Object.keys(obj)) {
+    const v = obj[key];
+    if (v === undefined) continue;
+    if (isScalar(v)) lines.push(`${key}: ${yamlScalar(v)}`);
+    else if (Array.isArray(v) && v.length === 0) lines.push(`${key}: []`);
+    else lines.push(`${key}:`, ...yamlLines(v).map(l => `  ${l}`));
+  }
+  return lines;
+}
+
+export function changesToYaml(changes: CanvasChanges): string {
+  const header = [
+    `# Changes made in Figma to ${changes.name}`,
+    '#',
+    '# annotations: apply to the sub-phase `cards` in the annotations YAML.',
+    '#   `index` counts from 0 in the lane\'s card list, before any change is applied.',
+    '# flowCards:   cards derived from config.yaml flows — edit the flow steps there.',
+  ];
+  const body = yamlLines({
+    blueprint: changes.blueprintId,
+    annotations: changes.annotations,
+    flowCards: changes.flowCards,
+    ...(changes.skipped.length > 0 ? { skipped: changes.skipped } : {}),
+  });
+  return [...header, ...body].join('\n') + '\n';
+}
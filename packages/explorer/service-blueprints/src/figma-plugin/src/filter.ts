@@ -0,0 +1,87 @@
+import { cardKey } from '../../blueprint-layout.js';
+import { Blueprint, Card, CardType, Cell } from './types.js';
+
+// ── Blueprint filtering ───────────────────────────────────────────────────────
+// Narrows a blueprint to some lanes, phases and card types before it is laid
+// out, e.g. only the regulations lane for policy reviewers. Pure — no Figma API.
+//
+// Kept cards keep the card key they have in the full blueprint: each filtered
+// cell records its cards' positions in the full cell (`cardIndexes`), which
+// cardKey uses for cards without an `id`. Links between kept cards, plugin data
+// and exported changes therefore line up with the full render.
+
+export interface BlueprintFilter {
+  lanes?: string[];        // lane ids to keep; omitted keeps every lane
+  phases?: string[];       // phase ids to keep
+  cardTypes?: CardType[];  // card types to keep
+}
+
+export function isFiltered(filter: BlueprintFilter | undefined): filter is BlueprintFilter {
+  return !!filter && (filter.lanes !== undefined || filter.phases !== undefined || filter.cardTypes !== undefined);
+}
+
+function keeps<T>(list: T[] | undefined, value: T): boolean {
+  return list === undefined || list.indexOf(value) !== -1;
+}
+
+// Stable id for a filter, so rendering the same view again updates its frame
+function filterId(filter: BlueprintFilter): string {
+  const parts: string[] = [];
+  if (filter.lanes) parts.push(`lanes=${filter.lanes.join(',')}`);
+  if (filter.phases) parts.push(`phases=${filter.phases.join(',')}`);
+  if (filter.cardTypes) parts.push(`types=${filter.cardTypes.join(',')}`);
+  return parts.join(';');
+}
+
+// Lanes left without cards by a card type filter are dropped too
+export function filterBlueprint(blueprint: Blueprint, filter: BlueprintFilter): Blueprint {
+  const phases = blueprint.phases.filter(p => keeps(filter.phases, p.id));
+  const subPhaseIds = new Set<string>();
+  for (const phase of phases) for (const sp of phase.subPhases) subPhaseIds.add(sp.id);
+
+  const cells: Cell[] = [];
+  const keys = new Set<string>();  // keys of the kept cards
+  for (const cell of blueprint.cells) {
+    if (!keeps(filter.lanes, cell.laneId) || !subPhaseIds.has(cell.subPhaseId)) continue;
+    const cards: Card[] = [];
+    const cardIndexes: number[] = [];
+    cell.cards.forEach((card, i) => {
+      if (!keeps(filter.cardTypes, card.type)) return;
+      cards.push(card);
+      cardIndexes.push(cell.cardIndexes?.[i] ?? i);
+      keys.add(cardKey(cell, card, i));
+    });
+    if (cards.length > 0) cells.push({ ...cell, cards, cardIndexes });
+  }
+
+  const occupied = new Set(cells.map(c => c.laneId));
+  const lanes = blueprint.lanes.filter(l =>
+    keeps(filter.lanes, l.id) && (filter.cardTypes === undefined || occupied.has(l.id)));
+
+  const links = (blueprint.links ?? []).filter(l => keys.has(l.from) && keys.has(l.to));
+
+  return {
+    ...blueprint,
+    id: `${blueprint.id}:${filterId(filter)}`,
+    name: `${blueprint.name} (filtered)`,
+    lanes,
+    phases,
+    cells,
+    ...(blueprint.links ? { links } : {}),
+  };
+}
+
+// Legend lines naming what the filter kept, by label
+export function describeFilter(blueprint: Blueprint, filter: BlueprintFilter): string[] {
+  const notes: string[] = [];
+  if (filter.lanes) {
+    const labels = blueprint.lanes.filter(l => filter.lanes!.indexOf(l.id) !== -1).map(l => l.label);
+    notes.push(`Lanes: ${labels.join(', ') || 'none'}`);
+  }
+  if (filter.phases) {
+    const labels = blueprint.phases.filter(p => filter.phases!.indexOf(p.id) !== -1).map(p => p.label);
+    notes.push(`Phases: ${labels.join(', ') || 'none'}`);
+  }
+  if (filter.cardTypes) notes.push(`Card types: ${filter.cardTypes.join(', ') || 'none'}`);
+  return notes.length > 0 ? ['Filtered view', ...notes] : [];
+}
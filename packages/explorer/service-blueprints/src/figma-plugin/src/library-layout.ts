@@ -0,0 +1,89 @@
+import { CardData, CardEntry } from './types.js';
+import type { Box, Point } from '../../blueprint-layout.js';
+
+// ── Card library layout ───────────────────────────────────────────────────────
+// Places the cards of a CardData set as the "Cards" mode draws its library: a
+// title, then one heading per sub-phase with its cards in rows of
+// CARDS_PER_ROW. Pure — no Figma API; callers measure cards and text and pass
+// the heights in. The Figma and FigJam renderers and board-export.ts all use
+// it, so an exported board matches the library on the canvas.
+
+export const LIBRARY_PADDING     = 40;
+export const LIBRARY_CARD_WIDTH  = 240;
+export const LIBRARY_CARD_GAP    = 16;   // between cards in a row, and between rows
+export const LIBRARY_SECTION_GAP = 48;   // between sub-phases
+export const CARDS_PER_ROW       = 5;
+const TITLE_GAP   = 24;                  // below the title
+const HEADING_GAP = 12;                  // below a sub-phase heading
+
+export interface PlacedText extends Point {
+  role: 'title' | 'heading';
+  text: string;
+}
+
+export interface PlacedEntry extends Box {
+  entry: CardEntry;
+  phaseId: string;
+  subPhaseId: string;
+}
+
+export interface CardLibraryScene {
+  width: number;
+  height: number;
+  texts: PlacedText[];
+  cards: PlacedEntry[];  // sub-phase by sub-phase, in card order
+}
+
+export interface LibraryLayoutOptions {
+  measureCard: (entry: CardEntry, index: number) => number;  // index across the whole set
+  measureText: (role: PlacedText['role'], text: string) => number;
+}
+
+export function libraryTitle(data: CardData): string {
+  return `${data.name} — Card Library`;
+}
+
+export function layoutCardLibrary(data: CardData, options: LibraryLayoutOptions): CardLibraryScene {
+  const texts: PlacedText[] = [];
+  const cards: PlacedEntry[] = [];
+  const x = LIBRARY_PADDING;
+  let y = LIBRARY_PADDING;
+  let index = 0;
+
+  const title = libraryTitle(data);
+  texts.push({ role: 'title', text: title, x, y });
+  y += options.measureText('title', title) + TITLE_GAP;
+
+  for (const phase of data.phases) {
+    for (const subPhase of phase.subPhases) {
+      if (!subPhase.cards.length) continue;
+
+      const heading = `${phase.label}  /  ${subPhase.label}`.toUpperCase();
+      texts.push({ role: 'heading', text: heading, x, y });
+      y += options.measureText('heading', heading) + HEADING_GAP;
+
+      let col = 0;
+      let rowMaxH = 0;
+      for (const entry of subPhase.cards) {
+        const height = options.measureCard(entry, index++);
+        cards.push({
+          entry, phaseId: phase.id, subPhaseId: subPhase.id,
+          x: x + col * (LIBRARY_CARD_WIDTH + LIBRARY_CARD_GAP), y, width: LIBRARY_CARD_WIDTH, height,
+        });
+        rowMaxH = Math.max(rowMaxH, height);
+        col++;
+        if (col >= CARDS_PER_ROW) {
+          col = 0;
+          y += rowMaxH + LIBRARY_CARD_GAP;
+          rowMaxH = 0;
+        }
+      }
+
+      if (col > 0) y += rowMaxH;
+      y += LIBRARY_SECTION_GAP;
+    }
+  }
+
+  const width = LIBRARY_PADDING * 2 + CARDS_PER_ROW * LIBRARY_CARD_WIDTH + (CARDS_PER_ROW - 1) * LIBRARY_CARD_GAP;
+  return { width, height: y + LIBRARY_PADDING, texts, cards };
+}
@@ -1,27 +1,204 @@
-import { renderBlueprint, renderCards } from './renderer.js';
-import intake from './_current.json';
-import cardsIntake from './_current_cards.json';
-import type { Blueprint, CardData } from './types.js';
+import {
+  MetricsOverlay, applyTheme, boardColors, cardTypeNames, findBlueprintFrame, readCanvas, renderBlueprint, renderBlueprintDiff,
+  renderCards, renderStateMachine, selectedCard, themeNames,
+} from './renderer.js';
+import { blueprintBoard, blueprintCsv, libraryBoard, libraryCsv } from './board-export.js';
+import { diffBlueprints } from './diff.js';
+import { changesToYaml, findCanvasChanges, toJsonPatch } from './export.js';
+import { BlueprintFilter, filterBlueprint, isFiltered } from './filter.js';
+import type { LayoutMode } from '../../blueprint-layout.js';
+import { formatProblem, lintBlueprint } from '../../lint-blueprint.js';
+import { toBlueprintMetrics } from './metrics.js';
+import { validateBlueprint, validateMetrics } from './validate.js';
+import manifestJson from './_manifest.json';
+import type {
+  Blueprint, BlueprintMetrics, CardData, CardType, LinkKind, MetricsResponse, PluginManifest, StateMachineDiagram,
+} from './types.js';
 
-const BLUEPRINTS: Record<string, Blueprint> = {
-  intake: intake as Blueprint,
-};
+const manifest = manifestJson as PluginManifest;
 
-const CARDS: Record<string, CardData> = {
-  intake: cardsIntake as CardData,
-};
+const BLUEPRINTS: Record<string, Blueprint> = {};
+for (const entry of manifest.blueprints) BLUEPRINTS[entry.key] = entry.data;
 
-figma.showUI(__html__, { width: 320, height: 240, title: 'Service Blueprint' });
+const CARDS: Record<string, CardData> = {};
+for (const entry of manifest.cards) CARDS[entry.key] = entry.data;
 
-figma.ui.on('message', async (msg: { type: string; blueprint?: string; domain?: string }) => {
+const STATE_MACHINES: Record<string, StateMachineDiagram> = {};
+for (const entry of manifest.stateMachines) STATE_MACHINES[entry.key] = entry.data;
+
+figma.showUI(__html__, { width: 320, height: 600, title: 'Service Blueprint' });
+
+// Card types used in a blueprint, in the order they first appear
+function cardTypesOf(blueprint: Blueprint): CardType[] {
+  const types: CardType[] = [];
+  for (const cell of blueprint.cells) {
+    for (const card of cell.cards) if (types.indexOf(card.type) === -1) types.push(card.type);
+  }
+  return types;
+}
+
+// Fill the UI dropdowns and each blueprint's filter choices
+figma.ui.postMessage({
+  type: 'manifest',
+  blueprints: manifest.blueprints.map(({ key, label, data }) => ({
+    key,
+    label,
+    lanes: data.lanes.map(({ id, label }) => ({ id, label })),
+    phases: data.phases.map(({ id, label }) => ({ id, label })),
+    cardTypes: cardTypesOf(data),
+  })),
+  cards: manifest.cards.map(({ key, label }) => ({ key, label })),
+  stateMachines: manifest.stateMachines.map(({ key, label }) => ({ key, label })),
+  themes: themeNames(),
+  editorType: figma.editorType,  // FigJam offers only the blueprint, cards and board export modes
+});
+
+// Show the domain, status and source of the selected card
+figma.on('selectionchange', () => {
+  figma.ui.postMessage({ type: 'selection', card: selectedCard() });
+});
+
+// Validate a blueprint pasted or uploaded in the UI; problems are listed there
+function checkBlueprint(value: unknown, what: string): value is Blueprint {
+  const errors = validateBlueprint(value);
+  if (errors.length === 0) return true;
+  figma.ui.postMessage({ type: 'invalid', errors });
+  figma.notify(`${what} is not a valid blueprint (${errors.length} problem${errors.length === 1 ? '' : 's'})`, { error: true });
+  return false;
+}
+
+// Validate a metrics file chosen in the UI; problems are listed there
+function checkMetrics(value: unknown): value is BlueprintMetrics | MetricsResponse {
+  const errors = validateMetrics(value);
+  if (errors.length === 0) return true;
+  figma.ui.postMessage({ type: 'invalid', errors });
+  figma.notify(`Metrics file is not valid (${errors.length} problem${errors.length === 1 ? '' : 's'})`, { error: true });
+  return false;
+}
+
+// Check a blueprint's content before rendering it; problems are listed in the
+// UI. Errors stop the render unless the designer chose to render anyway.
+function lintBeforeRender(blueprint: Blueprint, force: boolean): boolean {
+  const problems = lintBlueprint(blueprint, { cardTypes: cardTypeNames() });
+  const errors = problems.filter(p => p.severity === 'error').length;
+  const blocked = errors > 0 && !force;
+  figma.ui.postMessage({ type: 'lint', problems: problems.map(formatProblem), blocked });
+  if (blocked) figma.notify(`${blueprint.name} has ${errors} content error${errors === 1 ? '' : 's'}`, { error: true });
+  return !blocked;
+}
+
+interface PluginMessage {
+  type: string;
+  blueprint?: string;  // manifest key
+  json?: unknown;      // pasted or uploaded blueprint, used instead of `blueprint`
+  domain?: string;
+  stateMachine?: string;  // manifest key
+  update?: boolean;
+  links?: LinkKind[];  // link kinds to show
+  layout?: LayoutMode;
+  filter?: BlueprintFilter;
+  force?: boolean;     // render despite lint errors
+  metrics?: unknown;   // BlueprintMetrics or a mock server GET /metrics response
+  overlay?: MetricsOverlay;
+  base?: unknown;
+  theme?: string;
+}
+
+// The pasted or uploaded blueprint, else the bundled one named by the message;
+// undefined when the JSON is invalid (problems are listed in the UI)
+function messageBlueprint(msg: PluginMessage): Blueprint | undefined {
+  if (msg.json !== undefined) return checkBlueprint(msg.json, 'Pasted JSON') ? msg.json : undefined;
+  return msg.blueprint !== undefined ? BLUEPRINTS[msg.blueprint] : undefined;
+}
+
+figma.ui.on('message', async (msg: PluginMessage) => {
   if (msg.type === 'generate') {
-    const blueprint = BLUEPRINTS[msg.blueprint ?? ''];
+    const blueprint = messageBlueprint(msg);
     if (!blueprint) {
+      if (msg.json === undefined) figma.notify(`Unknown blueprint: ${msg.blueprint}`, { error: true });
+      return;
+    }
+    if (msg.metrics !== undefined && !checkMetrics(msg.metrics)) return;
+    if (!lintBeforeRender(blueprint, msg.force === true)) return;
+    try {
+      const metrics = msg.metrics !== undefined ? toBlueprintMetrics(msg.metrics, blueprint, manifest.slaTypes) : undefined;
+      await renderBlueprint(blueprint, {
+        update: msg.update !== false, links: msg.links, layout: msg.layout, filter: msg.filter, metrics, overlay: msg.overlay,
+      });
+    } catch (e) {
+      figma.notify(`Error: ${(e as Error).message}`, { error: true });
+    }
+  }
+
+  if (msg.type === 'generate-diff') {
+    const head = BLUEPRINTS[msg.blueprint ?? ''];
+    if (!head) {
       figma.notify(`Unknown blueprint: ${msg.blueprint}`, { error: true });
       return;
     }
+    if (!checkBlueprint(msg.base, 'Baseline')) return;
+    try {
+      await renderBlueprintDiff(diffBlueprints(msg.base, head));
+    } catch (e) {
+      figma.notify(`Error: ${(e as Error).message}`, { error: true });
+    }
+  }
+
+  if (msg.type === 'export-changes') {
+    const frame = findBlueprintFrame();
+    if (!frame) {
+      figma.notify('No blueprint frame to export — generate one with this version of the plugin first', { error: true });
+      return;
+    }
+    const snapshot = readCanvas(frame);
+    const changes = findCanvasChanges(snapshot);
+    figma.ui.postMessage({
+      type: 'export',
+      blueprintId: snapshot.blueprintId,
+      yaml: changesToYaml(changes),
+      json: JSON.stringify(toJsonPatch(snapshot, changes), null, 2),
+      annotations: changes.annotations.length,
+      flowCards: changes.flowCards.length,
+      skipped: changes.skipped,
+    });
+    figma.notify(`Exported ${changes.annotations.length} annotation change${changes.annotations.length === 1 ? '' : 's'} from ${snapshot.name}`);
+  }
+
+  // A Miro board import and a CSV of cards, laid out as the plugin draws them;
+  // a filtered blueprint exports only the lanes, phases and card types it keeps
+  if (msg.type === 'export-board') {
+    const full = messageBlueprint(msg);
+    if (msg.json !== undefined && !full) return;
+    const blueprint = full && isFiltered(msg.filter) ? filterBlueprint(full, msg.filter) : full;
+    const data = msg.domain !== undefined ? CARDS[msg.domain] : undefined;
+    if (!blueprint && !data) {
+      figma.notify(`Unknown blueprint or card library: ${msg.blueprint ?? msg.domain}`, { error: true });
+      return;
+    }
+    const options = { colorsFor: boardColors, layout: msg.layout };
+    const board = blueprint ? blueprintBoard(blueprint, options) : libraryBoard(data as CardData, options);
+    const csv = blueprint ? blueprintCsv(blueprint, options) : libraryCsv(data as CardData, options);
+    const fileName = blueprint ? blueprint.id.replace(/[^\w.-]+/g, '-') : `${(data as CardData).domain}-cards`;
+    figma.ui.postMessage({ type: 'board', fileName, miro: JSON.stringify(board, null, 2), csv });
+    figma.notify(`Exported ${board.name} — ${board.items.length} board items, ${board.connectors.length} connectors`);
+  }
+
+  if (msg.type === 'set-theme') {
+    try {
+      await applyTheme(msg.theme ?? '');
+    } catch (e) {
+      figma.notify(`Error: ${(e as Error).message}`, { error: true });
+    }
+  }
+
+  if (msg.type === 'generate-state-machine') {
+    const diagram = STATE_MACHINES[msg.stateMachine ?? ''];
+    if (!diagram) {
+      figma.notify(`Unknown state machine: ${msg.stateMachine}`, { error: true });
+      return;
+    }
     try {
-      await renderBlueprint(blueprint);
+      await renderStateMachine(diagram);
     } catch (e) {
       figma.notify(`Error: ${(e as Error).message}`, { error: true });
     }
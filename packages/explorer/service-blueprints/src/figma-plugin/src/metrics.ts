@@ -0,0 +1,129 @@
+import {
+  Blueprint, BlueprintMetrics, Duration, DurationUnit, MetricResult, MetricsResponse, SlaType, SubPhaseMetrics,
+} from './types.js';
+
+// ── Metrics overlay ───────────────────────────────────────────────────────────
+// Turns a metrics payload into numbers per sub-phase column, and rates each
+// column against its SLA target so the renderer can tint bottlenecks. Pure —
+// no Figma API.
+//
+// A mock server GET /metrics response has no notion of columns: each column's
+// MetricBinding names the metrics it shows. Its SLA target is its `sla` type,
+// or else the p50 target of its median metric.
+
+export type HeatLevel = 'ok' | 'warning' | 'breach';
+
+// The median as a share of the target: below the warning threshold is ok,
+// up to the target a warning, over it a breach
+export const HEAT_STYLES: Record<HeatLevel, { fill: string; text: string; legend: string }> = {
+  ok:      { fill: '#E3F5E1', text: '#154C21', legend: 'Green — median well within its SLA target' },
+  warning: { fill: '#FEF0C8', text: '#3D2800', legend: 'Amber — median past the SLA warning threshold' },
+  breach:  { fill: '#F9E0E4', text: '#5C1111', legend: 'Red — median over its SLA target' },
+};
+export const NO_HEAT_STYLE = { fill: '#F5F5F5', text: '#555555' };  // no target or no median
+
+const DEFAULT_WARNING_PERCENT = 75;  // as in contracts/workflow-sla-types.yaml
+
+const UNIT_SECONDS: Record<DurationUnit, number> = {
+  minutes: 60,
+  hours:   60 * 60,
+  days:    24 * 60 * 60,
+};
+
+export function isMetricsResponse(payload: BlueprintMetrics | MetricsResponse): payload is MetricsResponse {
+  return Array.isArray((payload as MetricsResponse).items);
+}
+
+function isDurationUnit(unit: string | undefined): unit is DurationUnit {
+  return unit !== undefined && UNIT_SECONDS.hasOwnProperty(unit);
+}
+
+export function durationSeconds(duration: Duration): number {
+  return duration.amount * UNIT_SECONDS[duration.unit];
+}
+
+// Largest unit that keeps the number at 1 or more, e.g. "3.5 h", "12 days"
+export function formatDuration(seconds: number): string {
+  if (seconds >= UNIT_SECONDS.days) return `${round(seconds / UNIT_SECONDS.days)} d`;
+  if (seconds >= UNIT_SECONDS.hours) return `${round(seconds / UNIT_SECONDS.hours)} h`;
+  return `${Math.max(1, Math.round(seconds / UNIT_SECONDS.minutes))} min`;
+}
+
+function round(value: number): number {
+  return value >= 10 ? Math.round(value) : Math.round(value * 10) / 10;
+}
+
+// The p50 target of a duration metric, when it is in time units
+function medianTarget(metric: MetricResult): Duration | undefined {
+  for (const t of metric.targets) {
+    if (t.stat === 'p50' && typeof t.amount === 'number' && isDurationUnit(t.unit)) return { amount: t.amount, unit: t.unit };
+  }
+  return undefined;
+}
+
+// Grouped results (requested with groupBy) have no single value and are skipped
+function valueOf(metric: MetricResult | undefined): number | undefined {
+  return metric && metric.breakdown === null && typeof metric.value === 'number' ? metric.value : undefined;
+}
+
+// Numbers per column, from either payload; columns without numbers are left out
+export function toBlueprintMetrics(
+  payload: BlueprintMetrics | MetricsResponse, blueprint: Blueprint, slaTypes: SlaType[]
+): BlueprintMetrics {
+  if (!isMetricsResponse(payload)) return payload;
+
+  const byId = new Map(payload.items.map(m => [m.id, m]));
+  const subPhases: Record<string, SubPhaseMetrics> = {};
+  for (const phase of blueprint.phases) {
+    for (const sp of phase.subPhases) {
+      const binding = sp.metrics;
+      if (!binding) continue;
+      const median = binding.median !== undefined ? byId.get(binding.median) : undefined;
+      const sla = slaTypes.filter(t => t.id === binding.sla)[0];
+      const m: SubPhaseMetrics = {};
+      if (sla) {
+        m.slaTarget = sla.duration;
+        if (sla.warningThresholdPercent !== undefined) m.warningThresholdPercent = sla.warningThresholdPercent;
+      } else if (median && medianTarget(median)) {
+        m.slaTarget = medianTarget(median);
+      }
+      const medianSeconds = median && median.aggregate === 'duration' ? valueOf(median) : undefined;
+      if (medianSeconds !== undefined) m.medianSeconds = medianSeconds;
+      const volume = valueOf(binding.volume !== undefined ? byId.get(binding.volume) : undefined);
+      if (volume !== undefined) m.volume = volume;
+      if (Object.keys(m).length > 0) subPhases[sp.id] = m;
+    }
+  }
+
+  const computedAt = payload.items.length > 0 ? payload.items[0].computedAt : undefined;
+  return { ...(computedAt ? { computedAt } : {}), subPhases };
+}
+
+export function heatOf(m: SubPhaseMetrics): HeatLevel | null {
+  if (!m.slaTarget || m.medianSeconds === undefined) return null;
+  const share = (m.medianSeconds / durationSeconds(m.slaTarget)) * 100;
+  if (share > 100) return 'breach';
+  return share >= (m.warningThresholdPercent ?? DEFAULT_WARNING_PERCENT) ? 'warning' : 'ok';
+}
+
+// Lines of a column's header band, e.g. ["SLA 4 h", "Median 3.2 h", "Volume 42"]
+export function metricsLines(m: SubPhaseMetrics): string[] {
+  const lines: string[] = [];
+  if (m.slaTarget) lines.push(`SLA ${formatDuration(durationSeconds(m.slaTarget))}`);
+  if (m.medianSeconds !== undefined) lines.push(`Median ${formatDuration(m.medianSeconds)}`);
+  if (m.volume !== undefined) lines.push(`Volume ${m.volume}`);
+  return lines;
+}
+
+// Legend lines for the heat levels that appear
+export function metricsLegend(metrics: BlueprintMetrics): string[] {
+  const levels: HeatLevel[] = [];
+  for (const id of Object.keys(metrics.subPhases)) {
+    const level = heatOf(metrics.subPhases[id]);
+    if (level && levels.indexOf(level) === -1) levels.push(level);
+  }
+  const order = Object.keys(HEAT_STYLES) as HeatLevel[];
+  const lines = order.filter(l => levels.indexOf(l) !== -1).map(l => HEAT_STYLES[l].legend);
+  if (metrics.computedAt) lines.push(`Metrics as of ${metrics.computedAt.slice(0, 10)}`);
+  return lines;
+}
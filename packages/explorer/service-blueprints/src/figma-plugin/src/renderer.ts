@@ -1,22 +1,28 @@
-import { ActorType, Blueprint, Card, CardData, CardEntry, CardType, Cell, Phase, SubPhase } from './types.js';
+import {
+  ActorType, Blueprint, BlueprintMetrics, Card, CardData, CardEntry, CardType, Cell, DiagramState, Link, LinkKind,
+  SlaClock, StateMachineDiagram, Transition,
+} from './types.js';
+import { CardColors, cardParagraphs, isSticky, phaseBoxes } from './board-export.js';
+import { BlueprintDiff, CardDiff, summarizeDiff } from './diff.js';
+import { CanvasCard, CanvasSnapshot, GeneratedCard, GridGeometry } from './export.js';
+import { BlueprintFilter, describeFilter, filterBlueprint, isFiltered } from './filter.js';
+import { LIBRARY_CARD_WIDTH, layoutCardLibrary, libraryTitle } from './library-layout.js';
+import { HEAT_STYLES, NO_HEAT_STYLE, heatOf, metricsLegend, metricsLines } from './metrics.js';
+import { LABEL_WIDTH, STATE_WIDTH, layoutStateMachine } from './state-layout.js';
+import {
+  CARD_GAP, CARD_PADDING, CARD_WIDTH, FUTURE_STYLE, LINK_STYLES, LayoutMode, MORE_STYLE, Point, SceneMore,
+  TAG_PADDING_X, TAG_PADDING_Y, cardKey, domainTag, estimateCardHeight, layoutBlueprint, linkRoute,
+} from '../../blueprint-layout.js';
 import cardTypesConfig from './_current_card_types.json';
 
 // ── Layout constants ──────────────────────────────────────────────────────────
+// The grid itself is laid out by blueprint-layout.js, shared with the SVG renderer.
 
-const PHASE_WIDTH      = 280;
-const LANE_LABEL_WIDTH = 120;
-const HEADER_HEIGHT    = 72;   // two-row header: phase group (top) + sub-phase (bottom)
-const PHASE_HEADER_H   = 30;   // height of the phase group row
-const CELL_PADDING     = 12;
-const CARD_WIDTH       = PHASE_WIDTH - CELL_PADDING * 2;  // 256
-const CARD_PADDING     = 14;
 const CARD_CORNER      = 8;
-const CARD_GAP         = 12;
 const KEY_CARD_WIDTH   = 220;
 const KEY_PANEL_WIDTH  = KEY_CARD_WIDTH + 40;
 const KEY_GAP          = 56;
 const KEY_TOTAL        = KEY_PANEL_WIDTH + KEY_GAP;
-const ROW_MIN_HEIGHT   = 80;
 
 // ── Card palette ──────────────────────────────────────────────────────────────
 // Colors match the established service blueprint convention.
@@ -37,6 +43,14 @@ interface CardPalette {
 const PALETTE      = (cardTypesConfig as { types:  Record<string, CardPalette> }).types;
 const ACTOR_PALETTE = (cardTypesConfig as { actors: Record<string, CardPalette> }).actors;
 
+// Color themes: overrides of the palettes above by card type or actor, staged
+// with card-types.yaml along with state themes
+interface PaletteTheme {
+  cards?:  Record<string, Partial<CardPalette>>;
+  actors?: Record<string, Partial<CardPalette>>;
+}
+const THEMES = (cardTypesConfig as { themes?: Record<string, PaletteTheme> }).themes ?? {};
+
 // Resolve rendersAs: if a type has a rendersAs alias, use the target type's palette.
 function paletteFor(type: CardType, actor?: ActorType): CardPalette {
   if (type === 'person-action' && actor) return ACTOR_PALETTE[actor] ?? PALETTE['person-action'];
@@ -44,6 +58,12 @@ function paletteFor(type: CardType, actor?: ActorType): CardPalette {
   return (p?.rendersAs ? PALETTE[p.rendersAs] : p) ?? p;
 }
 
+// Colors of a card on a Miro board, for board-export.ts
+export function boardColors(card: Card): CardColors {
+  const p = paletteFor(card.type, card.actor) ?? PALETTE.note;
+  return { fill: p.bodyBg, border: p.headerBg, text: p.bodyFg, label: p.label };
+}
+
 // ── Color helpers ─────────────────────────────────────────────────────────────
 
 function rgb(h: string): RGB {
@@ -58,6 +78,135 @@ function fill(color: string): SolidPaint[] {
   return [{ type: 'SOLID', color: rgb(color) }];
 }
 
+// ── Palette variables ─────────────────────────────────────────────────────────
+// Card colors are bound to COLOR variables in a "Card palettes" collection, one
+// per palette and color ("types/system/headerBg", "actors/caseworker/bodyFg").
+// Each theme is a mode of the collection, so setting a frame's or page's mode
+// restyles its cards without rendering again.
+
+const PALETTE_COLLECTION = 'Card palettes';
+const DEFAULT_THEME      = 'default';   // the palettes in card-types.yaml
+
+type ColorField = 'headerBg' | 'bodyBg' | 'headerFg' | 'bodyFg';
+const COLOR_FIELDS: ColorField[] = ['headerBg', 'bodyBg', 'headerFg', 'bodyFg'];
+
+type PaletteVariables = Map<string, Record<ColorField, Variable>>;  // by palette key
+
+export function themeNames(): string[] {
+  return [DEFAULT_THEME, ...Object.keys(THEMES)];
+}
+
+// Card types with a palette in card-types.yaml; others are drawn as notes
+export function cardTypeNames(): string[] {
+  return Object.keys(PALETTE);
+}
+
+// The palette paletteFor resolves to, as "types/<type>" or "actors/<actor>"
+function paletteKey(type: CardType, actor?: ActorType): string {
+  if (type === 'person-action' && actor && ACTOR_PALETTE[actor]) return `actors/${actor}`;
+  const p = PALETTE[type];
+  if (!p) return 'types/note';
+  return `types/${p.rendersAs && PALETTE[p.rendersAs] ? p.rendersAs : type}`;
+}
+
+function paletteKeys(): string[] {
+  return [
+    ...Object.keys(PALETTE).map(type => `types/${type}`),
+    ...Object.keys(ACTOR_PALETTE).map(actor => `actors/${actor}`),
+  ];
+}
+
+// A palette with a theme's overrides applied
+function themedPalette(key: string, theme: string): CardPalette {
+  const [group, name] = key.split('/');
+  const base = group === 'actors' ? ACTOR_PALETTE[name] : PALETTE[name];
+  const overrides = THEMES[theme]?.[group === 'actors' ? 'actors' : 'cards'];
+  return { ...base, ...overrides?.[name] };
+}
+
+// Paints for a card's colors, bound to its palette's variables when given
+function cardColors(
+  card: { type: CardType; actor?: ActorType }, variables?: PaletteVariables
+): Record<ColorField, SolidPaint[]> {
+  const key = paletteKey(card.type, card.actor);
+  const p = themedPalette(key, DEFAULT_THEME);
+  const bound = variables?.get(key);
+  const colors = {} as Record<ColorField, SolidPaint[]>;
+  for (const field of COLOR_FIELDS) {
+    const [paint] = fill(p[field]);
+    colors[field] = [bound ? figma.variables.setBoundVariableForPaint(paint, 'color', bound[field]) : paint];
+  }
+  return colors;
+}
+
+async function paletteCollection(): Promise<VariableCollection> {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  let collection = collections.find(c => c.getPluginData(DATA_ROLE) === 'palettes');
+  if (!collection) {
+    collection = figma.variables.createVariableCollection(PALETTE_COLLECTION);
+    collection.setPluginData(DATA_ROLE, 'palettes');
+    collection.renameMode(collection.modes[0].modeId, DEFAULT_THEME);
+  }
+  return collection;
+}
+
+// Mode IDs by theme name, adding modes for new themes. Files on plans with a
+// mode limit keep the themes that fit.
+function themeModes(collection: VariableCollection): Map<string, string> {
+  const modes = new Map<string, string>();
+  for (const theme of themeNames()) {
+    const mode = collection.modes.find(m => m.name === theme);
+    if (mode) {
+      modes.set(theme, mode.modeId);
+      continue;
+    }
+    try {
+      modes.set(theme, collection.addMode(theme));
+    } catch (e) {
+      figma.notify(`Theme "${theme}" not added: ${(e as Error).message}`, { error: true });
+    }
+  }
+  return modes;
+}
+
+// Create or update a variable for every palette color, with a value per theme
+async function loadPaletteVariables(): Promise<PaletteVariables> {
+  const collection = await paletteCollection();
+  const modes = themeModes(collection);
+  const existing = new Map<string, Variable>();
+  for (const v of await figma.variables.getLocalVariablesAsync('COLOR')) {
+    if (v.variableCollectionId === collection.id) existing.set(v.name, v);
+  }
+
+  const variables: PaletteVariables = new Map();
+  for (const key of paletteKeys()) {
+    const bound = {} as Record<ColorField, Variable>;
+    for (const field of COLOR_FIELDS) {
+      const name = `${key}/${field}`;
+      const variable = existing.get(name) ?? figma.variables.createVariable(name, collection, 'COLOR');
+      variable.scopes = field.endsWith('Bg') ? ['FRAME_FILL', 'SHAPE_FILL'] : ['TEXT_FILL'];
+      modes.forEach((modeId, theme) => variable.setValueForMode(modeId, rgb(themedPalette(key, theme)[field])));
+      bound[field] = variable;
+    }
+    variables.set(key, bound);
+  }
+  return variables;
+}
+
+// Show the selection, or the current page when nothing is selected, in a theme
+export async function applyTheme(theme: string): Promise<void> {
+  const collection = await paletteCollection();
+  const modeId = themeModes(collection).get(theme);
+  if (!modeId) {
+    figma.notify(`Unknown theme: ${theme}`, { error: true });
+    return;
+  }
+  const selection = figma.currentPage.selection;
+  const targets: ExplicitVariableModesMixin[] = selection.length > 0 ? [...selection] : [figma.currentPage];
+  for (const node of targets) node.setExplicitVariableModeForCollection(collection, modeId);
+  figma.notify(`Theme "${theme}" applied to ${selection.length > 0 ? `${selection.length} selected` : 'the page'}`);
+}
+
 // ── Card icons ────────────────────────────────────────────────────────────────
 // Paths extracted from the Figma Service Blueprint component library SVG export.
 // Coordinates are in Figma canvas space. normalizePath() translates them to
@@ -230,13 +379,13 @@ function txt(
   content: string,
   size: number,
   style: 'Regular' | 'Medium' | 'Semi Bold',
-  color: string,
+  color: string | SolidPaint[],
   wrapWidth?: number
 ): TextNode {
   const t = figma.createText();
   t.fontName = { family: 'Inter', style };
   t.fontSize = size;
-  t.fills = fill(color);
+  t.fills = typeof color === 'string' ? fill(color) : color;
   t.characters = content;
   if (wrapWidth !== undefined) {
     t.textAutoResize = 'HEIGHT';
@@ -248,7 +397,7 @@ function txt(
 // ── Divider helpers ───────────────────────────────────────────────────────────
 
 function hDivider(container: FrameNode, x: number, y: number, width: number, color = '#CCCCCC'): void {
-  const r = figma.createRectangle();
+  const r = markStructure(figma.createRectangle());
   container.appendChild(r);
   r.x = x; r.y = y;
   r.resize(width, 1);
@@ -256,7 +405,7 @@ function hDivider(container: FrameNode, x: number, y: number, width: number, col
 }
 
 function vDivider(container: FrameNode, x: number, y: number, height: number, color = '#DDDDDD'): void {
-  const r = figma.createRectangle();
+  const r = markStructure(figma.createRectangle());
   container.appendChild(r);
   r.x = x; r.y = y;
   r.resize(1, height);
@@ -266,12 +415,12 @@ function vDivider(container: FrameNode, x: number, y: number, height: number, co
 // ── Card rendering ────────────────────────────────────────────────────────────
 
 // Note cards: single cream section, no type label.
-function renderNoteCard(card: Card, cardWidth: number): FrameNode {
-  const p = PALETTE['note'];
+function renderNoteCard(card: Card, cardWidth: number, variables?: PaletteVariables): FrameNode {
+  const c = cardColors(card, variables);
   const textWidth = cardWidth - CARD_PADDING * 2;
 
   const f = vFrame('card:note', 6);
-  f.fills = fill(p.headerBg);
+  f.fills = c.headerBg;
   f.paddingTop = f.paddingBottom = CARD_PADDING;
   f.paddingLeft = f.paddingRight = CARD_PADDING;
   f.resize(cardWidth, 1);
@@ -279,39 +428,65 @@ function renderNoteCard(card: Card, cardWidth: number): FrameNode {
   f.counterAxisSizingMode = 'FIXED';
   f.cornerRadius = CARD_CORNER;
 
-  const titleNode = txt(card.text, 13, 'Semi Bold', p.headerFg, textWidth);
+  const titleNode = txt(card.text, 13, 'Semi Bold', c.headerFg, textWidth);
+  titleNode.name = 'title';
   f.appendChild(titleNode);
   titleNode.layoutSizingHorizontal = 'FILL';
 
   if (card.subtext) {
-    const sub = txt(card.subtext, 11, 'Regular', p.bodyFg, textWidth);
+    const sub = txt(card.subtext, 11, 'Regular', c.bodyFg, textWidth);
+    sub.name = 'subtext';
     f.appendChild(sub);
     sub.layoutSizingHorizontal = 'FILL';
   }
 
+  if (card.domain) f.appendChild(renderDomainTag(card, c.headerFg));
+
   return f;
 }
 
+// Type label shown in a card's header
+function cardLabel(card: Card): string {
+  return paletteFor(card.type, card.actor)?.label ?? '';
+}
+
+// Outlined pill naming the card's domain, last in the header
+function renderDomainTag(card: Card, color: SolidPaint[]): FrameNode {
+  const tag = figma.createFrame();
+  tag.name = 'domain-tag';
+  tag.fills = [];
+  tag.strokes = color;
+  tag.strokeWeight = 1;
+  tag.strokeAlign = 'INSIDE';
+  tag.cornerRadius = 4;
+  tag.layoutMode = 'HORIZONTAL';
+  tag.primaryAxisSizingMode = 'AUTO';
+  tag.counterAxisSizingMode = 'AUTO';
+  tag.paddingTop = tag.paddingBottom = TAG_PADDING_Y;
+  tag.paddingLeft = tag.paddingRight = TAG_PADDING_X;
+
+  const text = txt(domainTag(card), 10, 'Semi Bold', color);
+  text.name = 'domain';
+  tag.appendChild(text);
+  return tag;
+}
+
 // Typed cards: colored header (title + label) + lighter body (subtext).
-function renderTypedCard(card: Card, cardWidth: number): FrameNode {
-  let p = paletteFor(card.type, card.actor);
-  if (card.type === 'system' && card.domain) {
-    p = { ...p, label: `SYSTEM (${card.domain.toUpperCase()})` };
-  }
-  if (card.type === 'domain-event' && card.domain) {
-    p = { ...p, label: `EVENT (${card.domain.toUpperCase()})` };
-  }
+function renderTypedCard(card: Card, cardWidth: number, variables?: PaletteVariables): FrameNode {
+  const p = { ...paletteFor(card.type, card.actor), label: cardLabel(card) };
+  const c = cardColors(card, variables);
   const textWidth = cardWidth - CARD_PADDING * 2;
 
   const header = vFrame('header', 6);
-  header.fills = fill(p.headerBg);
+  header.fills = c.headerBg;
   header.paddingTop = header.paddingBottom = CARD_PADDING;
   header.paddingLeft = header.paddingRight = CARD_PADDING;
   header.resize(cardWidth, 1);
   header.primaryAxisSizingMode = 'AUTO';
   header.counterAxisSizingMode = 'FIXED';
 
-  const titleNode = txt(card.text, 14, 'Semi Bold', p.headerFg, textWidth);
+  const titleNode = txt(card.text, 14, 'Semi Bold', c.headerFg, textWidth);
+  titleNode.name = 'title';
   header.appendChild(titleNode);
   titleNode.layoutSizingHorizontal = 'FILL';
 
@@ -332,23 +507,27 @@ function renderTypedCard(card: Card, cardWidth: number): FrameNode {
     const iconScale = ICON_SIZE / Math.max(def.w, def.h);
     const v = figma.createVector();
     v.vectorPaths = [{ windingRule: 'NONZERO', data: normalizePath(def.d, def.minX, def.minY) }];
-    v.fills = fill(p.headerFg);
+    v.fills = c.headerFg;
     v.strokes = [];
     v.resize(def.w * iconScale, def.h * iconScale);
     v.layoutSizingHorizontal = 'FIXED';
     v.layoutSizingVertical = 'FIXED';
     labelRow.appendChild(v);
 
-    const labelNode = txt(p.label, 11, 'Regular', p.headerFg);
+    const labelNode = txt(p.label, 11, 'Regular', c.headerFg);
+    labelNode.name = 'label';
     labelRow.appendChild(labelNode);
 
     header.appendChild(labelRow);
   } else if (p.label) {
-    const labelNode = txt(p.label, 11, 'Regular', p.headerFg, textWidth);
+    const labelNode = txt(p.label, 11, 'Regular', c.headerFg, textWidth);
+    labelNode.name = 'label';
     header.appendChild(labelNode);
     labelNode.layoutSizingHorizontal = 'FILL';
   }
 
+  if (card.domain) header.appendChild(renderDomainTag(card, c.headerFg));
+
   header.locked = true;
 
   const cardFrame = vFrame(`card:${card.type}`, 0);
@@ -361,7 +540,7 @@ function renderTypedCard(card: Card, cardWidth: number): FrameNode {
 
   if (card.subtext) {
     const body = vFrame('body', 0);
-    body.fills = fill(p.bodyBg);
+    body.fills = c.bodyBg;
     body.paddingTop = body.paddingBottom = CARD_PADDING;
     body.paddingLeft = body.paddingRight = CARD_PADDING;
     body.resize(cardWidth, 1);
@@ -369,7 +548,8 @@ function renderTypedCard(card: Card, cardWidth: number): FrameNode {
     body.counterAxisSizingMode = 'FIXED';
     body.locked = true;
 
-    const sub = txt(card.subtext, 12, 'Regular', p.bodyFg, textWidth);
+    const sub = txt(card.subtext, 12, 'Regular', c.bodyFg, textWidth);
+    sub.name = 'subtext';
     body.appendChild(sub);
     sub.layoutSizingHorizontal = 'FILL';
 
@@ -379,15 +559,257 @@ function renderTypedCard(card: Card, cardWidth: number): FrameNode {
   return cardFrame;
 }
 
-export function renderCard(card: Card, cardWidth: number = CARD_WIDTH): FrameNode {
+// Draws a card as a plain frame. Cards on the canvas are instances of
+// components drawn with this (see Card components below).
+function drawCard(card: Card, cardWidth: number = CARD_WIDTH, variables?: PaletteVariables): FrameNode {
   return card.type === 'note'
-    ? renderNoteCard(card, cardWidth)
-    : renderTypedCard(card, cardWidth);
+    ? renderNoteCard(card, cardWidth, variables)
+    : renderTypedCard(card, cardWidth, variables);
+}
+
+// ── Card components ───────────────────────────────────────────────────────────
+// Each card type is a ComponentSet on the "Card Components" page, with an Actor
+// variant for person-action and Title / Subtext / Label / Domain text properties. Cards
+// on the canvas are instances, so a palette change in card-types.yaml only
+// redraws the component sets. Sets are found again by plugin data and redrawn
+// in place when the palette they were drawn with changes.
+
+const COMPONENTS_PAGE   = 'Card Components';
+const COMPONENT_VERSION = 3;              // bump when drawCard or renderDesignCard change
+const DATA_COMPONENT    = 'component';    // component set: "<style>/<card type>"
+const DATA_PALETTE      = 'palette';      // component set: version + palettes it was drawn with
+
+const PROP_TITLE        = 'Title';
+const PROP_SUBTEXT      = 'Subtext';
+const PROP_SHOW_SUBTEXT = 'Show subtext';
+const PROP_LABEL        = 'Label';
+const PROP_DOMAIN       = 'Domain';
+const PROP_SHOW_DOMAIN  = 'Show domain';
+const PROP_ACTOR        = 'Actor';        // variant property of person-action
+const PROP_TYPE         = 'Type';         // single variant of every other type
+const NO_ACTOR          = 'none';         // person-action variant without an actor
+
+const SET_GAP = 40;
+
+type CardNode = FrameNode | InstanceNode;
+
+interface CardStyle {
+  id: string;     // plugin data key prefix
+  name: string;   // component set name prefix
+  draw: (card: Card, variables: PaletteVariables) => FrameNode;
+}
+
+const BLUEPRINT_STYLE: CardStyle = { id: 'blueprint', name: 'Blueprint card', draw: (card, variables) => drawCard(card, CARD_WIDTH, variables) };
+const DESIGN_STYLE: CardStyle    = { id: 'design', name: 'Design card', draw: renderDesignCard };
+
+interface CardLibrary {
+  style: CardStyle;
+  sets: Map<string, ComponentSetNode>;  // by card type
+}
+
+interface CardProperties {
+  title: string;
+  subtext: string;
+  showSubtext: string;
+  label?: string;   // omitted for types without a label (note)
+  domain?: string;  // omitted for styles without a domain tag (design cards)
+  showDomain?: string;
+}
+
+async function componentsPage(): Promise<PageNode> {
+  let page = figma.root.children.find(p => p.getPluginData(DATA_ROLE) === 'components');
+  if (!page) {
+    page = figma.createPage();
+    page.name = COMPONENTS_PAGE;
+    page.setPluginData(DATA_ROLE, 'components');
+  }
+  await page.loadAsync();
+  return page;
+}
+
+// One placeholder card per variant, named "<property>=<value>"
+function variantCards(type: CardType): { name: string; card: Card }[] {
+  const placeholder = { text: PROP_TITLE, subtext: 'Description', domain: 'domain' };
+  if (type !== 'person-action') return [{ name: `${PROP_TYPE}=${type}`, card: { type, ...placeholder } }];
+  return [
+    ...Object.keys(ACTOR_PALETTE).map(actor => ({
+      name: `${PROP_ACTOR}=${actor}`,
+      card: { type, actor: actor as ActorType, ...placeholder },
+    })),
+    { name: `${PROP_ACTOR}=${NO_ACTOR}`, card: { type, ...placeholder } },
+  ];
+}
+
+function paletteStamp(type: CardType): string {
+  const palettes = type === 'person-action'
+    ? { type: PALETTE[type], actors: ACTOR_PALETTE }
+    : { type: paletteFor(type) };
+  return `${COMPONENT_VERSION}:${JSON.stringify(palettes)}`;
+}
+
+function propertyKey(set: ComponentSetNode, name: string): string | undefined {
+  return Object.keys(set.componentPropertyDefinitions).find(key => key.split('#')[0] === name);
+}
+
+// Define the text properties on the set and bind each variant's text nodes to them
+function bindProperties(set: ComponentSetNode, type: CardType): void {
+  const define = (name: string, kind: 'TEXT' | 'BOOLEAN', value: string | boolean) =>
+    propertyKey(set, name) ?? set.addComponentProperty(name, kind, value);
+
+  const props: CardProperties = {
+    title: define(PROP_TITLE, 'TEXT', PROP_TITLE),
+    subtext: define(PROP_SUBTEXT, 'TEXT', 'Description'),
+    showSubtext: define(PROP_SHOW_SUBTEXT, 'BOOLEAN', true),
+  };
+  if (paletteFor(type)?.label) props.label = define(PROP_LABEL, 'TEXT', paletteFor(type).label);
+  if (set.findOne(n => n.name === 'domain-tag')) {
+    props.domain = define(PROP_DOMAIN, 'TEXT', 'DOMAIN');
+    props.showDomain = define(PROP_SHOW_DOMAIN, 'BOOLEAN', false);
+  }
+
+  for (const variant of set.children) {
+    if (variant.type !== 'COMPONENT') continue;
+    const refs = new Map<SceneNode, { [key: string]: string }>();
+    const bind = (name: string, field: 'characters' | 'visible', key: string) => {
+      const node = variant.findOne(n => n.name === name);
+      if (node) refs.set(node, { ...refs.get(node), [field]: key });
+    };
+    bind('title', 'characters', props.title);
+    bind('subtext', 'characters', props.subtext);
+    // Typed cards hide the whole body; note cards only have the text
+    bind(variant.findOne(n => n.name === 'body') ? 'body' : 'subtext', 'visible', props.showSubtext);
+    if (props.label) bind('label', 'characters', props.label);
+    if (props.domain) bind('domain', 'characters', props.domain);
+    if (props.showDomain) bind('domain-tag', 'visible', props.showDomain);
+    refs.forEach((value, node) => { node.componentPropertyReferences = value; });
+  }
+}
+
+function buildComponentSet(
+  style: CardStyle, type: CardType, variables: PaletteVariables, page: PageNode, y: number
+): ComponentSetNode {
+  const components = variantCards(type).map(({ name, card }) => {
+    const component = figma.createComponentFromNode(style.draw(card, variables));
+    component.name = name;
+    page.appendChild(component);
+    return component;
+  });
+
+  const set = figma.combineAsVariants(components, page);
+  set.name = `${style.name}/${type}`;
+  set.layoutMode = 'HORIZONTAL';
+  set.primaryAxisSizingMode = 'AUTO';
+  set.counterAxisSizingMode = 'AUTO';
+  set.itemSpacing = CARD_GAP;
+  set.paddingTop = set.paddingBottom = set.paddingLeft = set.paddingRight = CARD_GAP;
+  set.x = 0;
+  set.y = y;
+  set.setPluginData(DATA_COMPONENT, `${style.id}/${type}`);
+  return set;
+}
+
+// Redraw each variant into its existing component, so instances keep their
+// position and overrides
+function redrawComponentSet(style: CardStyle, type: CardType, variables: PaletteVariables, set: ComponentSetNode): void {
+  for (const { name, card } of variantCards(type)) {
+    const frame = style.draw(card, variables);
+    const existing = set.children.find(c => c.name === name);
+    if (existing && existing.type === 'COMPONENT') {
+      refreshCard(existing, frame);
+    } else {
+      const component = figma.createComponentFromNode(frame);
+      component.name = name;
+      set.appendChild(component);
+    }
+  }
+}
+
+// Find or build the component set of every card type in card-types.yaml
+async function loadCardLibrary(style: CardStyle): Promise<CardLibrary> {
+  const variables = await loadPaletteVariables();
+  const page = await componentsPage();
+  const existing = new Map<string, ComponentSetNode>();
+  let y = 0;
+  for (const node of page.children) {
+    if (node.type === 'COMPONENT_SET' && node.getPluginData(DATA_COMPONENT)) {
+      existing.set(node.getPluginData(DATA_COMPONENT), node);
+    }
+    y = Math.max(y, node.y + node.height + SET_GAP);
+  }
+
+  const sets = new Map<string, ComponentSetNode>();
+  for (const type of Object.keys(PALETTE) as CardType[]) {
+    const stamp = paletteStamp(type);
+    let set = existing.get(`${style.id}/${type}`);
+    if (!set) {
+      set = buildComponentSet(style, type, variables, page, y);
+      y += set.height + SET_GAP;
+    } else if (set.getPluginData(DATA_PALETTE) !== stamp) {
+      redrawComponentSet(style, type, variables, set);
+    }
+    bindProperties(set, type);
+    set.setPluginData(DATA_PALETTE, stamp);
+    sets.set(type, set);
+  }
+  return { style, sets };
+}
+
+function variantFor(set: ComponentSetNode, card: Card): ComponentNode {
+  const name = card.type === 'person-action' ? `${PROP_ACTOR}=${card.actor ?? NO_ACTOR}` : `${PROP_TYPE}=${card.type}`;
+  const match = set.children.find(c => c.name === name);
+  return match && match.type === 'COMPONENT' ? match : set.defaultVariant;
+}
+
+// Point an instance at the card's variant, fill in its text properties and
+// outline it when it is a future-state card
+function applyCard(library: CardLibrary, node: InstanceNode, card: Card): void {
+  const set = library.sets.get(card.type) ?? (library.sets.get('note') as ComponentSetNode);
+  node.swapComponent(variantFor(set, card));
+
+  const props: { [key: string]: string | boolean } = {};
+  const title = propertyKey(set, PROP_TITLE);
+  const subtext = propertyKey(set, PROP_SUBTEXT);
+  const showSubtext = propertyKey(set, PROP_SHOW_SUBTEXT);
+  const label = propertyKey(set, PROP_LABEL);
+  const domain = propertyKey(set, PROP_DOMAIN);
+  const showDomain = propertyKey(set, PROP_SHOW_DOMAIN);
+  if (title) props[title] = card.text;
+  if (subtext) props[subtext] = card.subtext ?? '';
+  if (showSubtext) props[showSubtext] = Boolean(card.subtext);
+  if (label) props[label] = cardLabel(card);
+  if (domain) props[domain] = domainTag(card) || 'DOMAIN';
+  if (showDomain) props[showDomain] = Boolean(card.domain);
+  node.setProperties(props);
+  node.name = `card:${card.type}`;
+
+  const future = card.status === 'future';
+  node.strokes = future ? fill(FUTURE_STYLE.color) : [];
+  node.strokeWeight = FUTURE_STYLE.weight;
+  node.strokeAlign = 'INSIDE';
+  node.dashPattern = future ? FUTURE_STYLE.dash : [];
+}
+
+function cardInstance(library: CardLibrary, card: Card, width?: number): InstanceNode {
+  const set = library.sets.get(card.type) ?? (library.sets.get('note') as ComponentSetNode);
+  const node = variantFor(set, card).createInstance();
+  applyCard(library, node, card);
+  if (width !== undefined) node.resize(width, node.height);
+  return node;
 }
 
 // ── Legend key ────────────────────────────────────────────────────────────────
 
-function buildKey(blueprintName: string): FrameNode {
+// Samples are tagged with the card they show, so copies pasted into the frame
+// are exported as new cards of that type.
+function renderSample(library: CardLibrary, card: Card): InstanceNode {
+  const sample = cardInstance(library, card, KEY_CARD_WIDTH);
+  sample.setPluginData(DATA_ROLE, 'sample');
+  sample.setPluginData(DATA_CARD, JSON.stringify(card));
+  return sample;
+}
+
+// `notes` are shown as a summary block between the title and the card samples.
+function buildKey(library: CardLibrary, blueprintName: string, notes: string[] = []): FrameNode {
   const panel = freeFrame('Legend');
   panel.fills = fill('#F8F8F8');
   panel.resize(KEY_PANEL_WIDTH, 100);
@@ -396,11 +818,23 @@ function buildKey(blueprintName: string): FrameNode {
   panel.appendChild(title);
   title.x = 20; title.y = 24;
 
+  let y = 24 + title.height + 4;
+
+  if (notes.length > 0) {
+    for (const line of notes) {
+      const note = txt(line, 11, 'Regular', '#1A1A1A', KEY_CARD_WIDTH);
+      panel.appendChild(note);
+      note.x = 20; note.y = y;
+      y += note.height + 4;
+    }
+    y += 12;
+  }
+
   const sub = txt('Card types — copy to add', 10, 'Regular', '#888888');
   panel.appendChild(sub);
-  sub.x = 20; sub.y = 24 + title.height + 4;
+  sub.x = 20; sub.y = y;
 
-  let y = 24 + title.height + 4 + sub.height + 20;
+  y += sub.height + 20;
 
   // Standard card types (not person-action — those are shown per-actor below)
   const types: CardType[] = [
@@ -414,9 +848,9 @@ function buildKey(blueprintName: string): FrameNode {
   // Person-action actor variants shown first
   const actors: ActorType[] = ['applicant', 'caseworker', 'supervisor'];
   for (const actor of actors) {
-    const sample = renderCard(
-      { type: 'person-action', actor, text: ACTOR_PALETTE[actor].label, subtext: 'Action taken' },
-      KEY_CARD_WIDTH
+    const sample = renderSample(
+      library,
+      { type: 'person-action', actor, text: ACTOR_PALETTE[actor].label, subtext: 'Action taken' }
     );
     panel.appendChild(sample);
     sample.x = 20; sample.y = y;
@@ -425,10 +859,7 @@ function buildKey(blueprintName: string): FrameNode {
 
   for (const type of types) {
     const p = PALETTE[type];
-    const sample = renderCard(
-      { type, text: p.label || 'Note', subtext: 'Description' },
-      KEY_CARD_WIDTH
-    );
+    const sample = renderSample(library, { type, text: p.label || 'Note', subtext: 'Description' });
     panel.appendChild(sample);
     sample.x = 20; sample.y = y;
     y += sample.height + 10;
@@ -438,179 +869,799 @@ function buildKey(blueprintName: string): FrameNode {
   return panel;
 }
 
-// ── Main render ───────────────────────────────────────────────────────────────
+// ── Re-render support ─────────────────────────────────────────────────────────
+// Generated nodes carry plugin data so a later run can find the earlier render
+// of the same blueprint and update it in place. Nodes without a role were added
+// by designers and are never touched.
+
+const DATA_BLUEPRINT = 'blueprintId';  // container: Blueprint.id
+const DATA_GRID      = 'grid';         // container: JSON GridGeometry of the last render
+const DATA_RENDERED  = 'rendered';     // container: JSON of every generated card by key
+const DATA_ROLE      = 'role';         // 'structure' (headers, dividers, legend), 'card', 'sample' or 'links'
+const DATA_KEY       = 'key';          // card: laneId/subPhaseId/(card id or index)
+const DATA_CARD      = 'card';         // card, sample, library card: JSON of the Card it was last rendered from
+const DATA_SLOT      = 'slot';         // card: "x,y" of its last generated position
+const DATA_REMOVED   = 'removed';      // card: 'true' once it is no longer in the blueprint
+const DATA_COLLAPSED = 'collapsed';    // card: 'true' while a "+N more" card stands in for it
+
+const REMOVED_OPACITY = 0.35;
+
+export interface RenderOptions {
+  // Update the earlier render of the same blueprint on the current page, if
+  // there is one, instead of creating a new frame. Defaults to true.
+  update?: boolean;
+  // Link kinds to show. The others are drawn hidden, so they can be shown from
+  // the layers panel. Defaults to every kind.
+  links?: LinkKind[];
+  // Lanes, phases and card types to lay out; the rest of the blueprint is left out
+  filter?: BlueprintFilter;
+  // 'grid' (the default) or 'auto' — see blueprint-layout.js
+  layout?: LayoutMode;
+  // Numbers to draw over the sub-phase columns, as a header band (the
+  // default) or a heat tint on the cells
+  metrics?: BlueprintMetrics;
+  overlay?: MetricsOverlay;
+}
 
-// Flat sub-phase entry carrying its parent phase reference
-interface SubPhaseEntry extends SubPhase {
-  phase: Phase;
+function markStructure<T extends SceneNode>(node: T): T {
+  node.setPluginData(DATA_ROLE, 'structure');
+  return node;
 }
 
-export async function renderBlueprint(blueprint: Blueprint): Promise<void> {
-  await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-  await figma.loadFontAsync({ family: 'Inter', style: 'Medium' });
-  await figma.loadFontAsync({ family: 'Inter', style: 'Semi Bold' });
+function slotOf(x: number, y: number): string {
+  return `${Math.round(x)},${Math.round(y)}`;
+}
+
+function findRender(blueprintId: string): FrameNode | null {
+  for (const node of figma.currentPage.children) {
+    if (node.type === 'FRAME' && node.getPluginData(DATA_BLUEPRINT) === blueprintId) return node;
+  }
+  return null;
+}
 
-  // Build flat column list from nested phases → subPhases
-  const columns: SubPhaseEntry[] = [];
-  for (const phase of blueprint.phases) {
-    for (const sp of phase.subPhases) {
-      columns.push({ ...sp, phase });
+// Move a freshly drawn card's content into an existing card component. The
+// component itself is kept, so its instances follow the new drawing.
+function refreshCard(target: ComponentNode, source: FrameNode): void {
+  for (const child of [...target.children]) child.remove();
+  for (const child of [...source.children]) target.appendChild(child);
+  target.fills = source.fills;
+  target.itemSpacing = source.itemSpacing;
+  target.paddingTop = source.paddingTop;
+  target.paddingBottom = source.paddingBottom;
+  target.paddingLeft = source.paddingLeft;
+  target.paddingRight = source.paddingRight;
+  target.cornerRadius = source.cornerRadius;
+  target.clipsContent = source.clipsContent;
+  target.resize(source.width, target.height);
+  source.remove();
+}
+
+// ── Links ─────────────────────────────────────────────────────────────────────
+// Blueprint.links are drawn as elbow arrows between the placed cards, one group
+// per kind. They are vectors, since connectors are FigJam-only, so an arrow
+// doesn't follow a card that is dragged. Updating the frame redraws them from
+// where the cards are then.
+
+const LINK_GROUP_NAMES: Record<LinkKind, string> = {
+  triggers: 'Event triggers',
+  emits:    'Emits event',
+};
+const LINK_KINDS = Object.keys(LINK_GROUP_NAMES) as LinkKind[];
+
+async function drawArrow(parent: FrameNode, points: Point[], style: { color: string; dash: number[] }): Promise<VectorNode> {
+  const left = Math.min(...points.map(p => p.x));
+  const top = Math.min(...points.map(p => p.y));
+  const arrow = figma.createVector();
+  parent.appendChild(arrow);
+  await arrow.setVectorNetworkAsync({
+    vertices: points.map((p, i) => ({
+      x: p.x - left,
+      y: p.y - top,
+      ...(i === points.length - 1 ? { strokeCap: 'ARROW_LINES' as StrokeCap } : {}),
+    })),
+    segments: points.slice(1).map((_, i) => ({ start: i, end: i + 1 })),
+  });
+  arrow.x = left;
+  arrow.y = top;
+  arrow.fills = [];
+  arrow.strokes = fill(style.color);
+  arrow.strokeWeight = 1.5;
+  arrow.dashPattern = style.dash;
+  return arrow;
+}
+
+async function drawLinks(
+  container: FrameNode, links: Link[], cards: Map<string, CardNode>, shown: LinkKind[]
+): Promise<void> {
+  for (const kind of LINK_KINDS) {
+    const arrows: VectorNode[] = [];
+    for (const link of links) {
+      const from = cards.get(link.from);
+      const to = cards.get(link.to);
+      if (link.kind !== kind || !from || !to || from === to) continue;
+      const arrow = await drawArrow(container, linkRoute(from, to), LINK_STYLES[kind]);
+      arrow.name = `${link.from} → ${link.to}`;
+      arrows.push(arrow);
     }
+    if (arrows.length === 0) continue;
+    const group = figma.group(arrows, container);
+    group.name = `Links: ${LINK_GROUP_NAMES[kind]}`;
+    group.visible = shown.indexOf(kind) !== -1;
+    group.setPluginData(DATA_ROLE, 'links');
   }
+}
 
-  const cellMap = new Map<string, Cell>();
-  for (const cell of blueprint.cells) {
-    cellMap.set(`${cell.laneId}/${cell.subPhaseId}`, cell);
+function linkLegend(links: Link[], shown: LinkKind[]): string[] {
+  return LINK_KINDS
+    .filter(kind => shown.indexOf(kind) !== -1 && links.some(l => l.kind === kind))
+    .map(kind => LINK_STYLES[kind].legend);
+}
+
+// ── "+N more" cards ───────────────────────────────────────────────────────────
+// In auto layout a cell with more cards than its stacks hold ends in a "+N
+// more" card. The cards it stands in for are left out of the frame; the text
+// links to the card library section on the page, if there is one.
+
+const MORE_LEGEND = '"+N more" — cards a full cell leaves out';
+
+function findCardLibrary(): SectionNode | null {
+  for (const node of figma.currentPage.children) {
+    if (node.type === 'SECTION' && / — Card Library$/.test(node.name)) return node;
   }
+  return null;
+}
 
-  // ── First pass: render all cards, compute row heights ──────────────────────
-  // Cards are NOT wrapped in cell frames — they become direct children of the
-  // container so designers can select and drag them with a single click.
+function renderMore(more: SceneMore, cardLibrary: SectionNode | null): FrameNode {
+  const node = vFrame(`+${more.keys.length} more`, 2);
+  node.primaryAxisSizingMode = 'FIXED';
+  node.counterAxisSizingMode = 'FIXED';
+  node.primaryAxisAlignItems = 'CENTER';
+  node.resize(more.width, more.height);
+  node.paddingLeft = node.paddingRight = CARD_PADDING;
+  node.fills = fill(MORE_STYLE.fill);
+  node.strokes = fill(MORE_STYLE.stroke);
+  node.dashPattern = MORE_STYLE.dash;
+  node.cornerRadius = CARD_CORNER;
+  node.appendChild(txt(`+${more.keys.length} more`, 14, 'Semi Bold', MORE_STYLE.color));
+  if (cardLibrary) {
+    const link = txt('See the card library', 11, 'Regular', MORE_STYLE.color);
+    link.hyperlink = { type: 'NODE', value: cardLibrary.id };
+    link.textDecoration = 'UNDERLINE';
+    node.appendChild(link);
+  }
+  return node;
+}
 
-  interface RenderedCell { cards: FrameNode[]; contentHeight: number }
-  const cellGrid: RenderedCell[][] = [];
-  const rowHeights: number[] = [];
+// ── Metrics overlay ───────────────────────────────────────────────────────────
+// A band above the header with each column's SLA target, median and volume,
+// colored by how the median compares with the target; or the same color as a
+// tint behind the column's cells. Columns without numbers are left plain.
+
+export type MetricsOverlay = 'band' | 'tint';
+
+const METRICS_BAND_HEIGHT = 64;   // includes the gap above the header
+const METRICS_BAND_GAP    = 8;
+const TINT_OPACITY        = 0.6;
+
+function drawMetricsBand(container: FrameNode, grid: GridGeometry, metrics: BlueprintMetrics): void {
+  for (const column of grid.columns) {
+    const m = metrics.subPhases[column.id];
+    if (!m) continue;
+    const level = heatOf(m);
+    const style = level ? HEAT_STYLES[level] : NO_HEAT_STYLE;
+    const band = markStructure(vFrame(`metrics:${column.id}`, 2));
+    band.primaryAxisSizingMode = 'FIXED';
+    band.counterAxisSizingMode = 'FIXED';
+    band.primaryAxisAlignItems = 'CENTER';
+    band.counterAxisAlignItems = 'CENTER';
+    band.resize(column.width - 2, METRICS_BAND_HEIGHT - METRICS_BAND_GAP);
+    band.fills = fill(style.fill);
+    band.cornerRadius = 4;
+    for (const line of metricsLines(m)) band.appendChild(txt(line, 11, 'Regular', style.text));
+    container.appendChild(band);
+    band.x = column.x + 1;
+    band.y = 0;
+  }
+}
 
-  for (const lane of blueprint.lanes) {
-    const laneRow: RenderedCell[] = [];
-    let maxH = ROW_MIN_HEIGHT;
+function drawMetricsTint(container: FrameNode, grid: GridGeometry, metrics: BlueprintMetrics): void {
+  if (grid.lanes.length === 0) return;
+  const top = grid.lanes[0].y;
+  const last = grid.lanes[grid.lanes.length - 1];
+  for (const column of grid.columns) {
+    const m = metrics.subPhases[column.id];
+    const level = m ? heatOf(m) : null;
+    if (!level) continue;
+    const tint = markStructure(figma.createRectangle());
+    tint.name = `heat:${column.id}`;
+    container.appendChild(tint);
+    tint.x = column.x;
+    tint.y = top;
+    tint.resize(column.width, last.y + last.height - top);
+    tint.fills = fill(HEAT_STYLES[level].fill);
+    tint.opacity = TINT_OPACITY;
+  }
+}
 
-    for (const col of columns) {
-      const entry = cellMap.get(`${lane.id}/${col.id}`);
-      const cards = (entry?.cards ?? []).map(c => renderCard(c, CARD_WIDTH));
+function statusLegend(blueprint: Blueprint): string[] {
+  const future = blueprint.cells.some(cell => cell.cards.some(card => card.status === 'future'));
+  return future ? [FUTURE_STYLE.legend] : [];
+}
 
-      let h = CELL_PADDING;
-      for (const card of cards) h += card.height + CARD_GAP;
-      if (cards.length > 0) h = h - CARD_GAP + CELL_PADDING;
-      else h = CELL_PADDING * 2;
+// ── Main render ───────────────────────────────────────────────────────────────
+
+// Extension points for modes built on the blueprint grid (e.g. diff)
+interface DrawHooks {
+  legendNotes?: string[];
+  // Called on each freshly rendered card before it is measured and placed;
+  // returns the node to place, e.g. a detached copy to add content to
+  decorate?: (node: InstanceNode, cell: Cell, index: number) => CardNode;
+}
+
+interface DrawResult {
+  container: FrameNode;
+  grid: GridGeometry;
+  rendered: Record<string, GeneratedCard>;
+  updated: boolean;
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+export async function renderBlueprint(blueprint: Blueprint, options: RenderOptions = {}): Promise<void> {
+  // A filtered view is its own frame, listing the filters in its legend
+  const { filter } = options;
+  const filtered = isFiltered(filter);
+  const shown = filtered ? filterBlueprint(blueprint, filter) : blueprint;
+
+  if (figma.editorType === 'figjam') {
+    const section = await drawJamBlueprint(shown, options);
+    figma.viewport.scrollAndZoomIntoView([section]);
+    figma.notify(`Generated: ${shown.name}`);
+    return;
+  }
+
+  const hooks: DrawHooks = filtered ? { legendNotes: describeFilter(blueprint, filter) } : {};
+
+  const { container, grid, rendered, updated, added, changed, removed } = await drawBlueprint(shown, options, hooks);
+  if (!filtered) {
+    container.setPluginData(DATA_GRID, JSON.stringify(grid));
+    container.setPluginData(DATA_RENDERED, JSON.stringify(rendered));
+  }
 
-      const contentHeight = Math.max(h, ROW_MIN_HEIGHT);
-      laneRow.push({ cards, contentHeight });
-      maxH = Math.max(maxH, contentHeight);
+  figma.viewport.scrollAndZoomIntoView([container]);
+  figma.notify(updated
+    ? `Updated: ${shown.name} — ${added} added, ${changed} changed, ${removed} removed`
+    : `Generated: ${shown.name}`);
+}
+
+async function drawBlueprint(blueprint: Blueprint, options: RenderOptions, hooks: DrawHooks = {}): Promise<DrawResult> {
+  await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+  await figma.loadFontAsync({ family: 'Inter', style: 'Medium' });
+  await figma.loadFontAsync({ family: 'Inter', style: 'Semi Bold' });
+  const library = await loadCardLibrary(BLUEPRINT_STYLE);
+  const links = blueprint.links ?? [];
+  const shownLinks = options.links ?? LINK_KINDS;
+
+  // Earlier render to update, with its generated cards by key
+  const previous = options.update === false ? null : findRender(blueprint.id);
+  const previousCards = new Map<string, CardNode>();
+  if (previous) {
+    for (const node of previous.children) {
+      if ((node.type === 'FRAME' || node.type === 'INSTANCE') && node.getPluginData(DATA_ROLE) === 'card') {
+        previousCards.set(node.getPluginData(DATA_KEY), node);
+      }
     }
+  }
 
-    cellGrid.push(laneRow);
-    rowHeights.push(maxH);
+  // ── First pass: render all cards so the layout can measure them ───────────
+  // Cards are NOT wrapped in cell frames — they become direct children of the
+  // container so designers can select and drag them with a single click.
+  // Cells outside the blueprint's lanes and sub-phases are not laid out.
+  const laneIds = new Set(blueprint.lanes.map(l => l.id));
+  const subPhaseIds = new Set<string>();
+  for (const phase of blueprint.phases) for (const sp of phase.subPhases) subPhaseIds.add(sp.id);
+
+  const nodes = new Map<string, CardNode>();
+  for (const cell of blueprint.cells) {
+    if (!laneIds.has(cell.laneId) || !subPhaseIds.has(cell.subPhaseId)) continue;
+    cell.cards.forEach((c, i) => {
+      const instance = cardInstance(library, c);
+      nodes.set(cardKey(cell, c, i), hooks.decorate ? hooks.decorate(instance, cell, i) : instance);
+    });
   }
 
-  const tableWidth  = LANE_LABEL_WIDTH + columns.length * PHASE_WIDTH;
-  const tableHeight = HEADER_HEIGHT + rowHeights.reduce((a, b) => a + b, 0);
-  const totalWidth  = KEY_TOTAL + tableWidth;
+  const band = options.metrics !== undefined && options.overlay !== 'tint';
+  const scene = layoutBlueprint(blueprint, {
+    x: KEY_TOTAL,
+    y: band ? METRICS_BAND_HEIGHT : 0,
+    layout: options.layout,
+    measureCard: (_card, key) => (nodes.get(key) as CardNode).height,
+  });
+
+  // Cards collapsed into "+N more" aren't placed; earlier renders of them are
+  // hidden, not deleted, and come back if the cell has room again
+  const collapsed = new Set<string>();
+  for (const m of scene.more) for (const k of m.keys) collapsed.add(k);
+  collapsed.forEach(k => {
+    (nodes.get(k) as CardNode).remove();
+    const old = previousCards.get(k);
+    if (!old) return;
+    previousCards.delete(k);
+    old.visible = false;
+    old.setPluginData(DATA_COLLAPSED, 'true');
+  });
 
   // ── Container ──────────────────────────────────────────────────────────────
-  const container = freeFrame(blueprint.name);
-  container.fills = fill('#FFFFFF');
-  container.resize(totalWidth, Math.max(tableHeight, 400));
-  figma.currentPage.appendChild(container);
+  // When updating, the generated structure and links are rebuilt from scratch;
+  // cards are matched by key below and everything designers added is left alone.
+  let container: FrameNode;
+  if (previous) {
+    container = previous;
+    container.name = blueprint.name;
+    for (const node of [...container.children]) {
+      const role = node.getPluginData(DATA_ROLE);
+      if (role === 'structure' || role === 'links') node.remove();
+    }
+  } else {
+    container = freeFrame(blueprint.name);
+    container.fills = fill('#FFFFFF');
+    container.resize(scene.width, Math.max(scene.height, 400));
+    container.setPluginData(DATA_BLUEPRINT, blueprint.id);
+    figma.currentPage.appendChild(container);
+  }
 
   // ── Legend key ─────────────────────────────────────────────────────────────
-  const key = buildKey(blueprint.name);
+  const legendNotes = [
+    ...(hooks.legendNotes ?? []), ...linkLegend(links, shownLinks), ...statusLegend(blueprint),
+    ...(scene.more.length > 0 ? [MORE_LEGEND] : []),
+    ...(options.metrics ? metricsLegend(options.metrics) : []),
+  ];
+  const key = markStructure(buildKey(library, blueprint.name, legendNotes));
   container.appendChild(key);
   key.x = 0; key.y = 0;
 
-  const bpX = KEY_TOTAL; // blueprint left edge
-
-  // ── Phase group headers (top row) ──────────────────────────────────────────
-  // One label per phase, spanning all its sub-phase columns.
-  {
-    let colOffset = 0;
-    for (const phase of blueprint.phases) {
-      const spanW = phase.subPhases.length * PHASE_WIDTH;
-      const spanX = bpX + LANE_LABEL_WIDTH + colOffset * PHASE_WIDTH;
+  // ── Metrics overlay, behind the grid ───────────────────────────────────────
+  if (options.metrics) {
+    if (band) drawMetricsBand(container, scene.grid, options.metrics);
+    else drawMetricsTint(container, scene.grid, options.metrics);
+  }
 
-      const label = txt(phase.label, 13, 'Semi Bold', '#1A1A1A');
-      container.appendChild(label);
-      label.x = spanX + (spanW - label.width) / 2;
-      label.y = 8;
+  // ── Headers, lane labels and grid lines ────────────────────────────────────
+  for (const l of scene.labels) {
+    const label = markStructure(txt(l.text, l.fontSize, l.weight === 'semibold' ? 'Semi Bold' : 'Regular', l.color));
+    container.appendChild(label);
+    label.x = l.x + (l.width - label.width) / 2;
+    label.y = l.height === undefined ? l.y : l.y + (l.height - label.height) / 2;
+  }
 
-      colOffset += phase.subPhases.length;
+  for (const line of scene.lines) {
+    if (line.orientation === 'horizontal') hDivider(container, line.x, line.y, line.length, line.color);
+    else vDivider(container, line.x, line.y, line.length, line.color);
+  }
 
-      // Phase group divider (right edge, not after last phase)
-      if (colOffset < columns.length) {
-        vDivider(container, bpX + LANE_LABEL_WIDTH + colOffset * PHASE_WIDTH, 0, HEADER_HEIGHT, '#AAAAAA');
+  // ── Cards — placed directly in container (no cell wrapper) ─────────────────
+  const rendered: Record<string, GeneratedCard> = {};
+  const placedCards = new Map<string, CardNode>();
+  let added = 0;
+  let changed = 0;
+
+  for (const { key: cardId, card, laneId, subPhaseId, x: slotX, y: slotY } of scene.cards) {
+    const node = nodes.get(cardId) as CardNode;
+    let placed = node;
+    const old = previousCards.get(cardId);
+    if (old) {
+      // Follow the grid only if the designer hasn't moved the card
+      previousCards.delete(cardId);
+      const moved = old.getPluginData(DATA_SLOT) !== slotOf(old.x, old.y);
+      const differs = old.getPluginData(DATA_CARD) !== JSON.stringify(card);
+      if (differs) changed++;
+      if (old.type === 'INSTANCE') {
+        if (differs) applyCard(library, old, card);
+        node.remove();
+        placed = old;
+      } else {
+        // Cards drawn as plain frames by earlier versions become instances,
+        // at the same place in the layer order
+        container.insertChild(container.children.indexOf(old), node);
+        node.x = old.x;
+        node.y = old.y;
+        old.remove();
       }
+      placed.name = `card:${card.type}`;
+      placed.opacity = 1;
+      placed.visible = true;
+      placed.setPluginData(DATA_REMOVED, '');
+      placed.setPluginData(DATA_COLLAPSED, '');
+      if (!moved) { placed.x = slotX; placed.y = slotY; }
+    } else {
+      container.appendChild(node);
+      node.x = slotX;
+      node.y = slotY;
+      if (previous) added++;
     }
+
+    placed.setPluginData(DATA_ROLE, 'card');
+    placed.setPluginData(DATA_KEY, cardId);
+    placed.setPluginData(DATA_CARD, JSON.stringify(card));
+    placed.setPluginData(DATA_SLOT, slotOf(slotX, slotY));
+    rendered[cardId] = { laneId, subPhaseId, card };
+    placedCards.set(cardId, placed);
   }
 
-  // Mid-header rule separating phase row from sub-phase row
-  hDivider(container, bpX + LANE_LABEL_WIDTH, PHASE_HEADER_H, tableWidth - LANE_LABEL_WIDTH, '#CCCCCC');
+  // Links to collapsed cards end at their "+N more" card
+  const cardLibrary = scene.more.length > 0 ? findCardLibrary() : null;
+  const linkEnds = new Map(placedCards);
+  for (const m of scene.more) {
+    const node = markStructure(renderMore(m, cardLibrary));
+    container.appendChild(node);
+    node.x = m.x;
+    node.y = m.y;
+    for (const k of m.keys) linkEnds.set(k, node);
+  }
 
-  // ── Sub-phase headers (bottom row) ─────────────────────────────────────────
-  for (let i = 0; i < columns.length; i++) {
-    const col = columns[i];
-    const colX = bpX + LANE_LABEL_WIDTH + i * PHASE_WIDTH;
+  container.resize(scene.width, Math.max(scene.height, 400));
+  await drawLinks(container, links, linkEnds, shownLinks);
+
+  // Cards no longer in the blueprint are flagged, not deleted — designers may
+  // have annotated or connected them.
+  let removed = 0;
+  for (const old of previousCards.values()) {
+    if (old.getPluginData(DATA_REMOVED) === 'true') continue;
+    old.name = `removed:${old.name}`;
+    old.opacity = REMOVED_OPACITY;
+    old.setPluginData(DATA_REMOVED, 'true');
+    removed++;
+  }
 
-    const label = txt(col.label, 11, 'Regular', '#555555');
-    container.appendChild(label);
-    label.x = colX + (PHASE_WIDTH - label.width) / 2;
-    label.y = PHASE_HEADER_H + 6;
+  if (previous) {
+    // Keep the rebuilt structure behind cards and designer-added nodes
+    const structure = container.children.filter(n => n.getPluginData(DATA_ROLE) === 'structure');
+    structure.forEach((node, i) => container.insertChild(i, node));
+  }
 
-    // Sub-phase divider (lighter, within a phase group)
-    if (i < columns.length - 1 && columns[i + 1].phase.id === col.phase.id) {
-      vDivider(container, colX + PHASE_WIDTH, PHASE_HEADER_H, HEADER_HEIGHT - PHASE_HEADER_H, '#DDDDDD');
-    }
+  return { container, grid: scene.grid, rendered, updated: previous !== null, added, changed, removed };
+}
+
+// ── FigJam ────────────────────────────────────────────────────────────────────
+// In FigJam, blueprints and card libraries are drawn with whiteboard nodes:
+// note and question cards as stickies, the other cards as shapes with text,
+// each phase as a section and links as connectors that follow the cards.
+// Positions come from the same layouts as in Figma. A FigJam render is always
+// new — there are no component sets to update, and no legend, metrics overlay
+// or canvas export.
+
+type JamCard = StickyNode | ShapeWithTextNode;
+
+const JAM_FONT: FontName = { family: 'Inter', style: 'Medium' };  // FigJam's default for stickies and shapes
+const JAM_FONT_SIZE = 12;
+const JAM_TITLE_GAP = 48;   // above the phase sections, for their titles
+
+// Stickies keep FigJam's fixed size; shapes take the card width and an
+// estimated height, since their text doesn't resize them
+function jamCard(card: Card, width: number): JamCard {
+  const p = paletteFor(card.type, card.actor) ?? PALETTE.note;
+  const label = card.type === 'note' ? '' : p.label;
+  const node = isSticky(card) ? figma.createSticky() : figma.createShapeWithText();
+  node.text.fontName = JAM_FONT;
+  node.text.characters = cardParagraphs(card, label).join('\n');
+  if (node.type === 'STICKY') {
+    node.fills = fill(p.headerBg);
+    node.text.fills = fill(p.headerFg);
+  } else {
+    node.shapeType = 'ROUNDED_RECTANGLE';
+    node.fills = fill(p.bodyBg);
+    node.strokes = fill(card.status === 'future' ? FUTURE_STYLE.color : p.headerBg);
+    node.dashPattern = card.status === 'future' ? FUTURE_STYLE.dash : [];
+    node.text.fontSize = JAM_FONT_SIZE;
+    node.text.fills = fill(p.bodyFg);
+    node.resize(width, estimateCardHeight(card, width, label));
   }
+  node.name = `card:${card.type}`;
+  node.setPluginData(DATA_CARD, JSON.stringify(card));
+  return node;
+}
 
-  hDivider(container, bpX, HEADER_HEIGHT, tableWidth, '#AAAAAA');
+function jamMore(more: SceneMore): ShapeWithTextNode {
+  const node = figma.createShapeWithText();
+  node.name = `+${more.keys.length} more`;
+  node.shapeType = 'ROUNDED_RECTANGLE';
+  node.fills = fill(MORE_STYLE.fill);
+  node.strokes = fill(MORE_STYLE.stroke);
+  node.dashPattern = MORE_STYLE.dash;
+  node.text.fontName = JAM_FONT;
+  node.text.characters = node.name;
+  node.text.fills = fill(MORE_STYLE.color);
+  node.resize(more.width, more.height);
+  return node;
+}
 
-  // ── Lane rows ──────────────────────────────────────────────────────────────
-  let y = HEADER_HEIGHT;
+function jamConnector(from: SceneNode, to: SceneNode, kind: LinkKind): ConnectorNode {
+  const style = LINK_STYLES[kind];
+  const connector = figma.createConnector();
+  connector.connectorStart = { endpointNodeId: from.id, magnet: 'AUTO' };
+  connector.connectorEnd = { endpointNodeId: to.id, magnet: 'AUTO' };
+  connector.connectorLineType = 'ELBOWED';
+  connector.connectorEndStrokeCap = 'ARROW_LINES';
+  connector.strokes = fill(style.color);
+  connector.dashPattern = style.dash;
+  return connector;
+}
 
-  for (let li = 0; li < blueprint.lanes.length; li++) {
-    const lane = blueprint.lanes[li];
-    const rowH = rowHeights[li];
+function place(parent: SectionNode, node: SceneNode, x: number, y: number): void {
+  parent.appendChild(node);
+  node.x = x;
+  node.y = y;
+}
 
-    if (li > 0) hDivider(container, bpX, y, tableWidth, '#CCCCCC');
+async function loadJamFonts(): Promise<void> {
+  await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+  await figma.loadFontAsync({ family: 'Inter', style: 'Medium' });
+  await figma.loadFontAsync({ family: 'Inter', style: 'Semi Bold' });
+}
 
-    // Lane label
-    const laneLabel = txt(lane.label, 11, 'Semi Bold', '#555555');
-    container.appendChild(laneLabel);
-    laneLabel.x = bpX + (LANE_LABEL_WIDTH - laneLabel.width) / 2;
-    laneLabel.y = y + (rowH - laneLabel.height) / 2;
+// One section for the blueprint, holding a section per phase with its
+// sub-phase headers and cards; lane labels and dividers are in the outer one
+async function drawJamBlueprint(blueprint: Blueprint, options: RenderOptions): Promise<SectionNode> {
+  await loadJamFonts();
+  const shownLinks = options.links ?? LINK_KINDS;
+
+  const nodes = new Map<string, SceneNode>();  // card key → its sticky, shape or "+N more"
+  const scene = layoutBlueprint(blueprint, {
+    y: JAM_TITLE_GAP,
+    layout: options.layout,
+    measureCard: (card, key, width) => {
+      const node = jamCard(card, width);
+      nodes.set(key, node);
+      return node.height;
+    },
+  });
 
-    // Lane label column divider
-    vDivider(container, bpX + LANE_LABEL_WIDTH, y, rowH);
+  const outer = figma.createSection();
+  outer.name = blueprint.name;
+  outer.setPluginData(DATA_BLUEPRINT, blueprint.id);
+  figma.currentPage.appendChild(outer);
+
+  const sections = new Map<string, SectionNode>();  // by sub-phase id
+  for (const box of phaseBoxes(blueprint, scene, JAM_TITLE_GAP)) {
+    const section = figma.createSection();
+    section.name = box.label;
+    place(outer, section, box.x, box.y);
+    section.resizeWithoutConstraints(box.width, box.height);
+    const phase = blueprint.phases.filter(p => p.id === box.id)[0];
+    for (const sp of phase.subPhases) sections.set(sp.id, section);
+  }
+  const inSection = (subPhaseId: string, node: SceneNode, x: number, y: number) => {
+    const section = sections.get(subPhaseId) as SectionNode;
+    place(section, node, x - section.x, y - section.y);
+  };
 
-    // Cards — placed directly in container (no cell wrapper)
-    for (let ci = 0; ci < columns.length; ci++) {
-      const { cards } = cellGrid[li][ci];
-      const baseX = bpX + LANE_LABEL_WIDTH + ci * PHASE_WIDTH;
+  // Phase names are the section titles, so only sub-phase and lane labels are drawn
+  const subPhaseLabels = scene.labels.filter(l => l.role === 'sub-phase');
+  scene.grid.columns.forEach((column, i) => {
+    const l = subPhaseLabels[i];
+    const label = txt(l.text, l.fontSize, 'Regular', l.color);
+    inSection(column.id, label, l.x + (l.width - label.width) / 2, l.y);
+  });
+  for (const l of scene.labels.filter(l => l.role === 'lane')) {
+    const label = txt(l.text, l.fontSize, 'Semi Bold', l.color);
+    place(outer, label, l.x + (l.width - label.width) / 2, l.y + ((l.height ?? 0) - label.height) / 2);
+  }
+  for (const line of scene.lines) {
+    if (line.orientation !== 'horizontal') continue;
+    const rule = figma.createRectangle();
+    rule.resize(line.length, 1);
+    rule.fills = fill(line.color);
+    place(outer, rule, line.x, line.y);
+  }
 
-      let cardY = y + CELL_PADDING;
-      for (const card of cards) {
-        container.appendChild(card);
-        card.x = baseX + CELL_PADDING;
-        card.y = cardY;
-        cardY += card.height + CARD_GAP;
-      }
+  for (const c of scene.cards) inSection(c.subPhaseId, nodes.get(c.key) as SceneNode, c.x, c.y);
+  for (const m of scene.more) {
+    const node = jamMore(m);
+    inSection(m.subPhaseId, node, m.x, m.y);
+    for (const k of m.keys) nodes.set(k, node);
+  }
 
-      // Column divider — heavier at phase boundaries, lighter within a phase
-      if (ci < columns.length - 1) {
-        const isPhaseBreak = columns[ci + 1].phase.id !== columns[ci].phase.id;
-        vDivider(container, baseX + PHASE_WIDTH, y, rowH, isPhaseBreak ? '#AAAAAA' : '#DDDDDD');
-      }
-    }
+  for (const link of scene.links) {
+    const connector = jamConnector(nodes.get(link.from) as SceneNode, nodes.get(link.to) as SceneNode, link.kind);
+    connector.name = `${link.from} → ${link.to}`;
+    connector.visible = shownLinks.indexOf(link.kind) !== -1;
+    outer.appendChild(connector);
+  }
 
-    y += rowH;
+  outer.resizeWithoutConstraints(scene.width, scene.height);
+  return outer;
+}
+
+// The card library as in Figma, with stickies and shapes for cards
+async function renderJamCards(data: CardData): Promise<void> {
+  await loadJamFonts();
+  const lib = figma.createSection();
+  lib.name = libraryTitle(data);
+  figma.currentPage.appendChild(lib);
+
+  const labels: TextNode[] = [];
+  const cards: JamCard[] = [];
+  const scene = layoutCardLibrary(data, {
+    measureText: (role, text) => {
+      const label = role === 'title' ? txt(text, 16, 'Semi Bold', '#1A1A1A') : txt(text, 10, 'Semi Bold', '#888888');
+      labels.push(label);
+      return label.height;
+    },
+    measureCard: entry => {
+      const card = jamCard(entry, LIBRARY_CARD_WIDTH);
+      cards.push(card);
+      return card.height;
+    },
+  });
+  scene.texts.forEach((t, i) => place(lib, labels[i], t.x, t.y));
+  scene.cards.forEach((c, i) => place(lib, cards[i], c.x, c.y));
+  lib.resizeWithoutConstraints(scene.width, scene.height);
+
+  figma.viewport.scrollAndZoomIntoView([lib]);
+  figma.notify(`Generated: ${lib.name}`);
+}
+
+// ── Diff render ───────────────────────────────────────────────────────────────
+// Renders the union of two blueprint versions on the normal grid, with added
+// cards outlined green, removed cards ghosted red and modified cards outlined
+// orange with a note of what changed. Always creates a new frame.
+
+const DIFF_COLORS: Record<Exclude<CardDiff['change'], 'unchanged'>, string> = {
+  added:    '#2E8540',
+  removed:  '#D83933',
+  modified: '#FA9441',
+};
+const DIFF_NOTE_BG = '#FEF0C8';
+
+// Modified cards are detached from their component to make room for the note
+function decorateDiff(instance: InstanceNode, d: CardDiff): CardNode {
+  if (d.change === 'unchanged') return instance;
+
+  const node: CardNode = d.change === 'modified' ? instance.detachInstance() : instance;
+
+  node.name = `${d.change}:${node.name}`;
+  node.strokes = fill(DIFF_COLORS[d.change]);
+  node.strokeWeight = 3;
+  node.strokeAlign = 'INSIDE';
+
+  if (d.change === 'removed') {
+    node.opacity = REMOVED_OPACITY;
+    node.dashPattern = [6, 4];
   }
 
-  // Outer edges
-  hDivider(container, bpX, y, tableWidth, '#AAAAAA');
-  vDivider(container, bpX, HEADER_HEIGHT, y - HEADER_HEIGHT, '#AAAAAA');
-  vDivider(container, bpX + tableWidth, HEADER_HEIGHT, y - HEADER_HEIGHT, '#AAAAAA');
+  if (d.change === 'modified' && d.before && node.type === 'FRAME') {
+    const lines = [`Changed: ${(d.fields ?? []).join(', ')}`];
+    if (d.fields && d.fields.indexOf('text') !== -1) lines.push(`Was: ${d.before.text}`);
+
+    const note = vFrame('diff-note', 0);
+    note.fills = fill(DIFF_NOTE_BG);
+    note.paddingTop = note.paddingBottom = 8;
+    note.paddingLeft = note.paddingRight = CARD_PADDING;
+    const text = txt(lines.join('\n'), 10, 'Regular', '#3D2800', node.width - CARD_PADDING * 2);
+    note.appendChild(text);
+    node.appendChild(note);
+    note.layoutSizingHorizontal = 'FILL';
+    text.layoutSizingHorizontal = 'FILL';
+  }
+  return node;
+}
+
+export async function renderBlueprintDiff(diff: BlueprintDiff): Promise<void> {
+  const changes = new Map(diff.cells.map(c => [`${c.laneId}/${c.subPhaseId}`, c.cards]));
+  const blueprint: Blueprint = {
+    id: `${diff.head.id}:diff`,
+    name: `${diff.head.name} — changes`,
+    lanes: diff.lanes,
+    phases: diff.phases,
+    cells: diff.cells.map(c => ({ laneId: c.laneId, subPhaseId: c.subPhaseId, cards: c.cards.map(d => d.card) })),
+  };
 
-  container.resize(totalWidth, Math.max(y, 400));
+  const { container } = await drawBlueprint(blueprint, { update: false }, {
+    legendNotes: [
+      ...summarizeDiff(diff),
+      'Green outline — added · faded red — removed · orange outline — modified',
+    ],
+    decorate: (node, cell, index) => {
+      const d = changes.get(`${cell.laneId}/${cell.subPhaseId}`)?.[index];
+      return d ? decorateDiff(node, d) : node;
+    },
+  });
 
   figma.viewport.scrollAndZoomIntoView([container]);
-  figma.notify(`Generated: ${blueprint.name}`);
+  const { added, removed, modified } = diff.summary;
+  figma.notify(`Compared: ${added} added, ${removed} removed, ${modified} modified`);
+}
+
+// ── Canvas read-back ──────────────────────────────────────────────────────────
+// Reads a generated blueprint frame as designers left it, for export.ts. Only
+// full blueprints rendered by renderBlueprint carry the grid, so diff frames and
+// filtered views, which leave cards out, are skipped.
+
+function isExportable(node: BaseNode): node is FrameNode {
+  return node.type === 'FRAME' && node.getPluginData(DATA_GRID) !== '';
+}
+
+// The blueprint frame containing the selection, or else the first on the page
+export function findBlueprintFrame(): FrameNode | null {
+  for (const node of figma.currentPage.selection) {
+    for (let n: BaseNode | null = node; n && n.type !== 'PAGE'; n = n.parent) {
+      if (isExportable(n)) return n;
+    }
+  }
+  for (const node of figma.currentPage.children) {
+    if (isExportable(node)) return node;
+  }
+  return null;
+}
+
+// Text of a named node; empty if it or a parent up to `node` is hidden
+function textOf(node: CardNode, name: string): string | undefined {
+  const found = node.findOne(n => n.type === 'TEXT' && n.name === name);
+  for (let n: BaseNode | null = found; n && n !== node; n = n.parent) {
+    if ('visible' in n && !n.visible) return '';
+  }
+  return found ? (found as TextNode).characters : undefined;
+}
+
+export function readCanvas(container: FrameNode): CanvasSnapshot {
+  const cards: CanvasCard[] = [];
+
+  for (const node of container.children) {
+    if (node.type !== 'FRAME' && node.type !== 'INSTANCE') continue;
+    const role = node.getPluginData(DATA_ROLE);
+    if (role !== 'card' && role !== 'sample') continue;
+    if (node.getPluginData(DATA_REMOVED) === 'true' || node.getPluginData(DATA_COLLAPSED) === 'true') continue;
+
+    const card = JSON.parse(node.getPluginData(DATA_CARD)) as Card;
+    const text = textOf(node, 'title') ?? card.text;
+    let subtext = textOf(node, 'subtext') ?? card.subtext;
+    // A sample's placeholder subtext isn't content
+    if (role === 'sample' && subtext === card.subtext) subtext = undefined;
+
+    cards.push({
+      ...(role === 'card' ? { key: node.getPluginData(DATA_KEY) } : {}),
+      type: card.type,
+      ...(card.actor ? { actor: card.actor } : {}),
+      text,
+      ...(subtext ? { subtext } : {}),
+      x: node.x,
+      y: node.y,
+      width: node.width,
+    });
+  }
+
+  return {
+    blueprintId: container.getPluginData(DATA_BLUEPRINT),
+    name: container.name,
+    grid: JSON.parse(container.getPluginData(DATA_GRID)) as GridGeometry,
+    rendered: JSON.parse(container.getPluginData(DATA_RENDERED)) as Record<string, GeneratedCard>,
+    cards,
+  };
+}
+
+// ── Card details ──────────────────────────────────────────────────────────────
+// Every generated card keeps the card it was rendered from as plugin data, so
+// selecting one can show its domain, status and source in the UI.
+
+// The card the single selected node, or a parent of it, was rendered from
+export function selectedCard(): Card | null {
+  const selection = figma.currentPage.selection;
+  if (selection.length !== 1) return null;
+  for (let n: BaseNode | null = selection[0]; n && n.type !== 'PAGE'; n = n.parent) {
+    const data = n.getPluginData(DATA_CARD);
+    if (data) return JSON.parse(data) as Card;
+  }
+  return null;
 }
 
 // ── Card export renderer ──────────────────────────────────────────────────────
 // Renders standalone cards grouped by domain → phase → sub-phase.
 // Uses Source Sans Pro and the design specs from the Blueprint Card Figma file.
-// Does NOT modify the blueprint renderer above.
+// Does NOT modify the blueprint renderer above. Cards are instances of the
+// "Design card" component sets drawn by renderDesignCard.
 
-const DESIGN_CARD_W        = 240;
+const DESIGN_CARD_W        = LIBRARY_CARD_WIDTH;
 const DESIGN_CARD_CORNER   = 5;
 const DESIGN_HEADER_PAD    = 18;  // top/bottom padding inside header
 const DESIGN_BODY_PAD      = 24;  // top/bottom padding inside body
@@ -618,14 +1669,12 @@ const DESIGN_TEXT_W        = DESIGN_CARD_W - DESIGN_HEADER_PAD * 2;
 const DESIGN_PILL_PAD_H    = 4;   // pill top/bottom padding
 const DESIGN_PILL_PAD_V    = 8;   // pill left/right padding
 const DESIGN_PILL_GAP      = 4;   // gap between icon and label inside pill
-const DESIGN_SECTION_GAP   = 48;  // vertical gap between sub-phase sections
-const DESIGN_CARD_GAP      = 16;  // horizontal gap between cards in a row
 
 function sspTxt(
   content: string,
   size: number,
   style: 'Regular' | 'SemiBold',
-  color: string,
+  color: string | SolidPaint[],
   opts?: { lineHeight?: number; letterSpacing?: number; wrapWidth?: number }
 ): TextNode {
   const t = figma.createText();
@@ -638,7 +1687,7 @@ function sspTxt(
     t.letterSpacing = { value: opts.letterSpacing, unit: 'PIXELS' };
   }
   t.characters = content;
-  t.fills = fill(color);
+  t.fills = typeof color === 'string' ? fill(color) : color;
   if (opts?.wrapWidth !== undefined) {
     t.textAutoResize = 'HEIGHT';
     t.resize(opts.wrapWidth, t.height);
@@ -646,8 +1695,9 @@ function sspTxt(
   return t;
 }
 
-function renderDesignCard(entry: CardEntry): FrameNode {
+function renderDesignCard(entry: CardEntry, variables?: PaletteVariables): FrameNode {
   const p = paletteFor(entry.type, entry.actor) ?? PALETTE['note'];
+  const c = cardColors(entry, variables);
 
   const bodyText = entry.subtext || '';
 
@@ -658,15 +1708,16 @@ function renderDesignCard(entry: CardEntry): FrameNode {
   header.paddingTop = header.paddingBottom = DESIGN_HEADER_PAD;
   header.paddingLeft = header.paddingRight = DESIGN_HEADER_PAD;
   header.itemSpacing = 0;
-  header.fills = fill(p.headerBg);
+  header.fills = c.headerBg;
   header.resize(DESIGN_CARD_W, 1);
   header.primaryAxisSizingMode = 'AUTO';
   header.counterAxisSizingMode = 'FIXED';
 
-  const titleNode = sspTxt(entry.text, 18, 'SemiBold', p.headerFg, {
+  const titleNode = sspTxt(entry.text, 18, 'SemiBold', c.headerFg, {
     lineHeight: 24,
     wrapWidth: DESIGN_TEXT_W,
   });
+  titleNode.name = 'title';
   header.appendChild(titleNode);
   titleNode.layoutSizingHorizontal = 'FILL';
 
@@ -682,7 +1733,7 @@ function renderDesignCard(entry: CardEntry): FrameNode {
     pill.paddingLeft = pill.paddingRight = DESIGN_PILL_PAD_V;
     pill.itemSpacing = DESIGN_PILL_GAP;
     pill.cornerRadius = 12;
-    pill.fills = fill(p.headerBg);
+    pill.fills = c.headerBg;
     pill.strokes = [];
 
     const key = iconKey(entry.type, entry.actor);
@@ -691,7 +1742,7 @@ function renderDesignCard(entry: CardEntry): FrameNode {
       const iconScale = ICON_SIZE / Math.max(def.w, def.h);
       const v = figma.createVector();
       v.vectorPaths = [{ windingRule: 'NONZERO', data: normalizePath(def.d, def.minX, def.minY) }];
-      v.fills = fill(p.headerFg);
+      v.fills = c.headerFg;
       v.strokes = [];
       v.resize(def.w * iconScale, def.h * iconScale);
       v.layoutSizingHorizontal = 'FIXED';
@@ -699,7 +1750,8 @@ function renderDesignCard(entry: CardEntry): FrameNode {
       pill.appendChild(v);
     }
 
-    const labelNode = sspTxt(p.label, 12, 'Regular', p.headerFg, { lineHeight: 24, letterSpacing: 1 });
+    const labelNode = sspTxt(p.label, 12, 'Regular', c.headerFg, { lineHeight: 24, letterSpacing: 1 });
+    labelNode.name = 'label';
     pill.appendChild(labelNode);
     header.appendChild(pill);
   }
@@ -725,16 +1777,17 @@ function renderDesignCard(entry: CardEntry): FrameNode {
     body.layoutMode = 'VERTICAL';
     body.paddingTop = body.paddingBottom = DESIGN_BODY_PAD;
     body.paddingLeft = body.paddingRight = DESIGN_HEADER_PAD;
-    body.fills = fill(p.bodyBg);
+    body.fills = c.bodyBg;
     body.resize(DESIGN_CARD_W, 1);
     body.primaryAxisSizingMode = 'AUTO';
     body.counterAxisSizingMode = 'FIXED';
     body.locked = true;
 
-    const sub = sspTxt(bodyText, 14, 'Regular', p.bodyFg, {
+    const sub = sspTxt(bodyText, 14, 'Regular', c.bodyFg, {
       lineHeight: 21,
       wrapWidth: DESIGN_TEXT_W,
     });
+    sub.name = 'subtext';
     body.appendChild(sub);
     sub.layoutSizingHorizontal = 'FILL';
     card.appendChild(body);
@@ -759,71 +1812,266 @@ function labelFrame(content: string, size: number, style: 'Regular' | 'Medium' |
 }
 
 export async function renderCards(data: CardData): Promise<void> {
+  if (figma.editorType === 'figjam') {
+    await renderJamCards(data);
+    return;
+  }
+
   await figma.loadFontAsync({ family: 'Source Sans Pro', style: 'Regular' });
   await figma.loadFontAsync({ family: 'Source Sans Pro', style: 'SemiBold' });
   await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
   await figma.loadFontAsync({ family: 'Inter', style: 'Semi Bold' });
+  const library = await loadCardLibrary(DESIGN_STYLE);
 
   // All cards and labels go inside one Section so the library moves as a unit.
   // Individual cards can be dragged out of the section onto any diagram.
-  const PAGE_PADDING  = 40;
-  const CARDS_PER_ROW = 5;
-
   const lib = figma.createSection();
-  lib.name = `${data.name} — Card Library`;
+  lib.name = libraryTitle(data);
   figma.currentPage.appendChild(lib);
 
-  let x = PAGE_PADDING;
-  let y = PAGE_PADDING;
-
-  // Title
-  const titleFrame = labelFrame(`${data.name} — Card Library`, 16, 'Semi Bold', '#1A1A1A');
-  lib.appendChild(titleFrame);
-  titleFrame.x = x;
-  titleFrame.y = y;
-  y += titleFrame.height + 24;
-
-  for (const phase of data.phases) {
-    for (const subPhase of phase.subPhases) {
-      if (!subPhase.cards.length) continue;
-
-      const phaseLabel = `${phase.label}  /  ${subPhase.label}`;
-      const labelF = labelFrame(phaseLabel.toUpperCase(), 10, 'Semi Bold', '#888888');
-      lib.appendChild(labelF);
-      labelF.x = x;
-      labelF.y = y;
-      y += labelF.height + 12;
-
-      let col = 0;
-      let rowX = x;
-      let rowMaxH = 0;
-
-      for (const entry of subPhase.cards) {
-        const card = renderDesignCard(entry);
-        lib.appendChild(card);
-        card.x = rowX;
-        card.y = y;
-
-        rowMaxH = Math.max(rowMaxH, card.height);
-        rowX += DESIGN_CARD_W + DESIGN_CARD_GAP;
-        col++;
-
-        if (col >= CARDS_PER_ROW) {
-          col = 0;
-          rowX = x;
-          y += rowMaxH + DESIGN_CARD_GAP;
-          rowMaxH = 0;
-        }
-      }
+  // Labels and cards are drawn as the layout measures them, in scene order
+  const labels: FrameNode[] = [];
+  const cards: InstanceNode[] = [];
+  const scene = layoutCardLibrary(data, {
+    measureText: (role, text) => {
+      const label = role === 'title'
+        ? labelFrame(text, 16, 'Semi Bold', '#1A1A1A')
+        : labelFrame(text, 10, 'Semi Bold', '#888888');
+      labels.push(label);
+      return label.height;
+    },
+    measureCard: entry => {
+      const card = cardInstance(library, entry);
+      cards.push(card);
+      return card.height;
+    },
+  });
 
-      if (col > 0) y += rowMaxH;
-      y += DESIGN_SECTION_GAP;
-    }
-  }
+  scene.texts.forEach((t, i) => {
+    lib.appendChild(labels[i]);
+    labels[i].x = t.x;
+    labels[i].y = t.y;
+  });
+  scene.cards.forEach((c, i) => {
+    const card = cards[i];
+    card.name = c.entry.citation || '';
+    card.setPluginData(DATA_CARD, JSON.stringify(c.entry));
+    lib.appendChild(card);
+    card.x = c.x;
+    card.y = c.y;
+  });
 
-  const sectionW = PAGE_PADDING * 2 + CARDS_PER_ROW * DESIGN_CARD_W + (CARDS_PER_ROW - 1) * DESIGN_CARD_GAP;
-  lib.resizeWithoutConstraints(sectionW, y + PAGE_PADDING);
+  lib.resizeWithoutConstraints(scene.width, scene.height);
 
   figma.viewport.scrollAndZoomIntoView([lib]);
-  figma.notify(`Generated: ${data.name} — Card Library`);
+  figma.notify(`Generated: ${lib.name}`);
+}
+
+// ── State machine diagrams ────────────────────────────────────────────────────
+// Draws a contract state machine: states as frames, transitions as labelled
+// arrows (trigger, actors, guard), SLA clocks and emitted events as chips.
+// Actor and event chips use the card palettes, so themes restyle them too.
+// Positions come from state-layout.ts. Always creates a new frame.
+
+const DIAGRAM_MARGIN  = 40;
+const STATE_PADDING   = 12;
+const STATE_CORNER    = 12;
+const STATE_STROKE    = '#565C65';
+const TERMINAL_STROKE = 3;     // px — terminal states have a heavier outline
+const CHIP_GAP        = 4;
+const TRANSITION_STYLE = { color: '#565C65', dash: [] as number[] };
+
+const SLA_COLORS: Record<SlaClock, { bg: string; fg: string }> = {
+  running: { bg: '#D9F2DE', fg: '#154C21' },
+  paused:  { bg: '#FEF0C8', fg: '#3D2800' },
+  stopped: { bg: '#E6E6E6', fg: '#1A1A1A' },
+};
+
+// Contract actor names ("case_worker") to card palette actors ("caseworker")
+function diagramActor(actor: string): ActorType | undefined {
+  const key = actor.replace(/_/g, '');
+  return ACTOR_PALETTE[key] ? key as ActorType : undefined;
+}
+
+function chip(content: string, bg: SolidPaint[], fg: SolidPaint[]): FrameNode {
+  const c = figma.createFrame();
+  c.name = `chip:${content}`;
+  c.fills = bg;
+  c.cornerRadius = 4;
+  c.layoutMode = 'HORIZONTAL';
+  c.primaryAxisSizingMode = 'AUTO';
+  c.counterAxisSizingMode = 'AUTO';
+  c.paddingTop = c.paddingBottom = TAG_PADDING_Y;
+  c.paddingLeft = c.paddingRight = TAG_PADDING_X;
+  c.appendChild(txt(content, 10, 'Semi Bold', fg));
+  return c;
+}
+
+// Wrapping row of chips, appended to `parent` at its full width
+function chipRow(parent: FrameNode, name: string, chips: FrameNode[]): void {
+  if (chips.length === 0) return;
+  const row = figma.createFrame();
+  row.name = name;
+  row.fills = [];
+  row.layoutMode = 'HORIZONTAL';
+  row.layoutWrap = 'WRAP';
+  row.itemSpacing = CHIP_GAP;
+  row.counterAxisSpacing = CHIP_GAP;
+  row.primaryAxisSizingMode = 'FIXED';
+  row.counterAxisSizingMode = 'AUTO';
+  for (const c of chips) row.appendChild(c);
+  parent.appendChild(row);
+  row.layoutSizingHorizontal = 'FILL';
+}
+
+function actorChips(t: Transition, variables: PaletteVariables): FrameNode[] {
+  return t.actors.map(actor => {
+    const c = cardColors({ type: 'person-action', actor: diagramActor(actor) }, variables);
+    return chip(actor.replace(/_/g, ' '), c.headerBg, c.headerFg);
+  });
+}
+
+function eventChips(t: Transition, variables: PaletteVariables): FrameNode[] {
+  const c = cardColors({ type: 'domain-event' }, variables);
+  return t.emits.map(event => chip(event, c.headerBg, c.headerFg));
+}
+
+// Trigger, actors, guard and emitted events; used for arrows and in-place rows
+function transitionDetails(frame: FrameNode, t: Transition, title: string, variables: PaletteVariables): void {
+  const trigger = txt(title, 11, 'Semi Bold', '#1A1A1A');
+  trigger.name = 'trigger';
+  frame.appendChild(trigger);
+  chipRow(frame, 'actors', actorChips(t, variables));
+  if (t.guard) {
+    const guard = txt(`if ${t.guard}`, 10, 'Regular', '#555555', LABEL_WIDTH);
+    guard.name = 'guard';
+    frame.appendChild(guard);
+    guard.layoutSizingHorizontal = 'FILL';
+  }
+  chipRow(frame, 'emits', eventChips(t, variables));
+}
+
+function renderTransitionLabel(t: Transition, variables: PaletteVariables): FrameNode {
+  const label = vFrame(`transition:${t.trigger}`, 4);
+  label.fills = fill('#FFFFFF');
+  label.cornerRadius = 4;
+  label.paddingTop = label.paddingBottom = label.paddingLeft = label.paddingRight = 6;
+  label.resize(LABEL_WIDTH, 1);
+  label.counterAxisSizingMode = 'FIXED';
+  transitionDetails(label, t, t.trigger, variables);
+  return label;
+}
+
+function renderState(state: DiagramState, inPlace: Transition[], variables: PaletteVariables): FrameNode {
+  const f = vFrame(`state:${state.id}`, 6);
+  f.fills = fill('#FFFFFF');
+  f.strokes = fill(STATE_STROKE);
+  f.strokeWeight = state.terminal ? TERMINAL_STROKE : 1.5;
+  f.strokeAlign = 'INSIDE';
+  f.cornerRadius = STATE_CORNER;
+  f.paddingTop = f.paddingBottom = f.paddingLeft = f.paddingRight = STATE_PADDING;
+  f.resize(STATE_WIDTH, 1);
+  f.counterAxisSizingMode = 'FIXED';
+  const textWidth = STATE_WIDTH - STATE_PADDING * 2;
+
+  const title = txt(state.terminal ? `${state.label} (terminal)` : state.label, 14, 'Semi Bold', '#1A1A1A', textWidth);
+  title.name = 'title';
+  f.appendChild(title);
+  title.layoutSizingHorizontal = 'FILL';
+
+  if (state.slaClock) {
+    const colors = SLA_COLORS[state.slaClock];
+    chipRow(f, 'sla', [chip(`SLA clock ${state.slaClock}`, fill(colors.bg), fill(colors.fg))]);
+  }
+
+  if (state.description) {
+    const description = txt(state.description, 11, 'Regular', '#555555', textWidth);
+    description.name = 'description';
+    f.appendChild(description);
+    description.layoutSizingHorizontal = 'FILL';
+  }
+
+  for (const t of inPlace) {
+    const row = vFrame(`in-place:${t.trigger}`, 4);
+    row.fills = fill('#F5F5F5');
+    row.cornerRadius = 4;
+    row.paddingTop = row.paddingBottom = row.paddingLeft = row.paddingRight = 6;
+    transitionDetails(row, t, `${t.trigger} (stays in state)`, variables);
+    f.appendChild(row);
+    row.layoutSizingHorizontal = 'FILL';
+  }
+
+  return f;
+}
+
+export async function renderStateMachine(diagram: StateMachineDiagram): Promise<void> {
+  await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+  await figma.loadFontAsync({ family: 'Inter', style: 'Semi Bold' });
+  const variables = await loadPaletteVariables();
+
+  const container = freeFrame(diagram.name);
+  container.fills = fill('#FFFFFF');
+  figma.currentPage.appendChild(container);
+
+  const title = txt(diagram.name, 16, 'Semi Bold', '#1A1A1A');
+  container.appendChild(title);
+  title.x = DIAGRAM_MARGIN;
+  title.y = DIAGRAM_MARGIN;
+
+  // Draw states and labels first so the layout can measure them
+  const states = new Map<string, FrameNode>();
+  for (const state of diagram.states) {
+    const inPlace = diagram.transitions.filter(t => t.from === state.id && t.to === undefined);
+    states.set(state.id, renderState(state, inPlace, variables));
+  }
+  const labels = new Map<Transition, FrameNode>();
+  for (const t of diagram.transitions) {
+    if (t.to !== undefined) labels.set(t, renderTransitionLabel(t, variables));
+  }
+
+  const scene = layoutStateMachine(diagram, {
+    x: DIAGRAM_MARGIN,
+    y: title.y + title.height + 32,
+    measureState: state => (states.get(state.id) as FrameNode).height,
+    measureLabel: t => labels.get(t) as FrameNode,
+  });
+
+  // Arrows behind states, labels in front
+  for (const route of scene.transitions) {
+    const arrow = await drawArrow(container, route.points, TRANSITION_STYLE);
+    arrow.name = `${route.transition.from} → ${route.transition.to}`;
+  }
+  if (scene.start.length > 0) {
+    const [from] = scene.start;
+    const dot = figma.createEllipse();
+    dot.name = 'initial';
+    dot.resize(12, 12);
+    dot.fills = fill(STATE_STROKE);
+    container.appendChild(dot);
+    dot.x = from.x - 6;
+    dot.y = from.y - 6;
+    const arrow = await drawArrow(container, scene.start, TRANSITION_STYLE);
+    arrow.name = `initial → ${diagram.initialState}`;
+  }
+
+  for (const placed of scene.states) {
+    const node = states.get(placed.id) as FrameNode;
+    container.appendChild(node);
+    node.x = placed.x;
+    node.y = placed.y;
+  }
+
+  for (const route of scene.transitions) {
+    const label = labels.get(route.transition) as FrameNode;
+    container.appendChild(label);
+    label.x = route.label.x - label.width / 2;
+    label.y = route.label.y - label.height / 2;
+  }
+  // Transitions to states missing from the diagram aren't routed
+  const routed = new Set(scene.transitions.map(r => r.transition));
+  labels.forEach((node, t) => { if (!routed.has(t)) node.remove(); });
+
+  container.resize(scene.width + DIAGRAM_MARGIN, scene.height + DIAGRAM_MARGIN);
+  figma.viewport.scrollAndZoomIntoView([container]);
+  figma.notify(`Generated: ${diagram.name}`);
 }
@@ -0,0 +1,213 @@
+import { DiagramState, StateMachineDiagram, Transition } from './types.js';
+import type { Box, Point } from '../../blueprint-layout.js';
+
+// ── State machine layout ──────────────────────────────────────────────────────
+// Places the states of a StateMachineDiagram in columns, by how many
+// transitions they are from the initial state, and routes each transition.
+// Pure — no Figma API; the renderer measures states and labels and passes
+// their sizes in.
+//
+// A transition to the next column is an elbow through the gap between the
+// columns, labelled on its vertical segment. Every other transition (back,
+// within a column, or skipping columns) runs along its own track below the
+// states, labelled on the track. In-place transitions are not routed; the
+// renderer lists them in their state.
+
+export const STATE_WIDTH  = 240;
+export const COLUMN_GAP   = 240;  // room for transition labels between columns
+export const LABEL_WIDTH  = 200;
+export const ROW_GAP      = 64;
+export const TRACK_GAP    = 32;   // between the states and the first track, and between tracks
+export const START_MARGIN = 56;   // left of the first column, for the initial state marker
+const LABEL_GAP = 8;              // between labels pushed apart in a column gap
+
+export interface PlacedState extends Box {
+  id: string;
+  column: number;
+  state: DiagramState;
+}
+
+export interface RoutedTransition {
+  transition: Transition;
+  points: Point[];    // the arrowhead is at the last point
+  label: Point;       // center of its label
+}
+
+export interface StateMachineScene {
+  width: number;
+  height: number;
+  states: PlacedState[];
+  transitions: RoutedTransition[];
+  start: Point[];     // arrow from the initial state marker into the initial state
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+export interface StateLayoutOptions {
+  x?: number;
+  y?: number;
+  measureState: (state: DiagramState) => number;
+  measureLabel: (transition: Transition) => Size;
+}
+
+// One end of a transition on a side of a state, ordered by where the other end is
+interface Port {
+  index: number;
+  end: 'from' | 'to';
+  order: number;
+}
+
+// Transitions that change state, between states in the diagram
+export function routedTransitions(diagram: StateMachineDiagram): Transition[] {
+  const ids = new Set(diagram.states.map(s => s.id));
+  return diagram.transitions.filter(t => t.to !== undefined && ids.has(t.from) && ids.has(t.to));
+}
+
+// Breadth-first distance from the initial state; unreachable states go last
+function columnsOf(diagram: StateMachineDiagram, transitions: Transition[]): Map<string, number> {
+  const column = new Map<string, number>([[diagram.initialState, 0]]);
+  const queue = [diagram.initialState];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    for (const t of transitions) {
+      if (t.from !== id || column.has(t.to as string)) continue;
+      column.set(t.to as string, (column.get(id) as number) + 1);
+      queue.push(t.to as string);
+    }
+  }
+  let last = 0;
+  column.forEach(c => { last = Math.max(last, c); });
+  for (const s of diagram.states) if (!column.has(s.id)) column.set(s.id, last + 1);
+  return column;
+}
+
+// Evenly spaced points along a side, one per entry
+function spread(start: number, length: number, count: number): number[] {
+  const points: number[] = [];
+  for (let i = 0; i < count; i++) points.push(start + (length * (i + 1)) / (count + 1));
+  return points;
+}
+
+export function layoutStateMachine(diagram: StateMachineDiagram, options: StateLayoutOptions): StateMachineScene {
+  const left = (options.x ?? 0) + START_MARGIN;
+  const top = options.y ?? 0;
+  const transitions = routedTransitions(diagram);
+  const column = columnsOf(diagram, transitions);
+
+  // ── States, column by column in contract order ─────────────────────────────
+  const columnY: number[] = [];
+  const placed = new Map<string, PlacedState>();
+  for (const state of diagram.states) {
+    const c = column.get(state.id) as number;
+    const y = columnY[c] ?? top;
+    const height = options.measureState(state);
+    placed.set(state.id, { id: state.id, column: c, state, x: left + c * (STATE_WIDTH + COLUMN_GAP), y, width: STATE_WIDTH, height });
+    columnY[c] = y + height + ROW_GAP;
+  }
+  let bottom = top;
+  placed.forEach(s => { bottom = Math.max(bottom, s.y + s.height); });
+
+  // ── Ports: adjacent transitions leave right and enter left; tracked ones use the bottom ──
+  const adjacent: number[] = [];
+  const tracked: number[] = [];
+  transitions.forEach((t, i) => {
+    const from = placed.get(t.from) as PlacedState;
+    const to = placed.get(t.to as string) as PlacedState;
+    (to.column === from.column + 1 ? adjacent : tracked).push(i);
+  });
+
+  const sides = new Map<string, Port[]>();  // "<state id>/<right|left|bottom>" → ports
+  const addPort = (side: string, index: number, end: Port['end'], order: number) => {
+    const list = sides.get(side) ?? [];
+    list.push({ index, end, order });
+    sides.set(side, list);
+  };
+  const centerOf = (id: string) => {
+    const s = placed.get(id) as PlacedState;
+    return { x: s.x + s.width / 2, y: s.y + s.height / 2 };
+  };
+  for (const i of adjacent) {
+    const t = transitions[i];
+    addPort(`${t.from}/right`, i, 'from', centerOf(t.to as string).y);
+    addPort(`${t.to}/left`, i, 'to', centerOf(t.from).y);
+  }
+  for (const i of tracked) {
+    const t = transitions[i];
+    addPort(`${t.from}/bottom`, i, 'from', centerOf(t.to as string).x);
+    addPort(`${t.to}/bottom`, i, 'to', centerOf(t.from).x);
+  }
+
+  const ports = new Map<string, Point>();  // "<index>/<end>" → point on the state's edge
+  sides.forEach((list, side) => {
+    const [id, edge] = side.split('/');
+    const s = placed.get(id) as PlacedState;
+    list.sort((a, b) => a.order - b.order || a.index - b.index);
+    if (edge === 'bottom') {
+      spread(s.x, s.width, list.length).forEach((x, k) => ports.set(`${list[k].index}/${list[k].end}`, { x, y: s.y + s.height }));
+    } else {
+      const x = edge === 'right' ? s.x + s.width : s.x;
+      spread(s.y, s.height, list.length).forEach((y, k) => ports.set(`${list[k].index}/${list[k].end}`, { x, y }));
+    }
+  });
+
+  const routes: RoutedTransition[] = [];
+  let height = bottom;
+
+  // ── Adjacent: elbows through the column gap; labels pushed apart so they don't overlap ──
+  const gaps = new Map<number, { route: RoutedTransition; size: Size }[]>();  // by source column
+  for (const i of adjacent) {
+    const t = transitions[i];
+    const start = ports.get(`${i}/from`) as Point;
+    const end = ports.get(`${i}/to`) as Point;
+    const midX = start.x + COLUMN_GAP / 2;
+    const points = start.y === end.y ? [start, end] : [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+    const route = { transition: t, points, label: { x: midX, y: (start.y + end.y) / 2 } };
+    routes.push(route);
+    const c = (placed.get(t.from) as PlacedState).column;
+    gaps.set(c, [...(gaps.get(c) ?? []), { route, size: options.measureLabel(t) }]);
+  }
+  gaps.forEach(list => {
+    list.sort((a, b) => a.route.label.y - b.route.label.y);
+    let floor = -Infinity;
+    for (const { route, size } of list) {
+      route.label.y = Math.max(route.label.y, floor + size.height / 2);
+      floor = route.label.y + size.height / 2 + LABEL_GAP;
+      height = Math.max(height, floor);
+    }
+  });
+
+  // ── Tracked: down from the source, along a track below the states, up into the target ──
+  let trackY = bottom + TRACK_GAP;
+  for (const i of tracked) {
+    const t = transitions[i];
+    const size = options.measureLabel(t);
+    const start = ports.get(`${i}/from`) as Point;
+    const end = ports.get(`${i}/to`) as Point;
+    const y = trackY + size.height / 2;
+    routes.push({
+      transition: t,
+      points: [start, { x: start.x, y }, { x: end.x, y }, end],
+      label: { x: (start.x + end.x) / 2, y },
+    });
+    trackY += size.height + TRACK_GAP;
+    height = Math.max(height, trackY);
+  }
+
+  // ── Initial state marker ───────────────────────────────────────────────────
+  const initial = placed.get(diagram.initialState);
+  const start = initial
+    ? [{ x: initial.x - START_MARGIN + 12, y: initial.y + 24 }, { x: initial.x, y: initial.y + 24 }]
+    : [];
+
+  let width = left;
+  placed.forEach(s => { width = Math.max(width, s.x + s.width); });
+  for (const r of routes) {
+    const size = options.measureLabel(r.transition);
+    width = Math.max(width, r.label.x + size.width / 2);
+  }
+
+  return { width, height, states: [...placed.values()], transitions: routes, start };
+}
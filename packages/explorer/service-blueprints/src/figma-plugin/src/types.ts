@@ -17,12 +17,33 @@ export type CardType =
 export type ActorType = 'applicant' | 'caseworker' | 'supervisor' | 'system';
 
 export interface Card {
+  id?: string; // stable key within its cell across re-renders; defaults to the card's position
   type: CardType;
   text: string;
   subtext?: string; // appears in the lighter body section below the colored header
   actor?: ActorType; // required when type === 'person-action'; sets the card color
+  origin?: CardOrigin; // set by generate-blueprint.js; used to export canvas edits
+  annotationIndex?: number; // origin 'annotation': position in the sub-phase's card list for this lane
+  domain?: string; // owning domain, e.g. "intake"; shown as a tag on the card
+  status?: CardStatus; // defaults to 'current'
+  source?: CardSource; // set by generate-blueprint.js; shown when the card is selected
+  citationUrl?: string; // link to the regulation or statute for policy cards
 }
 
+// Where generate-blueprint.js took a card from: derived from a config.yaml
+// flow step, or authored in the annotations YAML.
+export type CardOrigin = 'flow' | 'annotation';
+
+// current — how the service works today
+// future  — a proposed step or change; drawn with a dashed outline
+export type CardStatus = 'current' | 'future';
+
+// The config.yaml item a card was derived from. `contract` is the annotation
+// path of the contract the step refers to, e.g. "operations/application.submit".
+export type CardSource =
+  | { kind: 'flow-step'; flow: string; step: string; contract?: string }
+  | { kind: 'policy'; flow: string; policy?: string; contract?: string };  // policy: registry ID; omitted for inline citations
+
 export interface Lane {
   id: string;
   label: string;
@@ -31,6 +52,7 @@ export interface Lane {
 export interface SubPhase {
   id: string;
   label: string;
+  metrics?: MetricBinding;  // metrics shown over this column by the metrics overlay
 }
 
 export interface Phase {
@@ -44,6 +66,7 @@ export interface Cell {
   laneId: string;
   subPhaseId: string;
   cards: Card[];
+  cardIndexes?: number[];  // each card's position in the full blueprint's cell; set by filterBlueprint
 }
 
 export interface Blueprint {
@@ -52,8 +75,21 @@ export interface Blueprint {
   lanes: Lane[];
   phases: Phase[];
   cells: Cell[];
+  links?: Link[];  // set by generate-blueprint.js; drawn as arrows between cards
 }
 
+// A causal link between two cards, each addressed by its card key,
+// "laneId/subPhaseId/(card id or index in the cell)"
+export interface Link {
+  from: string;
+  to: string;
+  kind: LinkKind;
+}
+
+// emits    — a system or actor card publishes a domain event
+// triggers — a domain event causes a system card (its "In response to event" subtext)
+export type LinkKind = 'emits' | 'triggers';
+
 // ── Card export data ──────────────────────────────────────────────────────────
 // Used by the "Cards" mode to generate standalone card frames grouped by
 // domain → phase → sub-phase, independent of the full service blueprint grid.
@@ -64,6 +100,10 @@ export interface CardEntry {
   subtext?: string;
   citation?: string; // CFR/statutory citation for policy cards; merged into subtext display
   actor?: ActorType;
+  domain?: string;
+  status?: CardStatus;
+  source?: CardSource;
+  citationUrl?: string;
 }
 
 export interface CardSubPhase {
@@ -83,3 +123,128 @@ export interface CardData {
   name: string;
   phases: CardPhase[];
 }
+
+// ── State machine diagrams ────────────────────────────────────────────────────
+// Used by the "State Machine" mode to draw a contract state machine as states
+// and labelled transitions. Converted from contracts/<domain>-state-machine.yaml
+// by generate-state-diagrams.js.
+
+export interface StateMachineDiagram {
+  id: string;            // "<domain>/<object>", e.g. "intake/application"
+  name: string;          // e.g. "Intake — Application"
+  domain: string;
+  object: string;        // the machine's object, e.g. "Application"
+  initialState: string;
+  states: DiagramState[];
+  transitions: Transition[];
+}
+
+// running — the SLA clock counts while the object is in this state
+// paused  — the clock holds and resumes on leaving (e.g. waiting on the client)
+// stopped — the clock is not counting
+export type SlaClock = 'running' | 'paused' | 'stopped';
+
+export interface DiagramState {
+  id: string;
+  label: string;
+  slaClock?: SlaClock;
+  description?: string;
+  terminal?: boolean;    // no transition leaves this state
+}
+
+export interface Transition {
+  trigger: string;       // the action that causes it, e.g. "submit"
+  from: string;
+  to?: string;           // omitted for in-place actions, which don't change state
+  actors: string[];      // contract actor names, e.g. "case_worker"
+  guard?: string;        // guard conditions, e.g. "callerIsApplicant or callerIsCaseworker"
+  emits: string[];       // event types emitted, e.g. "intake.application.submitted"
+  description?: string;
+}
+
+// ── Metrics overlay ───────────────────────────────────────────────────────────
+// Quantitative data drawn over the sub-phase columns of a rendered blueprint:
+// an SLA target, the median time taken and the volume of work. The plugin
+// accepts a BlueprintMetrics payload, or a GET /metrics response from the mock
+// server, which is mapped onto columns by their MetricBinding. See metrics.ts.
+
+// Ids of the metrics a sub-phase column shows, set in the annotations file:
+// `median` a duration metric and `volume` a count metric in
+// contracts/*-metrics.yaml, `sla` an SLA type in contracts/*-sla-types.yaml
+export interface MetricBinding {
+  sla?: string;
+  median?: string;
+  volume?: string;
+}
+
+export type DurationUnit = 'minutes' | 'hours' | 'days';
+
+export interface Duration {
+  amount: number;
+  unit: DurationUnit;
+}
+
+// An SLA type from contracts/*-sla-types.yaml
+export interface SlaType {
+  id: string;
+  name: string;
+  duration: Duration;
+  warningThresholdPercent?: number;  // share of the target after which it is at risk
+}
+
+// Numbers for one sub-phase column; each may be missing
+export interface SubPhaseMetrics {
+  slaTarget?: Duration;
+  warningThresholdPercent?: number;  // defaults to 75
+  medianSeconds?: number;
+  volume?: number;
+}
+
+export interface BlueprintMetrics {
+  computedAt?: string;
+  subPhases: Record<string, SubPhaseMetrics>;  // by sub-phase id
+}
+
+// One metric as returned by the mock server's metrics-handler.js
+export interface MetricResult {
+  id: string;
+  name: string;
+  domain: string;
+  aggregate: 'count' | 'ratio' | 'duration';
+  value: number | null;      // duration metrics: the median in seconds
+  breakdown: Record<string, number | null> | null;
+  targets: MetricTarget[];
+  computedAt: string;
+}
+
+export interface MetricTarget {
+  stat: string;              // e.g. "p50", "ratio" or "trend"
+  operator?: string;
+  amount?: number;
+  unit?: string;
+  direction?: string;
+}
+
+export interface MetricsResponse {
+  items: MetricResult[];
+}
+
+// ── Plugin manifest ───────────────────────────────────────────────────────────
+// Every blueprint, card set and state machine diagram bundled into the plugin,
+// staged by build.js to src/_manifest.json. The UI lists them by key and label.
+// The SLA types resolve the `sla` of metric bindings.
+
+export interface ManifestEntry<T> {
+  key: string;     // e.g. "intake" or "co/intake" for a state overlay
+  label: string;   // e.g. "Intake Service Blueprint (CO)"
+  domain: string;
+  state?: string;  // state code for state overlays; omitted for the baseline
+  data: T;
+}
+
+export interface PluginManifest {
+  blueprints: ManifestEntry<Blueprint>[];
+  cards: ManifestEntry<CardData>[];
+  stateMachines: ManifestEntry<StateMachineDiagram>[];
+  slaTypes: SlaType[];
+}
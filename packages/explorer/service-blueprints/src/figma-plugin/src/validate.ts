@@ -0,0 +1,218 @@
+import { ActorType, CardSource, CardStatus, CardType, DurationUnit, LinkKind } from './types.js';
+
+// ── Blueprint shape validation ────────────────────────────────────────────────
+// Checks JSON pasted or uploaded in the plugin UI against the Blueprint shape in
+// types.ts before it reaches the renderer. Pure — no Figma API.
+// Unknown extra fields are allowed so newer payloads still render.
+
+// Records rather than arrays so the compiler flags a type added to the unions
+const CARD_TYPES: Record<CardType, true> = {
+  'staff-action': true, 'system': true, 'policy': true, 'pain-point': true,
+  'opportunity': true, 'domain-event': true, 'data-entity': true, 'note': true,
+  'person-action': true, 'communications': true, 'metrics': true, 'question': true,
+  'touchpoint': true,
+};
+
+const ACTOR_TYPES: Record<ActorType, true> = {
+  applicant: true, caseworker: true, supervisor: true, system: true,
+};
+
+const LINK_KINDS: Record<LinkKind, true> = {
+  emits: true, triggers: true,
+};
+
+const CARD_STATUSES: Record<CardStatus, true> = {
+  current: true, future: true,
+};
+
+const SOURCE_KINDS: Record<CardSource['kind'], true> = {
+  'flow-step': true, policy: true,
+};
+
+const DURATION_UNITS: Record<DurationUnit, true> = {
+  minutes: true, hours: true, days: true,
+};
+
+const MAX_ERRORS = 20;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Returns one message per problem, prefixed with its JSON path
+// (e.g. "cells[3].cards[0].type: unknown card type 'sytem'"); empty when valid.
+export function validateBlueprint(value: unknown): string[] {
+  const errors: string[] = [];
+  const report = (path: string, message: string) => {
+    if (errors.length < MAX_ERRORS) errors.push(`${path}: ${message}`);
+  };
+
+  const join = (path: string, field: string) => (path ? `${path}.${field}` : field);
+
+  const requireString = (obj: Record<string, unknown>, field: string, path: string) => {
+    if (typeof obj[field] !== 'string' || obj[field] === '') report(join(path, field), 'expected a non-empty string');
+  };
+
+  const requireArray = (obj: Record<string, unknown>, field: string, path: string): unknown[] => {
+    const list = obj[field];
+    if (Array.isArray(list)) return list;
+    report(join(path, field), 'expected an array');
+    return [];
+  };
+
+  const eachObject = (list: unknown[], path: string, check: (item: Record<string, unknown>, path: string) => void) => {
+    list.forEach((item, i) => {
+      if (isObject(item)) check(item, `${path}[${i}]`);
+      else report(`${path}[${i}]`, 'expected an object');
+    });
+  };
+
+  if (!isObject(value)) return ['expected a Blueprint object'];
+
+  requireString(value, 'id', '');
+  requireString(value, 'name', '');
+
+  eachObject(requireArray(value, 'lanes', ''), 'lanes', (lane, path) => {
+    requireString(lane, 'id', path);
+    requireString(lane, 'label', path);
+  });
+
+  eachObject(requireArray(value, 'phases', ''), 'phases', (phase, path) => {
+    requireString(phase, 'id', path);
+    requireString(phase, 'label', path);
+    eachObject(requireArray(phase, 'subPhases', path), `${path}.subPhases`, (sp, spPath) => {
+      requireString(sp, 'id', spPath);
+      requireString(sp, 'label', spPath);
+      if (sp.metrics !== undefined) {
+        if (!isObject(sp.metrics)) report(`${spPath}.metrics`, 'expected an object');
+        else {
+          for (const field of ['sla', 'median', 'volume']) {
+            if (sp.metrics[field] !== undefined) requireString(sp.metrics, field, `${spPath}.metrics`);
+          }
+        }
+      }
+    });
+  });
+
+  eachObject(requireArray(value, 'cells', ''), 'cells', (cell, path) => {
+    requireString(cell, 'laneId', path);
+    requireString(cell, 'subPhaseId', path);
+    eachObject(requireArray(cell, 'cards', path), `${path}.cards`, (card, cardPath) => {
+      if (typeof card.type !== 'string' || !CARD_TYPES.hasOwnProperty(card.type)) {
+        report(`${cardPath}.type`, `unknown card type '${String(card.type)}'`);
+      }
+      if (typeof card.text !== 'string') report(`${cardPath}.text`, 'expected a string');
+      if (card.subtext !== undefined && typeof card.subtext !== 'string') report(`${cardPath}.subtext`, 'expected a string');
+      if (card.id !== undefined && typeof card.id !== 'string') report(`${cardPath}.id`, 'expected a string');
+      if (card.actor !== undefined && (typeof card.actor !== 'string' || !ACTOR_TYPES.hasOwnProperty(card.actor))) {
+        report(`${cardPath}.actor`, `unknown actor '${String(card.actor)}'`);
+      }
+      if (card.origin !== undefined && card.origin !== 'flow' && card.origin !== 'annotation') {
+        report(`${cardPath}.origin`, `unknown origin '${String(card.origin)}'`);
+      }
+      if (card.annotationIndex !== undefined && !(typeof card.annotationIndex === 'number' && card.annotationIndex >= 0 && card.annotationIndex % 1 === 0)) {
+        report(`${cardPath}.annotationIndex`, 'expected a non-negative integer');
+      }
+      if (card.domain !== undefined && typeof card.domain !== 'string') report(`${cardPath}.domain`, 'expected a string');
+      if (card.citationUrl !== undefined && typeof card.citationUrl !== 'string') report(`${cardPath}.citationUrl`, 'expected a string');
+      if (card.status !== undefined && (typeof card.status !== 'string' || !CARD_STATUSES.hasOwnProperty(card.status))) {
+        report(`${cardPath}.status`, `unknown status '${String(card.status)}'`);
+      }
+      if (card.source !== undefined) {
+        const source = card.source;
+        if (!isObject(source)) {
+          report(`${cardPath}.source`, 'expected an object');
+        } else {
+          if (typeof source.kind !== 'string' || !SOURCE_KINDS.hasOwnProperty(source.kind)) {
+            report(`${cardPath}.source.kind`, `unknown source kind '${String(source.kind)}'`);
+          }
+          requireString(source, 'flow', `${cardPath}.source`);
+        }
+      }
+    });
+  });
+
+  if (value.links !== undefined) {
+    eachObject(requireArray(value, 'links', ''), 'links', (link, path) => {
+      requireString(link, 'from', path);
+      requireString(link, 'to', path);
+      if (typeof link.kind !== 'string' || !LINK_KINDS.hasOwnProperty(link.kind)) {
+        report(`${path}.kind`, `unknown link kind '${String(link.kind)}'`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+// ── Metrics payload validation ────────────────────────────────────────────────
+// Checks a metrics file chosen in the UI: either a BlueprintMetrics object or a
+// mock server GET /metrics response (an `items` list). Same message format.
+
+export function validateMetrics(value: unknown): string[] {
+  const errors: string[] = [];
+  const report = (path: string, message: string) => {
+    if (errors.length < MAX_ERRORS) errors.push(`${path}: ${message}`);
+  };
+  const optionalNumber = (obj: Record<string, unknown>, field: string, path: string) => {
+    if (obj[field] !== undefined && typeof obj[field] !== 'number') report(`${path}.${field}`, 'expected a number');
+  };
+
+  if (!isObject(value)) return ['expected a metrics object or a GET /metrics response'];
+
+  if (Array.isArray(value.items)) {
+    value.items.forEach((item, i) => {
+      const path = `items[${i}]`;
+      if (!isObject(item)) {
+        report(path, 'expected an object');
+        return;
+      }
+      if (typeof item.id !== 'string') report(`${path}.id`, 'expected a string');
+      if (item.value !== null && typeof item.value !== 'number') report(`${path}.value`, 'expected a number or null');
+      if (item.breakdown !== null) {
+        const breakdown = item.breakdown;
+        if (!isObject(breakdown) || Object.keys(breakdown).some(k => breakdown[k] !== null && typeof breakdown[k] !== 'number')) {
+          report(`${path}.breakdown`, 'expected null or an object of numbers');
+        }
+      }
+      if (!Array.isArray(item.targets)) {
+        report(`${path}.targets`, 'expected an array');
+        return;
+      }
+      item.targets.forEach((t, j) => {
+        const targetPath = `${path}.targets[${j}]`;
+        if (!isObject(t)) {
+          report(targetPath, 'expected an object');
+          return;
+        }
+        if (typeof t.stat !== 'string') report(`${targetPath}.stat`, 'expected a string');
+        optionalNumber(t, 'amount', targetPath);
+        for (const field of ['operator', 'unit', 'direction']) {
+          if (t[field] !== undefined && typeof t[field] !== 'string') report(`${targetPath}.${field}`, 'expected a string');
+        }
+      });
+    });
+    return errors;
+  }
+
+  if (!isObject(value.subPhases)) return ['subPhases: expected an object keyed by sub-phase id'];
+  if (value.computedAt !== undefined && typeof value.computedAt !== 'string') report('computedAt', 'expected a string');
+  for (const id of Object.keys(value.subPhases)) {
+    const m = value.subPhases[id];
+    const path = `subPhases.${id}`;
+    if (!isObject(m)) {
+      report(path, 'expected an object');
+      continue;
+    }
+    optionalNumber(m, 'medianSeconds', path);
+    optionalNumber(m, 'volume', path);
+    optionalNumber(m, 'warningThresholdPercent', path);
+    if (m.slaTarget !== undefined) {
+      const t = m.slaTarget;
+      if (!isObject(t) || typeof t.amount !== 'number' || typeof t.unit !== 'string' || !DURATION_UNITS.hasOwnProperty(t.unit)) {
+        report(`${path}.slaTarget`, 'expected { amount, unit } with unit minutes, hours or days');
+      }
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,208 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import { MAX_STACKS, STACK_LIMIT, estimateCardHeight, layoutBlueprint } from '../../blueprint-layout.js';
+import { loadSource } from './load-source.js';
+
+let board;
+let library;
+
+before(async () => {
+  board = await loadSource('board-export');
+  library = await loadSource('library-layout');
+});
+
+const blueprint = JSON.parse(readFileSync(new URL('../../../../tests/fixtures/small-blueprint.json', import.meta.url), 'utf8'));
+
+const colorsFor = card => ({ fill: '#EEEEEE', border: '#333333', text: '#111111', label: card.type === 'note' ? '' : card.type.toUpperCase() });
+const options = { colorsFor };
+
+// The scene board-export lays out: estimated heights with the card's type label
+function sceneOf(bp, layout) {
+  return layoutBlueprint(bp, {
+    layout,
+    measureCard: (card, _key, width) => estimateCardHeight(card, width, card.type === 'note' ? '' : colorsFor(card).label),
+  });
+}
+
+function itemById(result, id) {
+  return result.items.find(item => item.id === id);
+}
+
+// Position of an item's center from the board's origin
+function boardCenter(result, item) {
+  if (!item.parent) return { x: item.position.x, y: item.position.y };
+  const frame = itemById(result, item.parent);
+  return {
+    x: frame.position.x - frame.geometry.width / 2 + item.position.x,
+    y: frame.position.y - frame.geometry.height / 2 + item.position.y,
+  };
+}
+
+const crowdedCount = MAX_STACKS * STACK_LIMIT + 2;
+const crowded = {
+  ...blueprint,
+  cells: [{
+    laneId: 'system', subPhaseId: 'submit',
+    cards: Array.from({ length: crowdedCount }, (_, i) => ({ id: `c${i}`, type: 'system', text: `Card ${i}` })),
+  }],
+  links: [{ from: 'system/submit/c0', to: `system/submit/c${crowdedCount - 1}`, kind: 'emits' }],
+};
+
+describe('blueprintBoard', () => {
+  it('makes a frame per phase, spanning its sub-phase columns', () => {
+    const result = board.blueprintBoard(blueprint, options);
+    const scene = sceneOf(blueprint);
+    const frames = result.items.filter(item => item.type === 'frame');
+
+    assert.strictEqual(result.name, blueprint.name);
+    assert.deepStrictEqual(frames.map(f => [f.id, f.data.title]), [['phase:apply', 'Apply'], ['phase:decide', 'Decide']]);
+    const [submit, review] = scene.grid.columns;
+    assert.strictEqual(frames[0].geometry.width, submit.width + review.width);
+    assert.strictEqual(frames[0].position.x, submit.x + frames[0].geometry.width / 2);
+    assert.strictEqual(frames[0].geometry.height, scene.height);
+    assert.strictEqual(result.items.indexOf(frames[1]), 1);
+  });
+
+  it('places cards where blueprint-layout.js puts them, relative to their frame', () => {
+    const result = board.blueprintBoard(blueprint, options);
+    const scene = sceneOf(blueprint);
+
+    for (const c of scene.cards) {
+      const item = itemById(result, `card:${c.key}`);
+      assert.ok(item, c.key);
+      assert.strictEqual(item.parent, c.subPhaseId === 'determine' ? 'phase:decide' : 'phase:apply');
+      assert.deepStrictEqual(boardCenter(result, item), { x: c.x + c.width / 2, y: c.y + c.height / 2 });
+      assert.strictEqual(item.geometry.width, c.width);
+    }
+  });
+
+  it('draws notes as stickies and other cards as shapes, dashing future cards', () => {
+    const result = board.blueprintBoard(blueprint, options);
+    const note = itemById(result, 'card:applicant/submit/annotation:0');
+    const system = itemById(result, 'card:system/submit/apply:Create application');
+    const future = itemById(result, 'card:system/determine/decide:Calculate benefits');
+
+    assert.strictEqual(note.type, 'sticky_note');
+    assert.strictEqual(note.style.fillColor, 'light_yellow');
+    assert.strictEqual('height' in note.geometry, false);
+    assert.strictEqual(system.type, 'shape');
+    assert.strictEqual(system.data.content, '<p><strong>SYSTEM</strong></p><p>Create application</p>');
+    assert.deepStrictEqual([system.style.fillColor, system.style.borderStyle, future.style.borderStyle], ['#EEEEEE', 'normal', 'dashed']);
+  });
+
+  it('labels sub-phases in their frame and lanes left of the frames', () => {
+    const result = board.blueprintBoard(blueprint, options);
+
+    assert.deepStrictEqual(result.items.filter(i => i.id.startsWith('sub-phase:')).map(i => [i.id, i.parent]), [
+      ['sub-phase:submit', 'phase:apply'], ['sub-phase:review', 'phase:apply'], ['sub-phase:determine', 'phase:decide'],
+    ]);
+    assert.deepStrictEqual(result.items.filter(i => i.id.startsWith('lane:')).map(i => [i.id, i.data.content, i.parent]), [
+      ['lane:applicant', 'Applicant', undefined], ['lane:system', 'System', undefined], ['lane:data', 'Data', undefined],
+    ]);
+  });
+
+  it('escapes HTML in card text', () => {
+    const bp = { ...blueprint, cells: [{ laneId: 'system', subPhaseId: 'submit', cards: [{ id: 'x', type: 'system', text: 'A <b> & C' }] }] };
+
+    assert.strictEqual(itemById(board.blueprintBoard(bp, options), 'card:system/submit/x').data.content, '<p><strong>SYSTEM</strong></p><p>A &lt;b&gt; &amp; C</p>');
+  });
+
+  it('turns links into connectors between the card items', () => {
+    const result = board.blueprintBoard(blueprint, options);
+
+    assert.deepStrictEqual(result.connectors.map(c => [c.startItem.id, c.endItem.id, c.style.strokeStyle]), [
+      ['card:system/submit/apply:Create application', 'card:data/submit/event:application.submitted', 'dashed'],
+      ['card:data/submit/event:application.submitted', 'card:system/determine/decide:Calculate benefits', 'normal'],
+    ]);
+  });
+
+  it('collapses cards past the auto layout capacity into a "+N more" item that ends their links', () => {
+    const result = board.blueprintBoard(crowded, { ...options, layout: 'auto' });
+    const scene = sceneOf(crowded, 'auto');
+    const more = itemById(result, 'more:system/submit');
+
+    assert.strictEqual(more.data.content, `<p><strong>+${scene.more[0].keys.length} more</strong></p>`);
+    assert.deepStrictEqual(boardCenter(result, more), { x: scene.more[0].x + scene.more[0].width / 2, y: scene.more[0].y + scene.more[0].height / 2 });
+    assert.strictEqual(itemById(result, `card:system/submit/c${crowdedCount - 1}`), undefined);
+    assert.deepStrictEqual(result.connectors.map(c => [c.startItem.id, c.endItem.id]), [['card:system/submit/c0', 'more:system/submit']]);
+  });
+
+  it('leaves out links with an end that is not on the board', () => {
+    const bp = { ...blueprint, links: [...blueprint.links, { from: 'system/submit/apply:Create application', to: 'system/gone/x', kind: 'emits' }] };
+
+    assert.strictEqual(board.blueprintBoard(bp, options).connectors.length, blueprint.links.length);
+  });
+});
+
+describe('blueprintCsv', () => {
+  it('writes a row per card, lane by lane, with its rounded board position', () => {
+    const lines = board.blueprintCsv(blueprint, options).trimEnd().split('\n');
+    const scene = sceneOf(blueprint);
+    const created = scene.cards.find(c => c.key === 'system/submit/apply:Create application');
+
+    assert.strictEqual(lines[0], 'key,phase,sub_phase,lane,type,actor,text,subtext,citation,domain,status,citation_url,x,y,width,height');
+    assert.deepStrictEqual(lines.slice(1).map(l => l.split(',')[0]), [
+      'applicant/submit/apply:Submit application',
+      'applicant/submit/annotation:0',
+      'system/submit/apply:Create application',
+      'system/determine/decide:Calculate benefits',
+      'data/submit/event:application.submitted',
+    ]);
+    assert.ok(lines[3].endsWith(`,${Math.round(created.x)},${Math.round(created.y)},${Math.round(created.width)},${Math.round(created.height)}`));
+    assert.ok(lines[4].includes(',future,'));
+  });
+
+  it('quotes fields with commas, quotes or line breaks', () => {
+    const card = { id: 'x', type: 'note', text: 'Say "hi", then wait', subtext: 'Line one\nLine two' };
+    const bp = { ...blueprint, cells: [{ laneId: 'system', subPhaseId: 'submit', cards: [card] }] };
+    const row = board.blueprintCsv(bp, options).split('\n').slice(1).join('\n');
+
+    assert.ok(row.startsWith('system/submit/x,Apply,Submit,System,note,,"Say ""hi"", then wait","Line one\nLine two",,'));
+  });
+
+  it('leaves the position of cards collapsed into "+N more" empty', () => {
+    const lines = board.blueprintCsv(crowded, { ...options, layout: 'auto' }).trimEnd().split('\n');
+    const last = lines[lines.length - 1];
+
+    assert.strictEqual(lines.length, crowdedCount + 1);
+    assert.ok(last.startsWith(`system/submit/c${crowdedCount - 1},`));
+    assert.ok(last.endsWith(',,,,'));
+  });
+});
+
+describe('libraryBoard and libraryCsv', () => {
+  const cards = {
+    domain: 'intake', name: 'Intake',
+    phases: [{
+      id: 'flow-0', label: 'Apply',
+      subPhases: [
+        { id: 'frag-0-0', label: 'Submit', cards: [{ type: 'policy', text: '7 CFR 273.2', citation: '7 CFR 273.2(a)' }, { type: 'note', text: 'Ask' }] },
+        { id: 'frag-0-1', label: 'Empty', cards: [] },
+      ],
+    }],
+  };
+
+  it('puts the library in one frame, laid out as library-layout.ts places it', () => {
+    const result = board.libraryBoard(cards, options);
+    const [frame, title, heading, policy, note] = result.items;
+
+    assert.strictEqual(result.name, 'Intake — Card Library');
+    assert.deepStrictEqual([frame.id, frame.type, frame.position.x, frame.position.y], ['library', 'frame', frame.geometry.width / 2, frame.geometry.height / 2]);
+    assert.deepStrictEqual([title.data.content, heading.data.content], ['Intake — Card Library', 'APPLY  /  SUBMIT']);
+    assert.deepStrictEqual([policy.id, policy.type, note.id, note.type], ['card:0', 'shape', 'card:1', 'sticky_note']);
+    assert.strictEqual(policy.position.x, library.LIBRARY_PADDING + library.LIBRARY_CARD_WIDTH / 2);
+    assert.strictEqual(note.position.x - policy.position.x, library.LIBRARY_CARD_WIDTH + library.LIBRARY_CARD_GAP);
+    assert.deepStrictEqual(result.connectors, []);
+  });
+
+  it('keys library rows by phase, sub-phase and index', () => {
+    const lines = board.libraryCsv(cards, options).trimEnd().split('\n');
+
+    assert.deepStrictEqual(lines.slice(1).map(l => l.split(',').slice(0, 5).join(',')), [
+      'flow-0/frag-0-0/0,Apply,Submit,,policy',
+      'flow-0/frag-0-0/1,Apply,Submit,,note',
+    ]);
+    assert.ok(lines[1].includes(',7 CFR 273.2(a),'));
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { loadSource } from './load-source.js';
+
+let diffCells;
+let diffBlueprints;
+let summarizeDiff;
+
+before(async () => {
+  ({ diffCells, diffBlueprints, summarizeDiff } = await loadSource('diff'));
+});
+
+const changes = diffs => diffs.map(d => [d.change, d.card.text]);
+
+function blueprint(cells, { lanes = ['applicant', 'system'], subPhases = ['submit', 'review'] } = {}) {
+  return {
+    id: 'bp',
+    name: 'Blueprint',
+    lanes: lanes.map(id => ({ id, label: id })),
+    phases: [{ id: 'apply', label: 'Apply', subPhases: subPhases.map(id => ({ id, label: id })) }],
+    cells,
+  };
+}
+
+describe('diffCells', () => {
+  describe('matching', () => {
+    it('matches cards by id first, whatever their position or text', () => {
+      const base = [{ id: 'a', type: 'system', text: 'Create' }, { id: 'b', type: 'system', text: 'Save' }];
+      const head = [{ id: 'b', type: 'system', text: 'Save' }, { id: 'a', type: 'system', text: 'Create record' }];
+
+      const diffs = diffCells(base, head);
+
+      assert.deepStrictEqual(changes(diffs), [['unchanged', 'Save'], ['modified', 'Create record']]);
+      assert.strictEqual(diffs[1].before, base[0]);
+      assert.deepStrictEqual(diffs[1].fields, ['text']);
+    });
+
+    it('then matches cards without ids by type and text before falling back to type', () => {
+      const base = [{ type: 'system', text: 'Create' }, { type: 'system', text: 'Save' }];
+      const head = [{ type: 'system', text: 'Save' }, { type: 'system', text: 'Create draft' }];
+
+      const diffs = diffCells(base, head);
+
+      // "Save" pairs with "Save" although "Create" comes first in the base
+      assert.deepStrictEqual(changes(diffs), [['unchanged', 'Save'], ['modified', 'Create draft']]);
+      assert.strictEqual(diffs[1].before, base[0]);
+    });
+
+    it('only falls back to type for cards of the same type', () => {
+      const diffs = diffCells([{ type: 'system', text: 'Create' }], [{ type: 'policy', text: 'Create' }]);
+
+      assert.deepStrictEqual(changes(diffs), [['added', 'Create'], ['removed', 'Create']]);
+    });
+
+    it('does not match a card with an id to one without', () => {
+      const diffs = diffCells([{ id: 'a', type: 'system', text: 'Create' }], [{ type: 'system', text: 'Create' }]);
+
+      assert.deepStrictEqual(diffs.map(d => d.change), ['added', 'removed']);
+    });
+  });
+
+  it('reports added, removed and modified cards with the fields that changed', () => {
+    const base = [
+      { type: 'system', text: 'Create', subtext: 'Nightly' },
+      { type: 'person-action', actor: 'applicant', text: 'Submit' },
+      { type: 'note', text: 'Gone' },
+    ];
+    const head = [
+      { type: 'system', text: 'Create', subtext: 'Hourly', status: 'future' },
+      { type: 'person-action', actor: 'caseworker', text: 'Submit', domain: 'intake' },
+      { type: 'policy', text: 'New' },
+    ];
+
+    const diffs = diffCells(base, head);
+
+    assert.deepStrictEqual(changes(diffs), [['modified', 'Create'], ['modified', 'Submit'], ['added', 'New'], ['removed', 'Gone']]);
+    assert.deepStrictEqual(diffs[0].fields, ['subtext', 'status']);
+    assert.deepStrictEqual(diffs[1].fields, ['actor', 'domain']);
+    assert.strictEqual(diffs[3].card, base[2]);
+    assert.strictEqual(diffs[2].before, undefined);
+  });
+
+  it('places removed cards after the matched card that preceded them', () => {
+    const base = ['A', 'B', 'C', 'D', 'E'].map(text => ({ id: text, type: 'system', text }));
+    const head = [base[0], base[2], { id: 'F', type: 'system', text: 'F' }, base[4]];
+
+    assert.deepStrictEqual(changes(diffCells(base, head)), [
+      ['unchanged', 'A'], ['removed', 'B'], ['unchanged', 'C'], ['added', 'F'], ['removed', 'D'], ['unchanged', 'E'],
+    ]);
+  });
+
+  it('puts removed cards first when nothing precedes them', () => {
+    const base = [{ id: 'x', type: 'note', text: 'X' }, { id: 'y', type: 'note', text: 'Y' }];
+
+    assert.deepStrictEqual(changes(diffCells(base, [base[1]])), [['removed', 'X'], ['unchanged', 'Y']]);
+  });
+});
+
+describe('diffBlueprints', () => {
+  it('diffs cells that exist only in the baseline or only in the head', () => {
+    const base = blueprint([{ laneId: 'applicant', subPhaseId: 'submit', cards: [{ type: 'person-action', text: 'Submit' }] }]);
+    const head = blueprint([{ laneId: 'system', subPhaseId: 'review', cards: [{ type: 'system', text: 'Review' }] }]);
+
+    const diff = diffBlueprints(base, head);
+
+    assert.deepStrictEqual(diff.cells.map(c => [c.laneId, c.subPhaseId, changes(c.cards)]), [
+      ['applicant', 'submit', [['removed', 'Submit']]],
+      ['system', 'review', [['added', 'Review']]],
+    ]);
+    assert.deepStrictEqual(diff.summary, { added: 1, removed: 1, modified: 0, unchanged: 0 });
+  });
+
+  it('keeps lanes and sub-phases from both versions, reporting the ones added and removed', () => {
+    const base = blueprint([{ laneId: 'data', subPhaseId: 'submit', cards: [{ type: 'domain-event', text: 'submitted' }] }],
+      { lanes: ['applicant', 'data', 'system'], subPhases: ['submit', 'review'] });
+    const head = blueprint([], { lanes: ['applicant', 'system', 'policy'], subPhases: ['submit', 'decide', 'review'] });
+
+    const diff = diffBlueprints(base, head);
+
+    assert.deepStrictEqual(diff.lanes.map(l => l.id), ['applicant', 'data', 'system', 'policy']);
+    assert.deepStrictEqual(diff.phases[0].subPhases.map(sp => sp.id), ['submit', 'decide', 'review']);
+    assert.deepStrictEqual(diff.laneChanges, { added: ['policy'], removed: ['data'] });
+    assert.deepStrictEqual(diff.subPhaseChanges, { added: ['decide'], removed: [] });
+    assert.deepStrictEqual(diff.cells.map(c => `${c.laneId}/${c.subPhaseId}`), ['data/submit']);
+    assert.deepStrictEqual(summarizeDiff(diff), [
+      'Compared with: Blueprint',
+      '0 added · 1 removed · 0 modified · 0 unchanged',
+      'Lanes added: policy',
+      'Lanes removed: data',
+      'Sub-phases added: decide',
+    ]);
+  });
+});
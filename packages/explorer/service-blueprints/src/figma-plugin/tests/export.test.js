@@ -0,0 +1,222 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { loadSource } from './load-source.js';
+
+let findCanvasChanges;
+let toJsonPatch;
+let changesToYaml;
+
+before(async () => {
+  ({ findCanvasChanges, toJsonPatch, changesToYaml } = await loadSource('export'));
+});
+
+// Two lanes (applicant above system) across two sub-phases of one phase
+const GRID = {
+  lanes: [{ id: 'applicant', y: 0, height: 100 }, { id: 'system', y: 100, height: 100 }],
+  columns: [
+    { id: 'submit', x: 0, width: 200, phaseIndex: 0, subPhaseIndex: 0 },
+    { id: 'review', x: 200, width: 200, phaseIndex: 0, subPhaseIndex: 1 },
+  ],
+};
+
+const ORIGIN = { applicant: 0, system: 100, submit: 0, review: 200 };
+
+function annotationCard(index, text = `Note ${index}`) {
+  return { id: `annotation:${index}`, type: 'note', text, origin: 'annotation', annotationIndex: index };
+}
+
+function flowCard(text) {
+  return { id: `apply:${text}`, type: 'system', text, origin: 'flow' };
+}
+
+// The canvas card for a generated card, placed in a cell (default: where it was generated)
+function onCanvas(key, generated, laneId = generated.laneId, subPhaseId = generated.subPhaseId) {
+  const { card } = generated;
+  return {
+    key, type: card.type, text: card.text, ...(card.subtext ? { subtext: card.subtext } : {}),
+    x: ORIGIN[subPhaseId] + 10, y: ORIGIN[laneId] + 10, width: 100,
+  };
+}
+
+function snapshot(rendered, cards) {
+  return { blueprintId: 'intake-blueprint', name: 'Intake', grid: GRID, rendered, cards };
+}
+
+// Every rendered card left where it was generated
+function untouched(rendered) {
+  return Object.keys(rendered).map(key => onCanvas(key, rendered[key]));
+}
+
+const RENDERED = {
+  'applicant/submit/annotation:0': { laneId: 'applicant', subPhaseId: 'submit', card: annotationCard(0) },
+  'applicant/submit/annotation:1': { laneId: 'applicant', subPhaseId: 'submit', card: annotationCard(1) },
+  'applicant/submit/annotation:2': { laneId: 'applicant', subPhaseId: 'submit', card: { ...annotationCard(2), subtext: 'Detail' } },
+  'system/submit/apply:Store': { laneId: 'system', subPhaseId: 'submit', card: flowCard('Store') },
+};
+
+describe('findCanvasChanges', () => {
+  it('finds nothing when the canvas matches the render', () => {
+    const changes = findCanvasChanges(snapshot(RENDERED, untouched(RENDERED)));
+
+    assert.deepStrictEqual(changes, { blueprintId: 'intake-blueprint', name: 'Intake', annotations: [], flowCards: [], skipped: [] });
+  });
+
+  it('lists updates, moves, removals and additions in that order', () => {
+    const [, , third, store] = untouched(RENDERED);
+    const moved = onCanvas('applicant/submit/annotation:1', RENDERED['applicant/submit/annotation:1'], 'applicant', 'review');
+    const added = { type: 'question', text: 'Why?', x: 210, y: 110, width: 100 };
+    const changes = findCanvasChanges(snapshot(RENDERED, [added, moved, { ...third, text: 'Fixed' }, store]));
+
+    assert.deepStrictEqual(changes.annotations.map(c => c.op), ['update', 'move', 'remove', 'add']);
+    assert.deepStrictEqual(changes.annotations[0], {
+      op: 'update', at: { laneId: 'applicant', subPhaseId: 'submit' }, index: 2, text: 'Note 2', set: { text: 'Fixed' },
+    });
+    assert.deepStrictEqual(changes.annotations[3], { op: 'add', to: { laneId: 'system', subPhaseId: 'review' }, card: { type: 'question', text: 'Why?' } });
+  });
+
+  it('keeps edits to derived cards apart from annotation changes', () => {
+    const [first, second, third, store] = untouched(RENDERED);
+    const cards = [first, second, third];
+    const movedStore = { ...store, x: 210, text: 'Store application' };
+
+    const edited = findCanvasChanges(snapshot(RENDERED, [...cards, movedStore]));
+    assert.deepStrictEqual(edited.annotations, []);
+    assert.deepStrictEqual(edited.flowCards, [{
+      at: { laneId: 'system', subPhaseId: 'submit' }, card: { type: 'system', text: 'Store' },
+      set: { text: 'Store application' }, to: { laneId: 'system', subPhaseId: 'review' },
+    }]);
+
+    const removed = findCanvasChanges(snapshot(RENDERED, cards));
+    assert.deepStrictEqual(removed.annotations, []);
+    assert.deepStrictEqual(removed.flowCards, [{ at: { laneId: 'system', subPhaseId: 'submit' }, card: { type: 'system', text: 'Store' }, removed: true }]);
+  });
+
+  it('treats extra copies of a generated card as additions', () => {
+    const cards = untouched(RENDERED);
+    const copy = { ...cards[0], x: 210 };
+    const changes = findCanvasChanges(snapshot(RENDERED, [copy, ...cards]));
+
+    assert.deepStrictEqual(changes.annotations, [{ op: 'add', to: { laneId: 'applicant', subPhaseId: 'review' }, card: { type: 'note', text: 'Note 0' } }]);
+  });
+
+  it('skips cards outside the grid and cards generated in a sub-phase the grid lacks', () => {
+    const rendered = {
+      ...RENDERED,
+      'applicant/gone/annotation:0': { laneId: 'applicant', subPhaseId: 'gone', card: annotationCard(0, 'Orphan') },
+    };
+    const cards = [...untouched(RENDERED), { type: 'note', text: 'Adrift', x: 500, y: 10, width: 100 }];
+    const changes = findCanvasChanges(snapshot(rendered, cards));
+
+    assert.deepStrictEqual(changes.annotations, []);
+    assert.deepStrictEqual(changes.skipped, [
+      '"Adrift" is outside the grid',
+      '"Orphan" was generated in sub-phase \'gone\', which isn\'t in the grid',
+    ]);
+  });
+});
+
+describe('toJsonPatch', () => {
+  it('removes and moves from the highest index down, creating missing lists', () => {
+    const [, , third, store] = untouched(RENDERED);
+    const moved = { ...third, x: 210, y: 110 };
+    const snap = snapshot(RENDERED, [moved, store]);
+    const ops = toJsonPatch(snap, findCanvasChanges(snap));
+
+    assert.deepStrictEqual(ops, [
+      { op: 'add', path: '/phases/0/subPhases/1/cards', value: {} },
+      { op: 'add', path: '/phases/0/subPhases/1/cards/system', value: [] },
+      { op: 'move', from: '/phases/0/subPhases/0/cards/applicant/2', path: '/phases/0/subPhases/1/cards/system/-' },
+      { op: 'remove', path: '/phases/0/subPhases/0/cards/applicant/1' },
+      { op: 'remove', path: '/phases/0/subPhases/0/cards/applicant/0' },
+    ]);
+  });
+
+  it('adds a missing list to an existing cards map once', () => {
+    const cards = [
+      ...untouched(RENDERED),
+      { type: 'note', text: 'One', x: 10, y: 110, width: 100 },
+      { type: 'note', text: 'Two', x: 20, y: 120, width: 100 },
+    ];
+    const snap = snapshot(RENDERED, cards);
+
+    assert.deepStrictEqual(toJsonPatch(snap, findCanvasChanges(snap)), [
+      { op: 'add', path: '/phases/0/subPhases/0/cards/system', value: [] },
+      { op: 'add', path: '/phases/0/subPhases/0/cards/system/-', value: { type: 'note', text: 'One' } },
+      { op: 'add', path: '/phases/0/subPhases/0/cards/system/-', value: { type: 'note', text: 'Two' } },
+    ]);
+  });
+
+  it('sets edited fields and removes cleared subtext', () => {
+    const cards = untouched(RENDERED);
+    cards[2] = { ...cards[2], text: 'Fixed', subtext: '' };
+    const snap = snapshot(RENDERED, cards);
+
+    assert.deepStrictEqual(toJsonPatch(snap, findCanvasChanges(snap)), [
+      { op: 'add', path: '/phases/0/subPhases/0/cards/applicant/2/text', value: 'Fixed' },
+      { op: 'remove', path: '/phases/0/subPhases/0/cards/applicant/2/subtext' },
+    ]);
+  });
+
+  it('escapes lane ids in JSON pointers', () => {
+    const rendered = { 'a/b/submit/annotation:0': { laneId: 'a/b~c', subPhaseId: 'submit', card: annotationCard(0) } };
+    const changes = { blueprintId: 'x', name: 'X', flowCards: [], skipped: [], annotations: [{ op: 'remove', at: { laneId: 'a/b~c', subPhaseId: 'submit' }, index: 0, text: 'Note 0' }] };
+
+    assert.deepStrictEqual(toJsonPatch(snapshot(rendered, []), changes), [{ op: 'remove', path: '/phases/0/subPhases/0/cards/a~1b~0c/0' }]);
+  });
+
+  it('leaves out changes in a sub-phase the grid lacks', () => {
+    const at = { laneId: 'applicant', subPhaseId: 'gone' };
+    const rendered = { 'applicant/gone/annotation:0': { ...at, card: annotationCard(0) } };
+    const changes = {
+      blueprintId: 'x', name: 'X', flowCards: [], skipped: [],
+      annotations: [
+        { op: 'update', at, index: 0, text: 'Note 0', set: { text: 'Fixed' } },
+        { op: 'move', at, index: 0, text: 'Note 0', to: { laneId: 'system', subPhaseId: 'submit' } },
+        { op: 'add', to: at, card: { type: 'note', text: 'New' } },
+      ],
+    };
+
+    assert.deepStrictEqual(toJsonPatch(snapshot(rendered, []), changes), []);
+  });
+});
+
+describe('changesToYaml', () => {
+  it('writes the changes under a header, quoting strings that need it', () => {
+    const [first, second, third] = untouched(RENDERED);
+    const changes = findCanvasChanges(snapshot(RENDERED, [first, second, { ...third, text: 'Fixed: yes' }]));
+
+    assert.strictEqual(changesToYaml(changes), [
+      '# Changes made in Figma to Intake',
+      '#',
+      '# annotations: apply to the sub-phase `cards` in the annotations YAML.',
+      '#   `index` counts from 0 in the lane\'s card list, before any change is applied.',
+      '# flowCards:   cards derived from config.yaml flows — edit the flow steps there.',
+      'blueprint: intake-blueprint',
+      'annotations:',
+      '  - op: update',
+      '    at:',
+      '      laneId: applicant',
+      '      subPhaseId: submit',
+      '    index: 2',
+      '    text: "Note 2"',
+      '    set:',
+      '      text: "Fixed: yes"',
+      'flowCards:',
+      '  - at:',
+      '      laneId: system',
+      '      subPhaseId: submit',
+      '    card:',
+      '      type: system',
+      '      text: Store',
+      '    removed: true',
+      '',
+    ].join('\n'));
+  });
+
+  it('lists skipped cards only when there are some', () => {
+    const changes = { blueprintId: 'x', name: 'X', annotations: [], flowCards: [], skipped: ['"Adrift" is outside the grid'] };
+
+    assert.match(changesToYaml(changes), /annotations: \[\]\nflowCards: \[\]\nskipped:\n {2}- "\\"Adrift\\" is outside the grid"\n$/);
+    assert.doesNotMatch(changesToYaml({ ...changes, skipped: [] }), /skipped/);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { cardKey } from '../../blueprint-layout.js';
+import { loadSource } from './load-source.js';
+
+let filterBlueprint;
+let describeFilter;
+let isFiltered;
+
+before(async () => {
+  ({ filterBlueprint, describeFilter, isFiltered } = await loadSource('filter'));
+});
+
+const BLUEPRINT = {
+  id: 'intake-blueprint',
+  name: 'Intake',
+  lanes: [
+    { id: 'applicant', label: 'Applicant' },
+    { id: 'system', label: 'System' },
+    { id: 'regulations', label: 'Regulations' },
+  ],
+  phases: [
+    { id: 'apply', label: 'Apply', subPhases: [{ id: 'submit', label: 'Submit' }] },
+    { id: 'review', label: 'Review', subPhases: [{ id: 'check', label: 'Check' }] },
+  ],
+  cells: [
+    { laneId: 'applicant', subPhaseId: 'submit', cards: [{ id: 'apply:Submit', type: 'person-action', text: 'Submits' }] },
+    {
+      laneId: 'system', subPhaseId: 'submit', cards: [
+        { type: 'note', text: 'Unkeyed note' },
+        { id: 'apply:Store', type: 'system', text: 'Stores' },
+        { type: 'system', text: 'Unkeyed system' },
+      ],
+    },
+    { laneId: 'regulations', subPhaseId: 'submit', cards: [{ id: 'policy:apply:snap', type: 'policy', text: '7 CFR 273.2' }] },
+    { laneId: 'system', subPhaseId: 'check', cards: [{ id: 'review:Check', type: 'system', text: 'Checks' }] },
+  ],
+  links: [
+    { from: 'applicant/submit/apply:Submit', to: 'system/submit/apply:Store', kind: 'triggers' },
+    { from: 'system/submit/apply:Store', to: 'system/submit/2', kind: 'triggers' },
+    { from: 'system/submit/apply:Store', to: 'system/check/review:Check', kind: 'triggers' },
+  ],
+};
+
+function keysOf(blueprint) {
+  return blueprint.cells.flatMap(cell => cell.cards.map((card, i) => cardKey(cell, card, i)));
+}
+
+describe('filterBlueprint', () => {
+  it('keeps only the chosen lanes, under an id and name naming the filter', () => {
+    const filtered = filterBlueprint(BLUEPRINT, { lanes: ['applicant', 'regulations'] });
+
+    assert.strictEqual(filtered.id, 'intake-blueprint:lanes=applicant,regulations');
+    assert.strictEqual(filtered.name, 'Intake (filtered)');
+    assert.deepStrictEqual(filtered.lanes.map(l => l.id), ['applicant', 'regulations']);
+    assert.deepStrictEqual(filtered.cells.map(c => c.laneId), ['applicant', 'regulations']);
+  });
+
+  it('keeps only the chosen phases and their cells', () => {
+    const filtered = filterBlueprint(BLUEPRINT, { phases: ['review'] });
+
+    assert.deepStrictEqual(filtered.phases.map(p => p.id), ['review']);
+    assert.deepStrictEqual(filtered.cells.map(c => `${c.laneId}/${c.subPhaseId}`), ['system/check']);
+    assert.deepStrictEqual(filtered.lanes.map(l => l.id), ['applicant', 'system', 'regulations']);
+  });
+
+  it('keeps only the chosen card types and drops the lanes they empty', () => {
+    const filtered = filterBlueprint(BLUEPRINT, { cardTypes: ['system'] });
+
+    assert.deepStrictEqual(filtered.lanes.map(l => l.id), ['system']);
+    assert.deepStrictEqual(filtered.cells.map(c => c.cards.map(card => card.text)), [['Stores', 'Unkeyed system'], ['Checks']]);
+  });
+
+  it('keeps the card keys of the full blueprint without adding ids to cards', () => {
+    const filtered = filterBlueprint(BLUEPRINT, { cardTypes: ['system'] });
+    const [submit] = filtered.cells;
+
+    assert.deepStrictEqual(keysOf(filtered), ['system/submit/apply:Store', 'system/submit/2', 'system/check/review:Check']);
+    assert.deepStrictEqual(submit.cards[1], { type: 'system', text: 'Unkeyed system' });
+    assert.deepStrictEqual(keysOf(filterBlueprint(filtered, { phases: ['apply'] })), ['system/submit/apply:Store', 'system/submit/2']);
+  });
+
+  it('keeps only links between kept cards', () => {
+    assert.deepStrictEqual(filterBlueprint(BLUEPRINT, { cardTypes: ['system'] }).links, BLUEPRINT.links.slice(1));
+    assert.deepStrictEqual(filterBlueprint(BLUEPRINT, { phases: ['apply'] }).links, BLUEPRINT.links.slice(0, 2));
+
+    const { links, ...unlinked } = BLUEPRINT;
+    assert.strictEqual('links' in filterBlueprint(unlinked, { phases: ['apply'] }), false);
+  });
+
+  it('leaves the blueprint it filters unchanged', () => {
+    const before = JSON.stringify(BLUEPRINT);
+    filterBlueprint(BLUEPRINT, { lanes: ['system'], phases: ['apply'], cardTypes: ['note'] });
+
+    assert.strictEqual(JSON.stringify(BLUEPRINT), before);
+  });
+});
+
+describe('describeFilter', () => {
+  it('names what the filter kept, by label', () => {
+    assert.deepStrictEqual(describeFilter(BLUEPRINT, { lanes: ['system', 'applicant'], phases: ['review'], cardTypes: ['policy', 'note'] }), [
+      'Filtered view',
+      'Lanes: Applicant, System',
+      'Phases: Review',
+      'Card types: policy, note',
+    ]);
+  });
+
+  it('says none when a list keeps nothing, and nothing when there is no filter', () => {
+    assert.deepStrictEqual(describeFilter(BLUEPRINT, { lanes: [], cardTypes: [] }), ['Filtered view', 'Lanes: none', 'Card types: none']);
+    assert.deepStrictEqual(describeFilter(BLUEPRINT, {}), []);
+  });
+});
+
+describe('isFiltered', () => {
+  it('is true once any list is given, even an empty one', () => {
+    assert.strictEqual(isFiltered(undefined), false);
+    assert.strictEqual(isFiltered({}), false);
+    assert.strictEqual(isFiltered({ phases: [] }), true);
+  });
+});
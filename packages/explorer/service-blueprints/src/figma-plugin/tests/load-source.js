@@ -0,0 +1,50 @@
+/**
+ * Loads the plugin's pure TypeScript modules (no Figma API) so they can be
+ * tested under plain Node. The requested src/ module is transpiled into a
+ * temp directory, together with the src/ modules it imports, and imported
+ * from there; imports from outside src/ (e.g. ../../blueprint-layout.js) are
+ * pointed at the originals. The directory is removed when the test file ends.
+ */
+
+import { after } from 'node:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import ts from 'typescript';
+
+const srcDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'src');
+
+let outDir = null;
+const transpiled = new Set();
+
+after(() => {
+  if (outDir) rmSync(outDir, { recursive: true, force: true });
+  outDir = null;
+  transpiled.clear();
+});
+
+function transpile(name) {
+  if (transpiled.has(name)) return;
+  transpiled.add(name);
+  const { outputText } = ts.transpileModule(readFileSync(join(srcDir, `${name}.ts`), 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  writeFileSync(join(outDir, `${name}.js`), outputText.replace(
+    /from '(\.\.\/[^']+)'/g, (_, path) => `from '${pathToFileURL(join(srcDir, path)).href}'`,
+  ));
+  for (const [, dep] of outputText.matchAll(/from '\.\/([\w-]+)\.js'/g)) transpile(dep);
+}
+
+/**
+ * @param {string} name - Module name in src/ without extension, e.g. 'diff'
+ * @returns {Promise<object>} The module's exports
+ */
+export async function loadSource(name) {
+  if (!outDir) {
+    outDir = mkdtempSync(join(tmpdir(), 'figma-plugin-src-'));
+    writeFileSync(join(outDir, 'package.json'), '{"type":"module"}\n');
+  }
+  transpile(name);
+  return import(pathToFileURL(join(outDir, `${name}.js`)).href);
+}
@@ -0,0 +1,152 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { loadSource } from './load-source.js';
+
+let metrics;
+
+before(async () => {
+  metrics = await loadSource('metrics');
+});
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+function metric(overrides = {}) {
+  return {
+    id: 'intake-time', name: 'Intake time', domain: 'intake', aggregate: 'duration', value: 3 * HOUR, breakdown: null,
+    targets: [{ stat: 'p50', operator: 'lte', amount: 4, unit: 'hours' }], computedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function blueprint(bindings) {
+  return {
+    id: 'intake-blueprint', name: 'Intake', lanes: [], cells: [],
+    phases: [{ id: 'apply', label: 'Apply', subPhases: Object.keys(bindings).map(id => ({ id, label: id, metrics: bindings[id] })) }],
+  };
+}
+
+const SLA_TYPES = [
+  { id: 'snap-processing', name: 'SNAP processing', duration: { amount: 30, unit: 'days' }, warningThresholdPercent: 80 },
+];
+
+describe('formatDuration', () => {
+  it('uses the largest unit that keeps the number at 1 or more', () => {
+    assert.strictEqual(metrics.formatDuration(12 * DAY), '12 d');
+    assert.strictEqual(metrics.formatDuration(DAY), '1 d');
+    assert.strictEqual(metrics.formatDuration(3.5 * HOUR), '3.5 h');
+    assert.strictEqual(metrics.formatDuration(HOUR), '1 h');
+    assert.strictEqual(metrics.formatDuration(59 * 60), '59 min');
+  });
+
+  it('keeps one decimal below 10 and rounds from 10 up', () => {
+    assert.strictEqual(metrics.formatDuration(1.26 * DAY), '1.3 d');
+    assert.strictEqual(metrics.formatDuration(10.4 * HOUR), '10 h');
+  });
+
+  it('shows at least 1 min', () => {
+    assert.strictEqual(metrics.formatDuration(5), '1 min');
+    assert.strictEqual(metrics.formatDuration(0), '1 min');
+  });
+});
+
+describe('durationSeconds', () => {
+  it('converts each unit to seconds', () => {
+    assert.strictEqual(metrics.durationSeconds({ amount: 90, unit: 'minutes' }), 90 * 60);
+    assert.strictEqual(metrics.durationSeconds({ amount: 4, unit: 'hours' }), 4 * HOUR);
+    assert.strictEqual(metrics.durationSeconds({ amount: 30, unit: 'days' }), 30 * DAY);
+  });
+});
+
+describe('toBlueprintMetrics', () => {
+  it('returns a BlueprintMetrics payload as is', () => {
+    const payload = { subPhases: { submit: { medianSeconds: 60 } } };
+
+    assert.strictEqual(metrics.toBlueprintMetrics(payload, blueprint({}), []), payload);
+  });
+
+  it('takes the SLA target and warning threshold from the column\'s SLA type', () => {
+    const response = { items: [metric()] };
+    const result = metrics.toBlueprintMetrics(response, blueprint({ submit: { sla: 'snap-processing', median: 'intake-time' } }), SLA_TYPES);
+
+    assert.deepStrictEqual(result, {
+      computedAt: '2026-01-01T00:00:00Z',
+      subPhases: { submit: { slaTarget: { amount: 30, unit: 'days' }, warningThresholdPercent: 80, medianSeconds: 3 * HOUR } },
+    });
+  });
+
+  it('falls back to the p50 target of the median metric when there is no SLA type', () => {
+    const response = {
+      items: [
+        metric(),
+        metric({ id: 'no-p50', targets: [{ stat: 'p90', amount: 8, unit: 'hours' }] }),
+        metric({ id: 'counted', targets: [{ stat: 'p50', amount: 4, unit: 'applications' }] }),
+      ],
+    };
+    const bindings = { submit: { sla: 'unknown', median: 'intake-time' }, review: { median: 'no-p50' }, decide: { median: 'counted' } };
+    const { subPhases } = metrics.toBlueprintMetrics(response, blueprint(bindings), SLA_TYPES);
+
+    assert.deepStrictEqual(subPhases.submit, { slaTarget: { amount: 4, unit: 'hours' }, medianSeconds: 3 * HOUR });
+    assert.deepStrictEqual(subPhases.review, { medianSeconds: 3 * HOUR });
+    assert.deepStrictEqual(subPhases.decide, { medianSeconds: 3 * HOUR });
+  });
+
+  it('takes the volume from a count and skips grouped and non-duration medians', () => {
+    const response = {
+      items: [
+        metric({ id: 'submitted', aggregate: 'count', value: 42, targets: [] }),
+        metric({ id: 'by-program', value: null, breakdown: { snap: 2 * HOUR }, targets: [] }),
+        metric({ id: 'count-as-median', aggregate: 'count', value: 7, targets: [] }),
+      ],
+    };
+    const bindings = { submit: { median: 'by-program', volume: 'submitted' }, review: { median: 'count-as-median' } };
+    const { subPhases } = metrics.toBlueprintMetrics(response, blueprint(bindings), []);
+
+    assert.deepStrictEqual(subPhases, { submit: { volume: 42 } });
+  });
+
+  it('leaves out columns whose metric ids are missing from the response', () => {
+    const response = { items: [metric()] };
+    const bindings = { submit: { median: 'gone', volume: 'also-gone' }, review: { median: 'intake-time' }, decide: undefined };
+    const result = metrics.toBlueprintMetrics(response, blueprint(bindings), []);
+
+    assert.deepStrictEqual(Object.keys(result.subPhases), ['review']);
+    assert.deepStrictEqual(metrics.toBlueprintMetrics({ items: [] }, blueprint(bindings), []), { subPhases: {} });
+  });
+});
+
+describe('heatOf', () => {
+  const target = { amount: 4, unit: 'hours' };
+
+  it('rates the median against the target and warning threshold', () => {
+    assert.strictEqual(metrics.heatOf({ slaTarget: target, medianSeconds: 2 * HOUR }), 'ok');
+    assert.strictEqual(metrics.heatOf({ slaTarget: target, medianSeconds: 3 * HOUR }), 'warning');
+    assert.strictEqual(metrics.heatOf({ slaTarget: target, medianSeconds: 4 * HOUR }), 'warning');
+    assert.strictEqual(metrics.heatOf({ slaTarget: target, medianSeconds: 5 * HOUR }), 'breach');
+    assert.strictEqual(metrics.heatOf({ slaTarget: target, medianSeconds: 3 * HOUR, warningThresholdPercent: 80 }), 'ok');
+  });
+
+  it('has no rating without a target or a median', () => {
+    assert.strictEqual(metrics.heatOf({ medianSeconds: HOUR }), null);
+    assert.strictEqual(metrics.heatOf({ slaTarget: target, volume: 3 }), null);
+  });
+});
+
+describe('metricsLines and metricsLegend', () => {
+  it('lists the numbers a column has', () => {
+    assert.deepStrictEqual(metrics.metricsLines({ slaTarget: { amount: 4, unit: 'hours' }, medianSeconds: 3.2 * HOUR, volume: 42 }), [
+      'SLA 4 h', 'Median 3.2 h', 'Volume 42',
+    ]);
+    assert.deepStrictEqual(metrics.metricsLines({ volume: 0 }), ['Volume 0']);
+  });
+
+  it('explains the heat levels that appear, in order, with the date', () => {
+    const target = { amount: 1, unit: 'days' };
+    const legend = metrics.metricsLegend({
+      computedAt: '2026-01-01T00:00:00Z',
+      subPhases: { a: { slaTarget: target, medianSeconds: 2 * DAY }, b: { slaTarget: target, medianSeconds: HOUR }, c: { volume: 1 } },
+    });
+
+    assert.deepStrictEqual(legend, [metrics.HEAT_STYLES.ok.legend, metrics.HEAT_STYLES.breach.legend, 'Metrics as of 2026-01-01']);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import yaml from 'js-yaml';
+import { stateMachineDiagrams } from '../../generate-state-diagrams.js';
+import { loadSource } from './load-source.js';
+
+let layout;
+
+before(async () => {
+  layout = await loadSource('state-layout');
+});
+
+const contract = yaml.load(readFileSync(new URL('../../../../../contracts/intake-state-machine.yaml', import.meta.url), 'utf8'));
+const [application] = stateMachineDiagrams(contract);
+
+const STATE_HEIGHT = 100;
+const LABEL = { width: 100, height: 20 };
+const options = { measureState: () => STATE_HEIGHT, measureLabel: () => LABEL };
+
+function byId(scene) {
+  return new Map(scene.states.map(s => [s.id, s]));
+}
+
+function route(scene, trigger, from) {
+  return scene.transitions.find(r => r.transition.trigger === trigger && r.transition.from === from);
+}
+
+describe('routedTransitions', () => {
+  it('keeps transitions that change state between states in the diagram', () => {
+    const routed = layout.routedTransitions(application);
+
+    assert.ok(routed.every(t => t.to !== undefined));
+    assert.strictEqual(routed.some(t => t.trigger === 'complete-review'), false);
+    assert.strictEqual(layout.routedTransitions({ ...application, states: application.states.slice(0, 2) }).length, 1);
+  });
+});
+
+describe('layoutStateMachine', () => {
+  it('places states in columns by their distance from the initial state, stacked in contract order', () => {
+    const { START_MARGIN, STATE_WIDTH, COLUMN_GAP, ROW_GAP, layoutStateMachine } = layout;
+    const states = byId(layoutStateMachine(application, options));
+    const columnX = c => START_MARGIN + c * (STATE_WIDTH + COLUMN_GAP);
+
+    assert.deepStrictEqual([...states.values()].map(s => [s.id, s.column]), [
+      ['draft', 0], ['submitted', 1], ['under_review', 2], ['pending_approval', 3], ['withdrawn', 2], ['closed', 3],
+    ]);
+    assert.deepStrictEqual([states.get('withdrawn').x, states.get('withdrawn').y], [columnX(2), STATE_HEIGHT + ROW_GAP]);
+    assert.deepStrictEqual([states.get('closed').x, states.get('closed').y], [columnX(3), STATE_HEIGHT + ROW_GAP]);
+    assert.strictEqual(states.get('draft').state.slaClock, 'stopped');
+  });
+
+  it('routes a transition to the next column through the gap, from right edge to left edge', () => {
+    const scene = layout.layoutStateMachine(application, options);
+    const states = byId(scene);
+    const submit = route(scene, 'submit', 'draft');
+    const draft = states.get('draft');
+    const submitted = states.get('submitted');
+
+    assert.deepStrictEqual(submit.points, [
+      { x: draft.x + draft.width, y: draft.y + STATE_HEIGHT / 2 },
+      { x: submitted.x, y: submitted.y + STATE_HEIGHT / 2 },
+    ]);
+    assert.strictEqual(submit.label.x, draft.x + draft.width + layout.COLUMN_GAP / 2);
+  });
+
+  it('routes transitions back or within a column along tracks below the states', () => {
+    const scene = layout.layoutStateMachine(application, options);
+    const bottom = Math.max(...scene.states.map(s => s.y + s.height));
+    const reject = route(scene, 'reject-determination', 'pending_approval');
+    const withdraw = route(scene, 'withdraw', 'under_review');
+
+    for (const tracked of [reject, withdraw]) {
+      assert.strictEqual(tracked.points.length, 4);
+      assert.ok(tracked.points[1].y > bottom);
+      assert.strictEqual(tracked.points[2].y, tracked.points[1].y);
+      assert.strictEqual(tracked.label.y, tracked.points[1].y);
+    }
+    assert.notStrictEqual(reject.label.y, withdraw.label.y);
+    assert.ok(scene.height >= Math.max(reject.label.y, withdraw.label.y) + LABEL.height / 2);
+  });
+
+  it('pushes apart labels that share a column gap', () => {
+    const scene = layout.layoutStateMachine(application, options);
+    const [upper, lower] = [route(scene, 'submit-for-approval', 'under_review'), route(scene, 'close', 'under_review')]
+      .map(r => r.label)
+      .sort((a, b) => a.y - b.y);
+
+    assert.strictEqual(upper.x, lower.x);
+    assert.ok(lower.y - upper.y >= LABEL.height);
+  });
+
+  it('points the initial state marker into the initial state, offset by the options', () => {
+    const scene = layout.layoutStateMachine(application, { ...options, x: 100, y: 50 });
+    const draft = byId(scene).get('draft');
+
+    assert.deepStrictEqual([draft.x, draft.y], [100 + layout.START_MARGIN, 50]);
+    assert.deepStrictEqual(scene.start[1], { x: draft.x, y: draft.y + 24 });
+  });
+
+  it('puts states the initial state can\'t reach in a last column', () => {
+    const diagram = {
+      ...application,
+      states: [...application.states, { id: 'archived', label: 'Archived', terminal: true }],
+    };
+
+    assert.strictEqual(byId(layout.layoutStateMachine(diagram, options)).get('archived').column, 4);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import { loadSource } from './load-source.js';
+
+let validateBlueprint;
+let validateMetrics;
+let toBlueprintMetrics;
+
+before(async () => {
+  ({ validateBlueprint, validateMetrics } = await loadSource('validate'));
+  ({ toBlueprintMetrics } = await loadSource('metrics'));
+});
+
+function blueprint(overrides = {}) {
+  return {
+    id: 'intake-blueprint', name: 'Intake',
+    lanes: [{ id: 'applicant', label: 'Applicant' }, { id: 'system', label: 'System' }],
+    phases: [{ id: 'apply', label: 'Apply', subPhases: [{ id: 'submit', label: 'Submit' }] }],
+    cells: [
+      { laneId: 'applicant', subPhaseId: 'submit', cards: [{ id: 'a', type: 'person-action', text: 'Submits', actor: 'applicant' }] },
+      { laneId: 'system', subPhaseId: 'submit', cards: [{ id: 'b', type: 'system', text: 'Stores', origin: 'flow' }] },
+    ],
+    ...overrides,
+  };
+}
+
+function metric(overrides = {}) {
+  return {
+    id: 'intake-time', name: 'Intake time', domain: 'intake', aggregate: 'duration', value: 3600, breakdown: null,
+    targets: [{ stat: 'p50', operator: 'lte', amount: 4, unit: 'hours' }], computedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('validateBlueprint', () => {
+  it('accepts a well-formed blueprint', () => {
+    assert.deepStrictEqual(validateBlueprint(blueprint()), []);
+  });
+
+  it('accepts the generated fixture blueprint', () => {
+    const fixture = JSON.parse(readFileSync(new URL('../../../../tests/fixtures/small-blueprint.json', import.meta.url), 'utf8'));
+
+    assert.deepStrictEqual(validateBlueprint(fixture), []);
+  });
+
+  it('rejects payloads that are not objects', () => {
+    for (const value of [null, 'blueprint', [blueprint()], 42]) {
+      assert.deepStrictEqual(validateBlueprint(value), ['expected a Blueprint object']);
+    }
+  });
+
+  it('reports missing top-level fields by path', () => {
+    assert.deepStrictEqual(validateBlueprint({ id: '', lanes: {} }), [
+      'id: expected a non-empty string',
+      'name: expected a non-empty string',
+      'lanes: expected an array',
+      'phases: expected an array',
+      'cells: expected an array',
+    ]);
+  });
+
+  it('reports malformed lanes, sub-phases and cells', () => {
+    const errors = validateBlueprint(blueprint({
+      lanes: [{ id: 'applicant' }, 'system'],
+      phases: [{ id: 'apply', label: 'Apply', subPhases: [{ id: 'submit', label: 'Submit', metrics: { sla: 7 } }, { label: 'Review' }] }],
+      cells: [{ laneId: 'applicant', cards: 'none' }],
+    }));
+
+    assert.deepStrictEqual(errors, [
+      'lanes[0].label: expected a non-empty string',
+      'lanes[1]: expected an object',
+      'phases[0].subPhases[0].metrics.sla: expected a non-empty string',
+      'phases[0].subPhases[1].id: expected a non-empty string',
+      'cells[0].subPhaseId: expected a non-empty string',
+      'cells[0].cards: expected an array',
+    ]);
+  });
+
+  it('reports unknown card enums and mistyped card fields', () => {
+    const card = {
+      id: 7, type: 'sytem', text: 3, actor: 'robot', origin: 'import', annotationIndex: 1.5, status: 'past',
+      source: { kind: 'step', flow: '' },
+    };
+    const errors = validateBlueprint(blueprint({ cells: [{ laneId: 'system', subPhaseId: 'submit', cards: [card] }] }));
+
+    assert.deepStrictEqual(errors, [
+      "cells[0].cards[0].type: unknown card type 'sytem'",
+      'cells[0].cards[0].text: expected a string',
+      'cells[0].cards[0].id: expected a string',
+      "cells[0].cards[0].actor: unknown actor 'robot'",
+      "cells[0].cards[0].origin: unknown origin 'import'",
+      'cells[0].cards[0].annotationIndex: expected a non-negative integer',
+      "cells[0].cards[0].status: unknown status 'past'",
+      "cells[0].cards[0].source.kind: unknown source kind 'step'",
+      'cells[0].cards[0].source.flow: expected a non-empty string',
+    ]);
+  });
+
+  it('checks links only when present', () => {
+    const { links, ...withoutLinks } = blueprint({ links: [] });
+
+    assert.deepStrictEqual(validateBlueprint(withoutLinks), []);
+    assert.deepStrictEqual(validateBlueprint(blueprint({ links: 'a->b' })), ['links: expected an array']);
+    assert.deepStrictEqual(validateBlueprint(blueprint({ links: [{ from: 'a', kind: 'calls' }] })), [
+      'links[0].to: expected a non-empty string',
+      "links[0].kind: unknown link kind 'calls'",
+    ]);
+  });
+
+  it('stops after 20 problems', () => {
+    const cards = Array.from({ length: 30 }, () => ({ type: 'system' }));
+    const errors = validateBlueprint(blueprint({ cells: [{ laneId: 'system', subPhaseId: 'submit', cards }] }));
+
+    assert.strictEqual(errors.length, 20);
+    assert.strictEqual(errors[19], 'cells[0].cards[19].text: expected a string');
+  });
+});
+
+describe('validateMetrics', () => {
+  describe('GET /metrics responses', () => {
+    it('accepts items with targets and a breakdown', () => {
+      const response = { items: [metric(), metric({ id: 'by-program', value: null, breakdown: { snap: 12, medicaid: null }, targets: [] })] };
+
+      assert.deepStrictEqual(validateMetrics(response), []);
+    });
+
+    it('rejects targets that are not objects with a stat', () => {
+      const response = {
+        items: [metric({ targets: [null, { amount: 4 }, { stat: 'p50', amount: '4', unit: 7 }] })],
+      };
+
+      assert.deepStrictEqual(validateMetrics(response), [
+        'items[0].targets[0]: expected an object',
+        'items[0].targets[1].stat: expected a string',
+        'items[0].targets[2].amount: expected a number',
+        'items[0].targets[2].unit: expected a string',
+      ]);
+    });
+
+    it('rejects a breakdown that is missing or not an object of numbers', () => {
+      const { breakdown, ...withoutBreakdown } = metric();
+      const response = { items: [withoutBreakdown, metric({ breakdown: [1, 2] }), metric({ breakdown: { snap: 'many' } })] };
+
+      assert.deepStrictEqual(validateMetrics(response), [
+        'items[0].breakdown: expected null or an object of numbers',
+        'items[1].breakdown: expected null or an object of numbers',
+        'items[2].breakdown: expected null or an object of numbers',
+      ]);
+    });
+
+    it('passes only payloads toBlueprintMetrics can convert', () => {
+      const blueprint = { phases: [{ id: 'apply', subPhases: [{ id: 'submit', metrics: { median: 'intake-time' } }] }] };
+      const response = { items: [metric()] };
+
+      assert.deepStrictEqual(validateMetrics(response), []);
+      assert.deepStrictEqual(toBlueprintMetrics(response, blueprint, []).subPhases.submit, {
+        slaTarget: { amount: 4, unit: 'hours' }, medianSeconds: 3600,
+      });
+      assert.ok(validateMetrics({ items: [metric({ targets: [null] })] }).length > 0);
+      assert.throws(() => toBlueprintMetrics({ items: [metric({ targets: [null] })] }, blueprint, []));
+    });
+  });
+});
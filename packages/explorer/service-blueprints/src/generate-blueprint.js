@@ -2,8 +2,9 @@
  * generate-blueprint.js
  *
  * Assembles blueprint JSON from the enriched explorer config and a
- * service-blueprint annotations YAML, then renders the HTML output.
- * Called by the consolidated packages/explorer/build.js.
+ * service-blueprint annotations YAML, then renders the HTML output and, when
+ * given a data dir, writes the blueprint JSON there as <domain>.json (the Figma
+ * plugin build's input). Called by the consolidated packages/explorer/build.js.
  *
  * Annotations file structure:
  *   lanes       — lane definitions (id, label, actors)
@@ -22,16 +23,39 @@
  *                                  (citation + description from policy registry)
  *
  * Annotation cards (data entities, notes, etc.) are merged in after the
- * flow-derived cards in each sub-phase's lane.
+ * flow-derived cards in each sub-phase's lane. A sub-phase's `metrics` (the
+ * metric and SLA type ids the plugin's metrics overlay shows) is passed through.
+ *
+ * Every card gets an `id` that stays put when other cards are added or removed:
+ *   system, note, person-action → flowId:step   (step label, or the self domain)
+ *   domain-event                → event:name
+ *   policy                      → policy:flowId:policyId (citation when unnamed)
+ *   annotation                  → annotation:index
+ * A repeated id in the same cell gets a #2, #3… suffix.
+ *
+ * Every card records its `origin` ('flow' or 'annotation'); annotation cards
+ * also carry their `annotationIndex` so the Figma plugin can export canvas
+ * edits back to the annotations file. Flow-derived cards record their `source`
+ * (flow, step and contract ref, or policy ID) and policy cards their
+ * `citationUrl`; annotation cards may set `domain`, `status` and `citationUrl`.
+ *
+ * Links between flow-derived cards, by card key (laneId/subPhaseId/id):
+ *   emits    — the last system or actor card of an event's `from` → the event card
+ *   triggers — an event card → the system card that handles it (`lastEventTo`)
+ *
+ * The assembled blueprint is checked with lint-blueprint.js against the card
+ * types in config/card-types.yaml; problems are logged and don't stop the build.
  */
 
-import { readFileSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
 import { resolve, dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import yaml from 'js-yaml';
 import { renderBlueprintHtml } from './render-blueprint-html.js';
+import { formatProblem, lintBlueprint } from './lint-blueprint.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
+const CARD_TYPES_PATH = join(__dirname, '..', 'config', 'card-types.yaml');
 
 // ── Pure helpers (no mutable state) ──────────────────────────────────────────
 
@@ -81,7 +105,16 @@ function collectSectionSteps(steps, sectionNames) {
   return result;
 }
 
-function buildAnnotationCard(item) {
+// `index` is the card's position in the sub-phase's list for its lane, kept so
+// edits made in Figma can be exported back to the annotations file.
+function buildAnnotationCard(item, index) {
+  const origin = { id: `annotation:${index}`, origin: 'annotation', annotationIndex: index };
+  const meta = {
+    ...(item.domain      ? { domain:      item.domain      } : {}),
+    ...(item.status      ? { status:      item.status      } : {}),
+    ...(item.citationUrl ? { citationUrl: item.citationUrl } : {}),
+  };
+
   if (item.type === 'policy') {
     let subtext;
     if (item.citation && item.subtext) {
@@ -91,30 +124,37 @@ function buildAnnotationCard(item) {
     } else {
       subtext = item.subtext;
     }
-    return { type: 'policy', text: item.text, ...(subtext ? { subtext } : {}) };
+    return { ...origin, type: 'policy', text: item.text, ...(subtext ? { subtext } : {}), ...meta };
   }
 
   return {
+    ...origin,
     type:    item.type,
     ...(item.actor   ? { actor:   item.actor   } : {}),
-    ...(item.domain  ? { domain:  item.domain  } : {}),
     text:    item.text,
     ...(item.subtext ? { subtext: item.subtext } : {}),
+    ...meta,
+  };
+}
+
+/** Source reference of a flow-derived card; `ref` paths point at the step's contract. */
+function stepSource(flowId, step, name) {
+  return {
+    kind: 'flow-step',
+    flow: flowId,
+    step: name,
+    ...(step.ref ? { contract: step.ref } : {}),
   };
 }
 
 // ── Entry point ───────────────────────────────────────────────────────────────
 
 /**
- * @param {Object} enrichedConfig  config from resolveConfig() — steps have step.policies
- * @param {string} annotationsPath path to service-blueprint annotations YAML
- * @param {string} outDir          directory to write HTML output into
- * @returns {string} absolute path to the generated blueprint HTML file
+ * @param {Object} enrichedConfig config from resolveConfig() — steps have step.policies
+ * @param {Object} annotations    parsed service-blueprint annotations YAML
+ * @returns {Object} the blueprint
  */
-export function renderBlueprint(enrichedConfig, annotationsPath, outDir) {
-  const annotationsAbs = resolve(annotationsPath);
-  const annotations    = yaml.load(readFileSync(annotationsAbs, 'utf8'));
-
+export function buildBlueprint(enrichedConfig, annotations) {
   // Build flow index from enriched config
   const flowIndex = new Map();
   for (const flow of (enrichedConfig.flows || [])) {
@@ -137,16 +177,47 @@ export function renderBlueprint(enrichedConfig, annotationsPath, outDir) {
     return cellCards.get(key);
   };
 
-  function deriveCards(step, subPhaseId, seenEvents, lastEventTo) {
+  // Adds a card to its cell, making its id unique there, and returns its card
+  // key as the Figma plugin builds it
+  const addCard = (laneId, subPhaseId, card) => {
+    const cards = getCell(laneId, subPhaseId);
+    const taken = new Set(cards.map(c => c.id));
+    let id = card.id;
+    for (let n = 2; taken.has(id); n++) id = `${card.id}#${n}`;
+    cards.push({ ...card, id });
+    return `${laneId}/${subPhaseId}/${id}`;
+  };
+
+  const links    = [];
+  const linkSeen = new Set();
+  const addLink  = (from, to, kind) => {
+    const id = `${kind} ${from} ${to}`;
+    if (linkSeen.has(id)) return;
+    linkSeen.add(id);
+    links.push({ from, to, kind });
+  };
+
+  // eventCards: event name → key of its card in this sub-phase
+  // lastCardOf: domain or actor id → key of its latest card in this sub-phase
+  function deriveCards(flowId, step, subPhaseId, eventCards, lastEventTo, lastCardOf) {
     // Cross-flow reference steps (no slash in ref) are inter-flow links — skip
     if (step.ref !== undefined && !step.ref.includes('/')) return;
 
     // Policy cards — run unconditionally; self/event steps return early below
     for (const policy of (step.policies || [])) {
-      getCell('regulations', subPhaseId).push({
+      addCard('regulations', subPhaseId, {
+        id:      `policy:${flowId}:${policy.id || policy.citation || step.label || step.self}`,
+        origin:  'flow',
         type:    'policy',
         text:    policy.description,
         subtext: policy.citation || undefined,
+        source:  {
+          kind: 'policy',
+          flow: flowId,
+          ...(policy.id ? { policy: policy.id } : {}),
+          ...(step.ref ? { contract: step.ref } : {}),
+        },
+        ...(policy.citationUrl ? { citationUrl: policy.citationUrl } : {}),
       });
     }
 
@@ -154,38 +225,49 @@ export function renderBlueprint(enrichedConfig, annotationsPath, outDir) {
     if (step.self !== undefined) {
       const triggerEvent = lastEventTo.get(step.self);
       const autoSubtext  = triggerEvent ? `In response to event ${triggerEvent}` : null;
+      let key;
 
       if (step.gap) {
         const card = {
+          id:     `${flowId}:${step.label || step.self}`,
+          origin: 'flow',
           type:   'note',
           domain: step.self,
           text:   `⚠ ${step.label || step.self}`,
+          source: stepSource(flowId, step, step.label || step.self),
         };
         card.subtext = step.gap_description || autoSubtext || undefined;
         if (card.subtext === undefined) delete card.subtext;
-        getCell('system', subPhaseId).push(card);
+        key = addCard('system', subPhaseId, card);
       } else {
         const card = {
+          id:     `${flowId}:${step.label || step.self}`,
+          origin: 'flow',
           type:   'system',
           domain: step.self,
           text:   step.label || step.self,
+          source: stepSource(flowId, step, step.label || step.self),
         };
         card.subtext = step.note || autoSubtext || undefined;
         if (card.subtext === undefined) delete card.subtext;
-        getCell('system', subPhaseId).push(card);
+        key = addCard('system', subPhaseId, card);
       }
+      if (triggerEvent && eventCards.has(triggerEvent)) addLink(eventCards.get(triggerEvent), key, 'triggers');
+      lastCardOf.set(step.self, key);
       return;
     }
 
     // Event step → domain-event card in data lane (deduplicated)
     if (step.event !== undefined) {
       if (step.to) lastEventTo.set(step.to, step.event);
-      if (!seenEvents.has(step.event)) {
-        seenEvents.add(step.event);
-        const card = { type: 'domain-event', text: step.event };
+      if (!eventCards.has(step.event)) {
+        const card = { id: `event:${step.event}`, origin: 'flow', type: 'domain-event', text: step.event, source: stepSource(flowId, step, step.event) };
         if (step.from) card.domain = step.from;
         if (step.note) card.subtext = step.note;
-        getCell('data', subPhaseId).push(card);
+        eventCards.set(step.event, addCard('data', subPhaseId, card));
+      }
+      if (step.from && lastCardOf.has(step.from)) {
+        addLink(lastCardOf.get(step.from), eventCards.get(step.event), 'emits');
       }
       return;
     }
@@ -195,12 +277,15 @@ export function renderBlueprint(enrichedConfig, annotationsPath, outDir) {
       const laneId = actorToLane.get(step.from);
       if (!laneId) return;
       const card = {
-        type:  'person-action',
-        actor: step.from,
-        text:  step.label,
+        id:     `${flowId}:${step.label}`,
+        origin: 'flow',
+        type:   'person-action',
+        actor:  step.from,
+        text:   step.label,
+        source: stepSource(flowId, step, step.label),
       };
       if (step.note) card.subtext = step.note;
-      getCell(laneId, subPhaseId).push(card);
+      lastCardOf.set(step.from, addCard(laneId, subPhaseId, card));
     }
 
   }
@@ -211,7 +296,7 @@ export function renderBlueprint(enrichedConfig, annotationsPath, outDir) {
   const phases = annotations.phases.map(p => ({
     id: p.id,
     label: p.label,
-    subPhases: (p.subPhases || []).map(sp => ({ id: sp.id, label: sp.label })),
+    subPhases: (p.subPhases || []).map(sp => ({ id: sp.id, label: sp.label, ...(sp.metrics ? { metrics: sp.metrics } : {}) })),
   }));
 
   for (const phase of (annotations.phases || [])) {
@@ -221,8 +306,9 @@ export function renderBlueprint(enrichedConfig, annotationsPath, outDir) {
         if (!flow) {
           console.warn(`Warning: flow '${subPhase.flow}' not found in config`);
         } else {
-          const seenEvents  = new Set();
+          const eventCards  = new Map();
           const lastEventTo = new Map();
+          const lastCardOf  = new Map();
 
           let stepsToProcess;
           if (subPhase.sections) {
@@ -239,15 +325,15 @@ export function renderBlueprint(enrichedConfig, annotationsPath, outDir) {
           }
 
           for (const step of stepsToProcess) {
-            deriveCards(step, subPhase.id, seenEvents, lastEventTo);
+            deriveCards(flow.id, step, subPhase.id, eventCards, lastEventTo, lastCardOf);
           }
         }
       }
 
       for (const [laneId, cardItems] of Object.entries(subPhase.cards || {})) {
-        for (const item of cardItems) {
-          getCell(laneId, subPhase.id).push(buildAnnotationCard(item));
-        }
+        cardItems.forEach((item, i) => {
+          addCard(laneId, subPhase.id, buildAnnotationCard(item, i));
+        });
       }
     }
   }
@@ -261,17 +347,44 @@ export function renderBlueprint(enrichedConfig, annotationsPath, outDir) {
     cells.push({ laneId, subPhaseId, cards });
   }
 
-  const blueprint = {
+  return {
     id:     `${annotations.domain}-blueprint`,
     name:   annotations.name,
     lanes,
     phases,
     cells,
+    ...(links.length > 0 ? { links } : {}),
   };
+}
+
+/**
+ * @param {Object} enrichedConfig  config from resolveConfig() — steps have step.policies
+ * @param {string} annotationsPath path to service-blueprint annotations YAML
+ * @param {string} outDir          directory to write HTML output into
+ * @param {string} [dataDir]       directory to write the blueprint JSON into
+ * @returns {string} absolute path to the generated blueprint HTML file
+ */
+export function renderBlueprint(enrichedConfig, annotationsPath, outDir, dataDir) {
+  const annotations = yaml.load(readFileSync(resolve(annotationsPath), 'utf8'));
+  const blueprint   = buildBlueprint(enrichedConfig, annotations);
+
+  const cardTypes = existsSync(CARD_TYPES_PATH)
+    ? Object.keys(yaml.load(readFileSync(CARD_TYPES_PATH, 'utf8')).types || {})
+    : undefined;
+  const problems = lintBlueprint(blueprint, { cardTypes });
+  if (problems.length > 0) {
+    console.warn(`Lint: ${problems.length} problem(s) in ${annotations.domain} blueprint`);
+    for (const problem of problems) console.warn(`  ${formatProblem(problem)}`);
+  }
 
   mkdirSync(outDir, { recursive: true });
   const htmlPath = join(outDir, `${annotations.domain}-blueprint.html`);
   renderBlueprintHtml(blueprint, htmlPath);
 
+  if (dataDir) {
+    mkdirSync(dataDir, { recursive: true });
+    writeFileSync(join(dataDir, `${annotations.domain}.json`), JSON.stringify(blueprint, null, 2) + '\n');
+  }
+
   return htmlPath;
 }
@@ -0,0 +1,132 @@
+/**
+ * generate-state-diagrams.js
+ *
+ * Converts a domain's state machine contract (contracts/<domain>-state-machine.yaml,
+ * already parsed) into StateMachineDiagram objects (figma-plugin/src/types.ts),
+ * one per machine, for the Figma plugin's state machine mode. Pure — no file I/O.
+ *
+ * Derivation:
+ *   states            → diagram states, with their SLA clock and description
+ *   action transition → one transition per source state; `to` omitted for
+ *                       in-place actions (no `to`, or `to` equal to `from`)
+ *   action guards     → actors (union of every guard clause) and a readable
+ *                       guard ("callerIsApplicant or callerIsCaseworker")
+ *   emit steps        → the event types a transition emits, including emits
+ *                       nested in if / match / forEach steps
+ *
+ * Actions without a transition block create the object and are not drawn.
+ * A state no transition leaves is marked terminal.
+ *
+ * Exported function:
+ *   stateMachineDiagrams(stateMachine) → StateMachineDiagram[]
+ */
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function titleCase(str) {
+  return str.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+}
+
+/** Event types emitted by a list of steps, in order, without duplicates. */
+function collectEmits(steps, emits = []) {
+  for (const step of steps || []) {
+    if (step.emit) {
+      const type = step.emit.type ?? step.emit.event;
+      if (type && !emits.includes(type)) emits.push(type);
+    } else if (step.if !== undefined) {
+      collectEmits(step.then, emits);
+      collectEmits(step.else, emits);
+    } else if (step.match !== undefined) {
+      for (const branch of Object.values(step.when || step.on || {})) collectEmits(branch, emits);
+    } else if (step.forEach) {
+      collectEmits(step.forEach.do || step.forEach.then, emits);
+    }
+  }
+  return emits;
+}
+
+/** A guard condition as text; `{ any: [...] }` reads as alternatives. */
+function conditionText(condition) {
+  if (typeof condition === 'string') return condition;
+  if (Array.isArray(condition?.any)) return condition.any.map(conditionText).join(' or ');
+  if (Array.isArray(condition?.all)) return condition.all.map(conditionText).join(' and ');
+  return JSON.stringify(condition);
+}
+
+function guardActors(guards) {
+  const actors = [];
+  for (const clause of guards || []) {
+    for (const actor of clause.actors || []) if (!actors.includes(actor)) actors.push(actor);
+  }
+  return actors;
+}
+
+function guardText(guards) {
+  const clauses = (guards || [])
+    .map(clause => (clause.conditions || []).map(conditionText).join(' and '))
+    .filter(Boolean);
+  return clauses.length > 0 ? clauses.join(' or ') : undefined;
+}
+
+/** Action description without its "POST /path — " prefix. */
+function actionSummary(description) {
+  if (!description) return undefined;
+  return description.replace(/^(POST|GET|PATCH|PUT|DELETE)\s+\S+\s+[—\-–]+\s*/i, '').trim() || undefined;
+}
+
+// ── Entry point ───────────────────────────────────────────────────────────────
+
+/**
+ * @param {Object} stateMachine  parsed <domain>-state-machine.yaml
+ * @returns {Object[]} StateMachineDiagram per machine; empty for files without machines
+ */
+export function stateMachineDiagrams(stateMachine) {
+  const domain = stateMachine?.domain;
+  if (!domain || !Array.isArray(stateMachine.machines)) return [];
+
+  return stateMachine.machines.map(machine => {
+    const stateIds = (machine.states || []).map(s => s.id);
+    const transitions = [];
+
+    for (const action of (machine.actions || [])) {
+      if (!action.transition) continue;
+      const { from, to } = action.transition;
+      const sources = from === undefined ? stateIds : [].concat(from);
+      const actors = guardActors(action.guards);
+      const guard = guardText(action.guards);
+      const emits = collectEmits(action.steps);
+      const description = actionSummary(action.description);
+
+      for (const source of sources) {
+        transitions.push({
+          trigger: action.id,
+          from: source,
+          ...(to !== undefined && to !== source ? { to } : {}),
+          actors,
+          ...(guard ? { guard } : {}),
+          emits,
+          ...(description ? { description } : {}),
+        });
+      }
+    }
+
+    const left = new Set(transitions.filter(t => t.to !== undefined).map(t => t.from));
+    const states = (machine.states || []).map(s => ({
+      id: s.id,
+      label: titleCase(s.id),
+      ...(s.slaClock ? { slaClock: s.slaClock } : {}),
+      ...(s.description ? { description: s.description } : {}),
+      ...(left.has(s.id) ? {} : { terminal: true }),
+    }));
+
+    return {
+      id: `${domain}/${machine.object.toLowerCase()}`,
+      name: `${titleCase(domain)} — ${machine.object}`,
+      domain,
+      object: machine.object,
+      initialState: machine.initialState ?? stateIds[0],
+      states,
+      transitions,
+    };
+  });
+}
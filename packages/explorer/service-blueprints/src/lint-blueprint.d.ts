@@ -0,0 +1,24 @@
+// Types for lint-blueprint.js, used by the Figma plugin.
+
+import type { Blueprint } from './figma-plugin/src/types.js';
+
+export const MAX_TEXT_LENGTH: number;
+export const MAX_SUBTEXT_LENGTH: number;
+
+export type ProblemCode =
+  | 'orphaned-cell' | 'duplicate-id'
+  | 'missing-actor' | 'unknown-type' | 'empty-phase' | 'long-text';
+
+export interface Problem {
+  severity: 'error' | 'warning';
+  code: ProblemCode;
+  path: string;        // JSON path in the blueprint, e.g. "cells[3].laneId"
+  message: string;
+}
+
+export interface LintOptions {
+  cardTypes?: string[];  // card type ids from card-types.yaml; unchecked when omitted
+}
+
+export function lintBlueprint(blueprint: Blueprint, options?: LintOptions): Problem[];
+export function formatProblem(problem: Problem): string;
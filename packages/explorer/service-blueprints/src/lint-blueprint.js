@@ -0,0 +1,119 @@
+/**
+ * lint-blueprint.js
+ *
+ * Checks the content of a blueprint (the Blueprint type in
+ * figma-plugin/src/types.ts) for problems the renderers would otherwise pass
+ * over silently. Run by generate-blueprint.js after it assembles a blueprint,
+ * and by the Figma plugin before it renders one. Pure — no Figma API and no
+ * file I/O; callers pass in the card types from card-types.yaml.
+ *
+ * Errors lose or mix up content:
+ *   orphaned-cell   — a cell's lane or sub-phase isn't in the blueprint, so
+ *                     its cards are never drawn
+ *   duplicate-id    — two lanes, phases, sub-phases, cells or cards in a cell
+ *                     share an id, so one hides the other
+ *
+ * Warnings render, but not as intended:
+ *   missing-actor   — a person-action card without an actor gets the default palette
+ *   unknown-type    — a card type not in card-types.yaml is drawn as a note
+ *   empty-phase     — a phase without sub-phases, or a sub-phase without cards
+ *   long-text       — card text or subtext too long to read on a card
+ *
+ * Exported functions:
+ *   lintBlueprint(blueprint, options?) → Problem[]
+ *     options.cardTypes — card type ids from card-types.yaml; unchecked when omitted
+ *     Problem: { severity: 'error' | 'warning', code, path, message }
+ *   formatProblem(problem) → string
+ *
+ * Types are declared in lint-blueprint.d.ts for the plugin.
+ */
+
+export const MAX_TEXT_LENGTH    = 280;  // card title; about ten lines on a blueprint card
+export const MAX_SUBTEXT_LENGTH = 400;
+
+function excerpt(text) {
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+}
+
+/** Problems to report, errors first, each in blueprint order. */
+export function lintBlueprint(blueprint, options = {}) {
+  const errors = [];
+  const warnings = [];
+  const error = (code, path, message) => errors.push({ severity: 'error', code, path, message });
+  const warn = (code, path, message) => warnings.push({ severity: 'warning', code, path, message });
+
+  // Reports every id after its first use, e.g. "lanes[2].id: duplicate lane id 'system'"
+  const unique = (what) => {
+    const seen = new Set();
+    return (id, path) => {
+      if (seen.has(id)) error('duplicate-id', path, `duplicate ${what} '${id}'`);
+      seen.add(id);
+    };
+  };
+
+  const laneIds = new Set();
+  const checkLane = unique('lane id');
+  (blueprint.lanes ?? []).forEach((lane, i) => {
+    checkLane(lane.id, `lanes[${i}].id`);
+    laneIds.add(lane.id);
+  });
+
+  const subPhaseIds = new Set();
+  const checkPhase = unique('phase id');
+  const checkSubPhase = unique('sub-phase id');
+  (blueprint.phases ?? []).forEach((phase, i) => {
+    checkPhase(phase.id, `phases[${i}].id`);
+    if ((phase.subPhases ?? []).length === 0) warn('empty-phase', `phases[${i}]`, `phase '${phase.id}' has no sub-phases`);
+    (phase.subPhases ?? []).forEach((sp, j) => {
+      checkSubPhase(sp.id, `phases[${i}].subPhases[${j}].id`);
+      subPhaseIds.add(sp.id);
+    });
+  });
+
+  const known = options.cardTypes ? new Set(options.cardTypes) : null;
+  const filled = new Set();  // sub-phases with cards in a lane that is drawn
+  const checkCell = unique('cell');
+  (blueprint.cells ?? []).forEach((cell, i) => {
+    const path = `cells[${i}]`;
+    const count = `${cell.cards.length} card${cell.cards.length === 1 ? '' : 's'}`;
+    checkCell(`${cell.laneId}/${cell.subPhaseId}`, path);
+    if (!laneIds.has(cell.laneId)) {
+      error('orphaned-cell', `${path}.laneId`, `lane '${cell.laneId}' is not in the blueprint; its ${count} won't be drawn`);
+    } else if (!subPhaseIds.has(cell.subPhaseId)) {
+      error('orphaned-cell', `${path}.subPhaseId`, `sub-phase '${cell.subPhaseId}' is not in the blueprint; its ${count} won't be drawn`);
+    } else if (cell.cards.length > 0) {
+      filled.add(cell.subPhaseId);
+    }
+
+    const checkCard = unique('card id');
+    cell.cards.forEach((card, j) => {
+      const cardPath = `${path}.cards[${j}]`;
+      if (card.id !== undefined) checkCard(card.id, `${cardPath}.id`);
+      if (card.type === 'person-action' && !card.actor) {
+        warn('missing-actor', `${cardPath}.actor`, `person-action card '${excerpt(card.text)}' has no actor`);
+      }
+      if (known && !known.has(card.type)) {
+        warn('unknown-type', `${cardPath}.type`, `card type '${card.type}' is not in card-types.yaml; drawn as a note`);
+      }
+      if (card.text.length > MAX_TEXT_LENGTH) {
+        warn('long-text', `${cardPath}.text`, `${card.text.length} characters; keep card text under ${MAX_TEXT_LENGTH}`);
+      }
+      if (card.subtext && card.subtext.length > MAX_SUBTEXT_LENGTH) {
+        warn('long-text', `${cardPath}.subtext`, `${card.subtext.length} characters; keep subtext under ${MAX_SUBTEXT_LENGTH}`);
+      }
+    });
+  });
+
+  (blueprint.phases ?? []).forEach((phase, i) => {
+    (phase.subPhases ?? []).forEach((sp, j) => {
+      if (!filled.has(sp.id)) warn('empty-phase', `phases[${i}].subPhases[${j}]`, `sub-phase '${sp.id}' has no cards`);
+    });
+  });
+
+  return [...errors, ...warnings];
+}
+
+/** One line per problem, e.g. "Error: cells[3].laneId: lane 'x' is not in the blueprint; …". */
+export function formatProblem(problem) {
+  return `${problem.severity === 'error' ? 'Error' : 'Warning'}: ${problem.path}: ${problem.message}`;
+}
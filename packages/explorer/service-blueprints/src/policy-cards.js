@@ -0,0 +1,149 @@
+/**
+ * policy-cards.js
+ *
+ * Derives the policy card sets (CardData, figma-plugin/src/types.ts) from the
+ * explorer config.yaml (already parsed), one per domain that has flows. Pure —
+ * the caller loads the policy registry and each domain's annotations.
+ *
+ * Steps may use either:
+ *   ref: "section/key"  — resolved via the domain's annotations + policy registry
+ *   regulatory: [...]   — legacy inline format (kept for unconverted steps)
+ *
+ * Flows are grouped by their `domain` (flows without one are skipped). Within a
+ * domain, cards are grouped by flow label (phase) → enclosing fragment label
+ * (sub-phase) and deduplicated by policy ID / citation, so each regulation
+ * appears once, at its first occurrence, with "Used in: A · B · C" appended
+ * when it appears in several phases.
+ *
+ * Exported function:
+ *   policyCardSets(config, { policies, annotationsFor }) → CardData[]
+ *     policies        platform-registry-policies.yaml `policies` map
+ *     annotationsFor  domain → parsed contracts/<domain>-annotations.yaml, or undefined
+ */
+
+export function policyCardSets(config, { policies = {}, annotationsFor = () => undefined } = {}) {
+  const domainLabels = new Map((config.domains || []).map(d => [d.id, d.label]));
+
+  const citationToPolicyId = {};  // reverse index: citation string → policy ID
+  for (const [id, policy] of Object.entries(policies)) {
+    if (policy.citation) citationToPolicyId[policy.citation] = id;
+  }
+
+  const annotationSections = new Map();  // domain → { schema, operations, events }
+  function sectionsFor(domain) {
+    if (!annotationSections.has(domain)) {
+      const annotations = annotationsFor(domain) || {};
+      annotationSections.set(domain, {
+        schema: annotations.schema || {},
+        operations: annotations.operations || {},
+        events: annotations.events || {},
+      });
+    }
+    return annotationSections.get(domain);
+  }
+
+  // Resolve "section/key" ref to policy card objects
+  function resolveRef(ref, domain) {
+    const slashIdx = ref.indexOf('/');
+    if (slashIdx === -1) return [];
+    const section = ref.slice(0, slashIdx);
+    const key = ref.slice(slashIdx + 1);
+    const annotation = sectionsFor(domain)[section]?.[key];
+    if (!annotation?.policies) return [];
+    return annotation.policies.flatMap(id => {
+      const policy = policies[id];
+      if (!policy) return [];
+      return [{ policyId: id, type: 'policy', text: policy.citation, subtext: policy.description?.trim(), citation: policy.citation, citationUrl: policy.citationUrl }];
+    });
+  }
+
+  // First pass: collect every occurrence of each policy across a domain's flows/fragments.
+  // occurrences: dedup key → [{ flow, flowLabel, fragmentLabel, text, subtext, citation, citationUrl?, policyId?, ref? }]
+  function collect(occurrences, steps, flow, fragmentLabel) {
+    const flowLabel = flow.label;
+    for (const step of steps) {
+      const frag = (step.fragment !== undefined && step.label) ? step.label : fragmentLabel;
+
+      if (step.ref && typeof step.ref === 'string') {
+        for (const card of resolveRef(step.ref, flow.domain)) {
+          if (!occurrences.has(card.policyId)) occurrences.set(card.policyId, []);
+          occurrences.get(card.policyId).push({
+            flow, flowLabel, fragmentLabel: frag, text: card.text, subtext: card.subtext, citation: card.citation,
+            citationUrl: card.citationUrl, policyId: card.policyId, ref: step.ref,
+          });
+        }
+      }
+
+      if (Array.isArray(step.regulatory)) {
+        for (const reg of step.regulatory) {
+          if (!reg.citation) continue;
+          // Use policy ID as dedup key when the citation matches a registry entry
+          const key = citationToPolicyId[reg.citation] || reg.citation;
+          if (!occurrences.has(key)) occurrences.set(key, []);
+          occurrences.get(key).push({ flow, flowLabel, fragmentLabel: frag, text: reg.summary, subtext: reg.detail, citation: reg.citation });
+        }
+      }
+
+      if (Array.isArray(step.steps)) collect(occurrences, step.steps, flow, frag);
+      if (Array.isArray(step.operands)) {
+        for (const op of step.operands) {
+          if (Array.isArray(op.steps)) collect(occurrences, op.steps, flow, op.label || frag);
+        }
+      }
+    }
+  }
+
+  // Second pass: place each policy once (at first occurrence), appending
+  // "Used in: A · B · C" to subtext when it appears in multiple phases.
+  function cardPhases(occurrences) {
+    const grouped = {};  // { [flowLabel]: { [fragmentLabel]: CardEntry[] } }
+
+    for (const [, list] of occurrences) {
+      const first = list[0];
+      const phases = [...new Set(list.map(o => o.flowLabel))];
+      const usedIn = phases.length > 1 ? `Used in: ${phases.join(' · ')}` : null;
+      const subtext = [first.subtext, usedIn].filter(Boolean).join('\n\n') || undefined;
+      const card = {
+        type: 'policy', text: first.text, subtext, citation: first.citation,
+        domain: first.flow.domain,
+        source: {
+          kind: 'policy',
+          flow: first.flow.id,
+          ...(first.policyId ? { policy: first.policyId } : {}),
+          ...(first.ref ? { contract: first.ref } : {}),
+        },
+        ...(first.citationUrl ? { citationUrl: first.citationUrl } : {}),
+      };
+
+      if (!grouped[first.flowLabel]) grouped[first.flowLabel] = {};
+      if (!grouped[first.flowLabel][first.fragmentLabel]) grouped[first.flowLabel][first.fragmentLabel] = [];
+      grouped[first.flowLabel][first.fragmentLabel].push(card);
+    }
+
+    return Object.entries(grouped).map(([flowLabel, fragments], fi) => ({
+      id: `flow-${fi}`,
+      label: flowLabel,
+      subPhases: Object.entries(fragments).map(([fragLabel, cards], si) => ({
+        id: `frag-${fi}-${si}`,
+        label: fragLabel,
+        cards,
+      })),
+    }));
+  }
+
+  const flowsByDomain = new Map();  // domain → flows, in config order
+  for (const flow of (config.flows || [])) {
+    if (!flow.domain || !Array.isArray(flow.steps)) continue;
+    if (!flowsByDomain.has(flow.domain)) flowsByDomain.set(flow.domain, []);
+    flowsByDomain.get(flow.domain).push(flow);
+  }
+
+  const cardSets = [];
+  for (const [domain, flows] of flowsByDomain) {
+    const occurrences = new Map();
+    for (const flow of flows) collect(occurrences, flow.steps, flow, flow.label);
+    if (occurrences.size === 0) continue;
+    cardSets.push({ domain, name: domainLabels.get(domain) ?? domain, phases: cardPhases(occurrences) });
+  }
+  return cardSets;
+}
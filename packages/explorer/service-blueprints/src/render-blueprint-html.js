@@ -2,19 +2,21 @@
 /**
  * render-blueprint-html.js
  *
- * Renders a service blueprint JSON as an HTML swimlane diagram.
+ * Renders a service blueprint JSON as an HTML swimlane diagram, and writes
+ * the diagram's SVG (render-svg.js) alongside it.
  *
  * Exported function (called by generate-blueprint.js):
- *   renderBlueprintHtml(blueprint, outPath, themeDir?)
+ *   renderBlueprintHtml(blueprint, outPath, themeDir?, layout?)
  *
  * CLI (standalone use):
- *   node render-blueprint-html.js <blueprint.json> [--out <output.html>]
+ *   node render-blueprint-html.js <blueprint.json> [--out <output.html>] [--layout grid|auto]
  */
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { resolve, dirname, join, basename } from 'path';
 import { fileURLToPath } from 'url';
 import yaml from 'js-yaml';
+import { renderBlueprintSvg } from './render-svg.js';
 
 // ── Theme ─────────────────────────────────────────────────────────────────────
 
@@ -64,10 +66,7 @@ function getPalette(card, theme) {
   if (card.type === 'person-action' && card.actor && theme.actors[card.actor]) {
     return theme.actors[card.actor];
   }
-  const p = theme.cards[card.type] ?? theme.cards['note'];
-  if (card.type === 'system' && card.domain) return { ...p, label: `SYSTEM (${card.domain.toUpperCase()})` };
-  if (card.type === 'domain-event' && card.domain) return { ...p, label: `EVENT (${card.domain.toUpperCase()})` };
-  return p;
+  return theme.cards[card.type] ?? theme.cards['note'];
 }
 
 function esc(str) {
@@ -75,77 +74,20 @@ function esc(str) {
     .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 }
 
-// ── Card HTML ─────────────────────────────────────────────────────────────────
-
-function cardHtml(card, theme) {
-  const p = getPalette(card, theme);
-  const label = p.label || '';
-  return `<div style="border-radius:6px;overflow:hidden;margin-bottom:6px;box-shadow:0 1px 3px rgba(0,0,0,0.15);">
-    <div style="background:${p.headerBg};color:${p.headerFg};padding:7px 9px;">
-      <div style="font-size:12px;font-weight:700;line-height:1.35;">${esc(card.text)}</div>
-      ${label ? `<div style="font-size:9px;font-weight:800;letter-spacing:0.06em;margin-top:4px;opacity:0.9;">${esc(label)}</div>` : ''}
-    </div>
-    ${card.subtext || card.citation ? `<div style="background:${p.bodyBg};color:${p.bodyFg};padding:6px 9px;">
-      ${card.subtext ? `<div style="font-size:11px;line-height:1.4;margin-bottom:${card.citation ? '4px' : '0'};">${esc(card.subtext)}</div>` : ''}
-      ${card.citation ? `<div style="font-size:9px;font-weight:700;opacity:0.6;">${esc(card.citation)}</div>` : ''}
-    </div>` : ''}
-  </div>`;
-}
-
 // ── Blueprint HTML ────────────────────────────────────────────────────────────
+// The diagram itself is the SVG from render-svg.js, laid out by the same
+// blueprint-layout.js as the Figma plugin.
 
-function buildHtml(bp, theme) {
-  const columns = [];
-  for (const phase of bp.phases) {
-    for (const sub of phase.subPhases) {
-      columns.push({ phase, sub });
-    }
-  }
-
-  const cellMap = new Map();
-  for (const cell of (bp.cells || [])) {
-    cellMap.set(`${cell.laneId}/${cell.subPhaseId}`, cell);
-  }
-
-  const LANE_W = 120;
-  const COL_W  = 230;
-  const gridTemplateColumns = `${LANE_W}px ${columns.map(() => `${COL_W}px`).join(' ')}`;
-
-  let phaseHeaders = `<div style="background:#fff;border-right:1px solid #ddd;"></div>`;
-  for (const phase of bp.phases) {
-    const span = phase.subPhases.length;
-    phaseHeaders += `<div style="grid-column:span ${span};background:#1a1a1a;color:#fff;font-size:13px;font-weight:800;padding:10px 12px;border-left:2px solid #fff;display:flex;align-items:center;">${esc(phase.label)}</div>`;
-  }
-
-  let subHeaders = `<div style="background:#f0f0f0;border-right:1px solid #ddd;font-size:10px;font-weight:700;color:#555;text-transform:uppercase;letter-spacing:0.05em;padding:8px 10px;display:flex;align-items:center;">Sub-phase</div>`;
-  for (const { sub } of columns) {
-    subHeaders += `<div style="background:#f0f0f0;border-left:1px solid #ddd;font-size:11px;font-weight:700;color:#333;padding:8px 10px;display:flex;align-items:center;">${esc(sub.label)}</div>`;
-  }
-
-  let laneRows = '';
-  for (const lane of (bp.lanes || [])) {
-    let row = `<div style="background:#fafafa;border-right:1px solid #ddd;border-top:1px solid #e8e8e8;font-size:11px;font-weight:700;color:#555;padding:10px 10px;display:flex;align-items:flex-start;justify-content:center;text-align:center;writing-mode:horizontal-lr;">${esc(lane.label)}</div>`;
-    for (const { sub } of columns) {
-      const cell = cellMap.get(`${lane.id}/${sub.id}`);
-      const cards = (cell?.cards || []).map(c => cardHtml(c, theme)).join('');
-      row += `<div style="border-left:1px solid #ddd;border-top:1px solid #e8e8e8;padding:8px;vertical-align:top;min-height:60px;">${cards}</div>`;
-    }
-    laneRows += `${row}`;
-  }
-
+function buildHtml(bp, svg) {
   return `<!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8">
-  <style>* { box-sizing: border-box; margin: 0; padding: 0; } body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #fff; padding: 20px; }</style>
+  <style>* { box-sizing: border-box; margin: 0; padding: 0; } body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #fff; padding: 20px; } svg { display: block; }</style>
 </head>
 <body>
   <h1 style="font-size:15px;font-weight:800;color:#1a1a1a;margin-bottom:16px;">${esc(bp.name)}</h1>
-  <div style="display:grid;grid-template-columns:${gridTemplateColumns};border:1px solid #ccc;border-radius:4px;overflow:hidden;">
-    ${phaseHeaders}
-    ${subHeaders}
-    ${laneRows}
-  </div>
+  ${svg}
 </body>
 </html>`;
 }
@@ -154,13 +96,18 @@ function buildHtml(bp, theme) {
 
 /**
  * @param {Object} blueprint  assembled blueprint object
- * @param {string} outPath    absolute path to write the HTML file
+ * @param {string} outPath    absolute path to write the HTML file; the SVG is
+ *                            written next to it with an .svg extension
  * @param {string} [themeDir] directory to look for theme.yaml (optional)
+ * @param {string} [layout]   'grid' (default) or 'auto' — see blueprint-layout.js
  */
-export function renderBlueprintHtml(blueprint, outPath, themeDir) {
+export function renderBlueprintHtml(blueprint, outPath, themeDir, layout = 'grid') {
   const theme = loadTheme(themeDir || dirname(fileURLToPath(import.meta.url)));
+  const svg = renderBlueprintSvg(blueprint, card => getPalette(card, theme), layout);
+  const svgPath = outPath.replace(/\.html$/, '') + '.svg';
   mkdirSync(dirname(outPath), { recursive: true });
-  writeFileSync(outPath, buildHtml(blueprint, theme));
+  writeFileSync(svgPath, svg + '\n');
+  writeFileSync(outPath, buildHtml(blueprint, svg));
   console.log(`Wrote ${outPath}`);
 }
 
@@ -171,9 +118,11 @@ if (process.argv[1] && resolve(process.argv[1]) === resolve(fileURLToPath(import
   const inputPath = args.find(a => !a.startsWith('--'));
   const outFlagIdx = args.indexOf('--out');
   const outArg = outFlagIdx !== -1 ? args[outFlagIdx + 1] : null;
+  const layoutFlagIdx = args.indexOf('--layout');
+  const layout = layoutFlagIdx !== -1 ? args[layoutFlagIdx + 1] : 'grid';
 
-  if (!inputPath) {
-    console.error('Usage: node render-blueprint-html.js <blueprint.json> [--out <output.html>]');
+  if (!inputPath || (layout !== 'grid' && layout !== 'auto')) {
+    console.error('Usage: node render-blueprint-html.js <blueprint.json> [--out <output.html>] [--layout grid|auto]');
     process.exit(1);
   }
 
@@ -182,5 +131,5 @@ if (process.argv[1] && resolve(process.argv[1]) === resolve(fileURLToPath(import
   const stem      = basename(inputPath, '.json');
   const outPath   = outArg ? resolve(outArg) : join(dirname(absInput), `${stem}-blueprint.html`);
 
-  renderBlueprintHtml(blueprint, outPath, dirname(absInput));
+  renderBlueprintHtml(blueprint, outPath, dirname(absInput), layout);
 }
@@ -2,20 +2,36 @@
 /**
  * render-cards-html.js
  *
- * Generates an HTML preview of the policy cards for debugging.
- * Reads staged JSON from figma-plugin/src/; writes to dist/<domain>-cards.html.
+ * Generates an HTML preview of a domain's policy cards for debugging.
+ * Derives the cards from config.yaml and the contracts (see policy-cards.js),
+ * reads the card types staged in figma-plugin/src/; writes to
+ * output/<domain>-cards.html.
  */
 
-import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import yaml from 'js-yaml';
+import { policyCardSets } from './policy-cards.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const distDir      = resolve(__dirname, '..', 'output');
 const pluginSrcDir = resolve(__dirname, 'figma-plugin', 'src');
+const configSrc    = resolve(__dirname, '..', '..', 'src', 'config.yaml');
+const contractsDir = resolve(__dirname, '..', '..', '..', 'contracts');
+
+function loadYaml(path) {
+  return existsSync(path) ? yaml.load(readFileSync(path, 'utf8')) : undefined;
+}
 
 export function renderCardsHtml(domain) {
-  const cards     = JSON.parse(readFileSync(resolve(pluginSrcDir, '_current_cards.json'), 'utf8'));
+  const config   = yaml.load(readFileSync(configSrc, 'utf8'));
+  const policies = loadYaml(resolve(contractsDir, 'platform-registry-policies.yaml'))?.policies || {};
+  const cardSets = policyCardSets(config, {
+    policies,
+    annotationsFor: d => loadYaml(resolve(contractsDir, `${d}-annotations.yaml`)),
+  });
+  const cards     = cardSets.find(set => set.domain === domain) ?? { domain, name: domain, phases: [] };
   const cardTypes = JSON.parse(readFileSync(resolve(pluginSrcDir, '_current_card_types.json'), 'utf8'));
 
   function resolveType(type) {
@@ -0,0 +1,144 @@
+/**
+ * render-svg.js
+ *
+ * Draws the scene from blueprint-layout.js as a standalone SVG — the same
+ * grid, card sizes and link routes the Figma plugin places. Card heights are
+ * estimated from the text, since there is no Figma to measure them. Pure:
+ * returns the SVG markup; render-blueprint-html.js writes it out.
+ *
+ * Exported function:
+ *   renderBlueprintSvg(blueprint, paletteFor, layout?) → string
+ *     paletteFor(card) → { headerBg, bodyBg, headerFg, bodyFg, label }
+ *     layout: 'grid' (default) or 'auto' — see blueprint-layout.js
+ */
+
+import {
+  CARD_PADDING, FUTURE_STYLE, LINK_STYLES, MORE_STYLE, TAG_PADDING_X, TAG_PADDING_Y, cardMetrics, layoutBlueprint, lineHeight,
+} from './blueprint-layout.js';
+
+const CARD_CORNER = 8;
+const MARGIN      = 20;
+const FONT        = "Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif";
+
+function esc(str) {
+  return String(str ?? '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function fontWeight(weight) {
+  return weight === 'semibold' ? 600 : 400;
+}
+
+// One <text> per block, one <tspan> per wrapped line, top-aligned at y
+function textBlock(block, x, y, color) {
+  const lh = lineHeight(block.fontSize);
+  const spans = block.lines.map((line, i) =>
+    `<tspan x="${x}" y="${y + i * lh + lh / 2}">${esc(line)}</tspan>`).join('');
+  return `<text font-size="${block.fontSize}" font-weight="${fontWeight(block.weight)}" fill="${color}" dominant-baseline="central">${spans}</text>`;
+}
+
+// Outlined pill naming the card's domain, top-left at x, y
+function tagSvg(tag, x, y, color) {
+  return `<rect x="${x + 0.5}" y="${y + 0.5}" width="${tag.width - 1}" height="${tag.height - 1}" rx="4" fill="none" stroke="${color}"/>` +
+    textBlock(tag, x + TAG_PADDING_X, y + TAG_PADDING_Y, color);
+}
+
+function cardSvg(sceneCard, palette, clipId) {
+  const { x, y, width, height, card } = sceneCard;
+  const m = cardMetrics(card, width, card.type === 'note' ? '' : palette.label);
+  const textX = x + CARD_PADDING;
+  const parts = [
+    `<clipPath id="${clipId}"><rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${CARD_CORNER}"/></clipPath>`,
+    `<g clip-path="url(#${clipId})">`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${m.headerHeight}" fill="${palette.headerBg}"/>`,
+  ];
+
+  let textY = y + CARD_PADDING;
+  parts.push(textBlock(m.title, textX, textY, palette.headerFg));
+  textY += m.title.height + 6;
+
+  if (m.label) {
+    parts.push(textBlock(m.label, textX, textY, palette.headerFg));
+    textY += m.label.height + 6;
+  }
+
+  if (m.subtext) {
+    if (card.type === 'note') {
+      parts.push(textBlock(m.subtext, textX, textY, palette.bodyFg));
+      textY += m.subtext.height + 6;
+    } else {
+      parts.push(`<rect x="${x}" y="${y + m.headerHeight}" width="${width}" height="${height - m.headerHeight}" fill="${palette.bodyBg}"/>`);
+      parts.push(textBlock(m.subtext, textX, y + m.headerHeight + CARD_PADDING, palette.bodyFg));
+    }
+  }
+
+  if (m.tag) parts.push(tagSvg(m.tag, textX, textY, palette.headerFg));
+
+  parts.push('</g>');
+  if (card.status === 'future') {
+    const inset = FUTURE_STYLE.weight / 2;
+    parts.push(`<rect x="${x + inset}" y="${y + inset}" width="${width - FUTURE_STYLE.weight}" height="${height - FUTURE_STYLE.weight}" rx="${CARD_CORNER}" fill="none" stroke="${FUTURE_STYLE.color}" stroke-width="${FUTURE_STYLE.weight}" stroke-dasharray="${FUTURE_STYLE.dash.join(' ')}"/>`);
+  }
+  return parts.join('');
+}
+
+// "+N more" card standing in for the cards a full cell leaves out
+function moreSvg(more) {
+  const { x, y, width, height } = more;
+  return `<rect x="${x + 0.5}" y="${y + 0.5}" width="${width - 1}" height="${height - 1}" rx="${CARD_CORNER}" fill="${MORE_STYLE.fill}" stroke="${MORE_STYLE.stroke}" stroke-dasharray="${MORE_STYLE.dash.join(' ')}"/>` +
+    `<text x="${x + CARD_PADDING}" y="${y + height / 2}" font-size="14" font-weight="600" fill="${MORE_STYLE.color}" dominant-baseline="central">+${more.keys.length} more</text>`;
+}
+
+/**
+ * @param {Object}   blueprint   assembled blueprint object
+ * @param {Function} paletteFor  card → { headerBg, bodyBg, headerFg, bodyFg, label }
+ * @param {string}   [layout]    'grid' (default) or 'auto'
+ * @returns {string} SVG markup
+ */
+export function renderBlueprintSvg(blueprint, paletteFor, layout = 'grid') {
+  const scene = layoutBlueprint(blueprint, {
+    x: MARGIN,
+    y: MARGIN,
+    layout,
+    measureCard: card => cardMetrics(card, undefined, card.type === 'note' ? '' : paletteFor(card).label).height,
+  });
+  const width  = scene.width + MARGIN;
+  const height = scene.height + MARGIN;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${esc(FONT)}">`,
+    '<defs>',
+    ...Object.keys(LINK_STYLES).map(kind =>
+      `<marker id="arrow-${kind}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">` +
+      `<path d="M1 1L9 5L1 9" fill="none" stroke="${LINK_STYLES[kind].color}" stroke-width="1.5"/></marker>`),
+    '</defs>',
+    `<rect width="${width}" height="${height}" fill="#FFFFFF"/>`,
+  ];
+
+  for (const line of scene.lines) {
+    const [w, h] = line.orientation === 'horizontal' ? [line.length, 1] : [1, line.length];
+    parts.push(`<rect x="${line.x}" y="${line.y}" width="${w}" height="${h}" fill="${line.color}"/>`);
+  }
+
+  for (const label of scene.labels) {
+    const x = label.x + label.width / 2;
+    const y = label.height === undefined ? label.y + lineHeight(label.fontSize) / 2 : label.y + label.height / 2;
+    parts.push(`<text x="${x}" y="${y}" font-size="${label.fontSize}" font-weight="${fontWeight(label.weight)}" fill="${label.color}" text-anchor="middle" dominant-baseline="central">${esc(label.text)}</text>`);
+  }
+
+  scene.cards.forEach((sceneCard, i) => {
+    parts.push(cardSvg(sceneCard, paletteFor(sceneCard.card), `card-${i}`));
+  });
+
+  for (const more of scene.more) parts.push(moreSvg(more));
+
+  for (const link of scene.links) {
+    const style = LINK_STYLES[link.kind];
+    const d = link.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x} ${p.y}`).join('');
+    const dash = style.dash.length > 0 ? ` stroke-dasharray="${style.dash.join(' ')}"` : '';
+    parts.push(`<path d="${d}" fill="none" stroke="${style.color}" stroke-width="1.5"${dash} marker-end="url(#arrow-${link.kind})"/>`);
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
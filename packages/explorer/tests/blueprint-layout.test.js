@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import {
+  CARD_GAP, CARD_WIDTH, CELL_PADDING, COMPACT_WIDTH, HEADER_HEIGHT, LANE_LABEL_WIDTH, MAX_STACKS, MORE_CARD_HEIGHT,
+  PHASE_WIDTH, ROW_MIN_HEIGHT, STACK_LIMIT, estimateCardHeight, layoutBlueprint,
+} from '../service-blueprints/src/blueprint-layout.js';
+
+const blueprint = JSON.parse(readFileSync(new URL('./fixtures/small-blueprint.json', import.meta.url), 'utf8'));
+
+const fixedHeight = height => () => height;
+
+describe('layoutBlueprint', () => {
+  it('makes each row as tall as its fullest cell, and no shorter than ROW_MIN_HEIGHT', () => {
+    const scene = layoutBlueprint(blueprint, { measureCard: fixedHeight(100) });
+    const stacked = CELL_PADDING * 2 + 100 + CARD_GAP + 100;
+    const single = CELL_PADDING * 2 + 100;
+
+    assert.deepStrictEqual(scene.grid.lanes, [
+      { id: 'applicant', y: HEADER_HEIGHT, height: stacked },
+      { id: 'system', y: HEADER_HEIGHT + stacked, height: single },
+      { id: 'data', y: HEADER_HEIGHT + stacked + single, height: single },
+    ]);
+    assert.strictEqual(scene.height, HEADER_HEIGHT + stacked + single * 2);
+
+    const short = layoutBlueprint(blueprint, { measureCard: fixedHeight(20) });
+    assert.ok(short.grid.lanes.every(lane => lane.height === ROW_MIN_HEIGHT));
+  });
+
+  it('spans each phase label across its sub-phases', () => {
+    const scene = layoutBlueprint(blueprint);
+    const phases = scene.labels.filter(l => l.role === 'phase').map(({ text, x, width }) => ({ text, x, width }));
+
+    assert.deepStrictEqual(phases, [
+      { text: 'Apply', x: LANE_LABEL_WIDTH, width: PHASE_WIDTH * 2 },
+      { text: 'Decide', x: LANE_LABEL_WIDTH + PHASE_WIDTH * 2, width: PHASE_WIDTH },
+    ]);
+    assert.deepStrictEqual(scene.grid.columns.map(c => c.x), [0, 1, 2].map(i => LANE_LABEL_WIDTH + i * PHASE_WIDTH));
+    assert.strictEqual(scene.width, LANE_LABEL_WIDTH + PHASE_WIDTH * 3);
+  });
+
+  it('sizes cards to CARD_WIDTH and their estimated height, stacked in their cell', () => {
+    const scene = layoutBlueprint(blueprint, { x: 10, y: 20 });
+    const [first, second] = scene.cards.filter(c => c.laneId === 'applicant');
+
+    for (const c of scene.cards) {
+      assert.strictEqual(c.width, CARD_WIDTH);
+      assert.strictEqual(c.height, estimateCardHeight(c.card));
+    }
+    assert.deepStrictEqual([first.x, first.y], [10 + LANE_LABEL_WIDTH + CELL_PADDING, 20 + HEADER_HEIGHT + CELL_PADDING]);
+    assert.deepStrictEqual([second.x, second.y], [first.x, first.y + first.height + CARD_GAP]);
+    assert.strictEqual(second.key, 'applicant/submit/annotation:0');
+  });
+
+  it('routes links between the laid-out cards', () => {
+    const scene = layoutBlueprint(blueprint);
+    const byKey = new Map(scene.cards.map(c => [c.key, c]));
+
+    assert.deepStrictEqual(scene.links.map(l => l.kind), ['emits', 'triggers']);
+    for (const link of scene.links) {
+      const from = byKey.get(link.from);
+      const to = byKey.get(link.to);
+      assert.ok(from && to, `${link.from} → ${link.to} laid out`);
+      assert.ok(link.points.length >= 2);
+    }
+  });
+
+  describe('auto layout', () => {
+    it('narrows sub-phases without cards and widens phase spans to match', () => {
+      const scene = layoutBlueprint(blueprint, { layout: 'auto' });
+      const apply = scene.labels.find(l => l.role === 'phase' && l.text === 'Apply');
+
+      assert.deepStrictEqual(scene.grid.columns.map(c => c.width), [PHASE_WIDTH, COMPACT_WIDTH, PHASE_WIDTH]);
+      assert.strictEqual(apply.width, PHASE_WIDTH + COMPACT_WIDTH);
+    });
+
+    it('adds stacks to a full cell and collapses the rest into a "+N more" card', () => {
+      const count = MAX_STACKS * STACK_LIMIT + 2;
+      const cards = Array.from({ length: count }, (_, i) => ({ id: `c${i}`, type: 'system', text: `Card ${i}` }));
+      const crowded = {
+        ...blueprint,
+        cells: [{ laneId: 'system', subPhaseId: 'submit', cards }],
+        links: [{ from: 'system/submit/c0', to: `system/submit/c${count - 1}`, kind: 'emits' }],
+      };
+      const scene = layoutBlueprint(crowded, { layout: 'auto', measureCard: fixedHeight(100) });
+
+      const width = CELL_PADDING * 2 + MAX_STACKS * CARD_WIDTH + (MAX_STACKS - 1) * CARD_GAP;
+      assert.strictEqual(scene.grid.columns[0].width, width);
+      assert.strictEqual(scene.cards.length, MAX_STACKS * STACK_LIMIT - 1);
+      assert.strictEqual(scene.more.length, 1);
+      assert.strictEqual(scene.more[0].height, MORE_CARD_HEIGHT);
+      assert.deepStrictEqual(scene.more[0].keys, cards.slice(scene.cards.length).map(c => `system/submit/${c.id}`));
+
+      const end = scene.links[0].points.at(-1);
+      const more = scene.more[0];
+      assert.ok(end.x >= more.x && end.x <= more.x + more.width && end.y >= more.y && end.y <= more.y + more.height);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { buildBlueprint } from '../service-blueprints/src/generate-blueprint.js';
+import { cardKey } from '../service-blueprints/src/blueprint-layout.js';
+
+const APPLY_STEPS = [
+  { from: 'applicant', label: 'Submit application' },
+  { self: 'intake', label: 'Create application' },
+  { event: 'application.submitted', from: 'intake', to: 'eligibility' },
+  { self: 'eligibility', label: 'Screen application' },
+];
+
+const ANNOTATIONS = {
+  domain: 'intake',
+  name: 'Intake',
+  lanes: [
+    { id: 'applicant', label: 'Applicant', actors: ['applicant'] },
+    { id: 'system', label: 'System' },
+    { id: 'data', label: 'Data' },
+  ],
+  phases: [{
+    id: 'apply',
+    label: 'Apply',
+    subPhases: [{
+      id: 'submit',
+      label: 'Submit',
+      flow: 'apply',
+      cards: { applicant: [{ type: 'note', text: 'Paper applications are scanned first' }] },
+    }],
+  }],
+};
+
+function build(steps, annotations = ANNOTATIONS) {
+  return buildBlueprint({ flows: [{ id: 'apply', steps }] }, annotations);
+}
+
+function cardKeys(blueprint) {
+  return blueprint.cells.flatMap(cell => cell.cards.map((card, i) => cardKey(cell, card, i)));
+}
+
+describe('buildBlueprint', () => {
+  it('gives each card an id from its flow step, event or annotation index', () => {
+    assert.deepStrictEqual(cardKeys(build(APPLY_STEPS)), [
+      'applicant/submit/apply:Submit application',
+      'applicant/submit/annotation:0',
+      'system/submit/apply:Create application',
+      'system/submit/apply:Screen application',
+      'data/submit/event:application.submitted',
+    ]);
+  });
+
+  it('keeps the keys of neighbouring cards when a card is inserted', () => {
+    const before = build(APPLY_STEPS);
+    const after = build([
+      ...APPLY_STEPS.slice(0, 1),
+      { self: 'intake', label: 'Check for duplicates' },
+      ...APPLY_STEPS.slice(1),
+    ]);
+
+    const keys = cardKeys(after);
+    for (const key of cardKeys(before)) assert.ok(keys.includes(key), `${key} kept`);
+    assert.strictEqual(keys.length, cardKeys(before).length + 1);
+    assert.deepStrictEqual(after.links, before.links);
+  });
+
+  it('links cards by their stable keys', () => {
+    assert.deepStrictEqual(build(APPLY_STEPS).links, [
+      { from: 'system/submit/apply:Create application', to: 'data/submit/event:application.submitted', kind: 'emits' },
+      { from: 'data/submit/event:application.submitted', to: 'system/submit/apply:Screen application', kind: 'triggers' },
+    ]);
+  });
+
+  it('suffixes an id repeated in the same cell', () => {
+    const blueprint = build([
+      { self: 'intake', label: 'Save draft' },
+      { self: 'intake', label: 'Save draft' },
+    ]);
+    const system = blueprint.cells.find(cell => cell.laneId === 'system');
+
+    assert.deepStrictEqual(system.cards.map(card => card.id), ['apply:Save draft', 'apply:Save draft#2']);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import yaml from 'js-yaml';
+import { stateMachineDiagrams } from '../service-blueprints/src/generate-state-diagrams.js';
+
+const contract = name => yaml.load(readFileSync(new URL(`../../contracts/${name}-state-machine.yaml`, import.meta.url), 'utf8'));
+
+describe('stateMachineDiagrams', () => {
+  const [application, verification] = stateMachineDiagrams(contract('intake'));
+  const transition = (trigger, from) => application.transitions.find(t => t.trigger === trigger && t.from === from);
+
+  it('makes one diagram per machine in the contract', () => {
+    assert.deepStrictEqual([application, verification].map(d => [d.id, d.name, d.domain, d.object]), [
+      ['intake/application', 'Intake — Application', 'intake', 'Application'],
+      ['intake/verification', 'Intake — Verification', 'intake', 'Verification'],
+    ]);
+    assert.strictEqual(application.initialState, 'draft');
+  });
+
+  it('labels states and keeps their SLA clock and description', () => {
+    assert.deepStrictEqual(application.states.map(s => [s.id, s.label, s.slaClock]), [
+      ['draft', 'Draft', 'stopped'],
+      ['submitted', 'Submitted', 'running'],
+      ['under_review', 'Under Review', 'running'],
+      ['pending_approval', 'Pending Approval', 'stopped'],
+      ['withdrawn', 'Withdrawn', 'stopped'],
+      ['closed', 'Closed', 'stopped'],
+    ]);
+    assert.strictEqual(application.states[0].description, 'Created but not yet filed; regulatory clock has not started');
+  });
+
+  it('marks the states no transition leaves as terminal', () => {
+    assert.deepStrictEqual(application.states.filter(s => s.terminal).map(s => s.id), ['withdrawn', 'closed']);
+  });
+
+  it('gives each transition its trigger, actors, guard, emitted events and description', () => {
+    assert.deepStrictEqual(transition('submit', 'draft'), {
+      trigger: 'submit',
+      from: 'draft',
+      to: 'submitted',
+      actors: ['applicant', 'case_worker'],
+      guard: 'callerIsApplicant or callerIsCaseworker',
+      emits: ['intake.application.submitted'],
+      description: 'Formally submits a draft application, starting the regulatory processing clock',
+    });
+  });
+
+  it('splits a transition from several states and leaves out the target of in-place actions', () => {
+    assert.deepStrictEqual(application.transitions.filter(t => t.trigger === 'withdraw').map(t => [t.from, t.to]), [
+      ['submitted', 'withdrawn'],
+      ['under_review', 'withdrawn'],
+    ]);
+    assert.strictEqual('to' in transition('complete-review', 'under_review'), false);
+  });
+
+  it('makes no diagrams from a contract without machines', () => {
+    assert.deepStrictEqual(stateMachineDiagrams(contract('platform')), []);
+    assert.deepStrictEqual(stateMachineDiagrams(undefined), []);
+  });
+
+  it('collects events emitted in nested steps, once each', () => {
+    const [diagram] = stateMachineDiagrams({
+      domain: 'demo',
+      machines: [{
+        object: 'Thing',
+        states: [{ id: 'open' }, { id: 'done' }],
+        actions: [{
+          id: 'finish',
+          guards: [{ actors: ['system'], conditions: [{ all: ['a', 'b'] }] }, { actors: ['system', 'supervisor'], conditions: ['c'] }],
+          transition: { to: 'done' },
+          steps: [
+            { if: 'x', then: [{ emit: { type: 'demo.one' } }], else: [{ emit: { event: 'demo.two' } }] },
+            { match: 'y', when: { a: [{ emit: { type: 'demo.one' } }], b: [{ emit: { type: 'demo.three' } }] } },
+            { forEach: { in: 'z', do: [{ emit: { type: 'demo.four' } }] } },
+          ],
+        }],
+      }],
+    });
+
+    assert.deepStrictEqual(diagram.transitions.map(t => [t.from, t.to]), [['open', 'done'], ['done', undefined]]);
+    assert.deepStrictEqual(diagram.transitions[0].emits, ['demo.one', 'demo.two', 'demo.three', 'demo.four']);
+    assert.deepStrictEqual(diagram.transitions[0].actors, ['system', 'supervisor']);
+    assert.strictEqual(diagram.transitions[0].guard, 'a and b or c');
+    assert.strictEqual(diagram.initialState, 'open');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { MAX_SUBTEXT_LENGTH, MAX_TEXT_LENGTH, formatProblem, lintBlueprint } from '../service-blueprints/src/lint-blueprint.js';
+
+function blueprint(overrides = {}) {
+  return {
+    id: 'intake-blueprint',
+    name: 'Intake',
+    lanes: [{ id: 'applicant', label: 'Applicant' }, { id: 'system', label: 'System' }],
+    phases: [{ id: 'apply', label: 'Apply', subPhases: [{ id: 'submit', label: 'Submit' }] }],
+    cells: [
+      { laneId: 'applicant', subPhaseId: 'submit', cards: [{ id: 'a', type: 'person-action', actor: 'applicant', text: 'Submits' }] },
+      { laneId: 'system', subPhaseId: 'submit', cards: [{ id: 'b', type: 'system', text: 'Stores' }] },
+    ],
+    ...overrides,
+  };
+}
+
+const codes = problems => problems.map(p => [p.severity, p.code, p.path]);
+
+describe('lintBlueprint', () => {
+  it('finds nothing wrong with a well-formed blueprint', () => {
+    assert.deepStrictEqual(lintBlueprint(blueprint(), { cardTypes: ['person-action', 'system'] }), []);
+  });
+
+  it('reports cells whose lane or sub-phase is not in the blueprint', () => {
+    const problems = lintBlueprint(blueprint({
+      cells: [
+        { laneId: 'caseworker', subPhaseId: 'submit', cards: [{ type: 'system', text: 'Reviews' }] },
+        { laneId: 'system', subPhaseId: 'decide', cards: [{ type: 'system', text: 'Decides' }, { type: 'system', text: 'Notifies' }] },
+      ],
+    }));
+
+    assert.deepStrictEqual(problems.filter(p => p.code === 'orphaned-cell'), [
+      { severity: 'error', code: 'orphaned-cell', path: 'cells[0].laneId', message: "lane 'caseworker' is not in the blueprint; its 1 card won't be drawn" },
+      { severity: 'error', code: 'orphaned-cell', path: 'cells[1].subPhaseId', message: "sub-phase 'decide' is not in the blueprint; its 2 cards won't be drawn" },
+    ]);
+  });
+
+  it('reports every repeated lane, phase, sub-phase, cell and card id after its first use', () => {
+    const problems = lintBlueprint(blueprint({
+      lanes: [{ id: 'applicant', label: 'Applicant' }, { id: 'system', label: 'System' }, { id: 'system', label: 'Systems' }],
+      phases: [
+        { id: 'apply', label: 'Apply', subPhases: [{ id: 'submit', label: 'Submit' }] },
+        { id: 'apply', label: 'Apply again', subPhases: [{ id: 'submit', label: 'Resubmit' }] },
+      ],
+      cells: [
+        { laneId: 'system', subPhaseId: 'submit', cards: [{ id: 'b', type: 'system', text: 'Stores' }, { id: 'b', type: 'system', text: 'Stores again' }] },
+        { laneId: 'system', subPhaseId: 'submit', cards: [{ id: 'b', type: 'system', text: 'Other cell' }] },
+      ],
+    }));
+
+    assert.deepStrictEqual(problems.filter(p => p.code === 'duplicate-id').map(p => `${p.path}: ${p.message}`), [
+      "lanes[2].id: duplicate lane id 'system'",
+      "phases[1].id: duplicate phase id 'apply'",
+      "phases[1].subPhases[0].id: duplicate sub-phase id 'submit'",
+      "cells[0].cards[1].id: duplicate card id 'b'",
+      "cells[1]: duplicate cell 'system/submit'",
+    ]);
+  });
+
+  it('warns about person-action cards without an actor', () => {
+    const problems = lintBlueprint(blueprint({
+      cells: [{ laneId: 'applicant', subPhaseId: 'submit', cards: [{ type: 'person-action', text: 'Signs the application and uploads every document' }] }],
+    }));
+
+    assert.deepStrictEqual(problems, [{
+      severity: 'warning', code: 'missing-actor', path: 'cells[0].cards[0].actor',
+      message: "person-action card 'Signs the application and uploads every…' has no actor",
+    }]);
+  });
+
+  it('warns about card types missing from card-types.yaml only when they are given', () => {
+    const sytem = blueprint({ cells: [{ laneId: 'system', subPhaseId: 'submit', cards: [{ type: 'sytem', text: 'Stores' }] }] });
+
+    assert.deepStrictEqual(lintBlueprint(sytem), []);
+    assert.deepStrictEqual(lintBlueprint(sytem, { cardTypes: ['system'] }), [{
+      severity: 'warning', code: 'unknown-type', path: 'cells[0].cards[0].type',
+      message: "card type 'sytem' is not in card-types.yaml; drawn as a note",
+    }]);
+  });
+
+  it('warns about phases without sub-phases and sub-phases without cards in a drawn lane', () => {
+    const problems = lintBlueprint(blueprint({
+      phases: [
+        { id: 'apply', label: 'Apply', subPhases: [{ id: 'submit', label: 'Submit' }, { id: 'sign', label: 'Sign' }] },
+        { id: 'later', label: 'Later', subPhases: [] },
+      ],
+      cells: [
+        { laneId: 'applicant', subPhaseId: 'submit', cards: [{ type: 'system', text: 'Stores' }] },
+        { laneId: 'ghost', subPhaseId: 'sign', cards: [{ type: 'system', text: 'Hidden' }] },
+      ],
+    }));
+
+    assert.deepStrictEqual(codes(problems.filter(p => p.code === 'empty-phase')), [
+      ['warning', 'empty-phase', 'phases[1]'],
+      ['warning', 'empty-phase', 'phases[0].subPhases[1]'],
+    ]);
+  });
+
+  it('warns about text and subtext too long to read on a card', () => {
+    const card = { type: 'system', text: 'x'.repeat(MAX_TEXT_LENGTH + 1), subtext: 'y'.repeat(MAX_SUBTEXT_LENGTH + 1) };
+    const fits = { type: 'system', text: 'x'.repeat(MAX_TEXT_LENGTH), subtext: 'y'.repeat(MAX_SUBTEXT_LENGTH) };
+    const problems = lintBlueprint(blueprint({ cells: [{ laneId: 'system', subPhaseId: 'submit', cards: [fits, card] }] }));
+
+    assert.deepStrictEqual(problems.map(p => `${p.path}: ${p.message}`), [
+      `cells[0].cards[1].text: ${MAX_TEXT_LENGTH + 1} characters; keep card text under ${MAX_TEXT_LENGTH}`,
+      `cells[0].cards[1].subtext: ${MAX_SUBTEXT_LENGTH + 1} characters; keep subtext under ${MAX_SUBTEXT_LENGTH}`,
+    ]);
+  });
+
+  it('lists errors before warnings, each in blueprint order', () => {
+    const problems = lintBlueprint(blueprint({
+      cells: [
+        { laneId: 'applicant', subPhaseId: 'submit', cards: [{ type: 'person-action', text: 'Submits' }] },
+        { laneId: 'nowhere', subPhaseId: 'submit', cards: [{ type: 'system', text: 'Lost' }] },
+        { laneId: 'system', subPhaseId: 'submit', cards: [{ id: 'c', type: 'note', text: 'One' }, { id: 'c', type: 'note', text: 'Two' }] },
+      ],
+    }), { cardTypes: ['person-action', 'system'] });
+
+    assert.deepStrictEqual(codes(problems), [
+      ['error', 'orphaned-cell', 'cells[1].laneId'],
+      ['error', 'duplicate-id', 'cells[2].cards[1].id'],
+      ['warning', 'missing-actor', 'cells[0].cards[0].actor'],
+      ['warning', 'unknown-type', 'cells[2].cards[0].type'],
+      ['warning', 'unknown-type', 'cells[2].cards[1].type'],
+    ]);
+  });
+});
+
+describe('formatProblem', () => {
+  it('writes the severity, path and message on one line', () => {
+    assert.strictEqual(
+      formatProblem({ severity: 'error', code: 'orphaned-cell', path: 'cells[3].laneId', message: "lane 'x' is not in the blueprint" }),
+      "Error: cells[3].laneId: lane 'x' is not in the blueprint",
+    );
+    assert.strictEqual(formatProblem({ severity: 'warning', code: 'long-text', path: 'p', message: 'm' }), 'Warning: p: m');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { policyCardSets } from '../service-blueprints/src/policy-cards.js';
+
+const POLICIES = {
+  'snap-timeliness': { citation: '7 CFR 273.2(g)', description: 'Process within 30 days.\n', citationUrl: 'https://example.gov/273.2' },
+  'medicaid-verification': { citation: '42 CFR 435.948', description: 'Verify income electronically.' },
+};
+
+const ANNOTATIONS = {
+  intake: { operations: { 'application.submit': { policies: ['snap-timeliness'] } } },
+  eligibility: { operations: { 'determination.create': { policies: ['snap-timeliness', 'medicaid-verification'] } } },
+};
+
+const CONFIG = {
+  domains: [{ id: 'intake', label: 'Intake' }, { id: 'eligibility', label: 'Eligibility' }],
+  flows: [
+    { id: 'apply', label: 'Apply', domain: 'intake', steps: [{ ref: 'operations/application.submit' }] },
+    {
+      id: 'review', label: 'Review', domain: 'intake', steps: [
+        { fragment: 'alt', label: 'Expedited', steps: [{ ref: 'operations/application.submit' }] },
+        { regulatory: [{ citation: '42 CFR 435.948', summary: 'Verification', detail: 'Inline detail' }] },
+      ],
+    },
+    { id: 'determine', label: 'Determine', domain: 'eligibility', steps: [{ ref: 'operations/determination.create' }] },
+    { id: 'shared', label: 'Shared', steps: [{ ref: 'operations/application.submit' }] },
+  ],
+};
+
+function cardSets(config = CONFIG) {
+  return policyCardSets(config, { policies: POLICIES, annotationsFor: domain => ANNOTATIONS[domain] });
+}
+
+describe('policyCardSets', () => {
+  it('derives one card set per flow domain, named from the config domains', () => {
+    assert.deepStrictEqual(cardSets().map(set => [set.domain, set.name]), [['intake', 'Intake'], ['eligibility', 'Eligibility']]);
+  });
+
+  it('resolves refs against the flow domain annotations', () => {
+    const eligibility = cardSets().find(set => set.domain === 'eligibility');
+    const cards = eligibility.phases.flatMap(phase => phase.subPhases.flatMap(sub => sub.cards));
+
+    assert.deepStrictEqual(cards.map(card => card.source), [
+      { kind: 'policy', flow: 'determine', policy: 'snap-timeliness', contract: 'operations/determination.create' },
+      { kind: 'policy', flow: 'determine', policy: 'medicaid-verification', contract: 'operations/determination.create' },
+    ]);
+  });
+
+  it('places each policy once per domain, at its first occurrence', () => {
+    const [intake] = cardSets();
+
+    assert.deepStrictEqual(intake.phases.map(phase => [phase.id, phase.label, phase.subPhases.map(sub => sub.label)]), [
+      ['flow-0', 'Apply', ['Apply']],
+      ['flow-1', 'Review', ['Review']],
+    ]);
+    const [snap] = intake.phases[0].subPhases[0].cards;
+    assert.strictEqual(snap.subtext, 'Process within 30 days.\n\nUsed in: Apply · Review');
+    assert.strictEqual(snap.domain, 'intake');
+    assert.strictEqual(snap.citationUrl, 'https://example.gov/273.2');
+  });
+
+  it('dedups inline regulatory citations against the policy registry', () => {
+    const [intake] = cardSets();
+    const [verification] = intake.phases[1].subPhases[0].cards;
+
+    assert.deepStrictEqual(verification, {
+      type: 'policy', text: 'Verification', subtext: 'Inline detail', citation: '42 CFR 435.948', domain: 'intake',
+      source: { kind: 'policy', flow: 'review' },
+    });
+  });
+
+  it('skips flows without a domain and domains without policies', () => {
+    const config = { ...CONFIG, flows: [CONFIG.flows[3], { id: 'plain', label: 'Plain', domain: 'intake', steps: [{ from: 'applicant' }] }] };
+
+    assert.deepStrictEqual(cardSets(config), []);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { renderBlueprintSvg } from '../service-blueprints/src/render-svg.js';
+
+// Rewrite the snapshot after an intended change with:
+//   UPDATE_SNAPSHOTS=1 npm test --workspace=packages/explorer
+const SNAPSHOT = new URL('./fixtures/small-blueprint.svg', import.meta.url);
+
+const blueprint = JSON.parse(readFileSync(new URL('./fixtures/small-blueprint.json', import.meta.url), 'utf8'));
+
+const PALETTES = {
+  'person-action': { headerBg: '#D97C20', bodyBg: '#FDECD4', headerFg: '#3D1800', bodyFg: '#3D1800', label: 'APPLICANT' },
+  'system':        { headerBg: '#137C69', bodyBg: '#F1FFFD', headerFg: '#FFFFFF', bodyFg: '#0A3A2E', label: 'SYSTEM' },
+  'domain-event':  { headerBg: '#2E6276', bodyBg: '#E7F2F5', headerFg: '#FFFFFF', bodyFg: '#0A2E34', label: 'EVENT' },
+  'note':          { headerBg: '#FDDA40', bodyBg: '#FFFBE7', headerFg: '#333333', bodyFg: '#555555', label: '' },
+};
+
+const paletteFor = card => PALETTES[card.type];
+
+describe('renderBlueprintSvg', () => {
+  it('matches the snapshot of a small blueprint', () => {
+    const svg = renderBlueprintSvg(blueprint, paletteFor) + '\n';
+    if (process.env.UPDATE_SNAPSHOTS || !existsSync(SNAPSHOT)) writeFileSync(SNAPSHOT, svg);
+
+    assert.strictEqual(svg, readFileSync(SNAPSHOT, 'utf8'));
+  });
+
+  it('draws every card, link and label from the layout', () => {
+    const svg = renderBlueprintSvg(blueprint, paletteFor);
+
+    for (const text of ['Apply', 'Decide', 'Submit', 'Review', 'Determine', 'Applicant', 'Submit application', 'application.submitted']) {
+      assert.ok(svg.includes(`>${text}<`), `${text} drawn`);
+    }
+    assert.strictEqual(svg.match(/marker-end="url\(#arrow-/g)?.length, blueprint.links.length);
+  });
+});
@@ -1,4 +1,5 @@
 import { resolveDotPath } from './collection-utils.js';
+import { resolveTimeToken } from './time-tokens.js';
 
 /**
  * Query string parser for the `q` parameter search syntax
@@ -21,7 +22,27 @@ import { resolveDotPath } from './collection-utils.js';
  *   q=field:*                   # Field exists
  *   q=-field:*                  # Field does not exist
  *   q=term1 term2               # Multiple conditions (AND)
+ *   q=term1 AND term2           # Explicit AND (same as a space)
+ *   q=term1 OR term2            # Either condition
+ *   q=(a b) OR c                # Parentheses group conditions
+ *   q=-(a OR b)                 # Negated group
  *   q=field.nested:value        # Nested field (dot notation)
+ *   q=dueDate:<$now             # Relative time (see time-tokens.js)
+ *   q=createdAt:>=$now-30d      # ... resolved when the query is parsed
+ *
+ * AND binds tighter than OR, so `a b OR c` means `(a b) OR c`. `AND` and
+ * `OR` are keywords only in upper case and only as whole terms.
+ *
+ * Escaping:
+ *   q=name:"Mary-Kate O'Neil, Jr."   # Double quotes make a value literal
+ *   q=name:"say \"hi\""              # \" and \\ escape inside quotes
+ *   q=email:*"a*b"*                  # Wildcards stay outside the quotes
+ *   q=names:"Smith, John",Doe        # Each `in` value may be quoted
+ *   q=tag:a\,b                       # Backslash escapes one character
+ *
+ * Quoted or escaped characters are never syntax: they do not split terms,
+ * separate values, start an operator or wildcard, negate a term, or open or
+ * close a group. A quoted `"OR"` is a full-text term, not a keyword.
  */
 
 /**
@@ -44,37 +65,106 @@ export const TokenType = {
   NOT_EQUAL: 'neq',
   NOT_IN: 'notIn',
   EXISTS: 'exists',
-  NOT_EXISTS: 'notExists'
+  NOT_EXISTS: 'notExists',
+  AND: 'and',
+  OR: 'or'
 };
 
+/**
+ * Terms with special meaning to the group parser. Matched against raw terms,
+ * so quoted or escaped forms are ordinary terms.
+ */
+const OPEN_GROUP = '(';
+const OPEN_NEGATED_GROUP = '-(';
+const CLOSE_GROUP = ')';
+const AND_KEYWORD = 'AND';
+const OR_KEYWORD = 'OR';
+
+/**
+ * Decode a raw term into characters tagged as syntax or literal.
+ *
+ * Characters inside double quotes or after a backslash are literal. Each
+ * opening quote also emits an empty literal marker so `""` still counts as
+ * a (blank) value.
+ *
+ * @param {string} term - Raw term, quotes and escapes included
+ * @returns {Array<{ ch: string, literal: boolean }>}
+ */
+function scanChars(term) {
+  const chars = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < term.length; i++) {
+    const ch = term[i];
+    if (ch === '\\' && i + 1 < term.length) {
+      chars.push({ ch: term[++i], literal: true });
+    } else if (ch === '"') {
+      if (!inQuotes) chars.push({ ch: '', literal: true });
+      inQuotes = !inQuotes;
+    } else {
+      chars.push({ ch, literal: inQuotes });
+    }
+  }
+
+  return chars;
+}
+
+function isSyntax(char, ch) {
+  return char !== undefined && !char.literal && char.ch === ch;
+}
+
+function startsWithSyntax(chars, prefix) {
+  return [...prefix].every((ch, i) => isSyntax(chars[i], ch));
+}
+
+function charsToString(chars) {
+  return chars.map(c => c.ch).join('');
+}
+
+/**
+ * Resolve a `$now` time token in an unquoted value. A malformed token is
+ * kept as written, so it is compared literally and matches nothing.
+ * @param {string} value
+ * @param {Date} now - Reference instant for the whole query
+ * @returns {string}
+ */
+function resolveValueTimeToken(value, now) {
+  try {
+    return resolveTimeToken(value, now);
+  } catch {
+    return value;
+  }
+}
+
 /**
  * Parse a single term from the query string
  * @param {string} term - A single term like "status:approved" or "-field:value"
+ * @param {Date} [now] - Reference instant for `$now` tokens in exact and comparison values
  * @returns {Object} Parsed token with type, field, and value(s)
  */
-export function parseTerm(term) {
+export function parseTerm(term, now = new Date()) {
   if (!term || typeof term !== 'string') {
     return null;
   }
 
-  term = term.trim();
-  if (!term) {
+  let chars = scanChars(term.trim());
+  if (chars.length === 0) {
     return null;
   }
 
   // Check for negation prefix
-  const isNegated = term.startsWith('-');
+  const isNegated = isSyntax(chars[0], '-');
   if (isNegated) {
-    term = term.slice(1);
+    chars = chars.slice(1);
   }
 
   // Check if this is a field:value term
-  const colonIndex = term.indexOf(':');
+  const colonIndex = chars.findIndex(c => isSyntax(c, ':'));
 
   if (colonIndex === -1) {
     // No colon - this is a full-text search term
     // Check for wildcard patterns
-    const { type: wildcardType, value: wildcardValue } = parseWildcardPattern(term, true);
+    const { type: wildcardType, value: wildcardValue } = parseWildcardPattern(chars, true);
     return {
       type: wildcardType,
       field: null,
@@ -82,11 +172,11 @@ export function parseTerm(term) {
     };
   }
 
-  const field = term.slice(0, colonIndex);
-  let value = term.slice(colonIndex + 1);
+  const field = charsToString(chars.slice(0, colonIndex));
+  let valueChars = chars.slice(colonIndex + 1);
 
   // Handle existence check (field:*)
-  if (value === '*') {
+  if (valueChars.length === 1 && isSyntax(valueChars[0], '*')) {
     return {
       type: isNegated ? TokenType.NOT_EXISTS : TokenType.EXISTS,
       field,
@@ -97,23 +187,32 @@ export function parseTerm(term) {
   // Handle comparison operators
   let type = TokenType.EXACT;
 
-  if (value.startsWith('>=')) {
+  if (startsWithSyntax(valueChars, '>=')) {
     type = TokenType.GREATER_THAN_OR_EQUAL;
-    value = value.slice(2);
-  } else if (value.startsWith('>')) {
+    valueChars = valueChars.slice(2);
+  } else if (startsWithSyntax(valueChars, '>')) {
     type = TokenType.GREATER_THAN;
-    value = value.slice(1);
-  } else if (value.startsWith('<=')) {
+    valueChars = valueChars.slice(1);
+  } else if (startsWithSyntax(valueChars, '<=')) {
     type = TokenType.LESS_THAN_OR_EQUAL;
-    value = value.slice(2);
-  } else if (value.startsWith('<')) {
+    valueChars = valueChars.slice(2);
+  } else if (startsWithSyntax(valueChars, '<')) {
     type = TokenType.LESS_THAN;
-    value = value.slice(1);
+    valueChars = valueChars.slice(1);
   }
 
   // Handle comma-separated values (OR matching)
-  if (value.includes(',')) {
-    const values = value.split(',').map(v => v.trim()).filter(v => v);
+  if (valueChars.some(c => isSyntax(c, ','))) {
+    const values = [];
+    let current = [];
+    for (const char of [...valueChars, { ch: ',', literal: false }]) {
+      if (isSyntax(char, ',')) {
+        if (current.length > 0) values.push(charsToString(current));
+        current = [];
+      } else {
+        current.push(char);
+      }
+    }
     return {
       type: isNegated ? TokenType.NOT_IN : TokenType.IN,
       field,
@@ -121,9 +220,11 @@ export function parseTerm(term) {
     };
   }
 
+  let value = charsToString(valueChars);
+
   // Check for wildcard patterns (only for EXACT type, not comparisons)
   if (type === TokenType.EXACT) {
-    const { type: wildcardType, value: wildcardValue } = parseWildcardPattern(value, false);
+    const { type: wildcardType, value: wildcardValue } = parseWildcardPattern(valueChars, false);
     type = wildcardType;
     value = wildcardValue;
 
@@ -133,10 +234,14 @@ export function parseTerm(term) {
     }
   }
 
-  // Try to parse numeric values (only for exact match and comparisons)
+  // Resolve $now tokens and try to parse numeric values (only for exact
+  // match and comparisons). Quoted or escaped tokens stay literal.
   if (type === TokenType.EXACT || type === TokenType.NOT_EQUAL ||
       type === TokenType.GREATER_THAN || type === TokenType.GREATER_THAN_OR_EQUAL ||
       type === TokenType.LESS_THAN || type === TokenType.LESS_THAN_OR_EQUAL) {
+    if (valueChars.every(c => !c.literal)) {
+      value = resolveValueTimeToken(value, now);
+    }
     const numericValue = parseNumericValue(value);
     if (numericValue !== null) {
       value = numericValue;
@@ -152,21 +257,21 @@ export function parseTerm(term) {
 
 /**
  * Parse wildcard pattern from a value
- * @param {string} value - The value to check for wildcards
+ * @param {Array<{ ch: string, literal: boolean }>} chars - Scanned value; only unquoted, unescaped `*` count
  * @param {boolean} isFullText - Whether this is a full-text search term
  * @returns {Object} { type: TokenType, value: string }
  */
-function parseWildcardPattern(value, isFullText) {
-  const startsWithWildcard = value.startsWith('*');
-  const endsWithWildcard = value.endsWith('*');
+function parseWildcardPattern(chars, isFullText) {
+  const startsWithWildcard = isSyntax(chars[0], '*');
+  const endsWithWildcard = isSyntax(chars[chars.length - 1], '*');
 
   // Remove wildcards from value
-  let cleanValue = value;
+  let cleanChars = chars;
   if (startsWithWildcard) {
-    cleanValue = cleanValue.slice(1);
+    cleanChars = cleanChars.slice(1);
   }
   if (endsWithWildcard) {
-    cleanValue = cleanValue.slice(0, -1);
+    cleanChars = cleanChars.slice(0, -1);
   }
 
   // Determine type based on wildcard position
@@ -181,7 +286,7 @@ function parseWildcardPattern(value, isFullText) {
     type = isFullText ? TokenType.FULL_TEXT : TokenType.EXACT;
   }
 
-  return { type, value: cleanValue };
+  return { type, value: charsToString(cleanChars) };
 }
 
 /**
@@ -205,21 +310,106 @@ function parseNumericValue(value) {
 
 /**
  * Parse the full query string into an array of tokens
+ *
+ * The returned tokens are ANDed together. Parenthesised groups and OR
+ * chains become group tokens: `{ type: 'and' | 'or', field: null,
+ * value: [...childTokens], negated }`.
+ *
+ * `$now` tokens are resolved against `now`, so a saved query such as
+ * `dueDate:<$now` stays correct over time.
+ *
  * @param {string} queryString - The full q parameter value
+ * @param {Date} [now] - Reference instant shared by every `$now` token in the query
  * @returns {Array} Array of parsed tokens
  */
-export function parseQueryString(queryString) {
+export function parseQueryString(queryString, now = new Date()) {
   if (!queryString || typeof queryString !== 'string') {
     return [];
   }
 
   const tokens = [];
 
-  // Split by whitespace, but preserve quoted strings
-  const terms = splitQueryTerms(queryString);
+  // Split by whitespace and parentheses, but preserve quoted strings
+  const cursor = { terms: splitQueryTerms(queryString), pos: 0, now };
+
+  while (cursor.pos < cursor.terms.length) {
+    const node = parseOrExpression(cursor);
+    if (node?.type === TokenType.AND && !node.negated) {
+      tokens.push(...node.value);
+    } else if (node) {
+      tokens.push(node);
+    }
 
-  for (const term of terms) {
-    const token = parseTerm(term);
+    // Skip an unmatched closing parenthesis
+    if (cursor.terms[cursor.pos] === CLOSE_GROUP) {
+      cursor.pos++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse `and-expression (OR and-expression)*` up to a closing parenthesis
+ * or the end of the query.
+ * @param {{ terms: Array<string>, pos: number, now: Date }} cursor - Advanced past the expression
+ * @returns {Object|null} A token, a group token, or null when empty
+ */
+function parseOrExpression(cursor) {
+  const branches = [];
+
+  while (cursor.pos < cursor.terms.length) {
+    const branch = parseAndExpression(cursor);
+    if (branch.length === 1 && branch[0].type === TokenType.OR && !branch[0].negated) {
+      branches.push(...branch[0].value);
+    } else if (branch.length === 1) {
+      branches.push(branch[0]);
+    } else if (branch.length > 1) {
+      branches.push({ type: TokenType.AND, field: null, value: branch, negated: false });
+    }
+
+    if (cursor.terms[cursor.pos] !== OR_KEYWORD) break;
+    cursor.pos++;
+  }
+
+  if (branches.length === 0) return null;
+  if (branches.length === 1) return branches[0];
+  return { type: TokenType.OR, field: null, value: branches, negated: false };
+}
+
+/**
+ * Parse consecutive terms and groups, optionally joined by AND, stopping at
+ * OR, a closing parenthesis or the end of the query.
+ * @param {{ terms: Array<string>, pos: number, now: Date }} cursor - Advanced past the expression
+ * @returns {Array} Tokens to be ANDed together
+ */
+function parseAndExpression(cursor) {
+  const tokens = [];
+
+  while (cursor.pos < cursor.terms.length) {
+    const term = cursor.terms[cursor.pos];
+    if (term === OR_KEYWORD || term === CLOSE_GROUP) break;
+    cursor.pos++;
+
+    if (term === AND_KEYWORD) continue;
+
+    if (term === OPEN_GROUP || term === OPEN_NEGATED_GROUP) {
+      const inner = parseOrExpression(cursor);
+      if (cursor.terms[cursor.pos] === CLOSE_GROUP) {
+        cursor.pos++;
+      }
+      if (!inner) continue;
+      if (term === OPEN_NEGATED_GROUP) {
+        tokens.push({ type: TokenType.AND, field: null, value: [inner], negated: true });
+      } else if (inner.type === TokenType.AND && !inner.negated) {
+        tokens.push(...inner.value);
+      } else {
+        tokens.push(inner);
+      }
+      continue;
+    }
+
+    const token = parseTerm(term, cursor.now);
     if (token) {
       tokens.push(token);
     }
@@ -229,7 +419,10 @@ export function parseQueryString(queryString) {
 }
 
 /**
- * Split query string into terms, respecting quoted strings
+ * Split query string into terms, respecting quoted strings and backslash
+ * escapes. Terms keep their quotes and escapes; parseTerm decodes them.
+ * Unquoted parentheses are terms of their own, and a `-` directly before
+ * `(` stays attached as `-(`.
  * @param {string} queryString - The query string to split
  * @returns {Array<string>} Array of terms
  */
@@ -237,30 +430,43 @@ function splitQueryTerms(queryString) {
   const terms = [];
   let current = '';
   let inQuotes = false;
-  let quoteChar = null;
+
+  const flush = () => {
+    if (current.trim()) {
+      terms.push(current.trim());
+    }
+    current = '';
+  };
 
   for (let i = 0; i < queryString.length; i++) {
     const char = queryString[i];
 
-    if ((char === '"' || char === "'") && !inQuotes) {
-      inQuotes = true;
-      quoteChar = char;
-    } else if (char === quoteChar && inQuotes) {
-      inQuotes = false;
-      quoteChar = null;
-    } else if (char === ' ' && !inQuotes) {
-      if (current.trim()) {
-        terms.push(current.trim());
+    if (char === '\\' && i + 1 < queryString.length) {
+      current += char + queryString[++i];
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+      current += char;
+    } else if (inQuotes) {
+      current += char;
+    } else if (char === ' ') {
+      flush();
+    } else if (char === '(') {
+      if (current.trim() === '-') {
+        current = '';
+        terms.push(OPEN_NEGATED_GROUP);
+      } else {
+        flush();
+        terms.push(OPEN_GROUP);
       }
-      current = '';
+    } else if (char === ')') {
+      flush();
+      terms.push(CLOSE_GROUP);
     } else {
       current += char;
     }
   }
 
-  if (current.trim()) {
-    terms.push(current.trim());
-  }
+  flush();
 
   return terms;
 }
@@ -296,6 +502,16 @@ function looksLikeIsoDateTime(value) {
   return typeof value === 'string' && ISO_DATE_RE.test(value);
 }
 
+/**
+ * Escape LIKE metacharacters so `%`, `_` and `\` in a search value match
+ * literally. Paired with `ESCAPE '\'` on every LIKE clause below.
+ * @param {string} value
+ * @returns {string}
+ */
+function escapeLike(value) {
+  return String(value).replace(/[\\%_]/g, '\\$&');
+}
+
 /**
  * Convert a single token to a SQL condition
  * @param {Object} token - Parsed token
@@ -312,6 +528,22 @@ function tokenToSqlCondition(token, searchableFields) {
   }
 
   switch (type) {
+    // Groups — children that produce no clause are dropped from the group
+    case TokenType.AND:
+    case TokenType.OR: {
+      const { whereClauses, params } = tokensToSqlConditions(value, searchableFields);
+      if (whereClauses.length === 0) {
+        return { clause: null, tokenParams: [] };
+      }
+      const joined = whereClauses.map(c => `(${c})`).join(type === TokenType.OR ? ' OR ' : ' AND ');
+      // COALESCE treats a NULL comparison as false before negating, matching
+      // tokensToJsFilter; a bare NOT NULL would exclude the row.
+      return {
+        clause: token.negated ? `NOT COALESCE((${joined}), 0)` : `(${joined})`,
+        tokenParams: params
+      };
+    }
+
     // Full-text search types — search all string values at any depth using json_tree()
     case TokenType.FULL_TEXT: {
       return {
@@ -322,22 +554,22 @@ function tokenToSqlCondition(token, searchableFields) {
 
     case TokenType.FULL_TEXT_CONTAINS: {
       return {
-        clause: `EXISTS (SELECT 1 FROM json_tree(data) WHERE type = 'text' AND LOWER(value) LIKE LOWER(?))`,
-        tokenParams: [`%${value}%`]
+        clause: `EXISTS (SELECT 1 FROM json_tree(data) WHERE type = 'text' AND LOWER(value) LIKE LOWER(?) ESCAPE '\\')`,
+        tokenParams: [`%${escapeLike(value)}%`]
       };
     }
 
     case TokenType.FULL_TEXT_STARTS_WITH: {
       return {
-        clause: `EXISTS (SELECT 1 FROM json_tree(data) WHERE type = 'text' AND LOWER(value) LIKE LOWER(?))`,
-        tokenParams: [`${value}%`]
+        clause: `EXISTS (SELECT 1 FROM json_tree(data) WHERE type = 'text' AND LOWER(value) LIKE LOWER(?) ESCAPE '\\')`,
+        tokenParams: [`${escapeLike(value)}%`]
       };
     }
 
     case TokenType.FULL_TEXT_ENDS_WITH: {
       return {
-        clause: `EXISTS (SELECT 1 FROM json_tree(data) WHERE type = 'text' AND LOWER(value) LIKE LOWER(?))`,
-        tokenParams: [`%${value}`]
+        clause: `EXISTS (SELECT 1 FROM json_tree(data) WHERE type = 'text' AND LOWER(value) LIKE LOWER(?) ESCAPE '\\')`,
+        tokenParams: [`%${escapeLike(value)}`]
       };
     }
 
@@ -353,24 +585,24 @@ function tokenToSqlCondition(token, searchableFields) {
     case TokenType.CONTAINS: {
       const jsonPath = fieldToJsonPath(field);
       return {
-        clause: `LOWER(COALESCE(json_extract(data, '${jsonPath}'), '')) LIKE LOWER(?)`,
-        tokenParams: [`%${value}%`]
+        clause: `LOWER(COALESCE(json_extract(data, '${jsonPath}'), '')) LIKE LOWER(?) ESCAPE '\\'`,
+        tokenParams: [`%${escapeLike(value)}%`]
       };
     }
 
     case TokenType.STARTS_WITH: {
       const jsonPath = fieldToJsonPath(field);
       return {
-        clause: `LOWER(COALESCE(json_extract(data, '${jsonPath}'), '')) LIKE LOWER(?)`,
-        tokenParams: [`${value}%`]
+        clause: `LOWER(COALESCE(json_extract(data, '${jsonPath}'), '')) LIKE LOWER(?) ESCAPE '\\'`,
+        tokenParams: [`${escapeLike(value)}%`]
       };
     }
 
     case TokenType.ENDS_WITH: {
       const jsonPath = fieldToJsonPath(field);
       return {
-        clause: `LOWER(COALESCE(json_extract(data, '${jsonPath}'), '')) LIKE LOWER(?)`,
-        tokenParams: [`%${value}`]
+        clause: `LOWER(COALESCE(json_extract(data, '${jsonPath}'), '')) LIKE LOWER(?) ESCAPE '\\'`,
+        tokenParams: [`%${escapeLike(value)}`]
       };
     }
 
@@ -546,6 +778,13 @@ function fullTextMatches(type, str, value) {
 function tokenMatchesItem(token, item) {
   const { type, field, value } = token;
 
+  if (type === TokenType.AND || type === TokenType.OR) {
+    const matches = type === TokenType.OR
+      ? value.some(child => tokenMatchesItem(child, item))
+      : value.every(child => tokenMatchesItem(child, item));
+    return token.negated ? !matches : matches;
+  }
+
   // Full-text types: scan all string values at any depth
   const fullTextTypes = [
     TokenType.FULL_TEXT, TokenType.FULL_TEXT_CONTAINS,
@@ -611,7 +850,8 @@ function tokenMatchesItem(token, item) {
 
 /**
  * Build a JS predicate from a parsed token array.
- * The predicate returns true when the item satisfies ALL tokens (AND semantics).
+ * The predicate returns true when the item satisfies ALL tokens (AND semantics);
+ * group tokens are evaluated recursively.
  *
  * @param {Array} tokens - From parseQueryString
  * @returns {(item: Object) => boolean}
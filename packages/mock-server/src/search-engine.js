@@ -13,7 +13,9 @@
  *   q=-field:value              # Exclude/negate
  *   q=field:*                   # Field exists
  *   q=term1 term2               # Multiple conditions (AND)
+ *   q=(a b) OR c                # Groups and OR
  *   q=field.nested:value        # Nested field (dot notation)
+ *   q=createdAt:>=$now-30d      # Relative time, resolved per request
  */
 
 import { parseQueryString, tokensToSqlConditions, tokensToJsFilter, getNestedValue } from './query-parser.js';
@@ -238,6 +238,241 @@ function runTests() {
     assertEqual(result[1].type, TokenType.EXACT);
   });
 
+  // ============================================================
+  // Quoting and escaping
+  // ============================================================
+  console.log('\n--- Quoting and escaping ---\n');
+
+  test('quoted value keeps spaces, commas and hyphens literal', () => {
+    const result = parseQueryString('name:"Mary-Kate O\'Neil, Jr." status:active');
+    assertEqual(result.length, 2);
+    assertEqual(result[0].type, TokenType.EXACT);
+    assertEqual(result[0].value, "Mary-Kate O'Neil, Jr.");
+  });
+
+  test('apostrophes are not quote characters', () => {
+    const result = parseQueryString("name:O'Neil status:active");
+    assertEqual(result.length, 2);
+    assertEqual(result[0].value, "O'Neil");
+  });
+
+  test('quoted asterisks are not wildcards', () => {
+    const result = parseTerm('email:"a*b"');
+    assertEqual(result.type, TokenType.EXACT);
+    assertEqual(result.value, 'a*b');
+  });
+
+  test('wildcards outside quotes wrap a literal value', () => {
+    const result = parseTerm('email:*"a*b"*');
+    assertEqual(result.type, TokenType.CONTAINS);
+    assertEqual(result.value, 'a*b');
+  });
+
+  test('quoted "*" is an exact match, not an existence check', () => {
+    const result = parseTerm('flag:"*"');
+    assertEqual(result.type, TokenType.EXACT);
+    assertEqual(result.value, '*');
+  });
+
+  test('quoted leading hyphen does not negate', () => {
+    const result = parseTerm('"-john"');
+    assertEqual(result.type, TokenType.FULL_TEXT);
+    assertEqual(result.value, '-john');
+  });
+
+  test('quoted comparison symbol is part of the value', () => {
+    const result = parseTerm('note:">5"');
+    assertEqual(result.type, TokenType.EXACT);
+    assertEqual(result.value, '>5');
+  });
+
+  test('quoted colon does not start a field', () => {
+    const result = parseTerm('"time:10"');
+    assertEqual(result.type, TokenType.FULL_TEXT);
+    assertEqual(result.value, 'time:10');
+  });
+
+  test('each in value may be quoted', () => {
+    const result = parseTerm('name:"Smith, John",Doe,""');
+    assertEqual(result.type, TokenType.IN);
+    assertEqual(result.value, ['Smith, John', 'Doe', '']);
+  });
+
+  test('backslash escapes quotes and backslashes inside quotes', () => {
+    const result = parseTerm('note:"say \\"hi\\" \\\\ bye"');
+    assertEqual(result.value, 'say "hi" \\ bye');
+  });
+
+  test('backslash escapes a single character outside quotes', () => {
+    const result = parseQueryString('tag:a\\,b\\ c');
+    assertEqual(result.length, 1);
+    assertEqual(result[0].type, TokenType.EXACT);
+    assertEqual(result[0].value, 'a,b c');
+  });
+
+  test('LIKE metacharacters in contains values are escaped', () => {
+    const { whereClauses, params } = tokensToSqlConditions(parseQueryString('note:*100%_\\\\*'), []);
+    assertEqual(whereClauses[0].includes("ESCAPE '\\'"), true, 'clause should declare an escape character');
+    assertEqual(params[0], '%100\\%\\_\\\\%');
+  });
+
+  // ============================================================
+  // Groups and OR
+  // ============================================================
+  console.log('\n--- Groups and OR ---\n');
+
+  test('OR between two terms yields an or group', () => {
+    const result = parseQueryString('status:pending OR assignedTo:me');
+    assertEqual(result.length, 1);
+    assertEqual(result[0].type, TokenType.OR);
+    assertEqual(result[0].value.map(t => t.field), ['status', 'assignedTo']);
+    assertEqual(result[0].negated, false);
+  });
+
+  test('AND binds tighter than OR', () => {
+    const result = parseQueryString('status:pending priority:high OR assignedTo:me');
+    assertEqual(result.length, 1);
+    assertEqual(result[0].type, TokenType.OR);
+    assertEqual(result[0].value[0].type, TokenType.AND);
+    assertEqual(result[0].value[0].value.map(t => t.field), ['status', 'priority']);
+    assertEqual(result[0].value[1].field, 'assignedTo');
+  });
+
+  test('parentheses override precedence', () => {
+    const result = parseQueryString('status:pending (priority:high OR assignedTo:me)');
+    assertEqual(result.length, 2);
+    assertEqual(result[0].type, TokenType.EXACT);
+    assertEqual(result[1].type, TokenType.OR);
+    assertEqual(result[1].value.map(t => t.field), ['priority', 'assignedTo']);
+  });
+
+  test('explicit AND is the same as a space', () => {
+    assertEqual(
+      parseQueryString('(status:pending AND priority:high) OR assignedTo:me'),
+      parseQueryString('(status:pending priority:high) OR assignedTo:me')
+    );
+  });
+
+  test('top-level and groups are flattened', () => {
+    const result = parseQueryString('(status:pending priority:high) assignedTo:me');
+    assertEqual(result.map(t => t.field), ['status', 'priority', 'assignedTo']);
+  });
+
+  test('nested groups of the same kind are flattened', () => {
+    const result = parseQueryString('a OR (b OR c)');
+    assertEqual(result[0].type, TokenType.OR);
+    assertEqual(result[0].value.map(t => t.value), ['a', 'b', 'c']);
+  });
+
+  test('-( ) negates a group', () => {
+    const result = parseQueryString('-(status:denied OR status:withdrawn)');
+    assertEqual(result.length, 1);
+    assertEqual(result[0].type, TokenType.AND);
+    assertEqual(result[0].negated, true);
+    assertEqual(result[0].value[0].type, TokenType.OR);
+  });
+
+  test('parentheses need no surrounding spaces', () => {
+    assertEqual(parseQueryString('(a OR b)c'), parseQueryString('( a OR b ) c'));
+  });
+
+  test('quoted or lower-case keywords and quoted parentheses are ordinary terms', () => {
+    const result = parseQueryString('"OR" or name:"(x)"');
+    assertEqual(result.map(t => [t.type, t.value]), [
+      [TokenType.FULL_TEXT, 'OR'],
+      [TokenType.FULL_TEXT, 'or'],
+      [TokenType.EXACT, '(x)']
+    ]);
+  });
+
+  test('unbalanced parentheses and dangling keywords are ignored', () => {
+    assertEqual(parseQueryString('(a OR b'), parseQueryString('(a OR b)'));
+    assertEqual(parseQueryString('a) b'), parseQueryString('a b'));
+    assertEqual(parseQueryString('OR a AND'), parseQueryString('a'));
+    assertEqual(parseQueryString('() a'), parseQueryString('a'));
+  });
+
+  test('or group becomes a parenthesised SQL OR', () => {
+    const { whereClauses, params } = tokensToSqlConditions(
+      parseQueryString('(status:pending priority:high) OR assignedTo:me'), []
+    );
+    assertEqual(whereClauses.length, 1);
+    assertEqual(
+      whereClauses[0],
+      "((((json_extract(data, '$.status') = ?) AND (json_extract(data, '$.priority') = ?))) OR (json_extract(data, '$.assignedTo') = ?))"
+    );
+    assertEqual(params, ['pending', 'high', 'me']);
+  });
+
+  test('negated group treats NULL comparisons as false', () => {
+    const { whereClauses } = tokensToSqlConditions(parseQueryString('-(status:denied)'), []);
+    assertEqual(whereClauses[0], "NOT COALESCE(((json_extract(data, '$.status') = ?)), 0)");
+  });
+
+  test('fields outside the allowlist are dropped from groups', () => {
+    const { whereClauses, params } = tokensToSqlConditions(
+      parseQueryString('status:pending OR secret:x'), ['status']
+    );
+    assertEqual(whereClauses, ["((json_extract(data, '$.status') = ?))"]);
+    assertEqual(params, ['pending']);
+    assertEqual(tokensToSqlConditions(parseQueryString('(secret:x OR other:y)'), ['status']).whereClauses, []);
+  });
+
+  // ============================================================
+  // Relative time tokens
+  // ============================================================
+  console.log('\n--- Relative time tokens ---\n');
+
+  const NOW = new Date('2024-06-15T12:00:00.000Z');
+
+  test('resolves $now in comparisons', () => {
+    assertEqual(parseTerm('dueDate:<$now', NOW), {
+      type: TokenType.LESS_THAN, field: 'dueDate', value: '2024-06-15T12:00:00.000Z'
+    });
+    assertEqual(parseTerm('createdAt:>=$now-30d', NOW).value, '2024-05-16T12:00:00.000Z');
+    assertEqual(parseTerm('dueDate:<=$now+2d', NOW).value, '2024-06-17T12:00:00.000Z');
+  });
+
+  test('resolves $now with a time of day', () => {
+    const expected = new Date(NOW);
+    expected.setDate(expected.getDate() + 1);
+    expected.setHours(9, 30, 0, 0);
+    assertEqual(parseTerm('dueDate:>$now+1d@09:30', NOW).value, expected.toISOString());
+  });
+
+  test('resolves $now in exact and negated terms', () => {
+    assertEqual(parseTerm('reviewedAt:$now', NOW).value, '2024-06-15T12:00:00.000Z');
+    const token = parseTerm('-reviewedAt:$now-1h', NOW);
+    assertEqual(token.type, TokenType.NOT_EQUAL);
+    assertEqual(token.value, '2024-06-15T11:00:00.000Z');
+  });
+
+  test('quoted or escaped $now stays literal', () => {
+    assertEqual(parseTerm('note:"$now"', NOW).value, '$now');
+    assertEqual(parseTerm('note:\\$now-1d', NOW).value, '$now-1d');
+  });
+
+  test('malformed $now token stays literal', () => {
+    assertEqual(parseTerm('dueDate:<$now+2x', NOW).value, '$now+2x');
+  });
+
+  test('wildcard and in-list values are not resolved', () => {
+    assertEqual(parseTerm('note:$now*', NOW).value, '$now');
+    assertEqual(parseTerm('note:$now,later', NOW).value, ['$now', 'later']);
+  });
+
+  test('all tokens in a query share one instant, including inside groups', () => {
+    const tokens = parseQueryString('createdAt:>=$now-7d (dueDate:<$now OR status:open)', NOW);
+    assertEqual(tokens[0].value, '2024-06-08T12:00:00.000Z');
+    assertEqual(tokens[1].value[0].value, '2024-06-15T12:00:00.000Z');
+  });
+
+  test('resolved tokens compare as ISO dates in SQL', () => {
+    const { whereClauses, params } = tokensToSqlConditions(parseQueryString('dueDate:<$now', NOW), []);
+    assertEqual(whereClauses, ["json_extract(data, '$.dueDate') < ?"]);
+    assertEqual(params, ['2024-06-15T12:00:00.000Z']);
+  });
+
   // ============================================================
   // tokensToSqlConditions tests
   // ============================================================
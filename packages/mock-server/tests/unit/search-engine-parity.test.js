@@ -72,13 +72,13 @@ function sortedIds(items) {
  * Run a query through both pipelines and assert the resulting IDs match.
  * searchableFields defaults to [] (no restriction) to match what compositions use.
  */
-function parity(label, queryParams, searchableFields = []) {
+function parity(label, queryParams, searchableFields = [], records = RECORDS) {
   test(label, () => {
-    const db = makeDb(RECORDS);
+    const db = makeDb(records);
     const sqlResult = executeSearch(db, queryParams, searchableFields, { limit: 100 });
     assert.ok(!sqlResult.error, `SQL error: ${JSON.stringify(sqlResult.error)}`);
 
-    const jsFiltered = filterItems(RECORDS, queryParams);
+    const jsFiltered = filterItems(records, queryParams);
 
     assert.deepStrictEqual(
       sortedIds(sqlResult.items),
@@ -131,6 +131,61 @@ describe('parity — q= full-text', () => {
   parity('full-text match on name field value', { q: 'carol' });
 });
 
+describe('parity — q= OR and groups', () => {
+  parity('OR across fields', { q: 'status:pending OR city:Denver' });
+  parity('AND binds tighter than OR', { q: 'status:active age:>=30 OR city:Austin' });
+  parity('explicit AND inside a group', { q: '(status:active AND age:<35) OR status:pending' });
+  parity('group ANDed with a term', { q: 'city:Denver (age:>35 OR name:*ali*)' });
+  parity('nested groups', { q: '(status:active (programs:tanf,medicaid OR age:<29)) OR -status:*' });
+  parity('negated group — absent-field items included', { q: '-(status:active OR city:Austin)' });
+  parity('negated group over a range on an absent field', { q: '-(age:>0)' });
+  parity('OR of full-text terms', { q: 'alice OR bob' });
+});
+
+describe('parity — q= quoted and escaped values', () => {
+  // Values full of query syntax and LIKE metacharacters must match literally.
+  const ESCAPE_RECORDS = [
+    { id: 'e1', name: "Mary-Kate O'Neil, Jr.", email: 'x*y@example.com', note: '100% done_now', createdAt: '2024-02-01T00:00:00Z' },
+    { id: 'e2', name: 'Mary', email: 'xy@example.com', note: '100 percent done now', createdAt: '2024-02-02T00:00:00Z' },
+  ];
+  const escapeParity = (label, q) => {
+    parity(label, { q }, [], ESCAPE_RECORDS);
+    test(`${label} — matches only e1`, () => {
+      assert.deepStrictEqual(sortedIds(filterItems(ESCAPE_RECORDS, { q })), ['e1']);
+    });
+  };
+
+  escapeParity('quoted value with spaces, comma, apostrophe and hyphen', 'name:"Mary-Kate O\'Neil, Jr."');
+  escapeParity('quoted * inside contains', 'email:*"*"*');
+  escapeParity('% is not a LIKE wildcard', 'note:*%*');
+  escapeParity('_ is not a LIKE wildcard', 'note:*_*');
+  escapeParity('backslash-escaped comma stays in the value', "name:*O'Neil\\,*");
+  parity('quoted values inside an in list', { q: 'name:"Mary-Kate O\'Neil, Jr.",Mary' }, [], ESCAPE_RECORDS);
+});
+
+describe('parity — q= relative time tokens', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const daysFromNow = (days) => new Date(Date.now() + days * DAY).toISOString();
+  const DATE_RECORDS = [
+    { id: 'd1', dueDate: daysFromNow(-40), createdAt: daysFromNow(-40) },
+    { id: 'd2', dueDate: daysFromNow(-3), createdAt: daysFromNow(-10) },
+    { id: 'd3', dueDate: daysFromNow(1), createdAt: daysFromNow(-1) },
+    { id: 'd4', dueDate: daysFromNow(5), createdAt: daysFromNow(-1) },
+    { id: 'd5', createdAt: daysFromNow(-2) },
+  ];
+  const timeParity = (label, q, expected) => {
+    parity(label, { q }, [], DATE_RECORDS);
+    test(`${label} — matches ${expected.join(', ')}`, () => {
+      assert.deepStrictEqual(sortedIds(filterItems(DATE_RECORDS, { q })), expected);
+    });
+  };
+
+  timeParity('overdue', 'dueDate:<$now', ['d1', 'd2']);
+  timeParity('created within the last 30 days', 'createdAt:>=$now-30d createdAt:<=$now', ['d2', 'd3', 'd4', 'd5']);
+  timeParity('due within the next 2 days', 'dueDate:>=$now dueDate:<=$now+2d', ['d3']);
+  timeParity('relative tokens inside a group', '(dueDate:<$now-1w OR dueDate:>$now+2d)', ['d1', 'd4']);
+});
+
 // ---------------------------------------------------------------------------
 // Plain field=value params
 // ---------------------------------------------------------------------------